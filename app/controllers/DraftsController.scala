@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package controllers
+
+import com.debiki.core._
+import debiki.{JsonUtils, RateLimits}
+import debiki.EdHttp._
+import debiki.JsX.JsDraft
+import ed.server.{EdContext, EdController}
+import javax.inject.Inject
+import play.api.libs.json._
+import play.api.mvc.{Action, ControllerComponents}
+import DraftsController._
+
+
+/** Saves text people are composing, so it won't get lost if the browser crashes,
+  * and so they can continue on another device. See Draft.
+  */
+class DraftsController @Inject()(cc: ControllerComponents, edContext: EdContext)
+  extends EdController(cc, edContext) {
+
+  import context.globals
+
+
+  def upsertDraft: Action[JsValue] = PostJsonAction(RateLimits.DraftSomething,
+        maxBytes = MaxPostSize) { request =>
+    import request.{body, dao}
+
+    val forWhatJson = JsonUtils.readJsObject(body, "forWhat")
+    val locator = makeDraftLocator(
+      draftTypeInt = JsonUtils.readInt(forWhatJson, "draftType"),
+      categoryId = JsonUtils.readOptInt(forWhatJson, "categoryId"),
+      toUserId = JsonUtils.readOptInt(forWhatJson, "toUserId"),
+      postId = JsonUtils.readOptInt(forWhatJson, "postId"),
+      pageId = JsonUtils.readOptString(forWhatJson, "pageId"),
+      postNr = JsonUtils.readOptInt(forWhatJson, "postNr"),
+      replyToPostNrs = (forWhatJson \ "replyToPostNrs").asOpt[Vector[PostNr]] getOrElse Vector.empty)
+
+    val topicType = JsonUtils.readOptInt(body, "topicType") map { typeInt =>
+      PageRole.fromInt(typeInt) getOrElse throwBadArgument("TyE5KWBU22", "topicType")
+    }
+
+    // Check here, so Draft.require() won't fail with a 500 Internal Error.
+    val draftNr = JsonUtils.readOptInt(body, "draftNr") getOrElse NoDraftNr
+    throwBadRequestIf(draftNr < 1 && draftNr != NoDraftNr, "TyE5KWBU31", s"Bad draft nr: $draftNr")
+
+    val title = JsonUtils.readOptString(body, "title") getOrElse ""
+    throwBadRequestIf(title.nonEmpty && locator.draftType != DraftType.Topic &&
+      locator.draftType != DraftType.DirectMessage,
+      "TyE5KWBU32", "Only drafts for new topics and direct messages have titles")
+
+    val editBase = (body \ "editBase").asOpt[JsObject] map { baseJson =>
+      throwBadRequestIf(locator.draftType != DraftType.Edit,
+        "TyE5KWBU33", "Only edit drafts have an edit base")
+      val versionJson = JsonUtils.readJsObject(baseJson, "version")
+      DraftEditBase(
+        text = JsonUtils.readString(baseJson, "text"),
+        version = PostTextVersion(
+          JsonUtils.readInt(versionJson, "revisionNr"),
+          JsonUtils.readOptLong(versionJson, "lastEditedAtMs")))
+    }
+
+    val now = globals.now()
+    val draft = Draft(
+      byUserId = request.theUserId,
+      draftNr = draftNr,
+      forWhat = locator,
+      createdAt = now,
+      lastEditedAt = Some(now),
+      topicType = if (locator.draftType == DraftType.Topic) topicType else None,
+      editBase = editBase,
+      title = title,
+      text = JsonUtils.readString(body, "text"))
+
+    val draftSaved = dao.upsertDraft(draft)
+    OkSafeJson(JsDraft(draftSaved))
+  }
+
+
+  def deleteDrafts: Action[JsValue] = PostJsonAction(RateLimits.DraftSomething,
+        maxBytes = 1000) { request =>
+    val draftNrs = (request.body \ "draftNrs").as[Seq[DraftNr]]
+    request.dao.deleteDrafts(request.theUserId, draftNrs)
+    Ok
+  }
+
+
+  /** Drafts are private — one can list only one's own drafts.
+    */
+  def listDrafts(userId: UserId): Action[Unit] = GetAction { request =>
+    throwForbiddenIf(request.user.forall(_.id != userId),
+      "TyE5KWBU24", "May list only your own drafts")
+    val drafts = request.dao.listDraftsRecentlyEditedFirst(userId, limit = MaxDraftsToList)
+    OkSafeJson(Json.obj(
+      "drafts" -> JsArray(drafts map JsDraft)))
+  }
+
+}
+
+
+object DraftsController {
+
+  val MaxDraftsToList = 100
+
+  /** Throws Bad Request, instead of DraftLocator throwing IllegalArgumentException,
+    * if the browser sends a bad locator.
+    */
+  def makeDraftLocator(draftTypeInt: Int, categoryId: Option[CategoryId],
+        toUserId: Option[UserId], postId: Option[PostId], pageId: Option[PageId],
+        postNr: Option[PostNr], replyToPostNrs: Vector[PostNr]): DraftLocator = {
+    val draftType = DraftType.fromInt(draftTypeInt) getOrElse throwBadArgument(
+      "TyE5KWBU25", "draftType")
+    // Ignore fields that don't apply to this draft type — e.g. the category id,
+    // when replying, is sent just so the correct guidelines will get loaded.
+    draftType match {
+      case DraftType.Topic =>
+        DraftLocator(draftType, categoryId = categoryId)
+      case DraftType.DirectMessage =>
+        DraftLocator(draftType, toUserId = Some(toUserId getOrElse throwBadArgument(
+          "TyE5KWBU26", "toUserId")))
+      case DraftType.Edit =>
+        DraftLocator(draftType, postId = Some(postId getOrElse throwBadArgument(
+          "TyE5KWBU27", "postId")), pageId = pageId, postNr = postNr)
+      case DraftType.Reply =>
+        throwBadRequestIf(replyToPostNrs.isEmpty, "TyE5KWBU28", "No reply-to post nrs")
+        DraftLocator(draftType, pageId = Some(pageId getOrElse throwBadArgument(
+          "TyE5KWBU29", "pageId")), replyToPostNrs = replyToPostNrs)
+    }
+  }
+
+}
@@ -21,7 +21,7 @@ import com.debiki.core._
 import com.debiki.core.Prelude._
 import debiki._
 import debiki.EdHttp._
-import debiki.JsX.JsStringOrNull
+import debiki.JsX.{JsDateMsOrNull, JsStringOrNull}
 import ed.server.http._
 import ed.server.{EdContext, EdController}
 import ed.server.auth.Authz
@@ -40,16 +40,43 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
   import context.security.{throwNoUnless, throwIndistinguishableNotFound}
   def execCtx: ExecutionContext = context.executionContext
 
-  def loadDraftAndGuidelines(writingWhat: String, categoryId: Option[Int], pageRole: String)
+  /** Loads any drafts for the thing being written — e.g. a reply to some post, or
+    * an edit of a post — so the editor can restore them. And guidelines about
+    * what to write, if `writingWhat` is specified (not needed for edits).
+    */
+  def loadDraftAndGuidelines(writingWhat: Option[String], draftType: Option[Int],
+        categoryId: Option[Int], toUserId: Option[Int], postId: Option[Int],
+        pageId: Option[String], postNrs: Option[String], pageRole: Option[String])
         : Action[Unit] = GetAction { request =>
+    import request.dao
+
+    val anyDraftLocator = draftType map { draftTypeInt =>
+      val replyToPostNrs: Vector[PostNr] = postNrs.toVector.flatMap(_.split(',')) map { nrString =>
+        nrString.toIntOption getOrElse throwBadArgument("TyE5KWBU30", "postNrs")
+      }
+      DraftsController.makeDraftLocator(draftTypeInt, categoryId = categoryId,
+        toUserId = toUserId, postId = postId, pageId = pageId, postNr = None,
+        replyToPostNrs = replyToPostNrs)
+    }
+
+    val drafts: Seq[Draft] = (for {
+      locator <- anyDraftLocator
+      user <- request.user
+    } yield {
+      dao.loadDraftsByLocator(user.id, locator)
+    }) getOrElse Nil
 
-    val writeWhat = writingWhat.toIntOption.flatMap(WriteWhat.fromInt) getOrElse throwBadArgument(
-      "DwE4P6CK0", "writingWhat")
+    val anyWriteWhat = writingWhat map { whatString =>
+      whatString.toIntOption.flatMap(WriteWhat.fromInt) getOrElse throwBadArgument(
+        "DwE4P6CK0", "writingWhat")
+    }
 
-    val thePageRole = pageRole.toIntOption.flatMap(PageRole.fromInt) getOrElse throwBadArgument(
-      "DwE6PYK8", "pageRole")
+    val thePageRole = pageRole.flatMap(_.toIntOption).flatMap(PageRole.fromInt) getOrElse {
+      if (anyWriteWhat.isDefined) throwBadArgument("DwE6PYK8", "pageRole")
+      PageRole.Discussion
+    }
 
-    val guidelinesSafeHtml = writeWhat match {
+    val guidelinesSafeHtml = anyWriteWhat flatMap {
       case WriteWhat.ChatComment =>
         Some(ChatCommentGuidelines)
       case WriteWhat.Reply =>
@@ -74,6 +101,7 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
     }
 
     OkSafeJson(Json.obj(
+      "drafts" -> JsArray(drafts map JsX.JsDraft),
       "guidelinesSafeHtml" -> JsStringOrNull(guidelinesSafeHtml)))
   }
 
@@ -97,7 +125,8 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
     OkSafeJson(Json.obj(
       "postUid" -> post.id,
       "currentText" -> post.currentSource,
-      "currentRevisionNr" -> post.currentRevisionNr))
+      "currentRevisionNr" -> post.currentRevisionNr,
+      "currentRevLastEditedAtMs" -> JsDateMsOrNull(post.currentRevLastEditedAt)))
   }
 
 
@@ -109,6 +138,11 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
     val pageId = (request.body \ "pageId").as[PageId]
     val postNr = (request.body \ "postNr").as[PostNr] ; SHOULD // change to id, in case moved to other page [idnotnr]
     val newText = (request.body \ "text").as[String]
+    // The version the editor started with, so we can reject the edits, if someone else
+    // has edited the post since then. [5KWB2EC]
+    val baseVersion = JsonUtils.readOptInt(request.body, "baseRevisionNr") map { revisionNr =>
+      PostTextVersion(revisionNr, JsonUtils.readOptLong(request.body, "baseRevLastEditedAtMs"))
+    }
 
     if (postNr == PageParts.TitleNr)
       throwForbidden("DwE5KEWF4", "Edit the title via /-/edit-title-save-settings instead")
@@ -138,7 +172,7 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
       followLinks = postNr == PageParts.BodyNr && pageMeta.pageRole.shallFollowLinks)
 
     request.dao.editPostIfAuth(pageId = pageId, postNr = postNr, request.who,
-      request.spamRelatedStuff, newTextAndHtml)
+      request.spamRelatedStuff, newTextAndHtml, baseVersion = baseVersion)
 
     OkSafeJson(dao.jsonMaker.postToJson2(postNr = postNr, pageId = pageId,
       includeUnapproved = true))
@@ -219,6 +253,27 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
   }
 
 
+  /** Undoes deletePost, e.g. if a moderator clicked Delete by mistake. [UNDELPOST]
+    */
+  def undeletePost: Action[JsValue] = PostJsonAction(RateLimits.DeletePost, maxBytes = 5000) { request =>
+    import request.dao
+    val pageId = (request.body \ "pageId").as[PageId]
+    val postNr = (request.body \ "postNr").as[PostNr]
+    val repliesToo = (request.body \ "repliesToo").asOpt[Boolean] getOrElse false
+
+    val action =
+      if (repliesToo) PostStatusAction.UndeleteTree
+      else PostStatusAction.UndeletePost
+
+    dao.changePostStatus(postNr, pageId = pageId, action, userId = request.theUserId)
+
+    OkSafeJson(Json.obj(
+      "undeletedPost" ->
+        dao.jsonMaker.postToJson2(
+          postNr = postNr, pageId = pageId, includeUnapproved = request.theUser.isStaff)))
+  }
+
+
   def movePost: Action[JsValue] = StaffPostJsonAction(maxBytes = 300) { request =>
     val pageId = (request.body \ "pageId").as[PageId]   // apparently not used
     val postId = (request.body \ "postId").as[PostId]   // id not nr
@@ -255,6 +310,9 @@ class EditController @Inject()(cc: ControllerComponents, edContext: EdContext)
 
 object EditController {
 
+  /** The browser looks for this, and then merges the edits. [5KWB2EC] */
+  val EditConflictErrorCode = "TyEEDITCONFL"
+
   val EmptyPostErrorMessage =
     o"""Cannot save empty posts. If you want to delete this post, please use
         the buttons below the post."""
@@ -368,6 +368,7 @@ object ForumController {
       "categoryId" -> JsNumberOrNull(topic.categoryId),
       "pinOrder" -> JsNumberOrNull(topic.meta.pinOrder),
       "pinWhere" -> JsNumberOrNull(topic.meta.pinWhere.map(_.toInt)),
+      "scheduledPublishAtMs" -> JsWhenMsOrNull(topic.meta.scheduledPublishAt),
       "excerpt" -> JsStringOrNull(topicStuff.bodyExcerpt),
       "firstImageUrls" -> JsArray(topicStuff.bodyImageUrls.map(JsString)),
       "popularRepliesImageUrls" -> JsArray(topicStuff.popularRepliesImageUrls.map(JsString)),
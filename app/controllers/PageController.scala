@@ -54,6 +54,7 @@ class PageController @Inject()(cc: ControllerComponents, edContext: EdContext)
     val titleText = (body \ "pageTitle").as[String]
     val bodyText = (body \ "pageBody").as[String]
     val showId = (body \ "showId").asOpt[Boolean].getOrElse(true)
+    val scheduledPublishAt = (body \ "scheduledPublishAtMs").asOpt[Long].map(When.fromMillis)
 
     val bodyTextAndHtml = dao.textAndHtmlMaker.forBodyOrComment(bodyText,
       allowClassIdDataAttrs = true, followLinks = pageRole.shallFollowLinks)
@@ -65,6 +66,7 @@ class PageController @Inject()(cc: ControllerComponents, edContext: EdContext)
       throwForbiddenIf(!showId, "TyE2PKDQC", "Only staff may hide page id")
       throwForbiddenIf(anyFolder.isDefined, "TyE4GHW2", "Only staff may specify folder")
       throwForbiddenIf(pageRole.isSection, "TyE6LUMR2", "Only staff may create new site sections")
+      throwForbiddenIf(scheduledPublishAt.isDefined, "TyE5SCHPUB05", "Only staff may schedule pages")
     }
 
     // COULD make the Dao transaction like, and run this inside the transaction. [transaction]
@@ -84,7 +86,8 @@ class PageController @Inject()(cc: ControllerComponents, edContext: EdContext)
       "EdE5KW20A")
 
     val pagePath = dao.createPage(pageRole, pageStatus, anyCategoryId, anyFolder,
-      anySlug, titleTextAndHtml, bodyTextAndHtml, showId, request.who, request.spamRelatedStuff)
+      anySlug, titleTextAndHtml, bodyTextAndHtml, showId, request.who, request.spamRelatedStuff,
+      scheduledPublishAt = scheduledPublishAt)
 
     OkSafeJson(Json.obj("newPageId" -> pagePath.pageId.getOrDie("DwE8GIK9")))
   }
@@ -114,6 +117,21 @@ class PageController @Inject()(cc: ControllerComponents, edContext: EdContext)
   }
 
 
+  def reschedulePage: Action[JsValue] = StaffPostJsonAction(maxBytes = 1000) { request =>
+    val pageId = (request.body \ "pageId").as[PageId]
+    val publishAt = When.fromMillis((request.body \ "publishAtMs").as[Long])
+    request.dao.reschedulePage(pageId, publishAt)
+    Ok
+  }
+
+
+  def publishPageNow: Action[JsValue] = StaffPostJsonAction(maxBytes = 1000) { request =>
+    val pageId = (request.body \ "pageId").as[PageId]
+    request.dao.publishScheduledPage(pageId)
+    Ok
+  }
+
+
   def acceptAnswer: Action[JsValue] = PostJsonAction(RateLimits.TogglePage, maxBytes = 100) {
         request =>
     val pageId = (request.body \ "pageId").as[PageId]
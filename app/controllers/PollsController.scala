@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package controllers
+
+import com.debiki.core._
+import debiki.{JsonUtils, RateLimits}
+import debiki.EdHttp._
+import debiki.JsX.{JsPoll, JsUser}
+import debiki.dao.SiteDao
+import ed.server.{EdContext, EdController}
+import ed.server.auth.Authz
+import javax.inject.Inject
+import play.api.libs.json._
+import play.api.mvc.{Action, ControllerComponents}
+
+
+/** Votes in polls, and loads poll results. The polls themselves get created
+  * together with the poll post, see ReplyController and PollsController.parsePoll.
+  */
+class PollsController @Inject()(cc: ControllerComponents, edContext: EdContext)
+  extends EdController(cc, edContext) {
+
+  import context.globals
+  import context.security.{throwNoUnless, throwIndistinguishableNotFound}
+
+
+  /** Example post data:
+    *   postId: 123
+    *   optionNrs: [1, 3]  # or [] to retract one's votes
+    */
+  def voteInPoll: Action[JsValue] = PostJsonAction(RateLimits.VoteInPoll, maxBytes = 500) {
+        request =>
+    import request.{body, dao, theRequester => requester}
+    val postId = JsonUtils.readInt(body, "postId")
+    val optionNrs = (body \ "optionNrs").as[Set[Int]]
+
+    throwForbiddenIf(requester.isGroup, "TyE5WKBP30", "Groups may not vote")
+    throwIfMayNotSeePost(postId, request.user, dao)
+
+    val results = dao.voteInPoll(postId, optionNrs, voterId = requester.id)
+    OkSafeJson(Json.obj(
+      "poll" -> JsPoll(results, showResults = results.poll.showResults(
+        globals.now(), hasVoted = optionNrs.nonEmpty)),
+      "myVotes" -> optionNrs.toSeq.sorted))
+  }
+
+
+  /** Includes the vote counts, if the requester may see them — e.g. if hen has voted,
+    * and the results are shown only after having voted.
+    */
+  def loadPoll(postId: PostId): Action[Unit] = GetAction { request =>
+    import request.dao
+    throwIfMayNotSeePost(postId, request.user, dao)
+    val results = dao.loadPollResults(Vector(postId)).headOption getOrElse throwNotFound(
+      "TyE5WKBP31", s"There's no poll in post $postId")
+    val myVotes = request.user.map(user => dao.loadPollVotesByVoter(postId, user.id)) getOrElse Nil
+    OkSafeJson(Json.obj(
+      "poll" -> JsPoll(results, showResults = results.poll.showResults(
+        globals.now(), hasVoted = myVotes.nonEmpty)),
+      "myVotes" -> myVotes.map(_.optionNr).sorted))
+  }
+
+
+  def loadPollVoters(postId: PostId, optionNr: Int): Action[Unit] = GetAction { request =>
+    import request.dao
+    throwIfMayNotSeePost(postId, request.user, dao)
+    val results = dao.loadPollResults(Vector(postId)).headOption getOrElse throwNotFound(
+      "TyE5WKBP32", s"There's no poll in post $postId")
+    val poll = results.poll
+    throwForbiddenIf(!poll.votersPublic, "TyE5WKBP33", "The voters are anonymous")
+    val hasVoted = request.user.exists(user => dao.loadPollVotesByVoter(postId, user.id).nonEmpty)
+    throwForbiddenIf(!poll.showResults(globals.now(), hasVoted = hasVoted),
+      "TyE5WKBP34", "You may not see the results of this poll, yet")
+    val (numVoters, someVoters) = dao.readOnlyTransaction { tx =>
+      val ids = tx.loadPollVotes(Vector(postId)).filter(_.optionNr == optionNr).map(_.voterId)
+      (ids.size, tx.loadUsers(ids.take(MaxVotersToList)))
+    }
+    OkSafeJson(Json.obj(
+      "numVoters" -> numVoters,
+      "someVoters" -> JsArray(someVoters map JsUser)))
+  }
+
+
+  private val MaxVotersToList = 50
+
+
+  private def throwIfMayNotSeePost(postId: PostId, user: Option[User], dao: SiteDao) {
+    val pageMeta = dao.getPageMetaForPostId(postId) getOrElse throwIndistinguishableNotFound(
+      "TyE5WKBP35")
+    val categoriesRootLast = dao.loadAncestorCategoriesRootLast(pageMeta.categoryId)
+    throwNoUnless(Authz.maySeePage(
+      pageMeta, user,
+      dao.getGroupIds(user),
+      dao.getAnyPrivateGroupTalkMembers(pageMeta),
+      categoriesRootLast,
+      permissions = dao.getPermsOnPages(categoriesRootLast)),
+      "TyE5WKBP36")
+  }
+
+}
+
+
+object PollsController {
+
+  /** Example json:
+    *   choiceType: 1  # PollChoiceType.Single
+    *   options: ["Apples", "Pears"]
+    *   closesAtMs: 1539000000000  # or null
+    *   votersPublic: false
+    *   resultsVisibility: 1  # PollResultsVisibility.Always
+    *
+    * Only staff may make the voters public, or hide the results until after
+    * having voted or until the poll has closed.
+    */
+  def parsePoll(json: JsValue, isStaff: Boolean, now: When): Poll = {
+    val choiceType = PollChoiceType.fromInt(JsonUtils.readInt(json, "choiceType")) getOrElse {
+      throwBadArgument("TyE5WKBP40", "choiceType")
+    }
+    val optionTexts = (json \ "options").as[Vector[String]].map(_.trim)
+    throwBadRequestIf(optionTexts.length < 2, "TyE5WKBP41", "A poll needs at least two options")
+    throwBadRequestIf(optionTexts.length > Poll.MaxOptions,
+      "TyE5WKBP42", s"At most ${Poll.MaxOptions} poll options")
+    throwBadRequestIf(optionTexts.exists(_.isEmpty), "TyE5WKBP43", "Empty poll option")
+    throwBadRequestIf(optionTexts.exists(_.length > Poll.MaxOptionLength),
+      "TyE5WKBP44", s"Poll options should be at most ${Poll.MaxOptionLength} chars")
+
+    val closesAt = JsonUtils.readOptWhen(json, "closesAtMs")
+    throwBadRequestIf(closesAt.exists(_.millis <= now.millis),
+      "TyE5WKBP45", "The poll close date is in the past")
+
+    val votersPublic = JsonUtils.readOptBool(json, "votersPublic") getOrElse false
+    val resultsVisibility =
+      JsonUtils.readOptInt(json, "resultsVisibility").map(PollResultsVisibility.fromInt) match {
+        case None => PollResultsVisibility.Always
+        case Some(Some(visibility)) => visibility
+        case Some(None) => throwBadArgument("TyE5WKBP46", "resultsVisibility")
+      }
+    // Otherwise the results could never be shown.
+    throwBadRequestIf(resultsVisibility == PollResultsVisibility.AfterClosed && closesAt.isEmpty,
+      "TyE5WKBP48", "Results shown only after the poll has closed, but the poll never closes")
+    throwForbiddenIf(!isStaff && (votersPublic ||
+        resultsVisibility != PollResultsVisibility.Always),
+      "TyE5WKBP47", "Only staff may make the voters public, or hide the results")
+
+    Poll(
+      postId = NoPostId,  // filled in by insertReply()
+      choiceType = choiceType,
+      options = optionTexts.zipWithIndex.map({ case (text, index) =>
+        PollOption(nr = index + 1, text = text)
+      }),
+      closesAt = closesAt,
+      votersPublic = votersPublic,
+      resultsVisibility = resultsVisibility)
+  }
+
+}
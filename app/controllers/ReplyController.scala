@@ -47,6 +47,10 @@ class ReplyController @Inject()(cc: ControllerComponents, edContext: EdContext)
     val text = (body \ "text").as[String].trim
     val postType = PostType.fromInt((body \ "postType").as[Int]) getOrElse throwBadReq(
       "DwE6KG4", "Bad post type")
+    val anyIdempotencyKey = (body \ "idempotencyKey").asOpt[String]
+    val anyPoll = (body \ "poll").asOpt[JsObject] map { pollJson =>
+      PollsController.parsePoll(pollJson, isStaff = requester.isStaff, now = context.globals.now())
+    }
 
     throwBadRequestIf(text.isEmpty, "EdE85FK03", "Empty post")
     throwForbiddenIf(requester.isGroup, "EdE4GKRSR1", "Groups may not reply")
@@ -85,12 +89,15 @@ class ReplyController @Inject()(cc: ControllerComponents, edContext: EdContext)
     // val authzContext = dao.getPageAuthzContext(requester, pageMeta)
     // throwNoUnless(Authz.mayPostReply(authzContext, postType, "EdEZBXK3M2")
 
-    // For now, don't follow links in replies. COULD rel=follow if all authors + editors = trusted.
-    val textAndHtml = dao.textAndHtmlMaker.forBodyOrComment(text, followLinks = false)
-    val result = dao.insertReply(textAndHtml, pageId = pageId, replyToPostNrs,
-      postType, request.who, request.spamRelatedStuff)
+    val patchJson = dao.doOnceOrReuseResponse(requester.id, anyIdempotencyKey) {
+      // For now, don't follow links in replies. COULD rel=follow if all authors + editors = trusted.
+      val textAndHtml = dao.textAndHtmlMaker.forBodyOrComment(text, followLinks = false)
+      val result = dao.insertReply(textAndHtml, pageId = pageId, replyToPostNrs,
+        postType, request.who, request.spamRelatedStuff, anyPoll)
+      result.storePatchJson
+    }
 
-    var patchWithNewPageId: JsObject = result.storePatchJson
+    var patchWithNewPageId: JsObject = patchJson
     if (newPagePath ne null) {
       patchWithNewPageId = patchWithNewPageId + ("newlyCreatedPageId" -> JsString(pageId))
     }
@@ -103,6 +110,7 @@ class ReplyController @Inject()(cc: ControllerComponents, edContext: EdContext)
     import request.{body, dao}
     val pageId = (body \ "pageId").as[PageId]
     val text = (body \ "text").as[String].trim
+    val anyIdempotencyKey = (body \ "idempotencyKey").asOpt[String]
 
     throwBadRequestIf(text.isEmpty, "EsE0WQCB", "Empty chat message")
 
@@ -119,12 +127,15 @@ class ReplyController @Inject()(cc: ControllerComponents, edContext: EdContext)
       permissions = dao.getPermsOnPages(categoriesRootLast)),
       "EdEHDETG4K5")
 
-    // Don't follow links in chat mesages — chats don't work with search engines anyway.
-    val textAndHtml = dao.textAndHtmlMaker.forBodyOrComment(text, followLinks = false)
-    val result = dao.insertChatMessage(
-      textAndHtml, pageId = pageId, request.who, request.spamRelatedStuff)
+    val patchJson = dao.doOnceOrReuseResponse(request.theMember.id, anyIdempotencyKey) {
+      // Don't follow links in chat mesages — chats don't work with search engines anyway.
+      val textAndHtml = dao.textAndHtmlMaker.forBodyOrComment(text, followLinks = false)
+      val result = dao.insertChatMessage(
+        textAndHtml, pageId = pageId, request.who, request.spamRelatedStuff)
+      result.storePatchJson
+    }
 
-    OkSafeJson(result.storePatchJson)
+    OkSafeJson(patchJson)
   }
 
 
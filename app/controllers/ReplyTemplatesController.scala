@@ -0,0 +1,97 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package controllers
+
+import com.debiki.core._
+import debiki.JsonUtils
+import debiki.EdHttp._
+import debiki.JsX.JsReplyTemplate
+import ed.server.{EdContext, EdController}
+import javax.inject.Inject
+import play.api.libs.json._
+import play.api.mvc.{Action, ControllerComponents}
+
+
+/** Saved reply templates, that staff insert from the editor. See ReplyTemplate.
+  */
+class ReplyTemplatesController @Inject()(cc: ControllerComponents, edContext: EdContext)
+  extends EdController(cc, edContext) {
+
+  import context.globals
+
+
+  /** If forEditor, lists only templates for categoryId (and its ancestors), and templates
+    * for all categories — or, if no categoryId, only the latter. That's what the editor
+    * wants. The admin area wants all templates.
+    */
+  def listReplyTemplates(categoryId: Option[Int], forEditor: Option[Boolean]): Action[Unit] =
+        StaffGetAction { request =>
+    val templates =
+      if (forEditor is true) request.dao.listReplyTemplatesForReplyingIn(request.theUser, categoryId)
+      else request.dao.listReplyTemplates(request.theUser)
+    OkSafeJson(Json.obj(
+      "replyTemplates" -> JsArray(templates map JsReplyTemplate)))
+  }
+
+
+  /** Example post data:
+    *   id: 123  # or absent, for new templates
+    *   siteWide: true  # or false, for a personal template
+    *   categoryId: 5  # or null, for all categories
+    *   title: "Please post your logs"
+    *   text: "Hi {{authorName}}, could you post ..."
+    */
+  def upsertReplyTemplate: Action[JsValue] = StaffPostJsonAction(
+        maxBytes = ReplyTemplate.MaxTextLength * 2 + 1000) { request =>
+    import request.{body, dao}
+    val requester = request.theUser
+    val title = JsonUtils.readString(body, "title").trim
+    val text = JsonUtils.readString(body, "text")
+    val categoryId = JsonUtils.readOptInt(body, "categoryId")
+    throwBadRequestIf(title.isEmpty, "TyE5RPLT20", "No title")
+    throwBadRequestIf(title.length > ReplyTemplate.MaxTitleLength,
+      "TyE5RPLT21", s"Title longer than ${ReplyTemplate.MaxTitleLength} chars")
+    throwBadRequestIf(text.trim.isEmpty, "TyE5RPLT22", "No text")
+    throwBadRequestIf(text.length > ReplyTemplate.MaxTextLength,
+      "TyE5RPLT23", s"Text longer than ${ReplyTemplate.MaxTextLength} chars")
+    throwBadRequestIf(categoryId.contains(NoCategoryId), "TyE5RPLT24", "Bad category id")
+
+    val now = globals.now()
+    val template = ReplyTemplate(
+      id = JsonUtils.readOptInt(body, "id") getOrElse NoReplyTemplateId,
+      ownerId = if (JsonUtils.readBoolean(body, "siteWide")) None else Some(requester.id),
+      categoryId = categoryId,
+      title = title,
+      text = text,
+      createdById = requester.id,
+      createdAt = now,
+      updatedAt = now)
+
+    val templateSaved = dao.upsertReplyTemplate(template, byWho = requester)
+    OkSafeJson(JsReplyTemplate(templateSaved))
+  }
+
+
+  def deleteReplyTemplate: Action[JsValue] = StaffPostJsonAction(maxBytes = 200) { request =>
+    val templateId = JsonUtils.readInt(request.body, "id")
+    request.dao.deleteReplyTemplate(templateId, byWho = request.theUser)
+    Ok
+  }
+
+}
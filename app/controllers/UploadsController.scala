@@ -21,13 +21,14 @@ import com.debiki.core._
 import com.debiki.core.Prelude._
 import debiki._
 import debiki.EdHttp._
+import debiki.JsX.{JsStringOrNull, JsUploadedFile}
 import debiki.dao.UploadsDao._
 import ed.server.{EdContext, EdController}
 import java.{io => jio}
 import javax.inject.Inject
 import play.api._
 import play.api.libs.Files
-import play.api.libs.json.{JsString, JsValue, Json}
+import play.api.libs.json.{JsArray, JsString, JsValue, Json}
 import play.api.mvc._
 
 
@@ -182,6 +183,67 @@ class UploadsController @Inject()(cc: ControllerComponents, edContext: EdContext
   }
 
 
+  /** One's uploaded files, so one can reuse them in new posts, or delete unused ones.
+    * Admins may list others' files too. [5UPLDLIB]
+    */
+  def listUploads(userId: UserId): Action[Unit] = GetAction { request =>
+    import request.dao
+    throwForbiddenIf(request.user.forall(user => user.id != userId && !user.isAdmin),
+      "TyE5UPLD01", "May list only your own uploads")
+    val files = dao.listUploadsBy(userId)
+    val postIds = files.flatMap(_.linkedFromPostIds).toSet
+    val posts = dao.readOnlyTransaction(_.loadPostsByUniqueId(postIds))
+
+    // Don't reveal posts one may not see, e.g. if an admin moved one's post to a private topic.
+    val visiblePostsById = posts filter { case (_, post) =>
+      dao.maySeePostUseCache(post.pageId, post.nr, request.user)._1
+    }
+
+    OkSafeJson(Json.obj(
+      "files" -> JsArray(files map { file =>
+        val visiblePosts = file.linkedFromPostIds.toSeq.sorted.flatMap(visiblePostsById.get)
+        JsUploadedFile(file) + ("linkedFromPosts" -> JsArray(visiblePosts map { post =>
+          Json.obj("pageId" -> post.pageId, "postNr" -> post.nr)
+        }))
+      })))
+  }
+
+
+  def deleteUpload: Action[JsValue] = PostJsonAction(RateLimits.DeleteUpload, maxBytes = 500) {
+        request =>
+    val hashPath = (request.body \ "hashPath").as[String]
+    request.dao.deleteUnusedUpload(hashPath, request.theUser)
+    Ok
+  }
+
+
+  /** For the admin area: the files most recently uploaded to this site, and how much
+    * storage each user uses, compared to the upload limits.
+    */
+  def listAllUploads: Action[Unit] = AdminGetAction { request =>
+    import request.dao
+    val (files, stats) = dao.listAllUploads()
+    val usersById = dao.getUsersAsSeq(stats.map(_.userId)).map(user => user.id -> user).toMap
+
+    OkSafeJson(Json.obj(
+      "files" -> JsArray(files map JsUploadedFile),
+      "statsPerUser" -> JsArray(stats map { userStats =>
+        Json.obj(
+          "userId" -> userStats.userId,
+          "username" -> JsStringOrNull(usersById.get(userStats.userId).flatMap(_.anyUsername)),
+          "numFiles" -> userStats.numFiles,
+          "numBytes" -> userStats.numBytes,
+          "numBytesLastWeek" -> userStats.numBytesLastWeek)
+      }),
+      "limits" -> Json.obj(
+        "maxUploadSizeBytes" -> maxUploadSizeBytes,
+        "maxBytesPerWeekMember" -> MaxBytesPerWeekMember,
+        "maxBytesPerWeekStaff" -> MaxBytesPerWeekStaff,
+        "maxBytesPerDayMember" -> MaxBytesPerDayMember,
+        "maxBytesPerDayStaff" -> MaxBytesPerDayStaff)))
+  }
+
+
   def authUpload(publSiteId: String, hashPath: String) = ExceptionAction { request: mvc.Request[_] =>
     val siteId = context.globals.systemDao.getSiteIdByPublId(publSiteId) getOrElse {
       throwNotFound("TyE2PKJ40", s"No site with publ id '$publSiteId'")
@@ -284,6 +284,7 @@ class UserController @Inject()(cc: ControllerComponents, edContext: EdContext)
     if (callerIsStaff) {
       json += "summaryEmailIntervalMins" -> JsNumberOrNull(group.summaryEmailIntervalMins)
       json += "summaryEmailIfActive" -> JsBooleanOrNull(group.summaryEmailIfActive)
+      json += "mayMentionMeTrustLevel" -> JsNumberOrNull(group.mayMentionMeTrustLevel.map(_.toInt))
     }
     json
   }
@@ -1146,6 +1147,46 @@ class UserController @Inject()(cc: ControllerComponents, edContext: EdContext)
   }
 
 
+  /** For the editor's pre-submit checks: which of the @mentioned members cannot see
+    * the page, and so won't get notified. [5EDCHKS]
+    */
+  def listUsernamesWhoCannotSee(pageId: PageId, usernames: String): Action[Unit] = GetAction {
+        request =>
+    import request.dao
+
+    val pageMeta = dao.getPageMeta(pageId) getOrElse throwIndistinguishableNotFound("TyE5EDCHK01")
+    val categoriesRootLast = dao.loadAncestorCategoriesRootLast(pageMeta.categoryId)
+    val permissions = dao.getPermsOnPages(categoriesRootLast)
+    val pageMembers = dao.getAnyPrivateGroupTalkMembers(pageMeta)
+
+    throwNoUnless(Authz.maySeePage(
+      pageMeta, request.user, dao.getGroupIds(request.user), pageMembers, categoriesRootLast,
+      permissions), "TyE5EDCHK02")
+
+    // Only usernames — not email addresses; that'd reveal who has which address.
+    val usernameList = usernames.split(',').toSeq.filter(name => name.nonEmpty && !name.contains('@'))
+    throwForbiddenIf(usernameList.length > 50, "TyE5EDCHK03", "Too many usernames")
+
+    val members = dao.loadMembersByUsernames(usernameList)
+    val cannotSee = members filter { member =>
+      Authz.maySeePage(
+        pageMeta, Some(member), dao.getGroupIds(member), pageMembers, categoriesRootLast,
+        permissions).mayNot
+    }
+    OkSafeJson(JsArray(cannotSee.map(member => JsString(member.theUsername))))
+  }
+
+
+  def listMentionableGroups(usernamePrefix: String): Action[Unit] = GetAction { request =>
+    val groupsAndNumMembers = request.dao.listMentionableGroups(request.theMember, usernamePrefix)
+    val json = JsArray(
+      groupsAndNumMembers map { case (group, numMembers) =>
+        JsGroup(group) + ("isGroup" -> JsTrue) + ("numMembers" -> JsNumber(numMembers))
+      })
+    OkSafeJson(json)
+  }
+
+
   SECURITY // don't allow if user listing disabled, & isn't staff [8FKU2A4]
   def listAllUsers(usernamePrefix: String): Action[Unit] = GetAction { request =>
     // Authorization check: Is a member? Add MemberGetAction?
@@ -1388,7 +1429,8 @@ class UserController @Inject()(cc: ControllerComponents, edContext: EdContext)
       fullName = (json \ "fullName").asOptStringNoneIfBlank,
       username = username,
       summaryEmailIntervalMins = (json \ "summaryEmailIntervalMins").asOpt[Int],
-      summaryEmailIfActive = (json \ "summaryEmailIfActive").asOpt[Boolean])
+      summaryEmailIfActive = (json \ "summaryEmailIfActive").asOpt[Boolean],
+      mayMentionMeTrustLevel = (json \ "mayMentionMeTrustLevel").asOpt[Int].flatMap(TrustLevel.fromInt))
   }
 
 
@@ -194,6 +194,7 @@ class ViewPageController @Inject()(cc: ControllerComponents, edContext: EdContex
       OkSafeJson(
         Json.obj(
           "reactStoreJsonString" -> renderedPage.reactStoreJsonString,
+          "reactionsByPostId" -> dao.jsonMaker.reactionsOnPageJson(pageMeta.pageId),
           "me" -> anyUserSpecificDataJson)))
   }
 
@@ -379,11 +380,18 @@ object ViewPageController {
           Some(dao.jsonMaker.userNoPageToJson(request))
       }
 
-    val volatileJson = Json.obj(
+    var volatileJson = Json.obj(
       "usersOnline" -> usersOnlineStuff.usersJson,
       "numStrangersOnline" -> usersOnlineStuff.numStrangers,
       "me" -> anyUserSpecificDataJson.getOrElse(JsNull).asInstanceOf[JsValue])
 
+    request match {
+      case pageRequest: PageRequest[_] if pageRequest.pageExists =>
+        volatileJson += "reactionsByPostId" -> dao.jsonMaker.reactionsOnPageJson(
+          pageRequest.thePageId)
+      case _ =>
+    }
+
     // Insert volatile and user specific data into the HTML.
     // The Scala templates take care to place the <script type="application/json">
     // tag with the magic-string-that-we'll-replace-with-user-specific-data before
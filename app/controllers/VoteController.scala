@@ -22,7 +22,7 @@ import com.debiki.core.Prelude._
 import collection.immutable
 import debiki._
 import debiki.EdHttp._
-import debiki.JsX.JsUser
+import debiki.JsX.{JsPostReactionCounts, JsUser}
 import ed.server.{EdContext, EdController}
 import ed.server.auth.Authz
 import ed.server.http._
@@ -45,6 +45,7 @@ class VoteController @Inject()(cc: ControllerComponents, edContext: EdContext)
     *   vote: "VoteLike"      # or "VoteWrong" or "VoteBury"
     *   action: "CreateVote"  # or "DeleteVote"
     *   postIdsRead: [1, 9, 53, 82]
+    *   idempotencyKey: "abc123xyz"  # optional, set by the browser's offline outbox
     */
   def handleVotes: Action[JsValue] = PostJsonAction(RateLimits.RatePost, maxBytes = 500) {
         request: JsonPostRequest =>
@@ -54,6 +55,7 @@ class VoteController @Inject()(cc: ControllerComponents, edContext: EdContext)
     val voteStr = (body \ "vote").as[String]
     val actionStr = (body \ "action").as[String]
     val postNrsReadSeq = (body \ "postNrsRead").asOpt[immutable.Seq[PostNr]]
+    val anyIdempotencyKey = (body \ "idempotencyKey").asOpt[String]
 
     val postNrsRead = postNrsReadSeq.getOrElse(Nil).toSet
 
@@ -89,16 +91,17 @@ class VoteController @Inject()(cc: ControllerComponents, edContext: EdContext)
       case _ => throwBadReq("DwE35gKP8", s"Bad vote type: $voteStr")
     }
 
-    if (delete) {
-      dao.deleteVote(pageId, postNr, voteType, voterId = request.theUser.id)
-    }
-    else {
-      dao.ifAuthAddVote(pageId, postNr, voteType,
-        voterId = request.theUser.id, voterIp = request.ip, postNrsRead)
+    val json = dao.doOnceOrReuseResponse(request.theUser.id, anyIdempotencyKey) {
+      if (delete) {
+        dao.deleteVote(pageId, postNr, voteType, voterId = request.theUser.id)
+      }
+      else {
+        dao.ifAuthAddVote(pageId, postNr, voteType,
+          voterId = request.theUser.id, voterIp = request.ip, postNrsRead)
+      }
+      dao.jsonMaker.postToJson2(postNr = postNr, pageId = pageId,
+        includeUnapproved = false, showHidden = true)
     }
-
-    val json = dao.jsonMaker.postToJson2(postNr = postNr, pageId = pageId,
-      includeUnapproved = false, showHidden = true)
     OkSafeJson(json)
   }
 
@@ -127,5 +130,60 @@ class VoteController @Inject()(cc: ControllerComponents, edContext: EdContext)
       "someVoters" -> JsArray(voters map JsUser))
     OkSafeJson(json)
   }
+
+
+  /** Emoji reactions, e.g. 🎉. They're not votes — they don't affect the likeScore.
+    * Example post data:
+    *   postId: 123
+    *   emoji: "🎉"
+    *   add: true  # or false, to remove one's reaction
+    */
+  def toggleReaction: Action[JsValue] = PostJsonAction(RateLimits.ReactToPost, maxBytes = 200) {
+        request =>
+    import request.{body, dao, theRequester => requester}
+    val postId = JsonUtils.readInt(body, "postId")
+    val emoji = JsonUtils.readString(body, "emoji")
+    val add = JsonUtils.readBoolean(body, "add")
+
+    throwForbiddenIf(requester.isGroup, "TyE4WKBR20", "Groups may not react")
+    throwBadRequestIf(emoji.isEmpty || emoji.length > PostReaction.MaxEmojiLength,
+      "TyE4WKBR21", "Bad emoji")
+    throwIfMayNotSeePost(postId, request.requester, dao, "TyE4WKBR22")
+
+    val reactions = dao.toggleReaction(postId, emoji, add = add, reactorId = requester.id)
+    OkSafeJson(Json.obj(
+      "reactions" -> JsPostReactionCounts(reactions),
+      "myReactions" -> reactions.filter(_.reactorId == requester.id).map(_.emoji)))
+  }
+
+
+  def loadReactors(postId: PostId, emoji: String): Action[Unit] = GetAction { request =>
+    import request.{dao, requester}
+    throwIfMayNotSeePost(postId, requester, dao, "TyE4WKBR23")
+    val (numReactors, someReactors) = dao.readOnlyTransaction { tx =>
+      val ids = tx.loadPostReactions(Vector(postId)).filter(_.emoji == emoji).map(_.reactorId)
+      (ids.size, tx.loadUsers(ids.take(MaxReactorsToList)))
+    }
+    OkSafeJson(Json.obj(
+      "numReactors" -> numReactors,
+      "someReactors" -> JsArray(someReactors map JsUser)))
+  }
+
+
+  private val MaxReactorsToList = 50
+
+
+  private def throwIfMayNotSeePost(postId: PostId, requester: Option[User], dao: debiki.dao.SiteDao,
+        errorCode: String) {
+    val pageMeta: PageMeta = dao.getThePageMetaForPostId(postId)
+    val categoriesRootLast = dao.loadAncestorCategoriesRootLast(pageMeta.categoryId)
+    throwNoUnless(Authz.maySeePage(
+      pageMeta, requester,
+      dao.getGroupIds(requester),
+      dao.getAnyPrivateGroupTalkMembers(pageMeta),
+      categoriesRootLast,
+      permissions = dao.getPermsOnPages(categoriesRootLast)),
+      errorCode)
+  }
 }
 
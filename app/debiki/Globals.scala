@@ -475,6 +475,10 @@ class Globals(
   val maxUploadSizeBytes: Int =
     conf.getInt("talkyard.uploads.maxKiloBytes").map(_ * 1000).getOrElse(3*1000*1000)
 
+  /** Images wider or taller than this, get downscaled in the browser, before uploading. */
+  val resizeImagesLargerThanPx: Int =
+    conf.getInt("talkyard.uploads.resizeImagesLargerThanPx").getOrElse(2048)
+
   val anyUploadsDir: Option[String] = {
     val value = conf.getString(LocalhostUploadsDirConfValName).noneIfBlank
     val pathSlash = if (value.exists(_.endsWith("/"))) value else value.map(_ + "/")
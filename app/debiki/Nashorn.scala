@@ -443,6 +443,8 @@ class Nashorn(globals: Globals) {
         |    theStore.me.myCurrentPageData = {
         |      rolePageSettings: { notfLevel: NotfLevel.Normal },
         |      votes: {},
+        |      pollVotesByPostId: {},
+        |      myReactionsByPostId: {},
         |      unapprovedPosts: {},
         |      unapprovedPostAuthors: [],
         |      postNrsAutoReadLongAgo: [],
@@ -591,10 +593,8 @@ object Nashorn {
   private val RenderAndSanitizeCommonMark = i"""
     |var md;
     |try {
-    |  md = markdownit({ html: true, linkify: true, breaks: true });
-    |  md.use(debiki.internal.MentionsMarkdownItPlugin());
-    |  md.use(debiki.internal.oneboxMarkdownItPlugin);
-    |  ed.editor.CdnLinkifyer.replaceLinks(md);
+    |  // Same plugins as in the browser, so the editor preview matches the saved post.
+    |  md = debiki2.markdownit.makeMarkdownIt();
     |}
     |catch (e) {
     |  console.error("Error creating CommonMark renderer: [DwE5kFEM9]");
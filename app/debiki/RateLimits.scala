@@ -165,6 +165,28 @@ object RateLimits {
   }
 
 
+  object UserIsTyping extends RateLimits {
+    val IntervalSeconds = 4 // dupl constant, in js too [5TYPNG2]
+    val key = "UsTy"
+    val what = "sent too many I'm-typing messages"
+    def maxPerFifteenSeconds: Int = (15 / IntervalSeconds) * 2  // a few browser tabs
+    def maxPerFifteenMinutes: Int = Unlimited
+    def maxPerDay: Int = Unlimited
+    def maxPerDayNewUser: Int = Unlimited
+  }
+
+
+  object DraftSomething extends RateLimits {
+    val key = "DrSt"
+    val what = "saved too many drafts"
+    // The browser autosaves at most every few seconds [7WKBU20], maybe from a few tabs.
+    def maxPerFifteenSeconds = 12
+    def maxPerFifteenMinutes = 400
+    def maxPerDay: Int = Unlimited
+    def maxPerDayNewUser: Int = Unlimited
+  }
+
+
   object CreateSite extends RateLimits {
     val key = "CrSt"
     val what = "created too many sites"
@@ -394,6 +416,26 @@ object RateLimits {
   }
 
 
+  object VoteInPoll extends RateLimits {
+    val key = "VtPl"
+    val what = "voted in polls too many times"
+    def maxPerFifteenSeconds = 8
+    def maxPerFifteenMinutes = 60
+    def maxPerDay = 300
+    def maxPerDayNewUser: Int = Unlimited
+  }
+
+
+  object ReactToPost extends RateLimits {
+    val key = "RcPs"
+    val what = "reacted to posts too many times"
+    def maxPerFifteenSeconds = 15
+    def maxPerFifteenMinutes = 120
+    def maxPerDay = 600
+    def maxPerDayNewUser: Int = Unlimited
+  }
+
+
   /** Discourse:
     * max edits per day 30
     * Maximum number of edits per user per day.
@@ -472,6 +514,16 @@ object RateLimits {
   }
 
 
+  object DeleteUpload extends RateLimits {
+    val key = "DlUp"
+    val what = "deleted too many files"
+    def maxPerFifteenSeconds = 10
+    def maxPerFifteenMinutes = 60
+    def maxPerDay = 200
+    def maxPerDayNewUser: Int = Unlimited
+  }
+
+
   object FullTextSearch extends RateLimits {
     val key = "FTS"
     val what = "searched too much"
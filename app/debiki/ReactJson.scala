@@ -110,6 +110,8 @@ class JsonMaker(dao: SiteDao) {
       "numPostsChatSection" -> JsNumber(0),
       "numPostsExclTitle" -> JsNumber(0),
       "postsByNr" -> JsObject(Nil),
+      "pollsByPostId" -> JsObject(Nil),
+      "reactionsByPostId" -> JsObject(Nil),
       "topLevelCommentIdsSorted" -> JsArray(),
       "horizontalLayout" -> JsBoolean(false))
 
@@ -231,6 +233,16 @@ class JsonMaker(dao: SiteDao) {
           postToJsonImpl(post, page, tags, includeUnapproved = false, showHidden = false)
     }
 
+    // This json is cached, and votes don't bump the page version — so include only
+    // the polls themselves, not the vote counts. The browser fetches the counts, and
+    // thereafter gets them via store patches. [5WKBP20]
+    val pollPostIds = interestingPosts.filter(_.tyype == PostType.Poll).map(_.id)
+    val pollsJson =
+      if (pollPostIds.isEmpty) Nil
+      else transaction.loadPollsByPostIds(pollPostIds) map { poll =>
+        poll.postId.toString -> JsPoll(poll)
+      }
+
     // Topic members (e.g. chat channel members) join/leave infrequently, so better cache them
     // than to lookup them each request.
     val pageMemberIds = transaction.loadMessageMembers(page.id)
@@ -313,12 +325,16 @@ class JsonMaker(dao: SiteDao) {
       "pageLockedAtMs" -> dateOrNull(page.meta.lockedAt),
       "pageFrozenAtMs" -> dateOrNull(page.meta.frozenAt),
       "pageHiddenAtMs" -> JsWhenMsOrNull(page.meta.hiddenAt),
+      "pageScheduledPublishAtMs" -> JsWhenMsOrNull(page.meta.scheduledPublishAt),
       "pageDeletedAtMs" -> dateOrNull(page.meta.deletedAt),
       "numPosts" -> numPosts,
       "numPostsRepliesSection" -> numPostsRepliesSection,
       "numPostsChatSection" -> numPostsChatSection,
       "numPostsExclTitle" -> numPostsExclTitle,
       "postsByNr" -> JsObject(allPostsJson),
+      "pollsByPostId" -> JsObject(pollsJson),
+      // The reactions get added by the volatile json, see reactionsOnPageJson(). [5WKBR20]
+      "reactionsByPostId" -> JsObject(Nil),
       "topLevelCommentIdsSorted" -> JsArray(topLevelCommentIdsSorted),
       "horizontalLayout" -> JsBoolean(horizontalLayout),
       "is2dTreeDefault" -> JsBoolean(is2dTreeDefault))
@@ -344,6 +360,7 @@ class JsonMaker(dao: SiteDao) {
       "userMustBeApproved" -> JsBoolean(siteSettings.userMustBeApproved),
       "settings" -> makeSettingsVisibleClientSideJson(siteSettings, globals),
       "maxUploadSizeBytes" -> globals.maxUploadSizeBytes,
+      "resizeImagesLargerThanPx" -> globals.resizeImagesLargerThanPx,
       "publicCategories" -> categories,
       "topics" -> anyLatestTopics,
       "me" -> noUserSpecificData(authzCtx.permissions),
@@ -401,6 +418,7 @@ class JsonMaker(dao: SiteDao) {
       "me" -> noUserSpecificData(dao.getPermsForEveryone()),
       "rootPostId" -> JsNumber(PageParts.BodyNr),
       "maxUploadSizeBytes" -> globals.maxUploadSizeBytes,
+      "resizeImagesLargerThanPx" -> globals.resizeImagesLargerThanPx,
       "siteSections" -> makeSiteSectionsJson(),
       "usersByIdBrief" -> Json.obj(),
       "pageMetaBriefById" -> JsObject(Nil),
@@ -644,6 +662,8 @@ class JsonMaker(dao: SiteDao) {
 
     val anyReadingProgress = anyPageId.flatMap(transaction.loadReadProgress(user.id, _))
     val anyReadingProgressJson = anyReadingProgress.map(makeReadingProgressJson).getOrElse(JsNull)
+    val postNrsRead: Seq[PostNr] = anyReadingProgress.map(progress =>
+      (progress.lowPostNrsRead.toVector ++ progress.lastPostNrsReadRecentFirst).sorted) getOrElse Nil
 
     val userDataByPageId = anyPageId match {
       case None => Json.obj()
@@ -653,10 +673,14 @@ class JsonMaker(dao: SiteDao) {
             "rolePageSettings" -> rolePageSettings,
             "readingProgress" -> anyReadingProgressJson,
             "votes" -> votes,
+            "pollVotesByPostId" -> pollVotesJson(user.id, pageId, transaction),
+            "myReactionsByPostId" -> myReactionsJson(user.id, pageId, transaction),
             // later: "flags" -> JsArray(...) [7KW20WY1]
             "unapprovedPosts" -> unapprovedPosts,
             "unapprovedPostAuthors" -> unapprovedAuthors,  // should remove [5WKW219] + search for elsewhere
-            "postNrsAutoReadLongAgo" -> JsArray(Nil),      // should remove
+            // So unread marks look the same on all devices. The browser merges these
+            // with the post nrs it remembers it has read, in localStorage.
+            "postNrsAutoReadLongAgo" -> JsArray(postNrsRead.map(JsNumber(_))),
             "postNrsAutoReadNow" -> JsArray(Nil),
             "marksByPostId" -> JsObject(Nil)))
     }
@@ -839,6 +863,30 @@ class JsonMaker(dao: SiteDao) {
   }
 
 
+  def makePollsStorePatch(pageId: PageId, pollsJson: Seq[JsObject]): JsObject =
+    Json.obj(
+      "appVersion" -> dao.globals.applicationVersion,
+      "pollsByPageId" -> Json.obj(pageId -> JsArray(pollsJson)))
+
+
+  /** Reactions don't affect the likeScore, so they're not in the post json. And they're
+    * not in the cached page json either — then, each reaction would re-render the whole
+    * page. Instead, they're sent together with the volatile json. [5WKBR20]
+    */
+  def reactionsOnPageJson(pageId: PageId): JsObject =
+    JsObject(dao.getReactionsOnPage(pageId).groupBy(_.postId).toSeq map {
+      case (postId, reactions) => postId.toString -> JsPostReactionCounts(reactions)
+    })
+
+
+  def makeReactionsStorePatch(pageId: PageId, postId: PostId, reactions: Seq[PostReaction])
+        : JsObject =
+    Json.obj(
+      "appVersion" -> dao.globals.applicationVersion,
+      "reactionsByPageId" -> Json.obj(
+        pageId -> Json.obj(postId.toString -> JsPostReactionCounts(reactions))))
+
+
   def makeCategoriesJson(categoryId: CategoryId, authzCtx: ForumAuthzContext)
         : JsArray = {
     val (categories, defaultCategoryId) = dao.listMaySeeCategoriesInSameSectionAs(categoryId, authzCtx)
@@ -1027,6 +1075,12 @@ object JsonMaker {
       json += "showSubCommunities" -> JsBoolean(settings.showSubCommunities)
     if (settings.showExperimental != D.showExperimental)
       json += "showExperimental" -> JsBoolean(settings.showExperimental)
+    if (settings.reactionEmojis != D.reactionEmojis)
+      json += "reactionEmojis" -> JsString(settings.reactionEmojis)
+    if (settings.disabledEditorChecks != D.disabledEditorChecks)
+      json += "disabledEditorChecks" -> JsString(settings.disabledEditorChecks)
+    if (settings.enableQuickReplyBox != D.enableQuickReplyBox)
+      json += "enableQuickReplyBox" -> JsBoolean(settings.enableQuickReplyBox)
     if (settings.forumMainView != D.forumMainView)
       json += "forumMainView" -> JsString(settings.forumMainView)
     if (settings.forumTopicsSortButtons != D.forumTopicsSortButtons)
@@ -1265,6 +1319,24 @@ object JsonMaker {
   }
 
 
+  private def pollVotesJson(userId: UserId, pageId: PageId, transaction: SiteTransaction)
+        : JsObject = {
+    val votes = transaction.loadPollVotesByVoterOnPage(userId, pageId)
+    JsObject(votes.groupBy(_.postId).toSeq map { case (postId, postVotes) =>
+      postId.toString -> JsArray(postVotes.map(vote => JsNumber(vote.optionNr)))
+    })
+  }
+
+
+  private def myReactionsJson(userId: UserId, pageId: PageId, transaction: SiteTransaction)
+        : JsObject = {
+    val reactions = transaction.loadPostReactionsOnPage(pageId).filter(_.reactorId == userId)
+    JsObject(reactions.groupBy(_.postId).toSeq map { case (postId, postReactions) =>
+      postId.toString -> JsArray(postReactions.map(reaction => JsString(reaction.emoji)))
+    })
+  }
+
+
   def permsOnPagesToJson(permsOnPages: Seq[PermsOnPages], excludeEveryone: Boolean): JsArray = {
     val perms =
       if (excludeEveryone) permsOnPages.filter(_.forPeopleId != Group.EveryoneId)
@@ -1740,6 +1812,86 @@ object JsX {
       "pageId" -> flag.pageId,
       "postNr" -> flag.postNr)
 
+  def JsDraft(draft: Draft): JsObject =
+    Json.obj(
+      "byUserId" -> draft.byUserId,
+      "draftNr" -> draft.draftNr,
+      "forWhat" -> JsDraftLocator(draft.forWhat),
+      "createdAtMs" -> JsWhenMs(draft.createdAt),
+      "lastEditedAtMs" -> JsWhenMsOrNull(draft.lastEditedAt),
+      "topicType" -> JsNumberOrNull(draft.topicType.map(_.toInt)),
+      "editBase" -> draft.editBase.map(base => Json.obj(
+        "text" -> base.text,
+        "version" -> Json.obj(
+          "revisionNr" -> base.version.revisionNr,
+          "lastEditedAtMs" -> JsLongOrNull(base.version.lastEditedAtMs)))).getOrElse(JsNull),
+      "title" -> draft.title,
+      "text" -> draft.text)
+
+  def JsDraftLocator(locator: DraftLocator): JsObject =
+    Json.obj(
+      "draftType" -> locator.draftType.toInt,
+      "categoryId" -> JsNumberOrNull(locator.categoryId),
+      "toUserId" -> JsNumberOrNull(locator.toUserId),
+      "postId" -> JsNumberOrNull(locator.postId),
+      "pageId" -> JsStringOrNull(locator.pageId),
+      "postNr" -> JsNumberOrNull(locator.postNr),
+      "replyToPostNrs" -> JsArray(locator.replyToPostNrs.map(JsNumber(_))))
+
+  /** Without any vote counts, not even the number of voters. For the cached page json.
+    */
+  def JsPoll(poll: Poll): JsObject =
+    Json.obj(
+      "postId" -> poll.postId,
+      "choiceType" -> poll.choiceType.toInt,
+      "options" -> JsArray(poll.options map { option =>
+        Json.obj("nr" -> option.nr, "text" -> option.text)
+      }),
+      "closesAtMs" -> JsWhenMsOrNull(poll.closesAt),
+      "votersPublic" -> poll.votersPublic,
+      "resultsVisibility" -> poll.resultsVisibility.toInt)
+
+  /** Excludes the vote counts, unless showResults. Then, people who haven't voted yet,
+    * won't see the counts, if the poll is configured to show the results only after
+    * having voted.
+    */
+  def JsPoll(results: PollResults, showResults: Boolean): JsObject = {
+    var json = JsPoll(results.poll) + ("numVoters" -> JsNumber(results.numVoters))
+    if (showResults) {
+      json += "numVotesByOptionNr" -> JsObject(results.numVotesByOptionNr.toSeq map {
+        case (optionNr, numVotes) => optionNr.toString -> JsNumber(numVotes)
+      })
+    }
+    json
+  }
+
+  def JsPostReactionCounts(reactions: Iterable[PostReaction]): JsArray =
+    JsArray(PostReaction.countByEmoji(reactions) map { count =>
+      Json.obj("emoji" -> count.emoji, "numReactions" -> count.numReactions)
+    })
+
+  def JsReplyTemplate(template: ReplyTemplate): JsObject =
+    Json.obj(
+      "id" -> template.id,
+      "ownerId" -> JsNumberOrNull(template.ownerId),
+      "categoryId" -> JsNumberOrNull(template.categoryId),
+      "title" -> template.title,
+      "text" -> template.text,
+      "createdById" -> template.createdById,
+      "createdAtMs" -> JsWhenMs(template.createdAt),
+      "updatedAtMs" -> JsWhenMs(template.updatedAt))
+
+  def JsUploadedFile(file: UploadedFile): JsObject =
+    Json.obj(
+      "url" -> file.ref.url,
+      "hashPath" -> file.ref.hashPath,
+      "fileName" -> file.fileName,
+      "sizeBytes" -> file.sizeBytes,
+      "mimeType" -> file.mimeType,
+      "uploadedById" -> file.uploadedById,
+      "uploadedAtMs" -> JsWhenMs(file.uploadedAt),
+      "isInUse" -> file.isInUse)
+
   def JsStringOrNull(value: Option[String]): JsValue =
     value.map(JsString).getOrElse(JsNull)
 
@@ -238,6 +238,10 @@ trait CategoriesDao {
       may == MayMaybe.Yes
     }
 
+    // The database query should have excluded published pages already. [5SCHPUB]
+    if (pageQuery.pageFilter.filterType == PageFilterType.ScheduledTopics)
+      return filteredPages.filter(_.meta.isScheduled)
+
     filteredPages
   }
 
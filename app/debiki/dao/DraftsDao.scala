@@ -0,0 +1,70 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package debiki.dao
+
+import com.debiki.core._
+import debiki.EdHttp.throwNotFound
+import scala.collection.immutable
+
+
+trait DraftsDao {
+  this: SiteDao =>
+
+
+  /** If there's no draft nr, but there's already a draft for the same thing, e.g. one
+    * saved on another device — then overwrites it, so there won't be two drafts
+    * for, say, the same reply.
+    */
+  def upsertDraft(draft: Draft): Draft = {
+    val locator = draft.forWhat.withSortedPostNrs
+    readWriteTransaction { tx =>
+      val anyOldDraft =
+        if (draft.isNew) tx.loadDraftsByLocator(draft.byUserId, locator).headOption
+        else Some(tx.loadDraftByNr(draft.byUserId, draft.draftNr) getOrElse throwNotFound(
+          "TyE4WKBU20", s"Draft nr ${draft.draftNr} not found — deleted already?"))
+
+      val draftToSave = anyOldDraft match {
+        case Some(oldDraft) =>
+          draft.copy(draftNr = oldDraft.draftNr, forWhat = locator, createdAt = oldDraft.createdAt)
+        case None =>
+          draft.copy(draftNr = tx.nextDraftNr(draft.byUserId), forWhat = locator)
+      }
+
+      tx.upsertDraft(draftToSave)
+      draftToSave
+    }
+  }
+
+
+  def deleteDrafts(userId: UserId, draftNrs: Iterable[DraftNr]) {
+    readWriteTransaction { tx =>
+      draftNrs foreach { nr =>
+        tx.deleteDraft(userId, nr)
+      }
+    }
+  }
+
+
+  def loadDraftsByLocator(userId: UserId, locator: DraftLocator): immutable.Seq[Draft] =
+    readOnlyTransaction(_.loadDraftsByLocator(userId, locator.withSortedPostNrs))
+
+
+  def listDraftsRecentlyEditedFirst(userId: UserId, limit: Int): immutable.Seq[Draft] =
+    readOnlyTransaction(_.listDraftsRecentlyEditedFirst(userId, limit = limit))
+
+}
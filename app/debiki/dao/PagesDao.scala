@@ -55,7 +55,8 @@ trait PagesDao {
         anyFolder: Option[String], anySlug: Option[String], titleTextAndHtml: TextAndHtml,
         bodyTextAndHtml: TextAndHtml, showId: Boolean, byWho: Who,
         spamRelReqStuff: SpamRelReqStuff,
-        altPageId: Option[AltPageId] = None, embeddingUrl: Option[String] = None): PagePath = {
+        altPageId: Option[AltPageId] = None, embeddingUrl: Option[String] = None,
+        scheduledPublishAt: Option[When] = None): PagePath = {
 
     if (pageRole.isSection) {
       // Should use e.g. ForumController.createForum() instead.
@@ -80,6 +81,11 @@ trait PagesDao {
     if (titleTextAndHtml.safeHtml.trim.isEmpty)
       throwForbidden("DwE5KPEF21", "Page title should not be empty")
 
+    scheduledPublishAt foreach { publishAt =>
+      throwBadRequestIf(publishAt.isBefore(globals.now()),
+        "TyE5SCHPUB02", "The scheduled publish time is in the past")
+    }
+
     quickCheckIfSpamThenThrow(byWho, bodyTextAndHtml, spamRelReqStuff)
 
     val pagePath = readWriteTransaction { tx =>
@@ -88,13 +94,17 @@ trait PagesDao {
         titleSource = titleTextAndHtml.text, titleHtmlSanitized = titleTextAndHtml.safeHtml,
         bodySource = bodyTextAndHtml.text, bodyHtmlSanitized = bodyTextAndHtml.safeHtml,
         pinOrder = None, pinWhere = None, byWho, Some(spamRelReqStuff),
-        tx, altPageId = altPageId, embeddingUrl = embeddingUrl)
+        tx, altPageId = altPageId, embeddingUrl = embeddingUrl,
+        scheduledPublishAt = scheduledPublishAt)
 
       val thePageId = pagePath.pageId getOrDie "DwE5KWI2"
 
-      val notifications = NotificationGenerator(tx, nashorn)
-        .generateForNewPost(PageDao(thePageId, tx), bodyPost, Some(bodyTextAndHtml))
-      tx.saveDeleteNotifications(notifications)
+      // If scheduled, people get notified later, when the page gets published. [5SCHPUB]
+      if (scheduledPublishAt.isEmpty) {
+        val notifications = NotificationGenerator(tx, nashorn)
+          .generateForNewPost(PageDao(thePageId, tx), bodyPost, Some(bodyTextAndHtml))
+        tx.saveDeleteNotifications(notifications)
+      }
       pagePath
     }
 
@@ -132,7 +142,8 @@ trait PagesDao {
       tx: SiteTransaction, hidePageBody: Boolean = false,
       layout: Option[TopicListLayout] = None,
       bodyPostType: PostType = PostType.Normal,
-      altPageId: Option[AltPageId] = None, embeddingUrl: Option[String] = None): (PagePath, Post) = {
+      altPageId: Option[AltPageId] = None, embeddingUrl: Option[String] = None,
+      scheduledPublishAt: Option[When] = None): (PagePath, Post) = {
 
     val now = globals.now()
     val authorId = byWho.id
@@ -239,6 +250,7 @@ trait PagesDao {
       layout = layout,
       pinOrder = pinOrder, pinWhere = pinWhere,
       categoryId = anyCategoryId, embeddingUrl = None, publishDirectly = true,
+      scheduledPublishAt = scheduledPublishAt,
       hidden = approvedById.isEmpty) // [7AWU2R0]
 
     val reviewTask = if (reviewReasons.isEmpty) None
@@ -360,6 +372,50 @@ trait PagesDao {
   }
 
 
+  /** Changes when a not-yet-published page will get published.
+    */
+  def reschedulePage(pageId: PageId, publishAt: When) {
+    throwBadRequestIf(publishAt.isBefore(globals.now()),
+      "TyE5SCHPUB03", "The scheduled publish time is in the past")
+    readWriteTransaction { tx =>
+      val oldMeta = tx.loadThePageMeta(pageId)
+      throwForbiddenIf(!oldMeta.isScheduled,
+        "TyE5SCHPUB04", "The page has been published already")
+      val newMeta = oldMeta.copy(scheduledPublishAt = Some(publishAt),
+        version = oldMeta.version + 1)
+      tx.updatePageMeta(newMeta, oldMeta = oldMeta, markSectionPageStale = true)
+    }
+    refreshPageInMemCache(pageId)
+  }
+
+
+  /** Publishes a scheduled page, and bumps it, and notifies people about the new topic —
+    * as if it had been created now. Done by the Janitor, once it's time, or if staff
+    * click Publish Now. Does nothing if already published. [5SCHPUB]
+    */
+  def publishScheduledPage(pageId: PageId) {
+    val published = readWriteTransaction { tx =>
+      val oldMeta = tx.loadThePageMeta(pageId)
+      if (!oldMeta.isScheduled) false
+      else {
+        val now = globals.now().toJavaDate
+        val newMeta = oldMeta.copy(scheduledPublishAt = None, publishedAt = Some(now),
+          bumpedAt = Some(now), version = oldMeta.version + 1)
+        tx.updatePageMeta(newMeta, oldMeta = oldMeta, markSectionPageStale = true)
+
+        val bodyPost = tx.loadThePost(pageId, PageParts.BodyNr)
+        val notifications = NotificationGenerator(tx, nashorn)
+          .generateForNewPost(PageDao(pageId, tx), bodyPost, anyNewTextAndHtml = None)
+        tx.saveDeleteNotifications(notifications)
+        true
+      }
+    }
+    if (published) {
+      refreshPageInMemCache(pageId)
+    }
+  }
+
+
   def ifAuthAcceptAnswer(pageId: PageId, postUniqueId: PostId, userId: UserId,
         browserIdData: BrowserIdData): Option[ju.Date] = {
     val answeredAt = readWriteTransaction { tx =>
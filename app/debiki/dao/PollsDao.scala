@@ -0,0 +1,87 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package debiki.dao
+
+import com.debiki.core._
+import debiki.EdHttp._
+import debiki.JsX.JsPoll
+import ed.server.pubsub.StorePatchMessage
+import scala.collection.immutable
+
+
+trait PollsDao {
+  this: SiteDao =>
+
+
+  /** Replaces any old votes by the voter in this poll. No option nrs means
+    * the voter retracts hens votes.
+    */
+  def voteInPoll(postId: PostId, optionNrs: Set[Int], voterId: UserId): PollResults = {
+    val now = globals.now()
+    val (pageId, results) = readWriteTransaction { tx =>
+      val post = tx.loadPostsByUniqueId(Vector(postId)).values.headOption getOrElse {
+        throwNotFound("TyE5WKBP10", s"Post $postId not found")
+      }
+      val poll = tx.loadPollsByPostIds(Vector(postId)).headOption getOrElse {
+        throwNotFound("TyE5WKBP11", s"There's no poll in post $postId")
+      }
+      throwForbiddenIf(post.deletedStatus.isDeleted,
+        "TyE5WKBP12", "The poll has been deleted")
+      throwForbiddenIf(poll.isClosed(now), "TyEPOLLCLSD", "The poll has closed")
+      throwForbiddenIf(poll.choiceType == PollChoiceType.Single && optionNrs.size > 1,
+        "TyE5WKBP13", "You may vote for one option only")
+      optionNrs.find(nr => !poll.hasOptionNr(nr)) foreach { nr =>
+        throwBadArgument("TyE5WKBP14", "optionNrs", s"No option nr $nr")
+      }
+
+      tx.deletePollVotes(postId, voterId)
+      optionNrs foreach { nr =>
+        tx.insertPollVote(PollVote(postId, voterId = voterId, optionNr = nr, votedAt = now))
+      }
+      (post.pageId, PollResults.count(poll, tx.loadPollVotes(Vector(postId))))
+    }
+
+    // No need to refresh the cached page json — it doesn't include the counts. [5WKBP20]
+    // Instead, send the new counts to everyone looking at the page — or, if they may
+    // not see the results, just the number of voters. Then, those who have loaded
+    // the results already, keep them (the browser doesn't drop them).
+    val patch = jsonMaker.makePollsStorePatch(pageId, Seq(
+      JsPoll(results, showResults = results.poll.showResultsToEveryone(now))))
+    pubSub.publish(StorePatchMessage(siteId, pageId, patch, Notifications.None), byId = voterId)
+
+    results
+  }
+
+
+  def loadPollResults(postIds: Iterable[PostId]): immutable.Seq[PollResults] =
+    readOnlyTransaction(loadPollResultsImpl(postIds, _))
+
+
+  def loadPollResultsImpl(postIds: Iterable[PostId], tx: SiteTransaction)
+        : immutable.Seq[PollResults] = {
+    val polls = tx.loadPollsByPostIds(postIds)
+    if (polls.isEmpty) return Nil
+    val votes = tx.loadPollVotes(polls.map(_.postId))
+    polls.map(PollResults.count(_, votes))
+  }
+
+
+  def loadPollVotesByVoter(postId: PostId, voterId: UserId): immutable.Seq[PollVote] =
+    readOnlyTransaction(_.loadPollVotes(Vector(postId))).filter(_.voterId == voterId)
+
+}
@@ -58,9 +58,12 @@ trait PostsDao {
   val LastChatMessageRecentMs: UnixMillis = 3 * 60 * 1000
 
 
+  /** If postType is Poll, then anyPoll should be the poll — its postId gets
+    * filled in here.
+    */
   def insertReply(textAndHtml: TextAndHtml, pageId: PageId, replyToPostNrs: Set[PostNr],
-        postType: PostType, byWho: Who, spamRelReqStuff: SpamRelReqStuff)
-        : InsertPostResult = {
+        postType: PostType, byWho: Who, spamRelReqStuff: SpamRelReqStuff,
+        anyPoll: Option[Poll] = None): InsertPostResult = {
 
     val authorId = byWho.id
     val now = globals.now()
@@ -70,6 +73,9 @@ trait PostsDao {
     if (textAndHtml.safeHtml.trim.isEmpty)
       throwBadReq("DwE6KEF2", "Empty reply")
 
+    throwBadRequestIf((postType == PostType.Poll) != anyPoll.isDefined,
+      "TyE5WKBP20", "Poll posts need a poll, and only poll posts")
+
     // Later: create 1 post of type multireply, with no text, per replied-to post,
     // and one post for the actual text and resulting location of this post.
     // Disabling for now, so I won't have to parse dw2_posts.multireply and convert
@@ -80,14 +86,23 @@ trait PostsDao {
 
     quickCheckIfSpamThenThrow(byWho, textAndHtml, spamRelReqStuff)
 
-    val (newPost, author, notifications, anyReviewTask) = readWriteTransaction { tx =>
-      insertReplyImpl(textAndHtml, pageId, replyToPostNrs, postType, byWho, spamRelReqStuff,
-        now, authorId, tx)
+    val (newPost, author, notifications, anyReviewTask, anyPollSaved) = readWriteTransaction { tx =>
+      val (newPost, author, notifications, anyReviewTask) =
+        insertReplyImpl(textAndHtml, pageId, replyToPostNrs, postType, byWho, spamRelReqStuff,
+          now, authorId, tx)
+      val anyPollSaved = anyPoll.map(_.copy(postId = newPost.id))
+      anyPollSaved foreach tx.insertPoll
+      (newPost, author, notifications, anyReviewTask, anyPollSaved)
     }
 
     refreshPageInMemCache(pageId)
 
-    val storePatchJson = jsonMaker.makeStorePatch(newPost, author, showHidden = true)
+    var storePatchJson = jsonMaker.makeStorePatch(newPost, author, showHidden = true)
+    anyPollSaved foreach { poll =>
+      val noVotes = PollResults.count(poll, Nil)
+      storePatchJson ++= jsonMaker.makePollsStorePatch(pageId, Seq(
+        JsX.JsPoll(noVotes, showResults = poll.showResultsToEveryone(now))))
+    }
     pubSub.publish(StorePatchMessage(siteId, pageId, storePatchJson, notifications),
       byId = author.id)
 
@@ -586,8 +601,12 @@ trait PostsDao {
 
   /** Edits the post, if authorized to edit it.
     */
+  /** If baseVersion is specified, and someone else has edited the post after that version,
+    * throws 409 Conflict, with EditController.EditConflictErrorCode — then the browser
+    * can load the current text, and merge.
+    */
   def editPostIfAuth(pageId: PageId, postNr: PostNr, who: Who, spamRelReqStuff: SpamRelReqStuff,
-        newTextAndHtml: TextAndHtml) {
+        newTextAndHtml: TextAndHtml, baseVersion: Option[PostTextVersion] = None) {
     val editorId = who.id
 
     // Note: Farily similar to appendChatMessageToLastMessage() just above. [2GLK572]
@@ -616,9 +635,14 @@ trait PostsDao {
         inCategoriesRootLast = tx.loadCategoryPathRootLast(page.meta.categoryId),
         permissions = tx.loadPermsOnPages()), "EdE6JLKW2R")
 
+      // Only after the authz check — otherwise people who may not edit the post, could
+      // find out if it's been edited.
+      if (baseVersion.exists(_ != postToEdit.currentTextVersion))
+        throwConflict(EditController.EditConflictErrorCode,
+          "Someone else edited the post, after you started editing it")
+
       // COULD don't allow sbd else to edit until 3 mins after last edit by sbd else?
       // so won't create too many revs quickly because 2 edits.
-      BUG // COULD compare version number: kills the lost update bug.
 
       UX; COULD // if edits title, add a meta message: "Alice changed the title from ... to ..."
       // GitHub does that, and it's quite nice & helpful I think, to see that the topic got renamed.
@@ -726,9 +750,6 @@ trait PostsDao {
 
       val newApprovedRevNr = editsApproved ? Option(newRevisionNr) | postToEdit.approvedRevisionNr
 
-      // COULD send current version from browser to server, reject edits if != oldPost.currentVersion
-      // to stop the lost update problem.
-
       var editedPost = postToEdit.copy(
         currentRevStaredAt = newStartedAt,
         currentRevLastEditedAt = Some(tx.now.toJavaDate),
@@ -1076,18 +1097,29 @@ trait PostsDao {
 
     val postBefore = page.parts.thePostByNr(postNr)
 
+    val isUndeleting = action == PSA.UndeletePost || action == PSA.UndeleteTree
+
     // Authorization.
     if (!user.isStaff) {
       if (postBefore.createdById != userId)
         throwForbidden("DwE0PK24", "You may not modify that post, it's not yours")
 
-      if (!action.isInstanceOf[PSA.DeletePost] && action != PSA.CollapsePost)
+      // People may undo deleting their own posts, but not undelete posts staff deleted.
+      val isUndeletingOwnDeletion =
+        action == PSA.UndeletePost && postBefore.deletedById.contains(userId)
+
+      if (!action.isInstanceOf[PSA.DeletePost] && action != PSA.CollapsePost &&
+          !isUndeletingOwnDeletion)
         throwForbidden("DwE5JKF7", "You may not modify the whole tree")
     }
 
     val isChangingDeletePostToDeleteTree =
       postBefore.deletedStatus.onlyThisDeleted && action == PSA.DeleteTree
-    if (postBefore.isDeleted && !isChangingDeletePostToDeleteTree) {
+    if (isUndeleting) {
+      if (!postBefore.isDeleted)
+        throwForbidden("TyE4WKBU02", "This post isn't deleted")
+    }
+    else if (postBefore.isDeleted && !isChangingDeletePostToDeleteTree) {
       // Hmm but trying to delete a deleted *page*, does nothing, instead of throwing an error. [5WKQRH2]
       throwForbidden("DwE5GUK5", "This post has already been deleted")
     }
@@ -1127,6 +1159,8 @@ trait PostsDao {
       case PSA.CollapseTree => postBefore.copyWithNewStatus(now, userId, treeCollapsed = true)
       case PSA.DeletePost(clearFlags) => postBefore.copyWithNewStatus(now, userId, postDeleted = true)
       case PSA.DeleteTree => postBefore.copyWithNewStatus(now, userId, treeDeleted = true)
+      case PSA.UndeletePost => postBefore.copyWithNewStatus(now, userId, postUndeleted = true)
+      case PSA.UndeleteTree => postBefore.copyWithNewStatus(now, userId, treeUndeleted = true)
     }
 
     updateNumVisible(postBefore, postAfter = postAfter)
@@ -1162,6 +1196,21 @@ trait PostsDao {
             postsDeleted.append(successorDeleted)
             Some(successorDeleted)
           }
+        case PSA.UndeleteTree =>
+          // Skip successors in some other deleted tree, inside this tree — they
+          // got deleted separately.
+          val isInOtherDeletedTree = page.parts.ancestorsOf(successor.nr)
+            .takeWhile(_.nr != postNr).exists(_.deletedStatus.isTreeDeleted)
+          val gotDeletedViaAncestor =
+            (successor.deletedStatus.underlying & PostStatusBits.AncestorsBit) != 0
+          if (!gotDeletedViaAncestor || isInOtherDeletedTree) None
+          else {
+            val successorAfter = successor.copyWithNewStatus(now, userId, ancestorsUndeleted = true)
+            if (!successorAfter.isDeleted) {
+              postsUndeleted.append(successorAfter)
+            }
+            Some(successorAfter)
+          }
         case x =>
           die("TyE2KBIF5", "Unexpected PostAction: " + x)
       }
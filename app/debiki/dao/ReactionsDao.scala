@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package debiki.dao
+
+import com.debiki.core._
+import com.debiki.core.Prelude._
+import debiki.EdHttp._
+import ed.server.pubsub.StorePatchMessage
+import scala.collection.immutable
+
+
+trait ReactionsDao {
+  this: SiteDao =>
+
+
+  /** Adds or removes an emoji reaction. Returns all reactions to the post, afterwards.
+    * Doesn't change the post's vote counts or likeScore — reactions aren't votes.
+    */
+  def toggleReaction(postId: PostId, emoji: String, add: Boolean, reactorId: UserId)
+        : immutable.Seq[PostReaction] = {
+    val emojis = PostReaction.parseEmojiSetting(getWholeSiteSettings().reactionEmojis)
+    throwForbiddenIf(add && !emojis.contains(emoji),
+      "TyE4WKBR10", s"Cannot react with that emoji, on this site: '$emoji'")
+
+    val (post, reactions) = readWriteTransaction { tx =>
+      val post = tx.loadPostsByUniqueId(Vector(postId)).values.headOption getOrElse {
+        throwNotFound("TyE4WKBR11", s"Post $postId not found")
+      }
+      throwForbiddenIf(post.deletedStatus.isDeleted,
+        "TyE4WKBR12", "The post has been deleted")
+      if (add) {
+        val alreadyReacted = tx.loadPostReactions(Vector(postId)).exists(r =>
+          r.reactorId == reactorId && r.emoji == emoji)
+        if (!alreadyReacted) {
+          tx.insertPostReaction(PostReaction(postId, pageId = post.pageId, postNr = post.nr,
+            reactorId = reactorId, emoji = emoji, reactedAt = globals.now()))
+        }
+      }
+      else {
+        tx.deletePostReaction(postId, reactorId = reactorId, emoji = emoji)
+      }
+      (post, tx.loadPostReactions(Vector(postId)))
+    }
+
+    // The reactions aren't in the cached page json, so no need to re-render the page. [5WKBR20]
+    memCache.remove(reactionsOnPageKey(post.pageId))
+
+    val patch = jsonMaker.makeReactionsStorePatch(post.pageId, postId, reactions)
+    pubSub.publish(StorePatchMessage(siteId, post.pageId, patch, Notifications.None),
+      byId = reactorId)
+
+    reactions
+  }
+
+
+  /** Mem cached, because included in the volatile json, in every page view. [5WKBR20]
+    */
+  def getReactionsOnPage(pageId: PageId): immutable.Seq[PostReaction] =
+    memCache.lookup[immutable.Seq[PostReaction]](
+      reactionsOnPageKey(pageId),
+      orCacheAndReturn = Some(readOnlyTransaction(_.loadPostReactionsOnPage(pageId))))
+        .getOrDie("TyE4WKBR13")
+
+
+  private def reactionsOnPageKey(pageId: PageId) =
+    MemCacheKey(siteId, s"$pageId|ReactionsOnPage")
+
+}
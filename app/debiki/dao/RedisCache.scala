@@ -39,6 +39,16 @@ object RedisCache {
   // Sometimes the request takes long, perhaps because of a Java GC pause? Or because of
   // some page being swapped to disk?
   val DefaultTimeout: FiniteDuration = 10 seconds
+
+  // The browser's offline outbox replays requests when the browser gets back online,
+  // typically within minutes or hours, but maybe days later, if the laptop was closed.
+  val IdempotentResponseMaxAgeSeconds: Long = 7 * 24 * 3600
+
+  // Stored instead of the response, whilst the request is being handled.
+  val IdempotentRequestInProgress = "InProgress"
+
+  // If the server crashes whilst handling the request, the browser can retry after this.
+  val IdempotentRequestMaxSeconds: Long = 5 * 60
 }
 
 
@@ -62,6 +72,44 @@ class RedisCache(val siteId: SiteId, private val redis: RedisClient, private val
   }
 
 
+  def loadIdempotentResponse(userId: UserId, idempotencyKey: String): Option[String] = {
+    val futureString: Future[Option[ByteString]] =
+      redis.get(idempotentResponseKey(siteId, userId, idempotencyKey))
+    val anyString: Option[ByteString] =
+      try Await.result(futureString, DefaultTimeout)
+      catch {
+        case _: TimeoutException => die("TyE5KWD20B", "Redis timeout")
+      }
+    anyString.map(_.utf8String)
+  }
+
+
+  /** Returns true if no one else has claimed the key — then we should handle the request.
+    * Atomic (Redis SET NX), so if the same request arrives twice, concurrently,
+    * only one of them gets handled.
+    */
+  def claimIdempotencyKey(userId: UserId, idempotencyKey: String): Boolean = {
+    val futureClaimed: Future[Boolean] =
+      redis.set(idempotentResponseKey(siteId, userId, idempotencyKey),
+        IdempotentRequestInProgress, exSeconds = Some(IdempotentRequestMaxSeconds), NX = true)
+    try Await.result(futureClaimed, DefaultTimeout)
+    catch {
+      case _: TimeoutException => die("TyE5KWD20C", "Redis timeout")
+    }
+  }
+
+
+  def saveIdempotentResponse(userId: UserId, idempotencyKey: String, response: String) {
+    redis.set(idempotentResponseKey(siteId, userId, idempotencyKey), response,
+      exSeconds = Some(IdempotentResponseMaxAgeSeconds))
+  }
+
+
+  def removeIdempotencyKey(userId: UserId, idempotencyKey: String) {
+    redis.del(idempotentResponseKey(siteId, userId, idempotencyKey))
+  }
+
+
   def markUserOnlineRemoveStranger(userId: UserId, browserIdData: BrowserIdData) {
     // Could do this in a transaction. Barely matters.
     redis.zadd(usersOnlineKey(siteId), now().toDouble -> userId)
@@ -158,6 +206,9 @@ class RedisCache(val siteId: SiteId, private val redis: RedisClient, private val
 
   private def watchbarKey(siteId: SiteId, userId: UserId) = s"$siteId-u$userId-w"
 
+  private def idempotentResponseKey(siteId: SiteId, userId: UserId, idempotencyKey: String) =
+    s"$siteId-u$userId-ik$idempotencyKey"
+
   private def usersOnlineKey(siteId: SiteId) = s"$siteId-uo"
   private def strangersOnlineByIpKey(siteId: SiteId) = s"$siteId-soip"
 
@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package debiki.dao
+
+import com.debiki.core._
+import debiki.EdHttp._
+import scala.collection.immutable
+
+
+/** Saved reply templates, for staff. Admins manage the site-wide templates, and
+  * each staff member hens own personal templates.
+  */
+trait ReplyTemplatesDao {
+  this: SiteDao =>
+
+
+  /** Lists the site-wide templates and the requester's own templates.
+    */
+  def listReplyTemplates(requester: User): immutable.Seq[ReplyTemplate] =
+    readOnlyTransaction(_.loadReplyTemplatesVisibleTo(requester.id))
+
+
+  /** Like listReplyTemplates(), but excludes templates for other categories. If
+    * replyingInCategoryId is None, e.g. when replying in a private message, lists only
+    * templates for all categories.
+    */
+  def listReplyTemplatesForReplyingIn(requester: User, replyingInCategoryId: Option[CategoryId])
+        : immutable.Seq[ReplyTemplate] = {
+    val categoryIdsRootLast = replyingInCategoryId.map(categoryId =>
+      loadAncestorCategoriesRootLast(categoryId).map(_.id)) getOrElse Nil
+    listReplyTemplates(requester).filter(_.isForCategory(categoryIdsRootLast))
+  }
+
+
+  def upsertReplyTemplate(template: ReplyTemplate, byWho: User): ReplyTemplate = {
+    throwForbiddenIf(!byWho.isStaff, "TyE5RPLT10", "Only staff may save reply templates")
+    throwIfMayNotEdit(template, byWho)
+    val unknownPlaceholders = ReplyTemplate.findUnknownPlaceholders(template.text)
+    throwForbiddenIf(unknownPlaceholders.nonEmpty, "TyE5RPLT11",
+      s"Unknown placeholders: ${unknownPlaceholders.mkString(", ")}. Available placeholders: " +
+        ReplyTemplate.Placeholders.mkString(", "))
+    template.categoryId foreach { categoryId =>
+      loadCategory(categoryId) getOrElse throwNotFound(
+        "TyE5RPLT12", s"Category $categoryId not found")
+    }
+
+    readWriteTransaction { tx =>
+      val templateToSave =
+        if (template.isNew) {
+          throwForbiddenIf(tx.countReplyTemplates() >= ReplyTemplate.MaxPerSite,
+            "TyE5RPLT13", s"Cannot create more than ${ReplyTemplate.MaxPerSite} reply templates")
+          template.copy(id = tx.nextReplyTemplateId(), createdById = byWho.id)
+        }
+        else {
+          val oldTemplate = tx.loadReplyTemplate(template.id) getOrElse throwNotFound(
+            "TyE5RPLT14", s"Reply template ${template.id} not found — deleted already?")
+          throwIfMayNotEdit(oldTemplate, byWho)
+          template.copy(createdById = oldTemplate.createdById, createdAt = oldTemplate.createdAt)
+        }
+      tx.upsertReplyTemplate(templateToSave)
+      templateToSave
+    }
+  }
+
+
+  def deleteReplyTemplate(templateId: ReplyTemplateId, byWho: User) {
+    readWriteTransaction { tx =>
+      val template = tx.loadReplyTemplate(templateId) getOrElse throwNotFound(
+        "TyE5RPLT15", s"Reply template $templateId not found — deleted already?")
+      throwIfMayNotEdit(template, byWho)
+      tx.deleteReplyTemplate(templateId)
+    }
+  }
+
+
+  private def throwIfMayNotEdit(template: ReplyTemplate, byWho: User) {
+    throwForbiddenIf(template.isSiteWide && !byWho.isAdmin,
+      "TyE5RPLT16", "Only admins may edit site-wide reply templates")
+    throwForbiddenIf(template.ownerId.exists(_ != byWho.id),
+      "TyE5RPLT17", "That's someone else's reply template")
+  }
+
+}
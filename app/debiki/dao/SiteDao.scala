@@ -23,6 +23,7 @@ import debiki._
 import debiki.EdHttp._
 import ed.server.search.SearchEngine
 import org.{elasticsearch => es}
+import play.api.libs.json.{JsObject, Json}
 import redis.RedisClient
 import scala.collection.mutable
 import SiteDao._
@@ -96,6 +97,10 @@ class SiteDao(
   with MessagesDao
   with WatchbarDao
   with ReviewsDao
+  with DraftsDao
+  with PollsDao
+  with ReactionsDao
+  with ReplyTemplatesDao
   with SummaryEmailsDao
   with AuditDao {
 
@@ -161,6 +166,44 @@ class SiteDao(
     dbDao2.readOnlySiteTransaction(siteId, mustBeSerializable = false) { fn(_) }
 
 
+  /** If the browser resends a request from its offline outbox, because it never got
+    * the response to the first attempt, returns the first response, instead of
+    * posting the same reply, or casting the same vote, twice.
+    *
+    * Atomic: if the same request arrives again, whilst the first one is still being
+    * handled — maybe two browser tabs sent the same outbox item — replies 409 Conflict
+    * with IdempotentRequestInProgressErrorCode, and the browser retries later.
+    */
+  def doOnceOrReuseResponse(userId: UserId, anyIdempotencyKey: Option[String])(
+        doIt: => JsObject): JsObject = {
+    val idempotencyKey = anyIdempotencyKey getOrElse {
+      return doIt
+    }
+    throwBadRequestIf(!IdempotencyKeyRegex.pattern.matcher(idempotencyKey).matches,
+      "TyE4GKWB03", s"Bad idempotency key: '$idempotencyKey'")
+    if (!redisCache.claimIdempotencyKey(userId, idempotencyKey)) {
+      redisCache.loadIdempotentResponse(userId, idempotencyKey) match {
+        case Some(oldResponse) if oldResponse != RedisCache.IdempotentRequestInProgress =>
+          return Json.parse(oldResponse).asInstanceOf[JsObject]
+        case _ =>
+          // Still in progress — or it just expired; then, fine to retry.
+          throwConflict(IdempotentRequestInProgressErrorCode,
+            "The same request is being handled already")
+      }
+    }
+    val response =
+      try doIt
+      catch {
+        case ex: Exception =>
+          // Didn't get done, so the browser may retry.
+          redisCache.removeIdempotencyKey(userId, idempotencyKey)
+          throw ex
+      }
+    redisCache.saveIdempotentResponse(userId, idempotencyKey, response.toString)
+    response
+  }
+
+
   def refreshPageInMemCache(pageId: PageId) {
     memCache.firePageSaved(SitePageId(siteId = siteId, pageId = pageId))
   }
@@ -378,6 +421,10 @@ object SiteDao {
   private val SoftMaxOldHostnames = 5
   private val WaitUntilAnotherHostnameInterval = 60
 
+  private val IdempotencyKeyRegex = "^[a-zA-Z0-9_-]{8,60}$".r
+
+  val IdempotentRequestInProgressErrorCode = "TyEIDEMPINPRG"
+
   private val locksBySiteId = mutable.HashMap[SiteId, Object]()
 
   def siteCacheKey(siteId: SiteId) = MemCacheKey(siteId, "|SiteId")
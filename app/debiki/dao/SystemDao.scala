@@ -432,6 +432,17 @@ class SystemDao(
   }
 
 
+  def publishScheduledPages() {
+    val pageIdsBySite: Map[SiteId, immutable.Seq[PageId]] = readOnlyTransaction { tx =>
+      tx.loadPageIdsToPublish(globals.now())
+    }
+    pageIdsBySite foreach { case (siteId, pageIds) =>
+      val siteDao = globals.siteDao(siteId)
+      pageIds foreach siteDao.publishScheduledPage
+    }
+  }
+
+
   // ----- Testing
 
   def emptyDatabase() {
@@ -32,6 +32,7 @@ import org.jsoup.Jsoup
 import play.{api => p}
 import UploadsDao._
 import com.google.common.io.BaseEncoding
+import scala.collection.immutable
 import scala.collection.mutable.ArrayBuffer
 import scala.util.matching.Regex
 
@@ -224,6 +225,89 @@ trait UploadsDao {
   }
 
 
+  /** Lists the files someone has uploaded, recent first, so hen can reuse or delete
+    * them. Excludes deleted files. [5UPLDLIB]
+    */
+  def listUploadsBy(userId: UserId): immutable.Seq[UploadedFile] = {
+    readOnlyTransaction { tx =>
+      val entries = tx.loadUploadLogEntriesRecentFirst(Some(userId), limit = MaxUploadsToList)
+      loadUploadedFiles(entries, tx)
+    }
+  }
+
+
+  /** For the admin area. The most recent files, and how much storage each user uses
+    * — summed in the database, so includes all files, not just the ones listed.
+    */
+  def listAllUploads(): (immutable.Seq[UploadedFile], immutable.Seq[UploaderStats]) = {
+    readOnlyTransaction { tx =>
+      val entries = tx.loadUploadLogEntriesRecentFirst(None, limit = MaxUploadsToListSiteWide)
+      val files = loadUploadedFiles(entries, tx)
+      val stats = tx.loadUploaderStats(UploadsUrlBasePath, weekAgo = tx.now.minusDays(7))
+      (files, stats)
+    }
+  }
+
+
+  private def loadUploadedFiles(entriesRecentFirst: immutable.Seq[UploadLogEntry],
+        tx: SiteTransaction): immutable.Seq[UploadedFile] = {
+    // There's one entry per file — the most recent upload, if the same file was
+    // uploaded many times.
+    val refsAndEntries: immutable.Seq[(UploadRef, UploadLogEntry)] =
+      entriesRecentFirst.map(entry => UploadRef(UploadsUrlBasePath, entry.hashPath) -> entry)
+
+    val refs = refsAndEntries.map(_._1)
+    val infosByRef = tx.loadUploadInfos(refs)
+    val postIdsByRef = tx.loadPostIdsLinkingToUploads(refs)
+    val refsInUse = tx.filterUploadRefsInUse(refs)
+
+    refsAndEntries flatMap { case (ref, entry) =>
+      // No info means the file has been deleted.
+      infosByRef.get(ref) map { info =>
+        UploadedFile(
+          ref,
+          fileName = entry.fileName getOrElse ref.hashPath,
+          sizeBytes = info.sizeBytes,
+          mimeType = info.mimeType,
+          uploadedById = entry.uploadedById,
+          uploadedAt = entry.uploadedAt,
+          linkedFromPostIds = postIdsByRef.getOrElse(ref, Set.empty),
+          isInUse = info.numReferences > 0 || refsInUse.contains(ref))
+      }
+    }
+  }
+
+
+  /** Deletes a file no post or avatar uses, e.g. if one uploaded the wrong file.
+    * (Unused files might otherwise remain for a while, until cleaned up.)
+    * Only the uploader, or admins, may do this.
+    */
+  def deleteUnusedUpload(hashPath: String, requester: User) {
+    val publicUploadsDir = globals.anyPublicUploadsDir getOrElse throwForbidden(
+      "TyE5UPLD02", "File uploads disabled")
+    throwForbiddenIf(!HashPathSuffixRegex.matches(hashPath), "TyE5UPLD03", "Bad hash path")
+    val ref = UploadRef(UploadsUrlBasePath, hashPath)
+
+    readWriteTransaction { tx =>
+      // Admins may delete files anyone has uploaded to this site — but not other sites' files.
+      val uploaderId = if (requester.isAdmin) None else Some(requester.id)
+      throwForbiddenIf(!tx.wasUploadedHere(hashPath, byUserId = uploaderId),
+        "TyE5UPLD04", "You haven't uploaded that file")
+
+      val info = tx.loadUploadInfos(Seq(ref)).getOrElse(ref,
+        throwNotFound("TyE5UPLD05", "File already deleted"))
+      // Maybe another site uses the same file — then, numReferences > 0.
+      throwForbiddenIf(info.numReferences > 0 || tx.filterUploadRefsInUse(Seq(ref)).nonEmpty,
+        "TyE5UPLD06", "The file is in use")
+
+      // Delete the file before the metadata: if the transaction fails, it's okay with
+      // metadata for which the file is missing, but not files with no metadata. [9YMU2Y]
+      new jio.File(s"$publicUploadsDir$hashPath").delete()
+      tx.deleteUploadedFileMeta(ref)
+    }
+  }
+
+
   private def throwIfUploadedTooMuchRecently(uploaderId: UserId, sizeBytes: Int) {
     readOnlyTransaction { transaction =>
       val user = transaction.loadUser(uploaderId) getOrElse throwForbidden(
@@ -298,6 +382,9 @@ object UploadsDao {
 
   val MaxUploadsLastWeek = 700
 
+  val MaxUploadsToList = 500
+  val MaxUploadsToListSiteWide = 5000
+
   val MaxAvatarTinySizeBytes: Int = 2*1000
   val MaxAvatarSmallSizeBytes: Int = 5*1000
   val MaxAvatarMediumSizeBytes: Int = 100*1000
@@ -1149,6 +1149,28 @@ trait UserDao {
     readOnlyTransaction(_.listUsernames(pageId = pageId, prefix = prefix))
 
 
+  def loadMembersByUsernames(usernames: Iterable[String]): immutable.Seq[Member] =
+    readOnlyTransaction { tx =>
+      usernames.toVector.flatMap(tx.loadMemberByPrimaryEmailOrUsername)
+    }
+
+
+  /** Lists the groups the requester may @mention, and how many people would get
+    * notified. [5GRPMNT]
+    */
+  def listMentionableGroups(requester: Member, usernamePrefix: String): Seq[(Group, Int)] = {
+    val prefixLowercase = usernamePrefix.toLowerCase
+    readOnlyTransaction { tx =>
+      val groups = tx.loadGroupsAsSeq() filter { group =>
+        group.theUsername.toLowerCase.startsWith(prefixLowercase) &&   // [CANONUN]
+          group.mayBeMentionedBy(requester)
+      }
+      val numMembersByGroupId = tx.loadGroupMemberCounts(groups.map(_.id))
+      groups.map(group => group -> numMembersByGroupId.getOrElse(group.id, 0))
+    }
+  }
+
+
   def loadUserIdsWatchingPage(pageId: PageId): Seq[UserId] =
     readOnlyTransaction(_.loadUserIdsWatchingPage(pageId))
 
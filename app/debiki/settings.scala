@@ -113,6 +113,21 @@ trait AllSettings {
   def allowEmbeddingFrom: String
   def htmlTagCssClasses: String
 
+  /** Whitespace separated emojis people can react with, see PostReaction.
+    * Empty means reactions are disabled.
+    */
+  def reactionEmojis: String
+
+  /** Whitespace separated ids of editor pre-submit checks that are turned off,
+    * e.g. "imageAltText longCodeLines". See pre-submit-checks.editor.ts.
+    */
+  def disabledEditorChecks: String
+
+  /** If there should be a small reply box below the last post, so people can reply
+    * without opening the full editor. See quick-reply-box.ts.
+    */
+  def enableQuickReplyBox: Boolean
+
   def numFlagsToHidePost: Int
   def cooldownMinutesAfterFlaggedHidden: Int
 
@@ -182,6 +197,9 @@ trait AllSettings {
     showExperimental = Some(self.showExperimental),
     allowEmbeddingFrom = Some(self.allowEmbeddingFrom),
     htmlTagCssClasses = Some(self.htmlTagCssClasses),
+    reactionEmojis = Some(self.reactionEmojis),
+    disabledEditorChecks = Some(self.disabledEditorChecks),
+    enableQuickReplyBox = Some(self.enableQuickReplyBox),
     numFlagsToHidePost = Some(self.numFlagsToHidePost),
     cooldownMinutesAfterFlaggedHidden = Some(self.cooldownMinutesAfterFlaggedHidden),
     numFlagsToBlockNewUser = Some(self.numFlagsToBlockNewUser),
@@ -262,6 +280,9 @@ object AllSettings {
     val showExperimental = false
     val allowEmbeddingFrom = ""
     val htmlTagCssClasses = ""
+    val reactionEmojis = "👍 ❤️ 😄 🎉 😕"
+    val disabledEditorChecks = ""
+    val enableQuickReplyBox = false
     val numFlagsToHidePost = 3
     val cooldownMinutesAfterFlaggedHidden = 10
     val numFlagsToBlockNewUser = 3
@@ -342,6 +363,9 @@ case class EffectiveSettings(
   def showExperimental: Boolean = firstInChain(_.showExperimental) getOrElse default.showExperimental
   def allowEmbeddingFrom: String = firstInChain(_.allowEmbeddingFrom) getOrElse default.allowEmbeddingFrom
   def htmlTagCssClasses: String = firstInChain(_.htmlTagCssClasses) getOrElse default.htmlTagCssClasses
+  def reactionEmojis: String = firstInChain(_.reactionEmojis) getOrElse default.reactionEmojis
+  def disabledEditorChecks: String = firstInChain(_.disabledEditorChecks) getOrElse default.disabledEditorChecks
+  def enableQuickReplyBox: Boolean = firstInChain(_.enableQuickReplyBox) getOrElse default.enableQuickReplyBox
 
   def numFlagsToHidePost: Int = firstInChain(_.numFlagsToHidePost) getOrElse default.numFlagsToHidePost
   def cooldownMinutesAfterFlaggedHidden: Int = firstInChain(_.cooldownMinutesAfterFlaggedHidden) getOrElse default.cooldownMinutesAfterFlaggedHidden
@@ -466,6 +490,9 @@ object Settings2 {
       "showExperimental" -> JsBooleanOrNull(s.showExperimental),
       "allowEmbeddingFrom" -> JsStringOrNull(s.allowEmbeddingFrom),
       "htmlTagCssClasses" -> JsStringOrNull(s.htmlTagCssClasses),
+      "reactionEmojis" -> JsStringOrNull(s.reactionEmojis),
+      "disabledEditorChecks" -> JsStringOrNull(s.disabledEditorChecks),
+      "enableQuickReplyBox" -> JsBooleanOrNull(s.enableQuickReplyBox),
       "numFlagsToHidePost" -> JsNumberOrNull(s.numFlagsToHidePost),
       "cooldownMinutesAfterFlaggedHidden" -> JsNumberOrNull(s.cooldownMinutesAfterFlaggedHidden),
       "numFlagsToBlockNewUser" -> JsNumberOrNull(s.numFlagsToBlockNewUser),
@@ -538,6 +565,9 @@ object Settings2 {
     showExperimental = anyBool(json, "showExperimental", d.showExperimental),
     allowEmbeddingFrom = anyString(json, "allowEmbeddingFrom", d.allowEmbeddingFrom),
     htmlTagCssClasses = anyString(json, "htmlTagCssClasses", d.htmlTagCssClasses),
+    reactionEmojis = anyString(json, "reactionEmojis", d.reactionEmojis),
+    disabledEditorChecks = anyString(json, "disabledEditorChecks", d.disabledEditorChecks),
+    enableQuickReplyBox = anyBool(json, "enableQuickReplyBox", d.enableQuickReplyBox),
     numFlagsToHidePost = anyInt(json, "numFlagsToHidePost", d.numFlagsToHidePost),
     cooldownMinutesAfterFlaggedHidden = anyInt(json, "cooldownMinutesAfterFlaggedHidden", d.cooldownMinutesAfterFlaggedHidden  ),
     numFlagsToBlockNewUser = anyInt(json, "numFlagsToBlockNewUser", d.numFlagsToBlockNewUser  ),
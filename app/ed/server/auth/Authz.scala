@@ -364,6 +364,10 @@ object Authz {
       if (meta.isHidden && !isStaff && !isOwnPage)
         return MayWhat.mayNotSee("EdE0SEEPAGEHIDDEN_")
 
+      // Not yet published — only staff and the author see it, until the Janitor publishes it.
+      if (meta.isScheduled && !isStaff && !isOwnPage)
+        return MayWhat.mayNotSee("TyE0SEEPAGESCHD_")
+
       // In one's own mind map, one may edit all nodes, even if posted by others. [0JUK2WA5]
       if (meta.pageRole == PageRole.MindMap && (isOwnPage || isStaff))
         mayWhat = mayWhat.copy(mayEditPage = true, debugCode = "EdMEDOWNMINDM")
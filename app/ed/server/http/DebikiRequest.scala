@@ -225,6 +225,9 @@ abstract class DebikiRequest[A] {
         PageFilter(PageFilterType.AllTopics, includeDeleted = false)
       case Some("ShowWaiting") =>
         PageFilter(PageFilterType.WaitingTopics, includeDeleted = false)
+      case Some("ShowScheduled") =>
+        throwForbiddenIf(!isStaff, "TyE5SCHPUB06", "Only staff may list scheduled topics")
+        PageFilter(PageFilterType.ScheduledTopics, includeDeleted = false)
       case Some("ShowDeleted") =>
         // Non staff members may not list deleted topics. Could throw an error if !isStaff,
         // but that'd break the end-to-end-tests [4UKDWT20]. The list-deleted-topics option is
@@ -36,6 +36,8 @@ import scala.concurrent.ExecutionContext
   * - Carries out review decisions [5YMBWQT] — they're delayed maybe 10 seconds,
   * so the staff can click Undo, if they accidentally clicked the wrong button. [REVIEWUNDO]
   *
+  * - Publishes pages that were scheduled to get published later. [5SCHPUB]
+  *
   * These things are done by a single actor / background thread, to reduce the risk
   * for database serialization problems (if different threads happen to update the same
   * parts of the database, in a fine & okay way, but that happen to cause serialization
@@ -60,11 +62,16 @@ object Janitor {
       isOrWasTest ? 2.seconds | 13.seconds,
       isOrWasTest ? 100.millis | 3.seconds, actorRef, ExecuteReviewTasks)
 
+    globals.actorSystem.scheduler.schedule(
+      isOrWasTest ? 2.seconds | 17.seconds,
+      isOrWasTest ? 100.millis | 15.seconds, actorRef, PublishScheduledPages)
+
     actorRef
   }
 
   object DeleteOldStuff
   object ExecuteReviewTasks
+  object PublishScheduledPages
 }
 
 
@@ -90,6 +97,14 @@ class JanitorActor(val globals: Globals) extends Actor {
         case throwable: Throwable =>
           p.Logger.error("Error executing review tasks [TyE52QBU05]", throwable)
       }
+    case PublishScheduledPages =>
+      try publishScheduledPages()
+      catch {
+        case ex: java.sql.SQLException if DatabaseUtils.isConnectionClosed(ex) =>
+          p.Logger.warn("Cannot publish scheduled pages, database connection closed [TyE2FKQS6]")
+        case throwable: Throwable =>
+          p.Logger.error("Error publishing scheduled pages [TyE52QBU06]", throwable)
+      }
   }
 
 
@@ -105,4 +120,10 @@ class JanitorActor(val globals: Globals) extends Actor {
     dao.executePendingReviewTasks()
   }
 
+
+  private def publishScheduledPages() {
+    val dao = globals.systemDao
+    dao.publishScheduledPages()
+  }
+
 }
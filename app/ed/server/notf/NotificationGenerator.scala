@@ -79,7 +79,7 @@ case class NotificationGenerator(transaction: SiteTransaction, nashorn: Nashorn)
       val mentionedUsernames = anyNewTextAndHtml.map(_.usernameMentions) getOrElse findMentions(
         newPost.approvedSource getOrDie "DwE82FK4", nashorn)
 
-      var mentionedUsers = mentionedUsernames.flatMap(transaction.loadMemberByPrimaryEmailOrUsername)
+      var mentionedUsers = loadMentionedMembers(mentionedUsernames, newPost.createdById)
 
       val allMentioned = mentionsAllInChannel(mentionedUsernames)
       if (allMentioned) {
@@ -200,11 +200,15 @@ case class NotificationGenerator(transaction: SiteTransaction, nashorn: Nashorn)
     val newMentions: Set[String] = anyNewTextAndHtml.map(_.usernameMentions) getOrElse findMentions(
         newPost.approvedSource getOrDie "DwE2BF81", nashorn)
 
-    val deletedMentions = oldMentions -- newMentions
-    val createdMentions = newMentions -- oldMentions
+    // Compare the people mentioned, not the mentions — someone might still be mentioned
+    // via a @group, after @username has been removed, or the other way around.
+    val oldMentionedMembers = loadMentionedMembers(oldMentions, newPost.createdById)
+    val newMentionedMembers = loadMentionedMembers(newMentions, newPost.createdById)
+    val oldMentionedIds = oldMentionedMembers.map(_.id)
+    val newMentionedIds = newMentionedMembers.map(_.id)
 
-    var mentionsDeletedForUsers = deletedMentions.flatMap(transaction.loadMemberByPrimaryEmailOrUsername)
-    var mentionsCreatedForUsers = createdMentions.flatMap(transaction.loadMemberByPrimaryEmailOrUsername)
+    var mentionsDeletedForUsers = oldMentionedMembers.filterNot(m => newMentionedIds.contains(m.id))
+    var mentionsCreatedForUsers = newMentionedMembers.filterNot(m => oldMentionedIds.contains(m.id))
 
     val newMentionsIncludesAll = mentionsAllInChannel(newMentions)
     val oldMentionsIncludesAll = mentionsAllInChannel(oldMentions)
@@ -223,8 +227,7 @@ case class NotificationGenerator(transaction: SiteTransaction, nashorn: Nashorn)
 
     if (mentionsForAllDeleted) {
       // CLEAN_UP COULD simplify this whole function — needn't load mentionsDeletedForUsers above.
-      var usersMentionedAfter = newMentions.flatMap(transaction.loadMemberByPrimaryEmailOrUsername)
-      val toDelete: Set[UserId] = previouslyMentionedUserIds -- usersMentionedAfter.map(_.id)
+      val toDelete: Set[UserId] = previouslyMentionedUserIds -- newMentionedIds
       // (COULD_OPTIMIZE: needn't load anything here — we have the user ids already.)
       mentionsDeletedForUsers = transaction.loadMembersAsMap(toDelete).values.toSet
     }
@@ -272,6 +275,35 @@ case class NotificationGenerator(transaction: SiteTransaction, nashorn: Nashorn)
   }
 
 
+  /** Looks up @usernames, and expands @group_names to all group members — if the author
+    * may mention the group, see Group.mayMentionMeTrustLevel. [5GRPMNT]
+    */
+  private def loadMentionedMembers(mentions: Set[String], authorId: UserId): Set[Member] = {
+    if (mentions.isEmpty)
+      return Set.empty
+
+    val mentionsLowercase = mentions.map(_.toLowerCase)
+    val mentionedGroups = transaction.loadGroupsAsSeq().filter(group =>
+      mentionsLowercase.contains(group.theUsername.toLowerCase))  // [CANONUN]
+    val groupUsernames = mentionedGroups.map(_.theUsername.toLowerCase).toSet
+
+    val mentionedMembers = mentions.filterNot(m => groupUsernames.contains(m.toLowerCase))
+      .flatMap(transaction.loadMemberByPrimaryEmailOrUsername)
+
+    if (mentionedGroups.isEmpty)
+      return mentionedMembers
+
+    val author = transaction.loadTheMember(authorId)
+    val groupMembers = mentionedGroups.filter(_.mayBeMentionedBy(author)) flatMap { group =>
+      transaction.loadGroupMembers(group.id)
+    }
+
+    // Someone might be in many of the groups, and mentioned directly too.
+    val membersById = (mentionedMembers.toSeq ++ groupMembers).map(m => m.id -> m).toMap
+    membersById.values.toSet
+  }
+
+
   private def bumpAndGetNextNotfId(): NotificationId = {
     nextNotfId match {
       case None =>
@@ -114,6 +114,11 @@ class PubSubApi(private val actorRef: ActorRef) {
     actorRef ! UserIsActive(siteId, user, browserIdData)
   }
 
+  /** Tells the others who view the page, so they can show "Alice is typing...". */
+  def userIsTyping(siteId: SiteId, user: User, pageId: PageId) {
+    actorRef ! UserIsTyping(siteId, user, pageId)
+  }
+
   /** Assumes user byId knows about this already; won't publish to him/her. */
   def publish(message: Message, byId: UserId) {
     actorRef ! PublishMessage(message, byId)
@@ -143,6 +148,8 @@ private case class UserWatchesPages(
   siteId: SiteId, userId: UserId, pageIds: Set[PageId])
 private case class UserIsActive(
   siteId: SiteId, user: User, browserIdData: BrowserIdData)
+private case class UserIsTyping(
+  siteId: SiteId, user: User, pageId: PageId)
 private case class UserSubscribed(
   siteId: SiteId, user: User, browserIdData: BrowserIdData, watchedPageIds: Set[PageId])
 private case class UnsubscribeUser(
@@ -214,6 +221,8 @@ class PubSubActor(val nginxHost: String, val globals: Globals) extends Actor {
     case UserIsActive(siteId, user, browserIdData) =>
       publishPresenceIfChanged(siteId, Some(user), Presence.Active)
       redisCacheForSite(siteId).markUserOnlineRemoveStranger(user.id, browserIdData)
+    case UserIsTyping(siteId, user, pageId) =>
+      publishTyping(siteId, user, pageId)
     case UserSubscribed(siteId, user, browserIdData, watchedPageIds) =>
       // Mark as subscribed, even if this has been done already, to bump it's timestamp.
       val anyOldPageIds = addOrUpdateSubscriber(siteId, user, watchedPageIds)
@@ -315,6 +324,17 @@ class PubSubActor(val nginxHost: String, val globals: Globals) extends Actor {
   }
 
 
+  private def publishTyping(siteId: SiteId, user: User, pageId: PageId) {
+    // Don't mark the user as active — the browser does that, when the user posts
+    // the reply or chat message.
+    val toUserIds = usersWatchingPage(siteId, pageId = pageId).filter(_ != user.id)
+    traceLog(siteId, s"Publ typing ${prettyUser(user)} on page $pageId [TyDPUBLTYPNG]")
+    sendPublishRequest(siteId, toUserIds, "typing", Json.obj(
+      "user" -> JsUser(user),
+      "pageId" -> pageId))
+  }
+
+
   private def publishStorePatchAndNotfs(message: Message, byId: UserId) {
     val siteDao = globals.siteDao(message.siteId)
 
@@ -24,7 +24,7 @@ import debiki._
 import ed.server.{EdContext, EdController}
 import ed.server.http._
 import javax.inject.Inject
-import play.api.libs.json.Json
+import play.api.libs.json.{JsValue, Json}
 import play.api.mvc.{Action, ControllerComponents}
 
 
@@ -34,6 +34,7 @@ class SubscriberController @Inject()(cc: ControllerComponents, edContext: EdCont
   extends EdController(cc, edContext) {
 
   import context.globals
+  import context.security.throwIndistinguishableNotFound
 
   /** This request is sent by Nchan to the app server's ip address so we don't know which site
     * it concerns (because the normal functionality that looks at the hostname doesn't work,
@@ -97,6 +98,8 @@ class SubscriberController @Inject()(cc: ControllerComponents, edContext: EdCont
     // 'siteId-userId' channel id, and in that way subscribe e.g. as someone else at the same site,
     // or someone with the same user id, at a different site.
 
+    // Browsers re-authorize every few minutes also when using WebSocket, to bump the
+    // subscription timestamp, so we won't delete it as inactive. [7WKBQ2X]
     RACE // fairly harmless though. If the user updates the watchbar vi another browser tab right now.
     val watchbar: BareWatchbar = request.dao.getOrCreateWatchbar(request.theUser.id)
     globals.pubSub.userSubscribed(request.siteId, request.theUser, request.theBrowserIdData,
@@ -115,6 +118,21 @@ class SubscriberController @Inject()(cc: ControllerComponents, edContext: EdCont
   }
 
 
+  /** The browser sends this every few seconds, while the user types a reply or chat message,
+    * so others viewing the page can see "Alice is typing...".
+    */
+  def userIsTyping: Action[JsValue] = PostJsonAction(RateLimits.UserIsTyping, maxBytes = 100) {
+        request =>
+    import request.{dao, theRequester}
+    val pageId = (request.body \ "pageId").as[PageId]
+    val pageMeta = dao.getPageMeta(pageId) getOrElse throwIndistinguishableNotFound("TyE4KWTP0")
+    val (maySee, debugCode) = dao.maySeePageUseCache(pageMeta, Some(theRequester))
+    if (!maySee) throwIndistinguishableNotFound(s"TyE4KWTP1-$debugCode")
+    globals.pubSub.userIsTyping(request.siteId, theRequester, pageId)
+    Ok
+  }
+
+
   private def lookupSiteId(host: String): SiteId = {
     COULD // use a cache. hostname --> site id won't change
     val siteId = globals.systemDao.lookupCanonicalHost(host) match {
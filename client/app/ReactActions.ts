@@ -42,6 +42,8 @@ export const actionTypes = {
   ShowForumIntro: 'ShowForumIntro',
   UpdatePost: 'UpdatePost',
   VoteOnPost: 'VoteOnPost',
+  UpdatePoll: 'UpdatePoll',
+  UpdateReactions: 'UpdateReactions',
   MarkPostAsRead: 'MarkPostAsRead',
   CycleToNextMark: 'CycleToNextMark',
   SummarizeReplies: 'SummarizeReplies',
@@ -58,12 +60,18 @@ export const actionTypes = {
   ShowSingleHelpMessageAgain: 'ShowSingleHelpMessageAgain',
   AddNotifications: 'AddNotifications',
   MarkAnyNotificationAsSeen: 'MarkAnyNotificationAsSeen',
+  MarkNotificationsAsSeenInOtherTab: 'MarkNotificationsAsSeenInOtherTab',
+  UpdateOutbox: 'UpdateOutbox',
   AddMeAsPageMember: 'AddMeAsPageMember',
   RemoveMeAsPageMember: 'RemoveMeAsPageMember',
   UpdateOnlineUsersLists: 'UpdateOnlineUsersLists',
   UpdateUserPresence: 'UpdateUserPresence',
+  ShowUserTyping: 'ShowUserTyping',
+  ForgetUsersNoLongerTyping: 'ForgetUsersNoLongerTyping',
   PatchTheStore: 'PatchTheStore',
   ShowNewPage: 'ShowNewPage',
+  ResyncPage: 'ResyncPage',
+  ShowingOfflineCopy: 'ShowingOfflineCopy',
 };
 
 
@@ -110,13 +118,16 @@ export function logoutClientSideOnly() {
   ReactDispatcher.handleViewAction({
     actionType: actionTypes.Logout
   });
+  // The cached pages might include things only the logged out user may see.
+  pagecache.clear();
   if (eds.isInEmbeddedCommentsIframe) {
     // Tell the editor iframe that we've logged out.
     window.parent.postMessage(JSON.stringify(['logoutClientSideOnly', null]), eds.embeddingOrigin);
   }
-  // Abort any long polling request, so we won't receive data, for this user, after we've
-  // logged out: (not really needed, because we reload() below)
+  // Abort any long polling request or WebSocket, so we won't receive data, for this user,
+  // after we've logged out: (not really needed, because we reload() below)
   Server.abortAnyLongPollingRequest();
+  Server.closeAnyWebSocket();
   // Quick fix that reloads the admin page (if one views it) so the login dialog appears:
   location.reload();
 }
@@ -182,6 +193,10 @@ export function deletePages(pageIds: PageId[], success: () => void) {
       actionType: actionTypes.DeletePages,
       pageIds: pageIds,
     });
+    showUndoToastIfStaff({
+      message: pageIds.length === 1 ? t.ut.PageDeleted : t.ut.NumPagesDeleted(pageIds.length),
+      undo: () => undeletePages(pageIds, () => {}),
+    });
   });
 }
 
@@ -302,19 +317,26 @@ export function handleEditResult(editedPost) {
 }
 
 
-export function setPostHidden(postNr: number, hide: boolean, success?: () => void) {
+export function setPostHidden(postNr: number, hide: boolean, success?: () => void,
+      isUndo?: boolean) {
   Server.hidePostInPage(postNr, hide, (postAfter) => {
     if (success) success();
     ReactDispatcher.handleViewAction({
       actionType: actionTypes.UpdatePost,
       post: postAfter
     });
+    if (hide && !isUndo) showUndoToastIfStaff({
+      message: t.ut.PostHidden,
+      undo: () => setPostHidden(postNr, false, undefined, true),
+    });
   });
 }
 
 
 export function deletePost(postNr: number, repliesToo: boolean, success: () => void) {
   Server.deletePostInPage(postNr, repliesToo, (response: { deletedPost, answerGotDeleted }) => {
+    const store: Store = ReactStore.allData();
+    const answerPostId = store.currentPage.pageAnswerPostUniqueId;
     success();
     ReactDispatcher.handleViewAction({
       actionType: actionTypes.UpdatePost,
@@ -324,10 +346,50 @@ export function deletePost(postNr: number, repliesToo: boolean, success: () => v
       // Already done server side. [2JPKBW0]
       unacceptAnswerClientSideOnly();
     }
+    // Members may undo deleting their own posts. Only staff may delete and undelete
+    // whole trees. [UNDELPOST]
+    const me: Myself = ReactStore.getMe();
+    if (repliesToo && !isStaff(me))
+      return;
+    // Undeleting doesn't make the post the accepted answer again, so do that too,
+    // if one may — otherwise, say that Undo won't.
+    const reacceptAnswer = response.answerGotDeleted && (isStaff(me) || store_thisIsMyPage(store));
+    let message = repliesToo ? t.ut.PostAndRepliesDeleted : t.ut.PostDeleted;
+    if (response.answerGotDeleted && !reacceptAnswer) {
+      message += ' ' + t.ut.AnswerNotRestored;
+    }
+    morebundle.showUndoToast({
+      message,
+      undo: () => undeletePost(postNr, repliesToo, () => {
+        if (reacceptAnswer) acceptAnswer(answerPostId);
+      }),
+    });
+  });
+}
+
+
+export function undeletePost(postNr: number, repliesToo: boolean, success?: () => void) {
+  Server.undeletePostInPage(postNr, repliesToo, (response: { undeletedPost }) => {
+    ReactDispatcher.handleViewAction({
+      actionType: actionTypes.UpdatePost,
+      post: response.undeletedPost
+    });
+    if (success) success();
   });
 }
 
 
+/**
+ * Lets staff undo destructive moderation actions, in case of a misclick. The actions
+ * take effect directly, and Undo does the reverse action server side.
+ */
+export function showUndoToastIfStaff(stuff: UndoToastStuff) {
+  if (isStaff(ReactStore.getMe())) {
+    morebundle.showUndoToast(stuff);
+  }
+}
+
+
 // try to remove, use patchTheStore() instead
 export function updatePost(post) {
   ReactDispatcher.handleViewAction({
@@ -360,6 +422,44 @@ export function vote(post, doWhat: string, voteType: string) {
 }
 
 
+/**
+ * No option nrs means retracting one's votes.
+ */
+export function voteInPoll(postId: PostId, optionNrs: number[]) {
+  Server.voteInPoll(postId, optionNrs, updatePoll);
+}
+
+
+/**
+ * Loads the vote counts — e.g. after having voted, if the results are shown
+ * only to those who have voted.
+ */
+export function loadPoll(postId: PostId) {
+  Server.loadPoll(postId, updatePoll);
+}
+
+
+function updatePoll(response: PollAndMyVotes) {
+  ReactDispatcher.handleViewAction({
+    actionType: actionTypes.UpdatePoll,
+    poll: response.poll,
+    myVotes: response.myVotes,
+  });
+}
+
+
+export function toggleReaction(postId: PostId, emoji: string, add: boolean) {
+  Server.toggleReaction(postId, emoji, add, (response: PostReactionsAndMine) => {
+    ReactDispatcher.handleViewAction({
+      actionType: actionTypes.UpdateReactions,
+      postId,
+      reactions: response.reactions,
+      myReactions: response.myReactions,
+    });
+  });
+}
+
+
 export function markPostAsRead(postId: number, manually: boolean) {
   ReactDispatcher.handleViewAction({
     actionType: actionTypes.MarkPostAsRead,
@@ -595,6 +695,20 @@ export function updateUserPresence(user: BriefUser, presence: Presence) {
   });
 }
 
+export function showUserTyping(user: BriefUser, pageId: PageId) {
+  ReactDispatcher.handleViewAction({
+    actionType: actionTypes.ShowUserTyping,
+    user,
+    pageId,
+  });
+}
+
+export function forgetUsersNoLongerTyping() {
+  ReactDispatcher.handleViewAction({
+    actionType: actionTypes.ForgetUsersNoLongerTyping,
+  });
+}
+
 export function updateOnlineUsersLists(numOnlineStrangers: number, onlineUsers: BriefUser[]) {
   ReactDispatcher.handleViewAction({
     actionType: actionTypes.UpdateOnlineUsersLists,
@@ -613,6 +727,23 @@ function markAnyNotificationAsSeen(postNr: number) {
 }
 
 
+// Another browser tab has told the server already, so we won't do that again.
+export function markNotificationsAsSeenInOtherTab(notfIds: NotificationId[]) {
+  ReactDispatcher.handleViewAction({
+    actionType: actionTypes.MarkNotificationsAsSeenInOtherTab,
+    notfIds: notfIds,
+  });
+}
+
+
+export function updateOutbox(outboxItems: OutboxItem[]) {
+  ReactDispatcher.handleViewAction({
+    actionType: actionTypes.UpdateOutbox,
+    outboxItems: outboxItems,
+  });
+}
+
+
 export function patchTheStore(storePatch: StorePatch) {
   ReactDispatcher.handleViewAction({
     actionType: actionTypes.PatchTheStore,
@@ -715,29 +846,125 @@ export function maybeLoadAndShowNewPage(store: Store,
 
 
 export function loadAndShowNewPage(newUrlPath, history) {
-  // UX maybe dim & overlay-cover the current page, to prevent interactions, until request completes?
-  // So the user e.g. won't click Reply and start typing, but then the page suddenly changes.
-  Server.loadPageJson(newUrlPath, response => {
+  // If we've been here before, show the cached page directly, and reload it from the
+  // server in the background — then, if it's been changed, we'll update it in place.
+  pagecache.findPage(newUrlPath, (cachedPage: pagecache.CachedPage | null) => {
+    if (cachedPage) {
+      const cachedStore: Store = JSON.parse(cachedPage.reactStoreJsonString);
+      // The user specific data isn't cached; it'll get loaded from the server, below.
+      showNewPage(cachedStore.pagesById[cachedPage.pageId], cachedStore.publicCategories,
+          _.values(cachedStore.usersByIdBrief), null, history);
+    }
+
+    // UX maybe dim & overlay-cover the current page, to prevent interactions, until request
+    // completes? So the user e.g. won't click Reply and start typing, but then the page
+    // suddenly changes. (If showing a cached page, it won't change much though.)
+    Server.loadPageJson(newUrlPath, response => {
+      if (response.problemCode) {
+        // Maybe the page got deleted, or we may no longer see it.
+        pagecache.forgetPage(newUrlPath);
+        // COULD look at the code and do sth "smart" instead. But not urgent — only pages one
+        // may access, should be shown & SPA-linked to anyway.
+        die(`${response.problemMessage} [${response.problemCode}]`);
+        return;
+      }
+
+      // This is the React store for showing the page at the new url path.
+      const newStore: Store = JSON.parse(response.reactStoreJsonString);
+      const pageId = newStore.currentPageId;
+      const page = newStore.pagesById[pageId];
+      const newUsers = _.values(newStore.usersByIdBrief);
+      const newPublicCategories = newStore.publicCategories;
+      pagecache.savePage(newUrlPath, page, response.reactStoreJsonString);
+      // Not in the cached page json. [5WKBR20]
+      page.reactionsByPostId = response.reactionsByPostId || {};
+
+      if (cachedPage) {
+        const currentPageId = ReactStore.allData().currentPageId;
+        if (currentPageId === pageId) {
+          ReactDispatcher.handleViewAction({
+            actionType: actionTypes.ResyncPage,
+            newPage: page,
+            newUsers,
+            me: response.me,
+          });
+          return;
+        }
+        if (currentPageId !== cachedPage.pageId) {
+          // The user has navigated to yet another page already.
+          return;
+        }
+        // Else, the url path now points to a different page; show that page instead.
+      }
+
+      // This'll trigger ReactStore onChange() event, and everything will redraw to show the new page.
+      showNewPage(page, newPublicCategories, newUsers, response.me, history);
+    }, !cachedPage ? undefined : () => {
+      // Probably we're offline. Then the cached page is better than nothing.
+      ReactDispatcher.handleViewAction({
+        actionType: actionTypes.ShowingOfflineCopy,
+        pageId: cachedPage.pageId,
+      });
+    }, {
+      suppressErrorDialog: !!cachedPage,
+    });
+  });
+}
+
+
+const pageIdsBeingResynced: { [pageId: string]: boolean } = {};
+
+/**
+ * Reloads a page, if the store might have diverged from the server, e.g. because
+ * some server events got lost. Keeps the scroll position and any open editor.
+ */
+export function resyncPage(pageId: PageId) {
+  const store: Store = ReactStore.allData();
+  const page: Page = store.pagesById[pageId];
+  if (!page || pageId === EmptyPageId || pageIdsBeingResynced[pageId])
+    return;
+
+  pageIdsBeingResynced[pageId] = true;
+  const path = (page.pagePath && page.pagePath.value) || '/-' + pageId;
+  Server.loadPageJson(path, response => {
+    delete pageIdsBeingResynced[pageId];
     if (response.problemCode) {
-      // COULD look at the code and do sth "smart" instead. But not urgent — only pages one
-      // may access, should be shown & SPA-linked to anyway.
-      die(`${response.problemMessage} [${response.problemCode}]`);
+      // Maybe the page got deleted, or moved to a category we may not see. Don't show any
+      // error — the user will notice, later when trying to do something on the page.
+      console.warn(`Cannot resync page ${pageId}: ${response.problemMessage} ` +
+          `[${response.problemCode}]`);
       return;
     }
-
-    // This is the React store for showing the page at the new url path.
     const newStore: Store = JSON.parse(response.reactStoreJsonString);
-    const pageId = newStore.currentPageId;
-    const page = newStore.pagesById[pageId];
-    const newUsers = _.values(newStore.usersByIdBrief);
-    const newPublicCategories = newStore.publicCategories;
-
-    // This'll trigger ReactStore onChange() event, and everything will redraw to show the new page.
-    showNewPage(page, newPublicCategories, newUsers, response.me, history);
+    const newPage = newStore.pagesById[pageId];
+    if (!newPage)
+      return;
+    pagecache.savePage(path, newPage, response.reactStoreJsonString);
+    newPage.reactionsByPostId = response.reactionsByPostId || {};
+    ReactDispatcher.handleViewAction({
+      actionType: actionTypes.ResyncPage,
+      newPage,
+      newUsers: _.values(newStore.usersByIdBrief),
+      me: response.me,
+    });
+  }, () => {
+    // Maybe we're offline. We'll try again later.
+    delete pageIdsBeingResynced[pageId];
+  }, {
+    suppressErrorDialog: true,
   });
 }
 
 
+// If we're reading a cached copy of the page, because we were offline, reload it now.
+window.addEventListener('online', () => {
+  const store: Store = ReactStore.allData();
+  if (store.currentPageIsOfflineCopy) {
+    resyncPage(store.currentPageId);
+  }
+});
+
+
 export function showNewPage(newPage: Page | AutoPage, newPublicCategories, newUsers: BriefUser[],
         me: Myself, history: History) {
   ReactDispatcher.handleViewAction({
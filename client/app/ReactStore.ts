@@ -80,6 +80,8 @@ export function makeNoPageData(): MyPageData {
     dbgSrc: 'MyNP',
     rolePageSettings: { notfLevel: NotfLevel.Normal },
     votes: {},
+    pollVotesByPostId: {},
+    myReactionsByPostId: {},
     unapprovedPosts: {},
     unapprovedPostAuthors: [],
     postNrsAutoReadLongAgo: [],
@@ -119,6 +121,7 @@ ReactDispatcher.register(function(payload) {
       store.numOnlineStrangers += 1;
       store.me = makeStranger(store);
       store.user = store.me; // try to remove
+      store.outboxItems = [];  // they're the logged out user's
       debiki2.pubsub.subscribeToServerEvents();
       break;
 
@@ -254,6 +257,16 @@ ReactDispatcher.register(function(payload) {
       voteOnPost(action);
       break;
 
+    case ReactActions.actionTypes.UpdatePoll:
+      updatePoll(action.poll, store.currentPageId);
+      store.me.myCurrentPageData.pollVotesByPostId[action.poll.postId] = action.myVotes;
+      break;
+
+    case ReactActions.actionTypes.UpdateReactions:
+      updateReactions(action.postId, action.reactions, store.currentPageId);
+      updateMyReactions(action.postId, action.myReactions);
+      break;
+
     case ReactActions.actionTypes.MarkPostAsRead:
       markPostAsRead(action.postId, action.manually);
       break;
@@ -329,6 +342,14 @@ ReactDispatcher.register(function(payload) {
       markAnyNotificationssAsSeen(action.postNr);
       break;
 
+    case ReactActions.actionTypes.MarkNotificationsAsSeenInOtherTab:
+      markNotificationsAsSeen(action.notfIds);
+      break;
+
+    case ReactActions.actionTypes.UpdateOutbox:
+      store.outboxItems = action.outboxItems;
+      break;
+
     case ReactActions.actionTypes.AddMeAsPageMember:
       dieIf(!store.usersByIdBrief[store.me.id], 'EsE5PU81');
       userIdList_add(currentPage.pageMemberIds, store.me.id);
@@ -338,6 +359,14 @@ ReactDispatcher.register(function(payload) {
       userIdList_remove(currentPage.pageMemberIds, store.me.id);
       break;
 
+    case ReactActions.actionTypes.ShowUserTyping:
+      showUserTyping(action.user, action.pageId);
+      break;
+
+    case ReactActions.actionTypes.ForgetUsersNoLongerTyping:
+      forgetUsersTyping(typer => typer.untilMs <= Date.now());
+      break;
+
     case ReactActions.actionTypes.PatchTheStore:
       patchTheStore(action.storePatch);
       break;
@@ -346,6 +375,16 @@ ReactDispatcher.register(function(payload) {
       showNewPage(action.newPage, action.newPublicCategories, action.newUsers, action.me, action.history);
     break;
 
+    case ReactActions.actionTypes.ResyncPage:
+      resyncPage(action.newPage, action.newUsers, action.me);
+      break;
+
+    case ReactActions.actionTypes.ShowingOfflineCopy:
+      if (store.currentPageId === action.pageId) {
+        store.currentPageIsOfflineCopy = true;
+      }
+      break;
+
     case ReactActions.actionTypes.UpdateUserPresence:
       if (action.presence === Presence.Active) {
         theStore_addOnlineUser(action.user);
@@ -415,6 +454,9 @@ ReactStore.activateVolatileData = function() {
   volatileDataActivated = true;
   const data: VolatileDataFromServer = eds.volatileDataFromServer;
   theStore_setOnlineUsers(data.numStrangersOnline, data.usersOnline);
+  if (data.reactionsByPostId && store.currentPage) {
+    store.currentPage.reactionsByPostId = data.reactionsByPostId;
+  }
   ReactStore.activateMyself(data.me);
   store.quickUpdate = false;
   this.emitChange();
@@ -444,6 +486,7 @@ ReactStore.activateMyself = function(anyNewMe: Myself) {
     // For now only. Later on, this data should be kept server side instead?
     addLocalStorageDataTo(store.me);
     debiki2.pubsub.subscribeToServerEvents();
+    Server.loadAndSendOutbox();
     this.emitChange();
     return;
   }
@@ -542,6 +585,7 @@ ReactStore.activateMyself = function(anyNewMe: Myself) {
   }
 
   debiki2.pubsub.subscribeToServerEvents();
+  Server.loadAndSendOutbox();
   store.quickUpdate = false;
 };
 
@@ -763,6 +807,49 @@ function voteOnPost(action) {
 }
 
 
+function updatePoll(poll: Poll, pageId: PageId, ps: { keepLoadedResults?: boolean } = {}) {
+  const page: Page = store.pagesById[pageId];
+  if (!page) return;
+  // [redux] modifying the store in place, again.
+  page.pollsByPostId = page.pollsByPostId || {};
+  const oldPoll: Poll | undefined = page.pollsByPostId[poll.postId];
+  if (ps.keepLoadedResults && !poll.numVotesByOptionNr && oldPoll &&
+      oldPoll.numVotesByOptionNr) {
+    // The patch is for everyone, so it excludes the counts, if only some people may see
+    // them. Keep the counts we've loaded — the number of voters too, so the percentages
+    // add up — rather than dropping them and refetching whenever someone votes. [5WKBP20]
+    poll = { ...poll, numVoters: oldPoll.numVoters,
+        numVotesByOptionNr: oldPoll.numVotesByOptionNr };
+  }
+  page.pollsByPostId[poll.postId] = poll;
+  const pollPost: Post = _.find(page.postsByNr, (post: Post) => post.uniqueId === poll.postId);
+  if (pollPost && page === store.currentPage) {
+    rememberPostsToQuickUpdate(pollPost.nr);
+  }
+}
+
+
+function updateReactions(postId: PostId, reactions: PostReactionCount[], pageId: PageId) {
+  const page: Page = store.pagesById[pageId];
+  if (!page) return;
+  // [redux] modifying the store in place, again.
+  page.reactionsByPostId = page.reactionsByPostId || {};
+  page.reactionsByPostId[postId] = reactions;
+  const post: Post = _.find(page.postsByNr, (post: Post) => post.uniqueId === postId);
+  if (post && page === store.currentPage) {
+    rememberPostsToQuickUpdate(post.nr);
+  }
+}
+
+
+function updateMyReactions(postId: PostId, emojis: string[]) {
+  const myPageData: MyPageData = store.me.myCurrentPageData;
+  // Might be missing, if the page json was cached in the browser before reactions existed.
+  myPageData.myReactionsByPostId = myPageData.myReactionsByPostId || {};
+  myPageData.myReactionsByPostId[postId] = emojis;
+}
+
+
 function markPostAsRead(postId: number, manually: boolean) {
   const me: Myself = store.me;
   const myPageData: MyPageData = me.myCurrentPageData;
@@ -1105,12 +1192,24 @@ function markAnyNotificationssAsSeen(postNr) {
         updateNotificationCounts(notf, false);
         // Simpler to call the server from here:
         Server.markNotificationAsSeen(notf.id);
+        debiki2.pubsub.tellOtherTabsNotfsSeen([notf.id]);
       }
     }
   });
 }
 
 
+function markNotificationsAsSeen(notfIds: NotificationId[]) {
+  _.each(store.me.notifications, (notf: Notification) => {
+    if (!notf.seen && _.includes(notfIds, notf.id)) {
+      // Modifying state directly, oh well [redux]
+      notf.seen = true;
+      updateNotificationCounts(notf, false);
+    }
+  });
+}
+
+
 function updateNotificationCounts(notf: Notification, add: boolean) {
   // Modifying state directly, oh well [redux]
   var delta = add ? +1 : -1;
@@ -1191,6 +1290,11 @@ function patchTheStore(storePatch: StorePatch) {
       watchbar_markAsUnread(store.me.watchbar, patchedPageId);
     }
 
+    // Whoever posted these, is done typing.
+    _.each(patchedPosts, (patchedPost: Post) => {
+      forgetUsersTyping(typer => typer.userId === patchedPost.authorId, patchedPageId);
+    });
+
     // Find out if some post was moved to elsewhere.
     // Remove the post from its former parent, if we're moving it to elsewhere on the page,
     // or to another page.
@@ -1218,6 +1322,16 @@ function patchTheStore(storePatch: StorePatch) {
     });
   });
 
+  // Votes in polls don't bump the page version, so don't compare versions. [5WKBP20]
+  _.each(storePatch.pollsByPageId, (polls: Poll[], pageId: PageId) => {
+    _.each(polls, (poll: Poll) => updatePoll(poll, pageId, { keepLoadedResults: true }));
+  });
+
+  _.each(storePatch.reactionsByPageId, (reactionsByPostId, pageId: PageId) => {
+    _.each(reactionsByPostId, (reactions: PostReactionCount[], postId) =>
+      updateReactions(parseInt(postId), reactions, pageId));
+  });
+
   // Update the current page.
   if (!storePatch.pageVersionsByPageId) {
     // No page. Currently storePatch.usersBrief is for the current page (but there is none)
@@ -1225,6 +1339,11 @@ function patchTheStore(storePatch: StorePatch) {
     return;
   }
 
+  // Cached copies of these pages are out of date now.
+  _.each(storePatch.pageVersionsByPageId, (pageVersion: PageVersion, pageId: PageId) => {
+    pagecache.forgetPageIfOlder(pageId, pageVersion);
+  });
+
   _.each(store.pagesById, patchPage);
 
   function patchPage(page: Page) {
@@ -1241,8 +1360,15 @@ function patchTheStore(storePatch: StorePatch) {
       // any posts below.
     }
     else {
-      // (Hmm this assumes we get all patches in between these two versions, or that
-      // the current patch contains all changes, since the current page version.)
+      if (storePatchPageVersion > page.pageVersion + 1) {
+        // We've missed some changes. Maybe a server event got lost, when the network
+        // connection broke. Or someone did something that bumped the page version, without
+        // sending any patch, e.g. closed the topic. Then reload the page, so it won't
+        // silently diverge from what's on the server. (Not from inside this dispatch.)
+        console.debug(`Page ${page.pageId} version gap: ${page.pageVersion} —> ` +
+            `${storePatchPageVersion}, resyncing [TyMPGVERGAP]`);
+        setTimeout(() => ReactActions.resyncPage(page.pageId), 0);
+      }
       page.pageVersion = storePatchPageVersion;
     }
 
@@ -1274,6 +1400,7 @@ function showNewPage(newPage: Page, newPublicCategories: Category[], newUsers: B
   store.pagesById[newPage.pageId] = newPage;
   store.currentPage = newPage;
   store.currentPageId = newPage.pageId;
+  store.currentPageIsOfflineCopy = false;
 
   // Update categories — maybe this page is in a different sub community with different categories.
   store.publicCategories = newPublicCategories;  // hmm could rename to currentPublicCategories
@@ -1288,6 +1415,7 @@ function showNewPage(newPage: Page, newPublicCategories: Category[], newUsers: B
     store.me.watchbar = newMe.watchbar;
     myData = newMe.myDataByPageId[newPage.pageId];
     if (myData) {
+      addPostNrsReadOnThisDevice(myData, newPage.pageId);
       store.me.myDataByPageId[newPage.pageId] = myData;
     }
     addRestrictedCategories(newMe.restrictedCategories, store.currentCategories);
@@ -1371,6 +1499,77 @@ function showNewPage(newPage: Page, newPublicCategories: Category[], newUsers: B
 }
 
 
+/**
+ * Replaces a page in the store with a freshly loaded version. Unlike showNewPage(), this
+ * updates the page object in place, and doesn't scroll anywhere — so React just re-renders
+ * the posts that changed, and the scroll position and any open editor are kept.
+ */
+function resyncPage(newPage: Page, newUsers: BriefUser[], newMe: Myself | null) {
+  const oldPage: Page = store.pagesById[newPage.pageId];
+  if (!oldPage || newPage.pageVersion < oldPage.pageVersion) {
+    // Gone, or newer patches have arrived already.
+    return;
+  }
+
+  // [redux] modifying the store in place, again.
+  _.assign(oldPage, newPage);
+
+  _.each(newUsers, (user: BriefUser) => {
+    store.usersByIdBrief[user.id] = user;
+  });
+
+  const isCurrentPage = oldPage === store.currentPage;
+  const myData: MyPageData = newMe && newMe.myDataByPageId[newPage.pageId];
+  if (myData) {
+    addPostNrsReadOnThisDevice(myData, newPage.pageId);
+    store.me.myDataByPageId[newPage.pageId] = myData;
+    if (isCurrentPage) {
+      store.me.myCurrentPageData = myData;
+    }
+  }
+
+  if (isCurrentPage) {
+    // If the page was shown from the page cache, this is the first time we get the
+    // user specific data for it.
+    if (newMe) {
+      store.me.watchbar = newMe.watchbar;
+      addRestrictedCategories(newMe.restrictedCategories, store.currentCategories);
+    }
+    store.currentPageIsOfflineCopy = false;
+  }
+
+  // When done rendering, replace date ISO strings with pretty dates.
+  setTimeout(debiki2.page.Hacks.processPosts);
+}
+
+
+// Show "Alice is typing..." a bit longer than the interval between Alice's browser's
+// I'm-typing messages, so it won't flicker.  [5TYPNG2]
+const ShowUserTypingMs = 7 * 1000;
+
+function showUserTyping(user: BriefUser, pageId: PageId) {
+  store.usersByIdBrief[user.id] = user;
+  const typingByPageId = store.usersTypingByPageId || (store.usersTypingByPageId = {});
+  const typers = _.filter(typingByPageId[pageId] || [], typer => typer.userId !== user.id);
+  typers.push({ userId: user.id, untilMs: Date.now() + ShowUserTypingMs });
+  typingByPageId[pageId] = typers;
+  // (Don't dispatch from inside a dispatch.)
+  setTimeout(ReactActions.forgetUsersNoLongerTyping, ShowUserTypingMs + 100);
+}
+
+
+function forgetUsersTyping(shallForget: (typer: UserTyping) => boolean, onlyPageId?: PageId) {
+  _.each(store.usersTypingByPageId, (typers: UserTyping[], pageId: PageId) => {
+    if (onlyPageId && pageId !== onlyPageId)
+      return;
+    const remaining = _.filter(typers, typer => !shallForget(typer));
+    if (remaining.length < typers.length) {
+      store.usersTypingByPageId[pageId] = remaining;
+    }
+  });
+}
+
+
 function watchbar_markAsUnread(watchbar: Watchbar, pageId: PageId) {
   watchbar_markReadUnread(watchbar, pageId, false);
 }
@@ -1488,6 +1687,18 @@ function makeStranger(store: Store): Myself {
 }
 
 
+/**
+ * The server sends the post nrs we've read on all devices. But posts read here recently,
+ * might not yet have been reported to the server — they're in localStorage though.
+ * So merge with those, so they won't reappear as unread. [SYNCREAD]
+ */
+function addPostNrsReadOnThisDevice(myPageData: MyPageData, pageId: PageId) {
+  const readHere = page.PostsReadTracker.getPostNrsAutoReadLongAgo(pageId);
+  myPageData.postNrsAutoReadLongAgo =
+      _.uniq((myPageData.postNrsAutoReadLongAgo || []).concat(readHere));
+}
+
+
 /**
  * This data should be stored server side, but right now I'm prototyping only and
  * storing it client side only.
@@ -1505,7 +1716,7 @@ function addLocalStorageDataTo(me: Myself) {
     return;
 
   const myPageData: MyPageData = me.myCurrentPageData;
-  myPageData.postNrsAutoReadLongAgo = page.PostsReadTracker.getPostNrsAutoReadLongAgo();
+  addPostNrsReadOnThisDevice(myPageData, store.currentPageId);
   myPageData.marksByPostId = {}; // not implemented: loadMarksFromLocalStorage();
 
   if (me_isStranger(me)) {
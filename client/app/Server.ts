@@ -18,6 +18,8 @@
 /// <reference path="model.ts" />
 /// <reference path="links.ts" />
 /// <reference path="ServerApi.ts" />
+/// <reference path="server-endpoints.ts" />
+/// <reference path="page/page-cache.ts" />
 
 // Ought to include, but then `debiki2.createComponent` gets placed too late —> JS breaks:
 //xx <reference path="ReactActions.ts" />
@@ -32,6 +34,8 @@ const d: any = { i: debiki.internal };
 
 const BadNameOrPasswordErrorCode = '_TyE403BPWD';
 const NoPasswordErrorCode = '_TyMCHOOSEPWD';
+const EditConflictErrorCode = 'TyEEDITCONFL';  // [5KWB2EC]
+const IdempotentRequestInProgressErrorCode = 'TyEIDEMPINPRG';
 
 function getPageId(): PageId {
   return eds.embeddedPageId || // [4HKW28]
@@ -42,7 +46,7 @@ interface OngoingRequest {
   abort();
 }
 
-interface RequestData {
+interface RequestData extends RequestPolicy {
   data: any;
   success: (response: any) => void;
   error?: (xhr: XMLHttpRequest) => any;
@@ -50,33 +54,268 @@ interface RequestData {
 }
 
 
+// ----- Timeouts, retries, cancellation
+
+/**
+ * How long to wait for a response, how many times to retry, and a signal that
+ * cancels the request. Only GET requests get retried — POST requests might not
+ * be idempotent.
+ */
+export interface RequestPolicy {
+  timeoutMs?: number;  // 0 means no timeout
+  maxRetries?: number;
+  abortSignal?: AbortSignalLike;
+}
+
+const DefaultGetTimeoutMs = 30 * 1000;
+const DefaultPostTimeoutMs = 30 * 1000;
+const DefaultUploadTimeoutMs = 0;  // large files, over slow connections, can take long
+const DefaultGetMaxRetries = 2;
+const RetryFirstDelayMs = 1000;
+
+/** The browser's AbortSignal — or our own stand-in, in old browsers without AbortController. */
+export interface AbortSignalLike {
+  aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void);
+  removeEventListener(type: 'abort', listener: () => void);
+}
+
+export interface AbortControllerLike {
+  signal: AbortSignalLike;
+  abort();
+}
+
+/**
+ * Use in a React component, to cancel its requests when it unmounts — then neither
+ * the success nor the error callbacks get called. So, no need for any `isGone` flag:
+ *
+ *   componentWillUnmount: function() { this.requests.abort(); }
+ *   ... Server.loadSomething(..., { abortSignal: this.requests.signal });
+ */
+export function makeAbortController(): AbortControllerLike {
+  const AbortController = window['AbortController'];
+  if (AbortController)
+    return new AbortController();
+  // IE11.
+  let listeners = [];
+  const signal: AbortSignalLike = {
+    aborted: false,
+    addEventListener: (type, listener) => { listeners.push(listener); },
+    removeEventListener: (type, listener) => { listeners = _.filter(listeners, l => l !== listener); },
+  };
+  return {
+    signal,
+    abort: () => {
+      if (signal.aborted) return;
+      signal.aborted = true;
+      _.each(listeners, listener => listener());
+    },
+  };
+}
+
+
+type RequestOutcome = 'Ok' | 'Failed' | 'TimedOut' | 'Aborted';
+
+export interface RequestDoneInfo {
+  method: 'GET' | 'POST';
+  urlPath: string;
+  outcome: RequestOutcome;
+  status: number;  // 0 if no response
+  durationMs: number;
+  numRetries: number;
+}
+
+const requestDoneListeners: ((info: RequestDoneInfo) => void)[] = [];
+
+/** For metrics — the listener gets called once per request, after any retries. */
+export function addRequestDoneListener(listener: (info: RequestDoneInfo) => void) {
+  requestDoneListeners.push(listener);
+}
+
+function notifyRequestDone(info: RequestDoneInfo) {
+  _.each(requestDoneListeners, listener => listener(info));
+}
+
+
+/**
+ * Sends a request, retries it if it's a GET and the server is unreachable, overloaded
+ * or restarting, and calls onResponse or onError, or neither, if aborted.
+ */
+function sendRequest(method: 'GET' | 'POST', urlPath: string, fetchOptions,
+      policy: RequestPolicy, onResponse: (xhr: XMLHttpRequest) => void,
+      onError: (errorObj) => void): OngoingRequest {
+  const startedAtMs = Date.now();
+  const maxRetries = method === 'GET' ? policy.maxRetries : 0;
+  const abortSignal = policy.abortSignal;
+  let numRetries = 0;
+  let currentXhr: XMLHttpRequest;
+  let retryTimeoutHandle;
+  let isDone = false;
+
+  function done(outcome: RequestOutcome, status: number) {
+    isDone = true;
+    if (abortSignal) abortSignal.removeEventListener('abort', abort);
+    notifyRequestDone({
+      method, urlPath, outcome, status, durationMs: Date.now() - startedAtMs, numRetries });
+  }
+
+  function abort() {
+    if (isDone) return;
+    clearTimeout(retryTimeoutHandle);
+    // Unlike with jQuery, this abort() won't trigger the promise's error handler below.
+    if (currentXhr) currentXhr.abort();
+    done('Aborted', 0);
+  }
+
+  function sendOnce() {
+    const promiseWithXhr = <any> Bliss.fetch(origin() + urlPath, {  // hack [7FKRPQ2T0]
+      ...fetchOptions,
+      method,
+      timeout: policy.timeoutMs,
+    });
+    currentXhr = promiseWithXhr.xhr;
+    promiseWithXhr.then(xhr => {
+      if (isDone) return;
+      done('Ok', xhr.status);
+      try {
+        onResponse(xhr);
+      }
+      catch (exception) {
+        // Show the error dialog, like if the request failed.
+        onError(exception);
+      }
+    }, errorObj => {
+      if (isDone) return;
+      const status = errorObj.xhr ? errorObj.xhr.status : 0;
+      const timedOut = errorObj.message === "Network Timeout";  // see bliss.shy.js
+      // 0 means the server is unreachable (or we're offline), 502 and 504 that it's
+      // restarting (Nginx cannot connect), and 503 that it's overloaded.
+      const mightWorkLater = status === 0 || status === 502 || status === 503 || status === 504;
+      if (mightWorkLater && numRetries < maxRetries) {
+        numRetries += 1;
+        // Exponential backoff, with jitter, so many browsers won't retry in sync.
+        const delayMs = RetryFirstDelayMs * Math.pow(2, numRetries - 1) * (0.5 + Math.random());
+        console.debug(`Retrying ${method} ${urlPath} in ${Math.round(delayMs)} ms [TyMRETRYREQ]`);
+        retryTimeoutHandle = setTimeout(sendOnce, delayMs);
+        return;
+      }
+      done(timedOut ? 'TimedOut' : 'Failed', status);
+      onError(errorObj);
+    });
+  }
+
+  if (abortSignal) {
+    if (abortSignal.aborted)
+      return { abort: () => {} };
+    abortSignal.addEventListener('abort', abort);
+  }
+  sendOnce();
+  return { abort };
+}
+
+
+export interface UploadFileOptions extends RequestPolicy {
+  onProgress?: (percentDone: number) => void;
+}
+
+/**
+ * Uploads a file, and reports progress. No timeout, by default. Not via sendRequest(),
+ * because Bliss.fetch() would replace FormData's multipart Content-Type, and never retries.
+ * Calls neither success nor error, if aborted.
+ */
+export function uploadFile(urlPath: string, formData: FormData, success: (response: any) => void,
+      error: (xhr: XMLHttpRequest) => void, options: UploadFileOptions = {}) {
+  const startedAtMs = Date.now();
+  const abortSignal = options.abortSignal;
+  if (abortSignal && abortSignal.aborted)
+    return;
+
+  const xhr = new XMLHttpRequest();
+  let isDone = false;
+
+  function done(outcome: RequestOutcome) {
+    isDone = true;
+    if (abortSignal) abortSignal.removeEventListener('abort', abort);
+    notifyRequestDone({ method: 'POST', urlPath, outcome, status: xhr.status,
+        durationMs: Date.now() - startedAtMs, numRetries: 0 });
+  }
+
+  function abort() {
+    if (isDone) return;
+    xhr.abort();
+    done('Aborted');
+  }
+
+  xhr.open('POST', urlPath);  // a bit dupl code [2UK503]
+  xhr.timeout = isDefined2(options.timeoutMs) ? options.timeoutMs : DefaultUploadTimeoutMs;
+  xhr.setRequestHeader('X-XSRF-TOKEN', getSetCookie('XSRF-TOKEN'));
+  if (options.onProgress) {
+    xhr.upload.onprogress = (event: ProgressEvent) => {
+      if (isDone || !event.lengthComputable) return;
+      options.onProgress(event.loaded / event.total * 100);
+    };
+  }
+  xhr.onload = () => {
+    if (isDone) return;
+    if (xhr.status !== 200) {
+      done('Failed');
+      error(xhr);
+      return;
+    }
+    done('Ok');
+    // Remove any AngularJS safe json prefix. [5LKW02D4]
+    success(JSON.parse(xhr.responseText.replace(/^\)]}',\n/, '')));
+  };
+  xhr.onerror = () => {
+    if (isDone) return;
+    done('Failed');
+    error(xhr);
+  };
+  xhr.ontimeout = () => {
+    if (isDone) return;
+    done('TimedOut');
+    error(xhr);
+  };
+  if (abortSignal) abortSignal.addEventListener('abort', abort);
+  xhr.send(formData);
+}
+
+
 function postJson(urlPath: string, requestData: RequestData) {
-  let url = appendE2eAndForbiddenPassword(origin() + urlPath);
+  const url = appendE2eAndForbiddenPassword(urlPath);
   if (requestData.showLoadingOverlay !== false) {
     showLoadingOverlay();
   }
 
-  let timeoutHandle = setTimeout(function() {
-    showServerJustStartedMessage();
-    timeoutHandle = setTimeout(showErrorIfNotComplete, 23 * 1000);
-  }, 7 * 1000);
+  const slowTimeoutHandle = setTimeout(showServerJustStartedMessage, 7 * 1000);
 
   function removeTimeoutAndOverlay() {
-    clearTimeout(timeoutHandle);
+    clearTimeout(slowTimeoutHandle);
     if (requestData.showLoadingOverlay !== false) {
       removeLoadingOverlay();
     }
+    if (policy.abortSignal) {
+      policy.abortSignal.removeEventListener('abort', removeTimeoutAndOverlay);
+    }
+  }
+
+  const policy: RequestPolicy = {
+    timeoutMs: isDefined2(requestData.timeoutMs) ? requestData.timeoutMs : DefaultPostTimeoutMs,
+    abortSignal: requestData.abortSignal,
+  };
+
+  if (policy.abortSignal) {
+    policy.abortSignal.addEventListener('abort', removeTimeoutAndOverlay);
   }
 
-  Bliss.fetch(url, {
-    method: 'POST',
+  sendRequest('POST', url, {
     data: JSON.stringify(requestData.data),
     headers: {
       'Content-Type': 'application/json; charset=utf-8',
       'X-Requested-With': 'XMLHttpRequest',
       'X-XSRF-TOKEN': getSetCookie('XSRF-TOKEN'),
     }
-  }).then(xhr => {
+  }, policy, xhr => {
     removeTimeoutAndOverlay();
     if (requestData.success) {
       // Remove any AngularJS safe json prefix. [5LKW02D4]
@@ -84,7 +323,7 @@ function postJson(urlPath: string, requestData: RequestData) {
       response = response ? JSON.parse(response) : null;
       requestData.success(response);
     }
-  }).catch(errorObj => {
+  }, errorObj => {
     removeTimeoutAndOverlay();
     const errorAsJson = JSON.stringify(errorObj);
     const details = errorObj.xhr && errorObj.xhr.responseText ?
@@ -98,7 +337,12 @@ function postJson(urlPath: string, requestData: RequestData) {
         return;
     }
     console.error(`Error calling ${urlPath}: ${errorAsJson}, details: ${details}`);
-    if (errorObj.xhr) {
+    if (errorObj.message === "Network Timeout") {
+      pagedialogs.getServerErrorDialog().openForBrowserError(
+          `Error: Server too slow, no response after ${policy.timeoutMs / 1000} seconds ` +
+          `[EsE5YK0W24]`);
+    }
+    else if (errorObj.xhr) {
       pagedialogs.getServerErrorDialog().open(errorObj.xhr);
     }
     else {
@@ -181,22 +425,11 @@ function removeLoadingOverlay() {
 }
 
 
-function showErrorIfNotComplete() {
-  const stillLoading = !!$byId('theLoadingOverlay');
-  if (stillLoading) {
-    // Remove the spinner before showing the dialog.
-    Bliss('#theLoadingOverlay .icon-loading').remove();
-    alert("Error: Server too slow [EsE5YK0W24]");
-    removeLoadingOverlay();
-  }
-}
-
-
 export const testPost = postJsonSuccess;
 
 /** Return Server.IgnoreThisError from error(..) to suppress a log message and error dialog. */
 function postJsonSuccess(urlPath, success: (response: any) => void, data: any, error?,
-        options?: { showLoadingOverlay?: boolean }) {
+        options?: { showLoadingOverlay?: boolean } & RequestPolicy) {
   // Make postJsonSuccess(..., error, data) work:
   if (!data || _.isFunction(data)) {
     const tmp = data;
@@ -209,6 +442,8 @@ function postJsonSuccess(urlPath, success: (response: any) => void, data: any, e
     success: success,
     error: error,
     showLoadingOverlay: options.showLoadingOverlay,
+    timeoutMs: options.timeoutMs,
+    abortSignal: options.abortSignal,
   });
 }
 
@@ -218,10 +453,9 @@ export const testGet = get;
 type GetSuccessFn = (response, xhr?: XMLHttpRequest) => void;
 type GetErrorFn = (errorDetails: string) => void;
 
-interface GetOptions {
+interface GetOptions extends RequestPolicy {
   dataType?: string;
   headers?: { [headerName: string]: string }
-  timeout?: number;
   suppressErrorDialog?: boolean;
 }
 
@@ -234,12 +468,13 @@ function get(uri: string, successFn: GetSuccessFn, errorFn?: GetErrorFn, options
 
   headers['X-Requested-With'] = 'XMLHttpRequest';
 
-  const promiseWithXhr = <any> Bliss.fetch(origin() + uri, {  // hack [7FKRPQ2T0]
-    method: 'GET',
-    headers: headers,
-    timeout: options.timeout,
-  });
-  promiseWithXhr.then(xhr => {
+  const policy: RequestPolicy = {
+    timeoutMs: isDefined2(options.timeoutMs) ? options.timeoutMs : DefaultGetTimeoutMs,
+    maxRetries: isDefined2(options.maxRetries) ? options.maxRetries : DefaultGetMaxRetries,
+    abortSignal: options.abortSignal,
+  };
+
+  return sendRequest('GET', uri, { headers }, policy, xhr => {
     let response = xhr.response;
     if (options.dataType !== 'html') {
       // Then it's json, what else could it be? Remove any AngularJS safe json prefix. [5LKW02D4]
@@ -247,7 +482,7 @@ function get(uri: string, successFn: GetSuccessFn, errorFn?: GetErrorFn, options
       response = JSON.parse(response);
     }
     successFn(response, xhr);
-  }).catch(errorObj => {
+  }, errorObj => {
     const errorAsJson = JSON.stringify(errorObj);
     const details: string = errorObj.xhr ? errorObj.xhr.responseText : errorObj.stack;
     console.error(`Error calling ${uri}: ${errorAsJson}, details: ${details}`);
@@ -264,14 +499,81 @@ function get(uri: string, successFn: GetSuccessFn, errorFn?: GetErrorFn, options
       errorFn(details);
     }
   });
+}
 
-  return {
-    abort: function() {
-      // Unlike with jQuery, this abort() won't trigger the promise's error handler above,
-      // i.e. won't call `catch(...)` above.
-      promiseWithXhr.xhr.abort();
+
+// ----- Typed endpoint functions
+
+type EndpointFn<Params, Response> =
+    (params: Params, success: (response: Response) => void, error?: (details?) => any,
+        options?: EndpointOptions) => void;
+
+interface EndpointOptions extends RequestPolicy {
+  suppressErrorDialog?: boolean;  // only for GET
+  showLoadingOverlay?: boolean;  // only for POST
+}
+
+type EndpointFns<Endpoints extends { [name: string]: Endpoint<any, any> }> = {
+  [Name in keyof Endpoints]:
+      EndpointFn<Endpoints[Name]['_params'], Endpoints[Name]['_response']>;
+};
+
+
+/**
+ * Typed request functions, generated from the endpoints in server-endpoints.ts.
+ * E.g. `api.loadVoters({ postId, voteType }, response => ... response.numVoters ...)`.
+ */
+export const api = <EndpointFns<typeof endpoints>> makeEndpointFns(endpoints);
+
+
+function makeEndpointFns(endpointsByName: { [name: string]: Endpoint<any, any> }) {
+  const fnsByName = {};
+  _.forOwn(endpointsByName, (endpoint: Endpoint<any, any>, name: string) => {
+    fnsByName[name] = makeEndpointFn(endpoint);
+  });
+  return fnsByName;
+}
+
+
+function makeEndpointFn<Params, Response>(endpoint: Endpoint<Params, Response>)
+      : EndpointFn<Params, Response> {
+  return function(params: Params, success: (response: Response) => void,
+        error?: (details?) => any, options?: EndpointOptions) {
+    const pathOrUrl = endpoint.path;
+    const url = _.isFunction(pathOrUrl) ? pathOrUrl(params) : pathOrUrl;
+    const checkAndHandle = (response: Response) => {
+      // @ifdef DEBUG
+      const problems = findShapeProblems(response, endpoint.responseShape);
+      if (problems.length) {
+        // Don't die() — the rest of the response might be fine.
+        const message = `Unexpected response from ${url} [TyEBADRSPSHP]:\n  ` +
+            problems.join('\n  ');
+        console.error(message);
+        logError(message);
+        pagedialogs.getServerErrorDialog().openForBrowserError(message);
+      }
+      // @endif
+      success(response);
+    };
+    if (endpoint.method === 'GET') {
+      const query = _.isFunction(pathOrUrl) ? '' : makeQueryString(params);
+      get(url + query, checkAndHandle, error, options);
     }
-  }
+    else {
+      postJsonSuccess(url, checkAndHandle, params, error, options);
+    }
+  };
+}
+
+
+function makeQueryString(params): string {
+  const keysAndValues = [];
+  _.each(params, (value, key: string) => {
+    if (value !== undefined && value !== null) {
+      keysAndValues.push(key + '=' + encodeURIComponent(value));
+    }
+  });
+  return keysAndValues.length ? '?' + keysAndValues.join('&') : '';
 }
 
 
@@ -431,22 +733,13 @@ export function createSite(localHostname: string,
 }
 
 
-interface LoadSettingsResult {
-  effectiveSettings: Settings;
-  defaultSettings: Settings;
-  baseDomain: string,
-  cnameTargetHost: string,
-  hosts: Host[];
-}
-
-
 export function loadSiteSettings(success: (s: LoadSettingsResult) => void) {
-  get('/-/load-site-settings', success);
+  api.loadSiteSettings({}, success);
 }
 
 
 export function saveSiteSettings(settings: Settings, success: (s: LoadSettingsResult) => void) {
-  postJsonSuccess('/-/save-site-settings', success, settings);
+  api.saveSiteSettings(settings, success);
 }
 
 
@@ -606,24 +899,23 @@ export function stopImpersonatingReloadPage() {
 
 
 export function loadGroups(success: (_: Group[]) => void) {
-  get('/-/load-groups', response => {
-    success(response);
-  });
+  api.loadGroups({}, success);
 }
 
 
 // BUG might get a Guest or Group, not always a MemberInclDetails. SHOULD find for usages & fix.
 // (Some callers, but not all, can deal with Group or Guest.)
 export function loadUserAnyDetails(userIdOrUsername: UserId | string,
-      doneCallback: (user: MemberInclDetails, stats: UserStats) => void, error?: () => void) {
-  get('/-/load-user-any-details?who=' + userIdOrUsername, (response) => {
+      doneCallback: (user: MemberInclDetails, stats: UserStats) => void, error?: () => void,
+      policy?: RequestPolicy) {
+  api.loadUserAnyDetails({ who: userIdOrUsername }, response => {
     doneCallback(response.user, response.stats);
-  }, error);
+  }, error, policy);
 }
 
 
 export function listCompleteUsers(whichUsers, success: (users: MemberInclDetailsWithStats[]) => void) {
-  get(`/-/list-complete-users?whichUsers=${whichUsers}`, response => {
+  api.listCompleteUsers({ whichUsers }, response => {
     success(response.users);
   });
 }
@@ -633,9 +925,7 @@ type UserAcctRespHandler = (response: UserAccountResponse) => void;
 
 
 export function loadEmailAddressesAndLoginMethods(userId: UserId, success: UserAcctRespHandler) {
-  get(`/-/load-email-addrs-login-methods?userId=${userId}`, response => {
-    success(response);
-  });
+  api.loadEmailAddrsLoginMethods({ userId }, success);
 }
 
 
@@ -647,25 +937,25 @@ export function resendOwnerEmailAddrVerifEmail(success) {
 // Maybe initiated by staff, on behalf of another user — so could be any id and address.
 //
 export function resendEmailAddrVerifEmail(userId: UserId, emailAddress: string) {
-  postJsonSuccess('/-/resend-email-addr-verif-email', (response: UserAccountResponse) => {
+  api.resendEmailAddrVerifEmail({ userId, emailAddress }, (response: UserAccountResponse) => {
     util.openDefaultStupidDialog({ body: "Email sent" });
-  }, { userId, emailAddress });
+  });
 }
 
 export function addEmailAddresses(userId: UserId, emailAddress: string, success: UserAcctRespHandler) {
-  postJsonSuccess('/-/add-email-address', success, { userId, emailAddress });
+  api.addEmailAddress({ userId, emailAddress }, success);
 }
 
 
 export function removeEmailAddresses(userId: UserId, emailAddress: string,
       success: UserAcctRespHandler) {
- postJsonSuccess('/-/remove-email-address', success, { userId, emailAddress });
+  api.removeEmailAddress({ userId, emailAddress }, success);
 }
 
 
 export function setPrimaryEmailAddresses(userId: UserId, emailAddress: string,
       success: UserAcctRespHandler) {
-  postJsonSuccess('/-/set-primary-email-address', success, { userId, emailAddress });
+  api.setPrimaryEmailAddress({ userId, emailAddress }, success);
 }
 
 
@@ -765,8 +1055,7 @@ export function loadMyself(callback: (user: any) => void) {
 
 export function loadNotifications(userId: UserId, upToWhenMs: number,
       success: (notfs: Notification[]) => void, error: () => void) {
-  const query = '?userId=' + userId + '&upToWhenMs=' + upToWhenMs;
-  get('/-/load-notifications' + query, success, error);
+  api.loadNotifications({ userId, upToWhenMs }, success, error);
 }
 
 
@@ -802,7 +1091,7 @@ export function saveMemberPrivacyPrefs(prefs, success: () => void) {
 
 
 export function deleteUser(userId, success: (anonUsername: string) => void) {
-  postJsonSuccess(`/-/delete-user`, success, { userId });
+  api.deleteUser({ userId }, success);
 }
 
 
@@ -826,19 +1115,20 @@ export function unblockGuest(postId: number, success: () => void) {
 }
 
 
-export function loadAuthorBlockedInfo(postId: number, success: (response: Blocks) => void) {
-  get('/-/load-author-blocks?postId=' + postId, success);
+export function loadAuthorBlockedInfo(postId: number, success: (response: Blocks) => void,
+      policy?: RequestPolicy) {
+  api.loadAuthorBlocks({ postId }, success, undefined, policy);
 }
 
 
 export function createForum(options: { title, folder, useCategories, createSupportCategory,
       createIdeasCategory, createSampleTopics, topicListStyle }, success: (urlPath: string) => void) {
-  postJsonSuccess('/-/create-forum', success, options);
+  api.createForum(options, success);
 }
 
 
 export function listForums(success: (forums: Forum[]) => void) {
-  get('/-/list-forums', success);
+  api.listForums({}, success);
 }
 
 
@@ -858,21 +1148,46 @@ export function loadForumCategoriesTopics(forumPageId: string, topicFilter: stri
 }
 
 
+/**
+ * If the topic list is in the page cache, calls doneCallback twice: first directly with
+ * the cached topics, then with the topics from the server.
+ */
 export function loadForumTopics(categoryId: string, orderOffset: OrderOffset,
-      doneCallback: (topics: Topic[]) => void) {
+      doneCallback: (topics: Topic[], isFromCache?: boolean) => void) {
   const url = '/-/list-topics?categoryId=' + categoryId + '&' +
       ServerApi.makeForumTopicsQueryParams(orderOffset);
-  get(url, (response: any) => {
-    ReactActions.patchTheStore({ usersBrief: response.users });
-    doneCallback(response.topics);
+  // Only the first topics in a list get cached, not more-topics-further-down-the-list.
+  const isFirstTopics = !orderOffset.olderThan && !orderOffset.score;
+  if (!isFirstTopics) {
+    loadTopicsFromServer(false);
+    return;
+  }
+  pagecache.findTopicList(url, (cachedList: pagecache.CachedTopicList | null) => {
+    if (cachedList) {
+      ReactActions.patchTheStore({ usersBrief: cachedList.users });
+      doneCallback(cachedList.topics, true);
+    }
+    loadTopicsFromServer(!!cachedList);
   });
+
+  function loadTopicsFromServer(isShowingCachedTopics: boolean) {
+    get(url, (response: any) => {
+      if (isFirstTopics) {
+        pagecache.saveTopicList(url, response.topics, response.users);
+      }
+      ReactActions.patchTheStore({ usersBrief: response.users });
+      doneCallback(response.topics);
+    }, null, {
+      // If we're offline, the cached topics are better than an error dialog.
+      suppressErrorDialog: isShowingCachedTopics,
+    });
+  }
 }
 
 
 export function loadTopicsByUser(userId: UserId,
         doneCallback: (topics: Topic[]) => void) {
-  const url = `/-/list-topics-by-user?userId=${userId}`;
-  get(url, (response: any) => {
+  api.listTopicsByUser({ userId }, response => {
     ReactActions.patchTheStore({ usersBrief: response.users });
     doneCallback(response.topics);
   });
@@ -891,30 +1206,151 @@ export function listUsernames(prefix: string, pageId: PageId, success: (username
 }
 
 
-// Currently doesn't load any draft.
-// Later: add reply-to-post-unique-id, to load the correct draft?
-//
-export function loadDraftAndGuidelines(writingWhat: WritingWhat, categoryId: number,
-      pageRole: PageRole, success: (guidelinesSafeHtml: string) => void) {
-  if (!categoryId && pageRole !== PageRole.FormalMessage) {
-    // For now just cancel. There's no draft to load, and there're no guidelines, since
-    // we got no category id.
+export function listMentionableGroups(prefix: string, success: (groups: Group[]) => void) {
+  api.listMentionableGroups({ usernamePrefix: prefix }, success);
+}
+
+
+export function listUsernamesWhoCannotSee(pageId: PageId, usernames: string[],
+      success: (usernames: string[]) => void, error: () => void) {
+  api.listUsernamesWhoCannotSee({ pageId, usernames: usernames.join(',') },
+      success, error, { suppressErrorDialog: true });
+}
+
+
+/**
+ * Loads any draft for `draftLocator`, e.g. a reply to some post, saved earlier
+ * maybe on another device. And guidelines about what to write, if `writingWhat`.
+ */
+export function loadDraftAndGuidelines(draftLocator: DraftLocator | null,
+      writingWhat: WritingWhat | null, categoryId: number, pageRole: PageRole,
+      success: (guidelinesSafeHtml: string | null, draft?: Draft) => void,
+      error?: () => void) {
+  // There're no guidelines, if we got no category id.
+  const loadGuidelines = writingWhat && (categoryId || pageRole === PageRole.FormalMessage);
+  const loadDraft = draftLocator && ReactStore.getMe().isLoggedIn;
+  if (!loadGuidelines && !loadDraft) {
     success(null);
     return;
   }
-  const categoryParam = categoryId ? '&categoryId=' + categoryId : '';
-  get('/-/load-draft-and-guidelines?writingWhat=' + writingWhat + categoryParam +
-       '&pageRole=' + pageRole, (response) => {
-    success(response.guidelinesSafeHtml);
+  const locator: DraftLocator = loadDraft ? draftLocator : <DraftLocator> {};
+  const queryString = stringifyQueryString({
+    writingWhat: loadGuidelines ? writingWhat : undefined,
+    pageRole: loadGuidelines ? pageRole : undefined,
+    categoryId: loadGuidelines ? categoryId : locator.categoryId,
+    draftType: locator.draftType,
+    toUserId: locator.toUserId,
+    postId: locator.postId,
+    pageId: locator.pageId,
+    postNrs: locator.replyToPostNrs ? locator.replyToPostNrs.join(',') : undefined,
+  });
+  get('/-/load-draft-and-guidelines?' + queryString, (response) => {
+    success(response.guidelinesSafeHtml, response.drafts[0]);
+  }, error);
+}
+
+
+/**
+ * Creates the draft, if it has no draft nr, otherwise overwrites it. Calls back with
+ * the saved draft, which has a draft nr.
+ */
+export function upsertDraft(draft: Draft, success: (draft: Draft) => void,
+      error: () => void) {
+  postJson('/-/upsert-draft', {
+    data: draft,
+    success,
+    error: () => {
+      error();
+      // Autosaving drafts happens in the background; don't pop up any error dialog.
+      return IgnoreThisError;
+    },
+    showLoadingOverlay: false,
+  });
+}
+
+
+export function deleteDrafts(draftNrs: DraftNr[], success?: () => void) {
+  postJson('/-/delete-drafts', {
+    data: { draftNrs },
+    success: success || (() => {}),
+    showLoadingOverlay: false,
+  });
+}
+
+
+export function listDrafts(userId: UserId, success: (drafts: Draft[]) => void,
+      policy?: RequestPolicy) {
+  api.listDrafts({ userId }, response => {
+    success(response.drafts);
+  }, undefined, policy);
+}
+
+
+export function listUploads(userId: UserId, success: (files: UploadedFile[]) => void,
+      policy?: RequestPolicy) {
+  api.listUploads({ userId }, response => {
+    success(response.files);
+  }, undefined, policy);
+}
+
+
+export function listAllUploads(success: (files: UploadedFile[], statsPerUser: UploaderStats[],
+      limits: UploadLimits) => void, policy?: RequestPolicy) {
+  api.listAllUploads({}, response => {
+    success(response.files, response.statsPerUser, response.limits);
+  }, undefined, policy);
+}
+
+
+export function deleteUpload(hashPath: string, success: () => void) {
+  postJson('/-/delete-upload', {
+    data: { hashPath },
+    success,
+  });
+}
+
+
+/**
+ * If forEditor, lists only templates for categoryId, or for all categories — otherwise,
+ * lists all templates one may see.
+ */
+export function listReplyTemplates(ps: { forEditor: boolean, categoryId?: CategoryId },
+      success: (templates: ReplyTemplate[]) => void, policy?: RequestPolicy) {
+  api.listReplyTemplates({ categoryId: ps.categoryId, forEditor: ps.forEditor }, response => {
+    success(response.replyTemplates);
+  }, undefined, policy);
+}
+
+
+export function upsertReplyTemplate(template: ReplyTemplate,
+      success: (template: ReplyTemplate) => void) {
+  api.upsertReplyTemplate({
+    id: template.id || undefined,
+    siteWide: !template.ownerId,
+    categoryId: template.categoryId,
+    title: template.title,
+    text: template.text,
+  }, success);
+}
+
+
+export function deleteReplyTemplate(templateId: ReplyTemplateId, success: () => void) {
+  postJson('/-/delete-reply-template', {
+    data: { id: templateId },
+    success,
   });
 }
 
 
 export function loadCurrentPostText(postNr: PostNr,
-      doneCallback: (text: string, postUid: number, revisionNr: number) => void) {
-  get('/-/edit?pageId='+ getPageId() + '&postNr='+ postNr, (response: any) => {
+      doneCallback: (text: string, postUid: number, revisionNr: number,
+          version: PostTextVersion) => void) {
+  api.loadCurrentText({ pageId: getPageId(), postNr }, response => {
     // COULD also load info about whether the user may apply and approve the edits.
-    doneCallback(response.currentText, response.postUid, response.currentRevisionNr);
+    doneCallback(response.currentText, response.postUid, response.currentRevisionNr, {
+      revisionNr: response.currentRevisionNr,
+      lastEditedAtMs: response.currentRevLastEditedAtMs,
+    });
   });
 }
 
@@ -942,29 +1378,82 @@ export function loadOneboxSafeHtml(url: string, success: (safeHtml: string) => v
 
 
 export function saveVote(data, success: (updatedPost) => void) {
-  postJsonSuccess('/-/vote', success, data);
+  // If offline, the vote gets shown as pending, until sent. [OFFLOUTBX]
+  postOrQueueInOutbox('Vote', '/-/vote', data, success);
+}
+
+
+/**
+ * No option nrs means retracting one's votes.
+ */
+export function voteInPoll(postId: PostId, optionNrs: number[],
+      success: (response: PollAndMyVotes) => void) {
+  api.voteInPoll({ postId, optionNrs }, success);
+}
+
+
+export function loadPoll(postId: PostId, success: (response: PollAndMyVotes) => void) {
+  api.loadPoll({ postId }, success);
+}
+
+
+export function loadPollVoters(postId: PostId, optionNr: number,
+      doneCallback: (numVoters: number, someVoters: BriefUser[]) => void,
+      policy?: RequestPolicy) {
+  api.loadPollVoters({ postId, optionNr }, response => {
+    doneCallback(response.numVoters, response.someVoters);
+  }, undefined, policy);
+}
+
+
+export function toggleReaction(postId: PostId, emoji: string, add: boolean,
+      success: (response: PostReactionsAndMine) => void) {
+  api.toggleReaction({ postId, emoji, add }, success);
+}
+
+
+export function loadReactors(postId: PostId, emoji: string,
+      doneCallback: (numReactors: number, someReactors: BriefUser[]) => void,
+      policy?: RequestPolicy) {
+  api.loadReactors({ postId, emoji }, response => {
+    doneCallback(response.numReactors, response.someReactors);
+  }, undefined, policy);
 }
 
 
 export function loadVoters(postId: PostId, voteType: PostVoteType,
-      doneCallback: (numVoters: number, someVoters: BriefUser[]) => void) {
- get('/-/load-voters?postId='+ postId + '&voteType=' + voteType, (response: any) => {
+      doneCallback: (numVoters: number, someVoters: BriefUser[]) => void,
+      policy?: RequestPolicy) {
+ api.loadVoters({ postId, voteType }, response => {
    doneCallback(response.numVoters, response.someVoters);
- });
+ }, undefined, policy);
 }
 
 
-export function saveEdits(postNr: number, text: string, doneCallback: () => void) {
+/**
+ * If baseVersion is specified, and someone else has edited the post after that
+ * version, the server rejects the edits, and onConflict gets called.
+ */
+export function saveEdits(postNr: number, text: string, baseVersion: PostTextVersion | undefined,
+      doneCallback: () => void, onConflict?: () => void) {
   postJson('/-/edit', {
     data: {
       pageId: getPageId(),
       postNr: postNr,
-      text: text
+      text: text,
+      baseRevisionNr: baseVersion ? baseVersion.revisionNr : undefined,
+      baseRevLastEditedAtMs: baseVersion ? baseVersion.lastEditedAtMs : undefined,
     },
     success: (editedPost) => {
       doneCallback();
       ReactActions.handleEditResult(editedPost);
-    }
+    },
+    error: (xhr: XMLHttpRequest) => {
+      if (onConflict && xhr.status === 409 && xhr.responseText.indexOf(EditConflictErrorCode) >= 0) {
+        onConflict();
+        return IgnoreThisError;
+      }
+    },
   });
 }
 
@@ -991,16 +1480,16 @@ export function savePageTitleAndSettings(newTitle: string, settings, success: (r
 
 
 export function loadLatestPostRevisions(postId: PostId,
-    success: (revisions: PostRevision[]) => void) {
-  get('/-/load-post-revisions?postId=' + postId + '&revisionNr=LastRevision', success);
+    success: (revisions: PostRevision[]) => void, policy?: RequestPolicy) {
+  api.loadPostRevisions({ postId, revisionNr: 'LastRevision' }, success, undefined, policy);
 }
 
 
 /** Loads revision revisionNr and some older revisions.
   */
 export function loadMorePostRevisions(postId: PostId, revisionNr: number,
-    success: (revisions: PostRevision[]) => void) {
-  get('/-/load-post-revisions?postId=' + postId + '&revisionNr=' + revisionNr, success);
+    success: (revisions: PostRevision[]) => void, policy?: RequestPolicy) {
+  api.loadPostRevisions({ postId, revisionNr }, success, undefined, policy);
 }
 
 
@@ -1018,39 +1507,258 @@ export function unpinPage(success: () => void) {
 }
 
 
+export function reschedulePage(pageId: PageId, publishAtMs: WhenMs, success: () => void) {
+  postJsonSuccess('/-/reschedule-page', success, { pageId, publishAtMs });
+}
+
+
+export function publishPageNow(pageId: PageId, success: () => void) {
+  postJsonSuccess('/-/publish-page-now', success, { pageId });
+}
+
+
 export function saveReply(postNrs: PostNr[], text: string, anyPostType: number,
-    success: () => void) {
-  postJson('/-/reply', {
-    data: {
-      pageId: getPageId() || undefined,
-      altPageId: eds.embeddedPageAltId || undefined,
-      embeddingUrl: eds.embeddingUrl || undefined,
-      postNrs: postNrs,
-      postType: anyPostType || PostType.Normal,
-      text: text
+    anyPoll: NewPoll | undefined, success: () => void, error?: () => void) {
+  const data = {
+    pageId: getPageId() || undefined,
+    altPageId: eds.embeddedPageAltId || undefined,
+    embeddingUrl: eds.embeddingUrl || undefined,
+    postNrs: postNrs,
+    postType: anyPoll ? PostType.Poll : (anyPostType || PostType.Normal),
+    poll: anyPoll,
+    text: text
+  };
+  // If offline, call success() anyway, so the editor closes — the reply is in the outbox.
+  postOrQueueInOutbox('Reply', '/-/reply', data, (response) => {
+    d.i.handleReplyResult(response);
+    success();
+  }, success, error);
+}
+
+
+export function insertChatMessage(text: string, success: () => void) {
+  const data = {
+    pageId: getPageId(),
+    text: text
+  };
+  postOrQueueInOutbox('ChatMessage', '/-/chat', data, (response) => {
+    d.i.handleReplyResult(response);
+    success();
+  }, success);
+}
+
+
+// ----- Offline outbox
+
+// Replies, chat messages and votes, posted when the browser is offline, get queued
+// in an IndexedDB outbox, and shown as pending. When the browser gets back online,
+// they're sent, in order. Each item has an idempotency key, so if the browser resends
+// an item, because it never got the response, the server won't save it twice. [OFFLOUTBX]
+
+const OutboxStoreName = 'items';
+
+interface OutboxState {
+  db?: IDBDatabase;
+  items: OutboxItem[];  // in the order they were queued
+  isSending?: boolean;
+}
+
+const outboxState: OutboxState = { items: [] };
+const RetryInProgressOutboxItemMs = 5 * 1000;
+
+
+function postOrQueueInOutbox(type: OutboxItemType, urlPath: string, data,
+      success: (response) => void, onQueued?: () => void, onError?: () => void) {
+  const me: Myself = ReactStore.allData().me;
+  const idempotencyKey = makeIdempotencyKey();
+  const item: OutboxItem = {
+    idempotencyKey,
+    type,
+    urlPath,
+    data: { ...data, idempotencyKey },
+    userId: me.id,
+    queuedAtMs: getNowMs(),
+  };
+
+  function queueIt() {
+    addToOutbox(item);
+    if (onQueued) onQueued();
+  }
+
+  if (navigator.onLine === false) {
+    queueIt();
+    return;
+  }
+
+  postJson(urlPath, {
+    data: item.data,
+    success,
+    error: (xhr: XMLHttpRequest) => {
+      // Status 0 means we got no response — probably the network connection broke.
+      if (xhr.status === 0) {
+        queueIt();
+        return IgnoreThisError;
+      }
+      if (onError) onError();
     },
-    success: (response) => {
-      d.i.handleReplyResult(response);
-      success();
+  });
+}
+
+
+function makeIdempotencyKey(): string {
+  return getNowMs().toString(36) + '-' + Math.random().toString(36).substr(2, 12);
+}
+
+
+function withOutboxDb(fn: (db: IDBDatabase | null) => void) {
+  if (outboxState.db) {
+    fn(outboxState.db);
+    return;
+  }
+  const indexedDB: IDBFactory = window.indexedDB;
+  if (!indexedDB) {
+    // Then keep the outbox in memory only. Gets lost if the tab is closed, but works otherwise.
+    setTimeout(() => fn(null), 0);
+    return;
+  }
+  // Include the site id, so different sites' outboxes won't get mixed up, if they
+  // have the same origin (e.g. in dev mode). [7YGK082]
+  const request = indexedDB.open('tyOutbox-' + eds.siteId, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(OutboxStoreName, { keyPath: 'idempotencyKey' });
+  };
+  request.onsuccess = () => {
+    outboxState.db = request.result;
+    fn(outboxState.db);
+  };
+  request.onerror = () => {
+    // Happens e.g. in Firefox's private browsing mode.
+    console.warn(`Cannot open the outbox IndexedDB [TyEOUTBXDB]: ${request.error}`);
+    fn(null);
+  };
+}
+
+
+function addToOutbox(item: OutboxItem) {
+  outboxState.items.push(item);
+  withOutboxDb(db => {
+    if (db) {
+      db.transaction(OutboxStoreName, 'readwrite').objectStore(OutboxStoreName).put(item);
     }
   });
+  updateOutboxInStore();
 }
 
 
-export function insertChatMessage(text: string, success: () => void) {
-  postJson('/-/chat', {
-    data: {
-      pageId: getPageId(),
-      text: text
-    },
-    success: (response) => {
-      d.i.handleReplyResult(response);
-      success();
+function removeFromOutbox(item: OutboxItem) {
+  _.remove(outboxState.items, i => i.idempotencyKey === item.idempotencyKey);
+  withOutboxDb(db => {
+    if (db) {
+      db.transaction(OutboxStoreName, 'readwrite').objectStore(OutboxStoreName)
+          .delete(item.idempotencyKey);
+    }
+  });
+  updateOutboxInStore();
+}
+
+
+function updateOutboxInStore() {
+  const me: Myself = ReactStore.allData().me;
+  // Not inside any React dispatch — IndexedDB and setTimeout callbacks are async.
+  ReactActions.updateOutbox(_.filter(outboxState.items, i => i.userId === me.id));
+}
+
+
+/**
+ * Loads items queued by any tab, e.g. in a previous browser session, and sends them,
+ * if we're online. Other tabs might send the same items at the same time — that's fine:
+ * the server handles each idempotency key once only, and replies Conflict to the others,
+ * which then retry a bit later, and get the first request's response.
+ */
+export function loadAndSendOutbox() {
+  withOutboxDb(db => {
+    if (!db) {
+      updateOutboxInStore();
+      sendNextOutboxItem();
+      return;
     }
+    const itemsInDb: OutboxItem[] = [];
+    const request = db.transaction(OutboxStoreName, 'readonly').objectStore(OutboxStoreName)
+        .openCursor();
+    request.onsuccess = () => {
+      const cursor: IDBCursorWithValue = request.result;
+      if (cursor) {
+        itemsInDb.push(cursor.value);
+        cursor.continue();
+        return;
+      }
+      outboxState.items = _.sortBy(
+          _.uniqBy(outboxState.items.concat(itemsInDb), 'idempotencyKey'), 'queuedAtMs');
+      updateOutboxInStore();
+      sendNextOutboxItem();
+    };
   });
 }
 
 
+function sendNextOutboxItem() {
+  const me: Myself = ReactStore.allData().me;
+  const item = _.find(outboxState.items, i => i.userId === me.id);
+  if (!item || outboxState.isSending || navigator.onLine === false)
+    return;
+
+  outboxState.isSending = true;
+  postJson(item.urlPath, {
+    data: item.data,
+    showLoadingOverlay: false,
+    success: (response) => {
+      outboxState.isSending = false;
+      removeFromOutbox(item);
+      handleOutboxResponse(item, response);
+      sendNextOutboxItem();
+    },
+    error: (xhr: XMLHttpRequest) => {
+      outboxState.isSending = false;
+      if (xhr.status === 0) {
+        // Still offline. We'll retry, on the next 'online' event.
+        return IgnoreThisError;
+      }
+      if (xhr.status === 409 &&
+          xhr.responseText.indexOf(IdempotentRequestInProgressErrorCode) >= 0) {
+        // Another tab is sending the same item. Retry later, to get the response.
+        setTimeout(sendNextOutboxItem, RetryInProgressOutboxItemMs);
+        return IgnoreThisError;
+      }
+      // Maybe the page got deleted, or the user got blocked, meanwhile. Show the error,
+      // and the text, so it can be copied and posted somewhere else.
+      removeFromOutbox(item);
+      const textOrEmpty = item.data.text ? item.data.text + '\n\n' : '';
+      pagedialogs.getServerErrorDialog().open(t.CouldntSendC + '\n\n' + textOrEmpty, xhr);
+      sendNextOutboxItem();
+      return IgnoreThisError;
+    },
+  });
+}
+
+
+function handleOutboxResponse(item: OutboxItem, response) {
+  switch (item.type) {
+    case 'Reply':
+    case 'ChatMessage':
+      d.i.handleReplyResult(response);
+      break;
+    case 'Vote':
+      if (item.data.pageId === getPageId()) {
+        ReactActions.vote(response, item.data.action, item.data.vote);
+      }
+      break;
+  }
+}
+
+
+window.addEventListener('online', loadAndSendOutbox);
+
+
 export function addUsersToPage(userIds: UserId[], success) {
   postJsonSuccess('/-/add-users-to-page', () => {
     // Send new store data in the reply? [5FKE0WY2]
@@ -1098,8 +1806,7 @@ export function leavePage() {
 
 export function startPrivateGroupTalk(title: string, text: string, pageRole: PageRole,
     userIds: number[], success: (pageId: PageId) => void) {
-  postJsonSuccess('/-/start-private-group-talk', success,
-      { title: title, text: text, pageRole: pageRole, userIds: userIds });
+  api.startPrivateGroupTalk({ title, text, pageRole, userIds }, success);
 }
 
 
@@ -1154,7 +1861,7 @@ export function submitUsabilityTestingRequest(formData: FormData) {  // [plugin]
 
 
 export function loadPostByNr(postNr: PostNr, success: (patch: StorePatch) => void) {
-  get(`/-/load-post?pageId=${getPageId()}&postNr=${postNr}`, success);
+  api.loadPost({ pageId: getPageId(), postNr }, success);
 }
 
 
@@ -1172,21 +1879,16 @@ export function makeDownloadPersonalDataUrl(authorId: UserId) {
 }
 
 
-export function flagPost(postNr: string, flagType: string, reason: string, success: () => void) {
-  postJsonSuccess('/-/flag', (storePatch: StorePatch) => {
+export function flagPost(postNr: PostNr, flagType: string, reason: string, success: () => void) {
+  api.flag({ pageId: getPageId(), postNr, type: flagType, reason }, (storePatch: StorePatch) => {
     ReactActions.patchTheStore(storePatch);
     if (success) success();
-  }, {
-    pageId: getPageId(),
-    postNr: postNr,
-    type: flagType,
-    reason: reason
   });
 }
 
 
 export function hidePostInPage(postNr: number, hide: boolean, success: (postAfter: Post) => void) {
-  postJsonSuccess('/-/hide-post', success, { pageId: getPageId(), postNr: postNr, hide: hide });
+  api.hidePost({ pageId: getPageId(), postNr, hide }, success);
 }
 
 
@@ -1200,14 +1902,20 @@ export function deletePostInPage(postNr: number, repliesToo: boolean,
 }
 
 
+export function undeletePostInPage(postNr: number, repliesToo: boolean,
+      success: (response: { undeletedPost: Post }) => void) {
+  api.undeletePost({ pageId: getPageId(), postNr, repliesToo }, success);
+}
+
+
 export function editPostSettings(postId: PostId, settings: PostSettings) {
   const data = _.assign({ postId: postId }, settings);
   postJsonSuccess('/-/edit-post-settings', ReactActions.patchTheStore, data);
 }
 
 
-export function loadAllTags(success: (tags: string[]) => void) {
-  get('/-/load-all-tags', success);
+export function loadAllTags(success: (tags: string[]) => void, policy?: RequestPolicy) {
+  api.loadAllTags({}, success, undefined, policy);
 }
 
 
@@ -1222,13 +1930,9 @@ export function loadMyTagNotfLevels() {
 
 
 export function addRemovePostTags(postId: PostId, tags: string[], success: () => void) {
-  postJsonSuccess('/-/add-remove-tags', (response) => {
+  api.addRemoveTags({ pageId: getPageId(), postId, tags }, response => {
     ReactActions.patchTheStore(response);
     success();
-  }, {
-    pageId: getPageId(),
-    postId: postId,
-    tags: tags
   });
 }
 
@@ -1244,17 +1948,12 @@ export function changePostType(postNr: number, newType: PostType, success: () =>
 
 export function movePost(postId: PostId, newHost: SiteId, newPageId: PageId,
       newParentNr: PostNr, success: (post: Post) => void) {
-  postJsonSuccess('/-/move-post', (patch: StorePatch) => {
+  api.movePost({ pageId: getPageId(), postId, newHost, newPageId, newParentNr },
+      (patch: StorePatch) => {
     ReactActions.patchTheStore(patch);
     const post = _.values(patch.postsByPageId)[0][0];
     dieIf(!post, 'EsE7YKGW2');
     success(post);
-  }, {
-    pageId: getPageId(),
-    postId: postId,
-    newHost: newHost,
-    newPageId: newPageId,
-    newParentNr: newParentNr,
   });
 }
 
@@ -1282,12 +1981,13 @@ export function undeleteCategory(categoryId: number, success: (StorePatch: any)
 
 
 export function loadCategory(id: number, success: (response: LoadCategoryResponse) => void) {
-  get('/-/load-category?id=' + id, success);
+  api.loadCategory({ id }, success);
 }
 
 
-export function listCategoriesAllSections(success: (response: Category[]) => void)  {
-  get('/-/list-categories-all-sections', success);
+export function listCategoriesAllSections(success: (response: Category[]) => void,
+      policy?: RequestPolicy)  {
+  api.listCategoriesAllSections({}, success, undefined, policy);
 }
 
 
@@ -1301,18 +2001,19 @@ export function createPage(data, success: (newPageId: string) => void) {
 }
 
 
-export function loadPageJson(path: string, success: (response) => void) {
+export function loadPageJson(path: string, success: (response: PageJsonResponse) => void,
+      error?: () => void, options: { suppressErrorDialog?: boolean } = {}) {
   console.log(`Loading page: ${path} [TyMLDPG]`);
-  get(path + '?json', response => {
+  api.loadPageJson({ path }, response => {
     console.log(`Done loading ${path}, updating store...`);
     success(response);
     console.log(`Done updating store.`);
-  });
+  }, error, { suppressErrorDialog: options.suppressErrorDialog });
 }
 
 
 export function acceptAnswer(postId: number, success: (answeredAtMs: number) => void) {
-  postJsonSuccess('/-/accept-answer', success, { pageId: getPageId(), postId: postId });
+  api.acceptAnswer({ pageId: getPageId(), postId }, success);
 }
 
 
@@ -1326,7 +2027,7 @@ export function cyclePageDone(success: (newPlannedAndDoneAt: any) => void) {
 }
 
 export function togglePageClosed(success: (closedAtMs: number) => void) {
-  postJsonSuccess('/-/toggle-page-closed', success, { pageId: getPageId() });
+  api.togglePageClosed({ pageId: getPageId() }, success);
 }
 
 export function deletePages(pageIds: PageId[], success: () => void) {
@@ -1346,7 +2047,32 @@ export function markCurrentPageAsSeen() {
 
 
 export function search(rawQuery: string, success: (results: SearchResults) => void) {
-  postJsonSuccess('/-/search', success, { rawQuery: rawQuery });
+  api.search({ rawQuery }, success);
+}
+
+
+// Dupl constant, in Scala too. [5TYPNG2]
+const SendIAmTypingEveryMs = 4 * 1000;
+let iAmTypingSentAtMs = 0;
+let iAmTypingSentForPageId: PageId;
+
+/**
+ * Tells others who view the current page, that we're typing a reply or chat message.
+ * Call on each keystroke — sends at most one request every few seconds.
+ */
+export function tellOthersIAmTyping() {
+  const pageId = getPageId();
+  const nowMs = Date.now();
+  const sentRecently = iAmTypingSentForPageId === pageId &&
+      nowMs - iAmTypingSentAtMs < SendIAmTypingEveryMs;
+  if (sentRecently || !pageId || pageId === EmptyPageId || navigator.onLine === false)
+    return;
+  iAmTypingSentAtMs = nowMs;
+  iAmTypingSentForPageId = pageId;
+  postJsonSuccess('/-/user-is-typing', () => {}, { pageId }, () => {
+    // Not important — maybe we'll send the next one just fine.
+    return IgnoreThisError;
+  }, { showLoadingOverlay: false });
 }
 
 
@@ -1402,12 +2128,20 @@ const LongPollingSeconds = 30;
 
 
 // For end-to-end tests, so they can verify that new long polling requests seem to
-// get sent.
+// get sent. WebSocket connections use the same counter, see openWebSocket().
 export function testGetLongPollingNr() {
   return longPollingState.nextReqNr - 1;
 }
 
 
+function makePubSubChannelId(userId: UserId): string {
+  // This is an easy-to-guess channel id, but in order to subscribe, the session cookie
+  // must also be included in the request. So this should be safe.
+  // The site id is included, because users at different sites can have the same id. [7YGK082]
+  return eds.siteId + '-' + userId;
+}
+
+
 /**
  * Built for talking with Nginx and nchan, see: https://github.com/slact/nchan#long-polling
  *
@@ -1424,10 +2158,7 @@ export function sendLongPollingRequest(userId: UserId, successFn: (response) =>
     die(`Already long polling, request nr ${longPollingState.ongoingRequest.reqNr} [TyELPRDUPL]`);
   }
 
-  // This is an easy-to-guess channel id, but in order to subscribe, the session cookie
-  // must also be included in the request. So this should be safe.
-  // The site id is included, because users at different sites can have the same id. [7YGK082]
-  const channelId = eds.siteId + '-' + userId;
+  const channelId = makePubSubChannelId(userId);
 
   // For debugging.
   const reqNr = longPollingState.nextReqNr;
@@ -1441,6 +2172,10 @@ export function sendLongPollingRequest(userId: UserId, successFn: (response) =>
     // navigating away / closing the tab. So the dialog would be visible for 0.1 confusing seconds.
     // 2018-06-30: Or was this in fact jQuery that called error(), when FF called abort()?
     suppressErrorDialog: true,
+    // We abort and resend the request ourselves, after LongPollingSeconds, and
+    // subscriptions.ts retries with backoff, if it fails.
+    timeoutMs: 0,
+    maxRetries: 0,
   };
 
   // The below headers make Nchan return the next message in the channel's message queue,
@@ -1526,8 +2261,148 @@ export function abortAnyLongPollingRequest() {
 }
 
 
+interface WebSocketState {
+  socket?: WebSocket;
+  connNr?: number;
+  lastMessageId?: string;
+}
+
+const webSocketState: WebSocketState = {};
+
+// Nchan forgets about us, if we don't re-authorize now and then — it's the authorize
+// request that tells the app server we're still subscribed. [7WKBQ2X]  The app server
+// deletes inactive subscriptions after 10 minutes, so reconnect well before that.
+const WebSocketReconnectSeconds = 4 * 60;
+
+
+export function canUseWebSocket(): boolean {
+  return !!window['WebSocket'];
+}
+
+
+/**
+ * Subscribes to the same Nchan channel as sendLongPollingRequest(), but over a WebSocket,
+ * so the server can push events without the browser sending a request per event.
+ * See: https://github.com/slact/nchan#websocket
+ *
+ * Calls onNoConnection() if the socket couldn't be opened at all — then the caller
+ * should fall back to long polling (maybe a proxy or firewall blocks WebSockets).
+ * Calls onClosed() if the socket was open, and then got closed — not by us.
+ */
+export function openWebSocket(userId: UserId, onMessage: (response) => void,
+      onNoConnection: () => void, onClosed: () => void, onOpen?: () => void) {
+
+  if (webSocketState.socket) {
+    die(`WebSocket already open, connection nr ${webSocketState.connNr} [TyEWSDUPL]`);
+  }
+
+  const channelId = makePubSubChannelId(userId);
+
+  // Share the request nr with long polling, so e2e tests can count re-subscriptions
+  // regardless of which transport is in use.
+  const connNr = longPollingState.nextReqNr;
+  longPollingState.nextReqNr = connNr + 1;
+
+  // If we've gotten any message already, ask Nchan to continue after that one, so no events
+  // get lost when we reconnect. ('last_event_id' is Nchan's default message id query param.)
+  const lastIdParam = webSocketState.lastMessageId ?
+      '&last_event_id=' + encodeURIComponent(webSocketState.lastMessageId) : '';
+
+  const serverOrigin = origin() || location.origin;
+  const wsUrl = serverOrigin.replace(/^http/, 'ws') +
+      `/-/pubsub/subscribe/${channelId}?reqNr=${connNr}${lastIdParam}`;
+
+  console.debug(`Opening WebSocket ${connNr}, channel ${channelId} [TyMWSOPEN]`);
+
+  // The 'ws+meta.nchan' subprotocol makes Nchan prefix each message with its id, so we
+  // know where to continue from, after having reconnected.
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(wsUrl, 'ws+meta.nchan');
+  }
+  catch (ex) {
+    console.warn(`Cannot create WebSocket ${connNr} [TyEWSCREATE]`, ex);
+    setTimeout(onNoConnection, 0);
+    return;
+  }
+
+  webSocketState.socket = socket;
+  webSocketState.connNr = connNr;
+
+  let hasOpened = false;
+
+  socket.onopen = function() {
+    console.debug(`WebSocket ${connNr} open [TyMWSOPENED]`);
+    hasOpened = true;
+    if (onOpen) onOpen();
+  };
+
+  socket.onmessage = function(event: MessageEvent) {
+    const messageWithMeta: string = event.data;
+    // With ws+meta.nchan, messages look like: "id: ...\ncontent-type: ...\n\n{ json }".
+    const headersEnd = messageWithMeta.indexOf('\n\n');
+    let json = messageWithMeta;
+    if (headersEnd >= 0 && messageWithMeta[0] !== '{') {
+      const headerLines = messageWithMeta.substr(0, headersEnd).split('\n');
+      json = messageWithMeta.substr(headersEnd + 2);
+      headerLines.forEach(line => {
+        const idMatch = /^id: *(.+)$/.exec(line);
+        if (idMatch) webSocketState.lastMessageId = idMatch[1];
+      });
+    }
+    console.debug(`WebSocket ${connNr} message [TyMWSMSG]: ${json}`);
+    let response;
+    try {
+      response = JSON.parse(json);
+    }
+    catch (ex) {
+      console.warn(`WebSocket ${connNr}: Bad message JSON [TyEWSJSON]: ${json}`);
+      return;
+    }
+    onMessage(response);
+  };
+
+  socket.onclose = function(event: CloseEvent) {
+    // If we closed the socket ourselves, we've forgotten it already.
+    if (webSocketState.socket !== socket)
+      return;
+    webSocketState.socket = null;
+    console.warn(`WebSocket ${connNr} closed, code ${event.code} [TyMWSCLOSED]`);
+    if (hasOpened) {
+      onClosed();
+    }
+    else {
+      onNoConnection();
+    }
+  };
+
+  magicTimeout(WebSocketReconnectSeconds * 1000, function() {
+    if (webSocketState.socket !== socket)
+      return;
+    console.debug(`Reconnecting WebSocket ${connNr} after ${WebSocketReconnectSeconds}s [TyMWSRECON]`);
+    closeAnyWebSocket();
+    openWebSocket(userId, onMessage, onNoConnection, onClosed);
+  });
+}
+
+
+export function isWebSocketOpen(): boolean {
+  return !!webSocketState.socket;
+}
+
+
+export function closeAnyWebSocket() {
+  const socket = webSocketState.socket;
+  if (socket) {
+    console.debug(`Closing WebSocket ${webSocketState.connNr} [TyMWSCLOSE]`);
+    webSocketState.socket = null;
+    socket.close();
+  }
+}
+
+
 export function loadOnlineUsers() {
-  get('/-/load-online-users', (response) => {
+  api.loadOnlineUsers({}, response => {
     ReactActions.updateOnlineUsersLists(response.numOnlineStrangers, response.onlineUsers);
   });
 }
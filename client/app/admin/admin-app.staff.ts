@@ -22,6 +22,8 @@
 /// <reference path="users.staff.ts" />
 /// <reference path="users-one.staff.ts" />
 /// <reference path="hostname-editor.staff.ts" />
+/// <reference path="reply-templates.staff.ts" />
+/// <reference path="uploads.staff.ts" />
 
 declare const _me: Myself;  // [7UKWBA2]
 
@@ -187,6 +189,9 @@ const AdminAppComponent = createReactClass(<any> {
     const customize = me.isAdmin ?
         LiNavLink({ to: ar + 'customize', className: 'e_LnFB' }, "Look and feel") : null;
 
+    const uploads = me.isAdmin ?
+        LiNavLink({ to: ar + 'uploads', className: 's_A_UplsB' }, "Uploads") : null;
+
     const saveBar = _.isEmpty(this.state.editedSettings) ? null :
       r.div({ className: 'esA_SaveBar' },
         r.div({ className: 'container' },
@@ -214,7 +219,9 @@ const AdminAppComponent = createReactClass(<any> {
         Route({ path: ar + 'settings', render: () => SettingsPanel(childProps) }),
         Route({ path: ar + 'users', render: () => UsersTab(childProps) }),
         Route({ path: ar + 'customize', render: () => CustomizePanel(childProps) }),
-        Route({ path: ar + 'review', render: () => ReviewAllPanel(childProps) }));
+        Route({ path: ar + 'review', render: () => ReviewAllPanel(childProps) }),
+        Route({ path: ar + 'reply-templates', render: () => ReplyTemplatesPanel(childProps) }),
+        Route({ path: ar + 'uploads', render: () => UploadsPanel(childProps) }));
 
     return (
       r.div({ className: 'esAdminArea' },
@@ -224,7 +231,9 @@ const AdminAppComponent = createReactClass(<any> {
             settings,
             LiNavLink({ to: ar + 'users', className: 'e_UsrsB' }, "Users"),
             customize,
-            LiNavLink({ to: ar + 'review', className: 'e_RvwB' }, "Review")),
+            LiNavLink({ to: ar + 'review', className: 'e_RvwB' }, "Review"),
+            LiNavLink({ to: ar + 'reply-templates', className: 's_A_RplTplsB' }, "Reply templates"),
+            uploads),
           childRoutes,
           saveBar)));
   }
@@ -777,11 +786,62 @@ const FeatureSettings = createFactory({
             newSettings.showSubCommunities = target.checked;
           }
         }),
+
+        Setting2(props, { type: 'text', label: "Reaction emojis", id: 'e_ReactionEmojis',
+          help: "Emojis people can react with, to posts and chat messages — separate them " +
+            "with spaces. Reactions don't affect how posts get sorted. " +
+            "Leave empty, to disable reactions.",
+          getter: (s: Settings) => s.reactionEmojis,
+          update: (newSettings: Settings, target) => {
+            newSettings.reactionEmojis = target.value;
+          }
+        }),
+
+        Setting2(props, { type: 'checkbox', label: "Quick reply box", id: 'e_QuickReplyBox',
+          help: "Shows a small reply box below the last post, so people can reply without " +
+            "opening the full editor. There's a button to continue in the full editor.",
+          getter: (s: Settings) => s.enableQuickReplyBox,
+          update: (newSettings: Settings, target) => {
+            newSettings.enableQuickReplyBox = target.checked;
+          }
+        }),
+
+        EditorChecks.map(([checkId, label, help]) =>
+          Setting2(props, { type: 'checkbox', key: checkId, label, help,
+            className: 'e_EdChk-' + checkId,
+            getter: (s: Settings) => _.isString(s.disabledEditorChecks) ?
+                !_.includes(s.disabledEditorChecks.split(/\s+/), checkId) : undefined,
+            update: (newSettings: Settings, target) => {
+              const disabledBefore = firstDefinedOf(
+                  editedSettings.disabledEditorChecks, currentSettings.disabledEditorChecks) || '';
+              const otherIds = _.filter(disabledBefore.split(/\s+/), id => id && id !== checkId);
+              newSettings.disabledEditorChecks =
+                  (target.checked ? otherIds : [...otherIds, checkId]).join(' ');
+            }
+          })),
       ));
   }
 });
 
 
+// Keep in sync with the check ids in pre-submit-checks.editor.ts. [5EDCHKS]
+const EditorChecks = [
+  ['imageAltText', "Check image alt text",
+    "Before saving, the editor asks people to describe images that lack a description " +
+    "(alt text), for people who cannot see them."],
+  ['oneboxLinks', "Check oneboxable links",
+    "Tells people if a link to an image or video would be shown as a preview, " +
+    "if placed on a line of its own."],
+  ['codeFences', "Check code blocks",
+    "Tells people if a ``` code block isn't closed."],
+  ['longCodeLines', "Check long code lines",
+    "Tells people if lines in code blocks are too long to read comfortably."],
+  ['mentionsCannotSee', "Check @mentions",
+    "Tells people if someone they @mention cannot see the page, and won't get notified."],
+  ['replyToClosed', "Check replying to closed topics",
+    "Asks people if they really want to reply, to topics that have been closed, answered or solved."]];
+
+
 
 const EmbeddedCommentsSettings = createFactory({
   displayName: 'EmbeddedCommentsSettings',
@@ -0,0 +1,186 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+/// <reference path="../more-bundle-already-loaded.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.admin {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+// Sync with the server, [5RPLTPH].
+const Placeholders = ['authorName', 'authorUsername', 'topicTitle', 'myName', 'myUsername'];
+
+
+/**
+ * Lists and edits reply templates: site-wide templates, which only admins may edit,
+ * and one's own personal templates. Staff insert them from the editor.
+ */
+export const ReplyTemplatesPanel = createFactory({
+  displayName: 'ReplyTemplatesPanel',
+
+  getInitialState: function() {
+    return { templates: null, categories: [], editingTemplate: null };
+  },
+
+  componentDidMount: function() {
+    const requests = this.requests = Server.makeAbortController();
+    Server.listReplyTemplates({ forEditor: false }, (templates: ReplyTemplate[]) => {
+      this.setState({ templates });
+    }, { abortSignal: requests.signal });
+    Server.listCategoriesAllSections((categories: Category[]) => {
+      this.setState({ categories });
+    }, { abortSignal: requests.signal });
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  mayEdit: function(template: ReplyTemplate): boolean {
+    const me: Myself = this.props.store.me;
+    return template.ownerId ? template.ownerId === me.id : me.isAdmin;
+  },
+
+  createTemplate: function() {
+    const me: Myself = this.props.store.me;
+    this.setState({ editingTemplate: {
+      id: NoReplyTemplateId,
+      // Admins probably want to create templates for all staff; moderators can't.
+      ownerId: me.isAdmin ? undefined : me.id,
+      title: '',
+      text: '',
+    }});
+  },
+
+  changeEditingTemplate: function(changes: Partial<ReplyTemplate>) {
+    this.setState({ editingTemplate: { ...this.state.editingTemplate, ...changes } });
+  },
+
+  saveTemplate: function() {
+    // No abort signal — the template should get saved also if one navigates away.
+    Server.upsertReplyTemplate(this.state.editingTemplate, (savedTemplate: ReplyTemplate) => {
+      if (this.requests.signal.aborted) return;
+      const otherTemplates = _.filter(this.state.templates, (tpl: ReplyTemplate) => tpl.id !== savedTemplate.id);
+      this.setState({
+        templates: otherTemplates.concat(savedTemplate),
+        editingTemplate: null,
+      });
+    });
+  },
+
+  deleteTemplate: function(template: ReplyTemplate) {
+    util.openDefaultStupidDialog({
+      body: `Delete reply template "${template.title}"?`,
+      primaryButtonTitle: "Yes, delete",
+      secondaryButonTitle: "No, cancel",
+      onCloseOk: (whichButton: number) => {
+        if (whichButton !== 1) return;
+        Server.deleteReplyTemplate(template.id, () => {
+          if (this.requests.signal.aborted) return;
+          this.setState({ templates: _.filter(this.state.templates,
+              (tpl: ReplyTemplate) => tpl.id !== template.id) });
+        });
+      },
+    });
+  },
+
+  categoryName: function(categoryId?: CategoryId): string {
+    if (!categoryId) return "All categories";
+    const category = _.find(this.state.categories, (c: Category) => c.id === categoryId);
+    return category ? category.name : `Category ${categoryId}`;
+  },
+
+  renderEditor: function() {
+    const me: Myself = this.props.store.me;
+    const template: ReplyTemplate = this.state.editingTemplate;
+    const isNew = template.id === NoReplyTemplateId;
+    const canSave = template.title.trim() && template.text.trim();
+    return (
+      r.div({ className: 's_A_RplTpls_Edtr' },
+        r.h3({}, isNew ? "New reply template" : "Edit reply template"),
+        Input({ type: 'text', label: "Title", className: 's_A_RplTpls_TitleI',
+            value: template.title,
+            onChange: (event) => this.changeEditingTemplate({ title: event.target.value }) }),
+        Input({ type: 'textarea', label: "Text", className: 's_A_RplTpls_TextI',
+            value: template.text,
+            help: r.span({}, "You can use these placeholders: ",
+              Placeholders.map(name => r.code({ key: name }, `{{${name}}} `))),
+            onChange: (event) => this.changeEditingTemplate({ text: event.target.value }) }),
+        Input({ type: 'select', label: "Who can use it", value: template.ownerId ? 'me' : 'all',
+            // Only admins may edit site-wide templates, and it'd be confusing to let
+            // a moderator change a template to site-wide, and then be unable to edit it.
+            disabled: !me.isAdmin,
+            onChange: (event) => this.changeEditingTemplate({
+              ownerId: event.target.value === 'me' ? me.id : undefined }) },
+          r.option({ value: 'all' }, "All staff"),
+          r.option({ value: 'me' }, "Only me")),
+        Input({ type: 'select', label: "Category", value: template.categoryId || '',
+            help: "If you select a category, the template will be listed only when " +
+              "replying in that category, or its sub categories.",
+            onChange: (event) => this.changeEditingTemplate({
+              categoryId: parseInt(event.target.value) || undefined }) },
+          r.option({ value: '' }, "All categories"),
+          this.state.categories.map((category: Category) =>
+            r.option({ key: category.id, value: category.id }, category.name))),
+        PrimaryButton({ onClick: this.saveTemplate, disabled: !canSave,
+            className: 's_A_RplTpls_SaveB' }, "Save"),
+        Button({ onClick: () => this.setState({ editingTemplate: null }) }, "Cancel")));
+  },
+
+  render: function() {
+    const templates: ReplyTemplate[] = this.state.templates;
+    if (!templates)
+      return r.p({}, "Loading ...");
+
+    if (this.state.editingTemplate)
+      return this.renderEditor();
+
+    const sortedTemplates = _.sortBy(templates, (tpl: ReplyTemplate) => tpl.title.toLowerCase());
+    const templateElems = sortedTemplates.map((template: ReplyTemplate) => {
+      const mayEdit = this.mayEdit(template);
+      return (
+        r.li({ key: template.id, className: 's_A_RplTpls_Tpl' },
+          r.div({ className: 's_A_RplTpls_Tpl_Title' },
+            r.b({}, template.title),
+            r.span({ className: 's_A_RplTpls_Tpl_Scope' },
+              (template.ownerId ? " — only you" : " — all staff") +
+              ", " + this.categoryName(template.categoryId))),
+          r.pre({ className: 's_A_RplTpls_Tpl_Text' }, template.text),
+          !mayEdit ? null : r.div({},
+            Button({ onClick: () => this.setState({ editingTemplate: template }) }, "Edit"),
+            Button({ onClick: () => this.deleteTemplate(template) }, "Delete"))));
+    });
+
+    return (
+      r.div({ className: 's_A_RplTpls' },
+        r.p({}, "Reply templates are saved answers, which staff can insert from the editor, " +
+          "instead of typing the same thing again and again."),
+        PrimaryButton({ onClick: this.createTemplate, className: 's_A_RplTpls_CreateB' },
+          "Create template"),
+        !templateElems.length ? r.p({}, "No templates, yet.") :
+          r.ul({ className: 's_A_RplTpls_List' }, templateElems)));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
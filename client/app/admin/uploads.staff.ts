@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+/// <reference path="../more-bundle-already-loaded.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.admin {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+/**
+ * Shows how much storage each user's uploads use, compared to the upload limits,
+ * so admins can find out who uploads much. [5UPLDLIB]
+ */
+export const UploadsPanel = createFactory({
+  displayName: 'UploadsPanel',
+
+  getInitialState: function() {
+    return { files: null, statsPerUser: null, limits: null };
+  },
+
+  componentDidMount: function() {
+    const me: Myself = this.props.store.me;
+    this.requests = Server.makeAbortController();
+    if (!me.isAdmin)
+      return;
+    Server.listAllUploads((files: UploadedFile[], statsPerUser: UploaderStats[],
+          limits: UploadLimits) => {
+      this.setState({ files, statsPerUser, limits });
+    }, { abortSignal: this.requests.signal });
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  render: function() {
+    const me: Myself = this.props.store.me;
+    if (!me.isAdmin)
+      return r.p({}, "Only for admins.");
+
+    const files: UploadedFile[] = this.state.files;
+    const statsPerUser: UploaderStats[] = this.state.statsPerUser;
+    const limits: UploadLimits = this.state.limits;
+    if (!files)
+      return r.p({}, "Loading ...");
+
+    const totalBytes = _.sumBy(statsPerUser, (stats: UploaderStats) => stats.numBytes);
+    const numUnused = _.filter(files, (file: UploadedFile) => !file.isInUse).length;
+
+    const statsRows = statsPerUser.map((stats: UploaderStats) => {
+      // Staff may upload more, but it's members who might upload too much.
+      const nearWeekLimit = stats.numBytesLastWeek >= limits.maxBytesPerWeekMember * 0.8;
+      return (
+        r.tr({ key: stats.userId },
+          r.td({},
+            r.a({ href: linkToUserInAdminArea(stats.userId) },
+              stats.username ? '@' + stats.username : `User ${stats.userId}`),
+            ' ',
+            r.a({ href: linkToUsersUploads(stats.userId), className: 's_A_Upls_FilesL' }, "files")),
+          r.td({}, stats.numFiles),
+          r.td({}, prettyBytes(stats.numBytes)),
+          r.td({ className: nearWeekLimit ? 's_A_Upls_NearLimit' : '' },
+            prettyBytes(stats.numBytesLastWeek))));
+    });
+
+    return (
+      r.div({ className: 's_A_Upls' },
+        r.p({},
+          `${files.length} files, ${prettyBytes(totalBytes)} in total. ` +
+          `${numUnused} files aren't used by any post or avatar.`),
+        r.p({},
+          `Max file size: ${prettyBytes(limits.maxUploadSizeBytes)}. ` +
+          `Members may upload at most ${prettyBytes(limits.maxBytesPerDayMember)} per day, ` +
+          `and ${prettyBytes(limits.maxBytesPerWeekMember)} per week. ` +
+          `Staff: ${prettyBytes(limits.maxBytesPerDayStaff)} per day, ` +
+          `and ${prettyBytes(limits.maxBytesPerWeekStaff)} per week.`),
+        !statsRows.length ? r.p({}, "No uploads, yet.") :
+          r.table({ className: 'table s_A_Upls_Stats' },
+            r.thead({},
+              r.tr({},
+                r.th({}, "User"),
+                r.th({}, "Files"),
+                r.th({}, "Total size"),
+                r.th({}, "Last week"))),
+            r.tbody({},
+              statsRows))));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -28,6 +28,8 @@ const NoCategoryId = 0;
 const NoPermissionId = 0;
 
 const NoPostId = -1;  // dupl in reply.js
+const NoDraftNr = 0;
+const NoReplyTemplateId = 0;
 const TitleNr = 0;
 const BodyNr = 1;
 const BodyNrStr = '1';
@@ -53,10 +53,18 @@ var EditHistoryDialog = createClassAndFactory({
   },
 
   componentWillUnmount: function(nextProps) {
-    this.isGone = true;
+    this.abortRequests();
+  },
+
+  abortRequests: function() {
+    if (this.requests) {
+      this.requests.abort();
+    }
   },
 
   open: function(postId: number) {
+    this.abortRequests();
+    const requests = this.requests = Server.makeAbortController();
     this.setState({
       isOpen: true,
       isLoading: true,
@@ -64,19 +72,19 @@ var EditHistoryDialog = createClassAndFactory({
       revisionsRecentFirst: null,
     });
     utils.loadDiffMatchPatch(() => {
-      if (this.isGone) return;
+      if (requests.signal.aborted) return;
       // (Reload revisions, even if we've loaded them already — perhaps the post was just edited.)
       Server.loadLatestPostRevisions(postId, (revisions) => {
-        if (this.isGone) return;
         this.setState({
           isLoading: false,
           revisionsRecentFirst: revisions,
         });
-      });
+      }, { abortSignal: requests.signal });
     });
   },
 
   close: function() {
+    this.abortRequests();
     this.setState({ isOpen: false });
   },
 
@@ -87,13 +95,12 @@ var EditHistoryDialog = createClassAndFactory({
     this.setState({ isLoadingMore: true });
     Server.loadMorePostRevisions(this.state.postId, oldestRevisionLoaded.revisionNr - 1,
         (moreRevisions) => {
-      if (this.isGone) return;
       var revisions = this.state.revisionsRecentFirst.concat(moreRevisions);
       this.setState({
         revisionsRecentFirst: revisions,
         isLoadingMore: false
       });
-    });
+    }, { abortSignal: this.requests.signal });
   },
 
   render: function () {
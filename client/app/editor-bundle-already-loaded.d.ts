@@ -8,6 +8,9 @@ declare namespace debiki2.editor {
 
   function markdownToSafeHtml(source: string): string;
 
+  function runPreSubmitChecks(context: EditorCheckContext, settings: SettingsVisibleClientSide,
+      onDone: (problems: { checkId: string, message: string }[]) => void);
+
 }
 
 // vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
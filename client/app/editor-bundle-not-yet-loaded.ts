@@ -30,9 +30,10 @@ function ensureEditorCreated(success: (editor: any) => void) {
 }
 
 
-export function toggleWriteReplyToPost(postId: number, inclInReply: boolean, anyPostType?: number) {
+export function toggleWriteReplyToPost(postId: number, inclInReply: boolean, anyPostType?: number,
+      anyQuote?: string) {
   ensureEditorCreated(editor => {
-    editor.toggleWriteReplyToPost(postId, inclInReply, anyPostType);
+    editor.toggleWriteReplyToPost(postId, inclInReply, anyPostType, anyQuote);
   });
 }
 
@@ -65,6 +66,13 @@ export function openToWriteChatMessage(text: string, onDone) {
 }
 
 
+export function openToWriteReply(postNr: PostNr, text: string, anyPostType: number, onDone) {
+  ensureEditorCreated(editor => {
+    editor.openToWriteReply(postNr, text || '', anyPostType, onDone);
+  });
+}
+
+
 export function openToWriteMessage(userId: number) {
   ensureEditorCreated(editor => {
     editor.openToWriteMessage(userId);
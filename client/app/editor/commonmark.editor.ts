@@ -15,7 +15,7 @@
  * along with this program.  If not, see <http://www.gnu.org/licenses/>.
  */
 
-/// <reference path="CdnLinkifyer.ts" />
+/// <reference path="markdown-it-plugins.ts" />
 
 //------------------------------------------------------------------------------
    namespace debiki2.editor {
@@ -33,18 +33,129 @@ export function markdownToSafeHtml(markdownSrc, hostAndPort?, sanitizerOptions?)
 
 
 function markdownToUnsafeHtml(commonmarkSource, hostAndPort) {
-  const md = window['markdownit']({ html: true, linkify: true, breaks: true });
-  md.use(d.i.MentionsMarkdownItPlugin());
-  md.use(d.i.oneboxMarkdownItPlugin);
   // COULD: Client side, don't CDNify links — only do that server side, when the text that
   // references the upload, has been saved. This prevents uploads from getting sent
   // to the CDN, before one knows for sure that they will actually be used.
-  ed.editor.CdnLinkifyer.replaceLinks(md);
+  const md = markdownit.makeMarkdownIt();
   let htmlTextUnsafe = md.render(commonmarkSource);
   return htmlTextUnsafe;
 }
 
 
+export interface SafeHtmlBlock {
+  // Unique among the blocks with the same html, so can be used as React key.
+  id: string;
+  // The markdown source lines, 0-based, like markdown-it's token.map: [firstLine, endLine).
+  firstLine: number;
+  endLine: number;
+  safeHtml: string;
+}
+
+export interface SafeHtmlCache {
+  // The sanitizer options and the unsafe html of all blocks — if unchanged, the blocks'
+  // safe html, `safeHtmls`, can be reused.
+  key?: string;
+  safeHtmls?: string[];
+  // Safe block html —> id, so React keys stay the same, when other blocks change.
+  htmlIds?: { [safeHtml: string]: number };
+}
+
+let nextHtmlId = 1;
+
+// Placed between the blocks, when sanitizing them all at once. Random, so cannot
+// appear in the markdown source.
+const blockSeparatorText = 'tyBlkSep' + Math.random().toString(36).substr(2);
+const blockSeparatorHtml = '\n<p>' + blockSeparatorText + '</p>\n';
+
+
+/**
+ * Like markdownToSafeHtml, but returns one html block per top level markdown block
+ * (paragraph, list, code block etc), together with its source lines. So the editor
+ * preview can scroll to the same text as the textarea, and React can update only
+ * the blocks that changed.
+ *
+ * The whole document is sanitized at once, not block by block — html tags can span
+ * many blocks. Sanitizing is the slow part, so it's skipped if the html and sanitizer
+ * options are the same as in `oldCache`. Returns a new cache.
+ */
+export function markdownToSafeHtmlBlocks(markdownSrc: string, sanitizerOptions,
+      oldCache: SafeHtmlCache): { blocks: SafeHtmlBlock[], cache: SafeHtmlCache } {
+  const md = markdownit.makeMarkdownIt();
+  const env = {};
+  const tokens = md.parse(markdownSrc, env);
+  const numLines = markdownSrc.split('\n').length;
+  const lineRanges: { firstLine: number, endLine: number }[] = [];
+  const unsafeHtmls: string[] = [];
+  let blockTokens = [];
+
+  _.each(tokens, (token) => {
+    blockTokens.push(token);
+    // A top level block ends with a level 0 closing tag (nesting -1), or is a single
+    // token, e.g. a code fence (nesting 0).
+    if (token.level !== 0 || token.nesting > 0)
+      return;
+
+    unsafeHtmls.push(md.renderer.render(blockTokens, md.options, env));
+
+    // Some plugins don't remember the source lines, e.g. footnote blocks. Then, place
+    // the block after the previous one.
+    const map = blockTokens[0].map;
+    const prevEndLine = lineRanges.length ? _.last(lineRanges).endLine : 0;
+    const firstLine = map ? Math.max(map[0], prevEndLine) : prevEndLine;
+    const endLine = map ? Math.max(map[1], firstLine) : Math.min(firstLine + 1, numLines);
+    lineRanges.push({ firstLine, endLine });
+    blockTokens = [];
+  });
+
+  const unsafeHtml = unsafeHtmls.join(blockSeparatorHtml);
+  const key = JSON.stringify(sanitizerOptions || {}) + '\n' + unsafeHtml;
+  let safeHtmls: string[] = oldCache.key === key ? oldCache.safeHtmls : null;
+  if (!safeHtmls) {
+    const safeHtml = sanitizeHtml(unsafeHtml, sanitizerOptions);
+    safeHtmls = splitAtBlockSeparators(safeHtml);
+    if (safeHtmls.length !== lineRanges.length) {
+      // Some html tag wrapped a separator, e.g. an unclosed <div>. Then we don't know
+      // where the blocks are; show everything as one block.
+      safeHtmls = [safeHtml];
+    }
+  }
+
+  const blockRanges = safeHtmls.length === lineRanges.length ?
+      lineRanges : [{ firstLine: 0, endLine: numLines }];
+  const oldHtmlIds = oldCache.htmlIds || {};
+  const htmlIds = {};
+  const numPerHtmlId = {};
+  const blocks: SafeHtmlBlock[] = safeHtmls.map((safeHtml: string, index: number) => {
+    const htmlId = htmlIds[safeHtml] = htmlIds[safeHtml] || oldHtmlIds[safeHtml] || nextHtmlId++;
+    const numSame = numPerHtmlId[htmlId] = (numPerHtmlId[htmlId] || 0) + 1;
+    const range = blockRanges[index];
+    return { id: htmlId + '-' + numSame, firstLine: range.firstLine, endLine: range.endLine,
+        safeHtml };
+  });
+
+  return { blocks, cache: { key, safeHtmls, htmlIds } };
+}
+
+
+function splitAtBlockSeparators(safeHtml: string): string[] {
+  // An inert document: scripts won't run and images won't load.
+  const doc = new DOMParser().parseFromString(safeHtml, 'text/html');
+  const htmls: string[] = [];
+  let container = doc.createElement('div');
+  _.each(_.toArray(doc.body.childNodes), (node: Node) => {
+    if (node.nodeName === 'P' && node.textContent === blockSeparatorText) {
+      htmls.push(container.innerHTML.trim());
+      container = doc.createElement('div');
+    }
+    else {
+      container.appendChild(node);
+    }
+  });
+  htmls.push(container.innerHTML.trim());
+  return htmls;
+}
+
+
 /**
  * Calls Google Caja JsHtmlSanitizer to sanitize the html.
  *
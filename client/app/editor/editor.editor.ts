@@ -29,6 +29,26 @@ let FileAPI;
 let theEditor: any;
 const WritingSomethingWarningKey = 'WritingSth';
 
+interface FileUpload {
+  uploadId: number;
+  fileName: string;
+  percentDone: number;
+  // Absent whilst resizing the image, before uploading it.
+  requests?: { abort() };
+}
+
+// How long to wait, after the last keystroke, before autosaving a draft. [7WKBU20]
+const SaveDraftAfterMs = 2500;
+
+enum DraftStatus {
+  NothingHappened = 0,
+  Restored = 1,
+  Edited = 2,
+  Saving = 3,
+  Saved = 4,
+  CannotSave = 5,
+}
+
 export const ReactTextareaAutocomplete = reactCreateFactory(window['ReactTextareaAutocomplete']);
 
 
@@ -49,21 +69,40 @@ export const listUsernamesTrigger = {
   '@': {
     dataProvider: token =>
       new Promise(function (resolve, reject) {
+        // Groups too, e.g. @staff — but only those one may mention. [5GRPMNT]
+        let users: BriefUser[];
+        let groups: Group[];
+        const resolveIfDone = () => {
+          if (users && groups) resolve([...users, ...groups]);
+        };
+        Server.listMentionableGroups(token, (gs: Group[]) => {
+          groups = gs;
+          resolveIfDone();
+        });
         const pageId = ReactStore.getPageId();
         if (!pageId || pageId === EmptyPageId) {
           // This is an embedded comments discussion, but there are no comments, so the
           // discussion has not yet been lazy-created. So search among users, for now.
           // UX maybe one *always* wants to search among all users? Unless if is chat channel?
-          Server.listAllUsernames(token, resolve);
+          Server.listAllUsernames(token, (us: BriefUser[]) => {
+            users = us;
+            resolveIfDone();
+          });
         }
         else {
           // One probably wants to mention someone participating in the current discussion = page?
           // So search among those users only.
-          Server.listUsernames(token, pageId, resolve);
+          Server.listUsernames(token, pageId, (us: BriefUser[]) => {
+            users = us;
+            resolveIfDone();
+          });
         }
       }),
-    component: ({ entity: { id, username, fullName }}) =>
-      r.div({}, `${username} (${fullName})`),
+    component: ({ entity: { id, username, fullName, isGroup, numMembers }}) =>
+      !isGroup ? r.div({}, `${username} (${fullName})`) :
+        r.div({ className: 's_MentionGroup' },
+          `${username} (${fullName}) `,
+          r.span({ className: 's_MentionGroup_NumNotfd' }, t.e.NumWillBeNotified(numMembers))),
     output: (item, trigger) => '@' + item.username
   }
 };
@@ -78,8 +117,12 @@ export const Editor = createComponent({
       store: debiki2.ReactStore.allData(),
       visible: false,
       text: '',
-      draft: '',
-      safePreviewHtml: '',
+      // Text typed before closing the editor, reused if reopening it. Drafts saved
+      // server side, are in `draft`.
+      unsavedText: '',
+      draft: null,
+      draftStatus: DraftStatus.NothingHappened,
+      previewBlocks: [],
       replyToPostNrs: [],
       editingPostId: null,
       editingPostUid: null,
@@ -88,9 +131,13 @@ export const Editor = createComponent({
       newPageRole: null,
       guidelines: null,
       backdropOpacity: 0,
-      isUploadingFile: false,
-      fileUploadProgress: 0,
-      uploadFileXhr: null,
+      uploads: [],
+      poll: null,
+      showReplyTemplates: false,
+      showUploadPicker: false,
+      scheduledPublishAtMs: null,
+      preSubmitProblems: null,
+      preSubmitProblemsText: null,
     };
   },
 
@@ -100,6 +147,14 @@ export const Editor = createComponent({
 
   componentWillMount: function() {
     this.updatePreview = _.debounce(this.updatePreview, 333);
+    this.safeHtmlCache = {};
+    this.scrollSyncState = {};
+    this.nextUploadId = 1;
+    this.saveDraftDebounced = _.debounce(this.saveDraftNow, SaveDraftAfterMs);
+    // Bumped when the editor closes, so drafts that get saved afterwards,
+    // won't be remembered in the state of the next editor session.
+    this.editorSessionNr = 0;
+    this.numTimesPosted = 0;
   },
 
   componentDidMount: function() {
@@ -108,6 +163,8 @@ export const Editor = createComponent({
     this.makeEditorResizable();
     this.initUploadFileStuff();
     this.perhapsShowGuidelineModal();
+    // (react-textarea-autocomplete doesn't forward onScroll to the textarea.)
+    this.refs.rtaTextarea.textareaRef.addEventListener('scroll', this.onTextareaScroll);
     // Don't scroll the main discussion area, when scrolling inside the editor.
     /* Oops this breaks scrolling in the editor and preview.
     $(this.refs.editor).on('scroll touchmove mousewheel', function(event) {
@@ -122,13 +179,22 @@ export const Editor = createComponent({
     if (!prevState.visible && this.state.visible) {
       this.makeSpaceAtBottomForEditor();
     }
-    if (talkyard.postElemPostProcessor && prevState.safePreviewHtml !== this.state.safePreviewHtml) {
-      talkyard.postElemPostProcessor('t_E_Preview');
+    if (prevState.previewBlocks !== this.state.previewBlocks) {
+      if (talkyard.postElemPostProcessor) {
+        talkyard.postElemPostProcessor('t_E_Preview');
+      }
+      // The preview blocks got taller or shorter, so scroll to the textarea text again.
+      this.onTextareaScroll();
     }
   },
 
   componentWillUnmount: function() {
     this.isGone = true;
+    this.refs.rtaTextarea.textareaRef.removeEventListener('scroll', this.onTextareaScroll);
+    this.saveDraftDebounced.cancel();
+    _.each(this.state.uploads, (upload: FileUpload) => {
+      if (upload.requests) upload.requests.abort();
+    });
   },
 
   focusInputFields: function() {
@@ -188,11 +254,6 @@ export const Editor = createComponent({
       if (this.isGone) return;
       if (!this.state.visible) return;
       FileAPI.getDropFiles(event, (files: File[]) => {
-        if (files.length > 1) {
-          // This'll log a warning server side, I think I want that (want to know how
-          // often this happens)
-          die(t.e.UploadMaxOneFile + " [TyM5JYW2]");
-        }
         this.uploadFiles(files);
       });
     });
@@ -201,100 +262,99 @@ export const Editor = createComponent({
     FileAPI.event.on(inputElem, 'change', (event) => {
       const files = FileAPI.getFiles(event);
       this.uploadFiles(files);
+      // So selecting the same file again, will trigger 'change' again.
+      inputElem.value = '';
     });
   },
 
-  uploadFiles: function(files: File[]) {
+  onPaste: function(event) {
+    const items = event.clipboardData && event.clipboardData.items;
+    const files: File[] = [];
+    for (let i = 0; items && i < items.length; ++i) {
+      const file = items[i].kind === 'file' && items[i].getAsFile();
+      if (file) files.push(file);
+    }
     if (!files.length)
-      return;
+      return;  // then it's text, let the browser paste it as usual
+    event.preventDefault();
+    this.uploadFiles(files);
+  },
 
-    dieIf(files.length != 1, 'EsE5GPY82');
-    FileAPI.upload({   // a bit dupl code [2UK503]
-      url: '/-/upload-public-file',
-      headers: { 'X-XSRF-TOKEN': getSetCookie('XSRF-TOKEN') },
-      files: { file: files },
-      // This is per file.
-      fileprogress: (event, file, xhr, options) => {
-        if (this.isGone) return;
-        if (!this.state.isUploadingFile) {
-          this.setState({ isUploadingFile: true });
-          pagedialogs.getProgressBarDialog().open(t.UploadingDots, () => {
-            xhr.abort("Intentionally cancelled [EsM3GU05]");
-            if (this.isGone) return;
-            this.setState({ uploadCancelled: true });
-          });
-        }
-        else {
-          const percent = event.loaded / event.total * 100;
-          pagedialogs.getProgressBarDialog().setDonePercent(percent);
-        }
-      },
-      // This is when all files have been uploaded — but we're uploading just one.
-      complete: (error, xhr) => {
-        pagedialogs.getProgressBarDialog().close();
-        if (!this.isGone) this.setState({
-          isUploadingFile: false,
-          uploadCancelled: false
-        });
-        if (error) {
-          if (!this.state.uploadCancelled) {
-            pagedialogs.getServerErrorDialog().open(xhr);
-          }
-          return;
-        }
-        if (this.isGone) return;
-        const fileUrlPath = JSON.parse(xhr.response);
+  uploadFiles: function(files: File[]) {
+    _.each(files, this.uploadOneFile);
+  },
+
+  uploadOneFile: function(file: File) {
+    const uploadId = this.nextUploadId;
+    this.nextUploadId += 1;
+    this.setState(state => ({
+      uploads: [...state.uploads, { uploadId, fileName: file.name, percentDone: 0 }],
+    }));
+
+    // Downscale large images and remove metadata, e.g. phone camera photos' GPS location.
+    const maxSidePx = this.state.store.resizeImagesLargerThanPx;
+    prepareFileForUpload(file, maxSidePx, (preparedFile: File | Blob) => {
+      if (this.isGone) return;
+      // Cancelled whilst resizing?
+      if (!_.some(this.state.uploads, (u: FileUpload) => u.uploadId === uploadId))
+        return;
+
+      const formData = new FormData();
+      formData.append('file', preparedFile, file.name);
+      const requests = Server.makeAbortController();
+      Server.uploadFile('/-/upload-public-file', formData, (fileUrlPath: string) => {
+        this.removeUpload(uploadId);
         dieIf(!_.isString(fileUrlPath), 'DwE06MF22');
-        dieIf(!_.isString(this.state.text), 'EsE5FYZ2');
-        const file = xhr.files[0];
-        const linkHtml = this.makeUploadLink(file, fileUrlPath);
-        const perhapsNewline = this.state.text.endsWith('\n') ? '' : '\n';
-        this.setState({
-          text: this.state.text + perhapsNewline + '\n' +
-            // (There's a sanitizer for this — for everything in the editor.)
-          "<!-- Uploaded file name:  " + file.name + "  -->\n" +
-          linkHtml,
-        });
-        // Scroll down so people will see the new line we just appended.
-        scrollToBottom(this.refs.rtaTextarea.textareaRef);
-        this.updatePreview(() => {
-          // This happens to early, not sure why. So wait for a while.
-          setTimeout(() => {
-            scrollToBottom(this.refs.preview);
-          }, 800);
-        });
-      },
+        this.appendUploadLink(file, fileUrlPath);
+      }, (xhr: XMLHttpRequest) => {
+        this.removeUpload(uploadId);
+        pagedialogs.getServerErrorDialog().open(xhr);
+      }, {
+        abortSignal: requests.signal,
+        onProgress: (percentDone: number) => this.updateUpload(uploadId, { percentDone }),
+      });
+      this.updateUpload(uploadId, { requests });
     });
   },
 
-  cancelUpload: function() {
-    if (this.state.uploadFileXhr) {
-      this.state.uploadFileXhr.abort();
-    }
-    else {
-      console.warn("Cannot cancel upload: No this.state.uploadFileXhr [DwE8UMW2]");
-    }
+  updateUpload: function(uploadId: number, changes: Partial<FileUpload>) {
+    this.setState(state => ({
+      uploads: state.uploads.map((upload: FileUpload) =>
+          upload.uploadId === uploadId ? { ...upload, ...changes } : upload),
+    }));
   },
 
-  showUploadProgress: function(percent) {
-    if (percent === 0) {
-      pagedialogs.getProgressBarDialog().open(t.UploadingDots, this.cancelUpload);
-    }
-    else {
-      pagedialogs.getProgressBarDialog().setDonePercent(percent);
+  removeUpload: function(uploadId: number) {
+    this.setState(state => ({
+      uploads: _.filter(state.uploads, (upload: FileUpload) => upload.uploadId !== uploadId),
+    }));
+  },
+
+  cancelUpload: function(uploadId: number) {
+    const upload: FileUpload = _.find(this.state.uploads, (u: FileUpload) => u.uploadId === uploadId);
+    if (upload && upload.requests) {
+      upload.requests.abort();
     }
-    this.setState({
-      isUploadingFile: true,
-      fileUploadProgress: percent,
-    });
+    this.removeUpload(uploadId);
   },
 
-  hideUploadProgress: function() {
-    pagedialogs.getProgressBarDialog().close();
+  appendUploadLink: function(file: File, fileUrlPath: string) {
+    dieIf(!_.isString(this.state.text), 'EsE5FYZ2');
+    const linkHtml = this.makeUploadLink(file, fileUrlPath);
+    const perhapsNewline = this.state.text.endsWith('\n') ? '' : '\n';
     this.setState({
-      uploadFileXhr: null,
-      isUploadingFile: false,
-      fileUploadProgress: 0,
+      text: this.state.text + perhapsNewline + '\n' +
+        // (There's a sanitizer for this — for everything in the editor.)
+      "<!-- Uploaded file name:  " + file.name + "  -->\n" +
+      linkHtml,
+    });
+    // Scroll down so people will see the new line we just appended.
+    scrollToBottom(this.refs.rtaTextarea.textareaRef);
+    this.updatePreview(() => {
+      // This happens to early, not sure why. So wait for a while.
+      setTimeout(() => {
+        scrollToBottom(this.refs.preview);
+      }, 800);
     });
   },
 
@@ -327,14 +387,23 @@ export const Editor = createComponent({
     return link;
   },
 
-  toggleWriteReplyToPost: function(postNr: number, inclInReply: boolean, anyPostType?: number) {
+  /**
+   * If anyQuote, then, instead of toggling, adds postNr to the posts we're replying to,
+   * and appends the quote to the reply text. So one can quote many posts. [5QTSEL]
+   */
+  toggleWriteReplyToPost: function(postNr: number, inclInReply: boolean, anyPostType?: number,
+        anyQuote?: string) {
     if (this.alertBadState('WriteReply'))
       return;
 
     // Insert postNr into the list of posts we're replying to — or remove it, if present. (I.e. toggle.)
     let postNrs = this.state.replyToPostNrs;
     const index = postNrs.indexOf(postNr);
-    if (inclInReply && index >= 0) {
+    if (anyQuote && index >= 0) {
+      // Another quote from the same post.
+      this.showEditor();
+    }
+    else if (inclInReply && index >= 0) {
       // Editor out of sync with reply button states: reply button wants to add,
       // editor wants to remove the post, from the reply-to-list.
       // Happened in embedded comments iframe because of a bug. Fixed now, but keep this
@@ -360,24 +429,37 @@ export const Editor = createComponent({
     if (postNrs.length >= 2 && this.state.anyPostType === PostType.Flat) {
       postType = PostType.Flat;
     }
+    const text = this.state.text || this.state.unsavedText ||
+        makeDefaultReplyText(this.state.store, postNrs);
     this.setState({
       anyPostType: postType,
       replyToPostNrs: postNrs,
-      text: this.state.text || this.state.draft || makeDefaultReplyText(this.state.store, postNrs),
+      text,
     });
     if (!postNrs.length) {
       this.closeEditor();
+      return;
     }
     let writingWhat = WritingWhat.ReplyToNotOriginalPost;
     if (_.isEqual([BodyNr], postNrs)) writingWhat = WritingWhat.ReplyToOriginalPost;
     else if (_.isEqual([NoPostId], postNrs)) writingWhat = WritingWhat.ChatComment;
-    this.loadGuidelines(writingWhat);
+    const draftLocator: DraftLocator = _.includes(postNrs, NoPostId) ? null : {
+      draftType: DraftType.Reply,
+      pageId: this.state.store.currentPageId,
+      replyToPostNrs: _.sortBy(postNrs),
+    };
+    // Append the quote after any draft has been restored — otherwise, the quote
+    // would prevent the draft from getting restored, and then overwrite it.
+    const quote = anyQuote && makeQuoteMarkdown(this.state.store, postNr, anyQuote);
+    this.loadDraftAndGuidelines(draftLocator, writingWhat, undefined, undefined,
+        !quote ? undefined : () => this.appendText(quote));
   },
 
   editPost: function(postId: number, onDone?) {
     if (this.alertBadState())
       return;
-    Server.loadCurrentPostText(postId, (text: string, postUid: number, revisionNr: number) => {
+    Server.loadCurrentPostText(postId, (text: string, postUid: number, revisionNr: number,
+          version: PostTextVersion) => {
       if (this.isGone) return;
       this.showEditor();
       this.setState({
@@ -385,10 +467,17 @@ export const Editor = createComponent({
         editingPostId: postId,
         editingPostUid: postUid,
         editingPostRevisionNr: revisionNr,
+        editBase: { text, version },
         text: text,
         onDone: onDone,
       });
       this.updatePreview();
+      this.loadDraftAndGuidelines({
+        draftType: DraftType.Edit,
+        postId: postUid,
+        pageId: this.state.store.currentPageId,
+        postNr: postId,
+      });
     });
   },
 
@@ -400,21 +489,27 @@ export const Editor = createComponent({
     // But other topics should be placed in a category.
     dieIf(role !== PageRole.PrivateChat && !categoryId, 'EsE8PE2B');
     this.showEditor();
-    const text = this.state.text || this.state.draft || '';
+    const text = this.state.text || this.state.unsavedText || '';
     this.setState({
       anyPostType: null,
       newForumTopicCategoryId: categoryId,
       newPageRole: role,
       text: text
     });
-    this.loadGuidelines(WritingWhat.NewPage, categoryId, role);
+    // Private chats have no category, so cannot look up any draft by category.
+    const draftLocator: DraftLocator = !categoryId ? null : {
+      draftType: DraftType.Topic,
+      categoryId,
+    };
+    this.loadDraftAndGuidelines(draftLocator, WritingWhat.NewPage, categoryId, role);
     this.updatePreview();
   },
 
   openToEditChatTitleAndPurpose: function() {
     if (this.alertBadState())
       return;
-    Server.loadCurrentPostText(BodyNr, (text: string, postUid: number, revisionNr: number) => {
+    Server.loadCurrentPostText(BodyNr, (text: string, postUid: number, revisionNr: number,
+          version: PostTextVersion) => {
       if (this.isGone) return;
       this.showEditor();
       // TODO edit title too
@@ -423,6 +518,7 @@ export const Editor = createComponent({
         editingPostId: BodyNr,
         editingPostUid: postUid,
         editingPostRevisionNr: revisionNr,
+        editBase: { text, version },
         text: text,
         onDone: null,
       });
@@ -442,6 +538,35 @@ export const Editor = createComponent({
     // No guidelines for chat messages, because usually a smaller "inline" editor is used instead.
   },
 
+  /**
+   * Continues writing a reply started in the quick reply box, below the last post. [4QKRPLY]
+   */
+  openToWriteReply: function(postNr: PostNr, text: string, anyPostType: number, onDone?) {
+    if (this.alertBadState()) {
+      // Let the quick reply box show the text again.
+      if (onDone) onDone(false, text);
+      return;
+    }
+    const postNrs = [postNr];
+    this.showEditor();
+    this.setState({
+      anyPostType,
+      replyToPostNrs: postNrs,
+      text: '',
+      onDone,
+    });
+    const writingWhat = postNr === BodyNr ?
+        WritingWhat.ReplyToOriginalPost : WritingWhat.ReplyToNotOriginalPost;
+    // Like with quotes: restore any draft first, then append the text. [5QTSEL]
+    this.loadDraftAndGuidelines({
+      draftType: DraftType.Reply,
+      pageId: this.state.store.currentPageId,
+      replyToPostNrs: postNrs,
+    }, writingWhat, undefined, undefined, !text.trim() ? undefined : () => {
+      this.appendText(text, { scrollDown: false });
+    });
+  },
+
   openToWriteMessage: function(userId: UserId) {
     if (this.alertBadState())
       return;
@@ -451,7 +576,8 @@ export const Editor = createComponent({
       text: '',
       newPageRole: PageRole.FormalMessage,
     });
-    this.loadGuidelines(WritingWhat.NewPage, null, PageRole.FormalMessage);
+    this.loadDraftAndGuidelines({ draftType: DraftType.DirectMessage, toUserId: userId },
+        WritingWhat.NewPage, null, PageRole.FormalMessage);
     this.showAndFadeOutBackdrop();
   },
 
@@ -513,20 +639,38 @@ export const Editor = createComponent({
     return false;
   },
 
-  loadGuidelines: function(writingWhat: WritingWhat, categoryId?: number, pageRole?: PageRole) {
+  /**
+   * If afterAnyDraft, calls it after any draft has been restored (or if there's none,
+   * or it couldn't be loaded) — so one can append text to the draft.
+   */
+  loadDraftAndGuidelines: function(draftLocator: DraftLocator | null,
+        writingWhat?: WritingWhat, categoryId?: number, pageRole?: PageRole,
+        afterAnyDraft?: () => void) {
     const store: Store = ReactStore.allData();
     const page: Page = store.currentPage;
     const theCategoryId = categoryId || page.categoryId;
     const thePageRole = pageRole || page.pageRole;
     const currentGuidelines = this.state.guidelines;
-    if (currentGuidelines &&
+    const hasGuidelinesAlready = currentGuidelines &&
         currentGuidelines.categoryId === theCategoryId &&
         currentGuidelines.pageRole === thePageRole &&
-        currentGuidelines.writingWhat === writingWhat)
+        currentGuidelines.writingWhat === writingWhat;
+    const loadGuidelines = writingWhat && !hasGuidelinesAlready;
+    if (!loadGuidelines && !draftLocator) {
+      if (afterAnyDraft) afterAnyDraft();
       return;
+    }
 
-    // Currently there are no drafts, only guidelines.
-    Server.loadDraftAndGuidelines(writingWhat, theCategoryId, thePageRole, guidelinesSafeHtml => {
+    const editorSessionNr = this.editorSessionNr;
+    Server.loadDraftAndGuidelines(draftLocator, loadGuidelines ? writingWhat : null,
+        theCategoryId, thePageRole, (guidelinesSafeHtml: string | null, draft?: Draft) => {
+      if (this.isGone || editorSessionNr !== this.editorSessionNr) return;
+      if (draft) {
+        this.restoreDraft(draft);
+      }
+      if (afterAnyDraft) afterAnyDraft();
+      if (!loadGuidelines)
+        return;
       if (!guidelinesSafeHtml) {
         this.setState({ guidelines: null });
         return;
@@ -543,6 +687,9 @@ export const Editor = createComponent({
           hidden: isHidden,
         }
       });
+    }, () => {
+      if (this.isGone || editorSessionNr !== this.editorSessionNr) return;
+      if (afterAnyDraft) afterAnyDraft();
     });
   },
 
@@ -585,8 +732,9 @@ export const Editor = createComponent({
 
   onTitleEdited: function(event) {
     utils.PageUnloadAlerter.addReplaceWarning(WritingSomethingWarningKey, t.e.WritingSomethingWarning);
-    this.setState({ title: event.target.value });
+    this.setState({ title: event.target.value, draftStatus: DraftStatus.Edited });
     this.updatePreview();
+    this.saveDraftDebounced();
   },
 
   isTitleOk: function() {
@@ -599,8 +747,14 @@ export const Editor = createComponent({
   onTextEdited: function(event) {
     utils.PageUnloadAlerter.addReplaceWarning(WritingSomethingWarningKey, t.e.WritingSomethingWarning);
     const newText = event.target.value;
-    this.setState({ text: newText });
+    this.setState({ text: newText, draftStatus: DraftStatus.Edited });
     this.updatePreview();
+    this.saveDraftDebounced();
+    // Let others see "... is typing", so they won't start writing the same answer. But
+    // not when editing, or composing a new topic — no one else sees it yet anyway.
+    if (this.state.replyToPostNrs.length || this.state.isWritingChatMessage) {
+      Server.tellOthersIAmTyping();
+    }
   },
 
   onKeyDown: function(event) {
@@ -634,12 +788,24 @@ export const Editor = createComponent({
       allowClassAndIdAttr: true, // or only if isEditingBody?
       allowDataAttr: isEditingBody
     };
-    const htmlText = markdownToSafeHtml(this.state.text, window.location.host, sanitizerOpts);
+    const result = markdownToSafeHtmlBlocks(this.state.text, sanitizerOpts, this.safeHtmlCache);
+    this.safeHtmlCache = result.cache;
     this.setState({
-      safePreviewHtml: htmlText
+      previewBlocks: result.blocks,
     }, anyCallback);
   },
 
+  onTextareaScroll: function() {
+    if (this.isGone) return;
+    scrollPreviewToTextarea(
+        this.scrollSyncState, this.refs.rtaTextarea.textareaRef, this.refs.preview);
+  },
+
+  onPreviewScroll: function() {
+    scrollTextareaToPreview(
+        this.scrollSyncState, this.refs.rtaTextarea.textareaRef, this.refs.preview);
+  },
+
   changeCategory: function(categoryId: CategoryId) {
     this.setState({ newForumTopicCategoryId: categoryId });
   },
@@ -674,36 +840,117 @@ export const Editor = createComponent({
     // to may-NOT-compose-before-logged-in, and then the user clicks Post Reply. Then,
     // #dummy below might get used, but won't work.
     debiki2.login.loginIfNeededReturnToAnchor(loginToWhat, '#dummy-TyE2PBBYL0', () => {
-      if (page_isPrivateGroup(this.state.newPageRole)) {
-        this.startPrivateGroupTalk();
-      }
-      else if (this.state.newForumTopicCategoryId) {
-        this.saveNewForumPage();
-      }
-      else if (_.isNumber(this.state.editingPostId)) {
-        this.saveEdits();
-      }
-      else if (this.state.isWritingChatMessage) {
-        this.postChatMessage();
-      }
-      else {
-        // Probably replying to someone.
-        this.saveNewPost();
+      this.runPreSubmitChecksThen(this.saveStuffNoChecks);
+    });
+  },
+
+  saveStuffNoChecks: function() {
+    if (page_isPrivateGroup(this.state.newPageRole)) {
+      this.startPrivateGroupTalk();
+    }
+    else if (this.state.newForumTopicCategoryId) {
+      this.saveNewForumPage();
+    }
+    else if (_.isNumber(this.state.editingPostId)) {
+      this.saveEdits();
+    }
+    else if (this.state.isWritingChatMessage) {
+      this.postChatMessage();
+    }
+    else {
+      // Probably replying to someone.
+      this.saveNewPost();
+    }
+  },
+
+  /**
+   * Shows any problems with the text, e.g. images without alt text, instead of
+   * saving. Clicking Save again, without editing the text, saves anyway. [5EDCHKS]
+   */
+  runPreSubmitChecksThen: function(save: () => void) {
+    const state = this.state;
+    const text = state.text;
+    if (state.preSubmitProblems && state.preSubmitProblemsText === text) {
+      save();
+      return;
+    }
+    const store: Store = state.store;
+    const isEditing = _.isNumber(state.editingPostId);
+    const isNewTopic = !!state.newForumTopicCategoryId || page_isPrivateGroup(state.newPageRole);
+    const context: EditorCheckContext = {
+      text,
+      title: state.title,
+      pageId: isNewTopic ? undefined : store.currentPageId,
+      page: isNewTopic ? undefined : store.currentPage,
+      isReplying: state.replyToPostNrs.length > 0,
+      isEditing,
+    };
+    const sessionNr = this.editorSessionNr;
+    runPreSubmitChecks(context, store.settings, (problems: PreSubmitProblem[]) => {
+      if (this.isGone || sessionNr !== this.editorSessionNr || this.state.text !== text) return;
+      if (!problems.length) {
+        this.setState({ preSubmitProblems: null, preSubmitProblemsText: null });
+        save();
+        return;
       }
+      this.setState({ preSubmitProblems: problems, preSubmitProblemsText: text });
     });
   },
 
   saveEdits: function() {
     this.throwIfBadTitleOrText(null, t.e.PleaseDontDeleteAll);
-    Server.saveEdits(this.state.editingPostId, this.state.text, () => {
+    if (this.state.numMergeConflicts && utils.hasMergeConflictMarkers(this.state.text)) {
+      util.openDefaultStupidDialog({ body: t.e.ResolveConflictsFirst });
+      return;
+    }
+    const editBase = this.state.editBase;
+    Server.saveEdits(this.state.editingPostId, this.state.text, editBase && editBase.version, () => {
       this.callOnDoneCallback(true);
       this.clearTextAndClose();
+    }, this.mergeWithOthersEdits);
+  },
+
+  /**
+   * Someone else edited the post, after we started editing it. Load hens text, and
+   * three-way merge: the text we started with, our edits, and hens edits. [5KWB2EC]
+   */
+  mergeWithOthersEdits: function() {
+    const postNr = this.state.editingPostId;
+    const baseText = this.state.editBase.text;
+    Server.loadCurrentPostText(postNr, (theirText: string, postUid: number, revisionNr: number,
+          version: PostTextVersion) => {
+      utils.loadDiffMatchPatch(() => {
+        if (this.isGone || this.state.editingPostId !== postNr) return;
+        const merge = utils.threeWayMerge(
+            baseText, this.state.text, theirText, t.e.YourEdits, t.e.OthersEdits);
+        this.setState({
+          text: merge.text,
+          editingPostRevisionNr: revisionNr,
+          // Next time, we'll be saving edits of the text we just merged with.
+          editBase: { text: theirText, version },
+          numMergeConflicts: merge.numConflicts,
+        });
+        this.updatePreview();
+      });
     });
   },
 
   saveNewPost: function() {
     this.throwIfBadTitleOrText(null, t.e.PleaseWriteSth);
-    Server.saveReply(this.state.replyToPostNrs, this.state.text, this.state.anyPostType, () => {
+    let anyPoll: NewPoll | undefined;
+    if (this.state.poll) {
+      anyPoll = pollWithoutBlankOptions(this.state.poll) || undefined;
+      if (!anyPoll) {
+        util.openDefaultStupidDialog({ body: t.e.PollNeedsOptions });
+        return;
+      }
+      if (anyPoll.resultsVisibility === PollResultsVisibility.AfterClosed && !anyPoll.closesAtMs) {
+        util.openDefaultStupidDialog({ body: t.e.PollNeedsCloseDate });
+        return;
+      }
+    }
+    Server.saveReply(this.state.replyToPostNrs, this.state.text, this.state.anyPostType,
+        anyPoll, () => {
       this.callOnDoneCallback(true);
       this.clearTextAndClose();
     });
@@ -716,7 +963,8 @@ export const Editor = createComponent({
       pageRole: this.state.newPageRole,
       pageStatus: 'Published',
       pageTitle: this.state.title,
-      pageBody: this.state.text
+      pageBody: this.state.text,
+      scheduledPublishAtMs: this.state.scheduledPublishAtMs || undefined,
     };
     Server.createPage(data, (newPageId: string) => {
       this.clearTextAndClose();
@@ -758,6 +1006,57 @@ export const Editor = createComponent({
     }
   },
 
+  togglePoll: function() {
+    this.setState({ poll: this.state.poll ? null : makeNewPoll() });
+  },
+
+  toggleReplyTemplates: function() {
+    this.setState({ showReplyTemplates: !this.state.showReplyTemplates });
+  },
+
+  insertReplyTemplate: function(template: ReplyTemplate) {
+    const store: Store = this.state.store;
+    const page: Page = store.currentPage;
+    const me: Myself = store.me;
+    const replyToPost: Post | undefined = page.postsByNr[this.state.replyToPostNrs[0]];
+    const author = replyToPost && store_getUserOrMissing(store, replyToPost.authorId, 'TyE5RPLT30');
+    const titlePost: Post | undefined = page.postsByNr[TitleNr];
+    const text = fillInReplyTemplate(template.text, {
+      authorName: author && (author.fullName || author.username),
+      authorUsername: author && author.username,
+      topicTitle: titlePost && titlePost.unsafeSource,
+      myName: me.fullName || me.username,
+      myUsername: me.username,
+    });
+    const newText = replaceSelectedText(this.refs.rtaTextarea.textareaRef, text);
+    this.setState({ text: newText, showReplyTemplates: false });
+    this.updatePreview();
+  },
+
+  toggleUploadPicker: function() {
+    this.setState({ showUploadPicker: !this.state.showUploadPicker });
+  },
+
+  insertPreviousUpload: function(file: UploadedFile) {
+    this.setState({ showUploadPicker: false });
+    // makeUploadLink() wants a File, but needs only the name and size.
+    this.appendUploadLink({ name: file.fileName, size: file.sizeBytes }, file.url);
+  },
+
+  publishLater: function() {
+    // Tomorrow, at the start of the current hour, by default.
+    const tomorrow = new Date(getNowMs() + 24 * 3600 * 1000);
+    tomorrow.setMinutes(0, 0, 0);
+    this.setState({ scheduledPublishAtMs: tomorrow.getTime() });
+  },
+
+  onPublishAtChanged: function(event) {
+    const publishAtMs = dateTimeLocalValueToWhenMs(event.target.value);
+    if (publishAtMs) {
+      this.setState({ scheduledPublishAtMs: publishAtMs });
+    }
+  },
+
   cycleMaxHorizBack: function() {
     // Cycle from 1) normal to 2) maximized & tiled vertically, to 3) maximized & tiled horizontally
     // and then back to normal.
@@ -806,7 +1105,14 @@ export const Editor = createComponent({
     }, 1);
   },
 
-  closeEditor: function() {
+  closeEditor: function(justPosted?: boolean) {
+    // Save any not-yet-saved edits — so they'll be there, if reopening the editor
+    // later, maybe on another device.
+    this.saveDraftDebounced.cancel();
+    if (!justPosted && this.state.draftStatus === DraftStatus.Edited) {
+      this.saveDraftNow();
+    }
+    this.editorSessionNr += 1;
     utils.PageUnloadAlerter.removeWarning(WritingSomethingWarningKey);
     this.returnSpaceAtBottomForEditor();
     this.setState({
@@ -819,15 +1125,25 @@ export const Editor = createComponent({
       newForumTopicCategoryId: null,
       newPageRole: null,
       editingPostRevisionNr: null,
+      editBase: null,
+      numMergeConflicts: null,
+      scheduledPublishAtMs: null,
+      preSubmitProblems: null,
+      preSubmitProblemsText: null,
       text: '',
       title: '',
       showTitleErrors: false,
       showTextErrors: false,
-      draft: _.isNumber(this.state.editingPostId) ? '' : this.state.text,
-      safePreviewHtml: '',
+      unsavedText: _.isNumber(this.state.editingPostId) ? '' : this.state.text,
+      draft: null,
+      draftStatus: DraftStatus.NothingHappened,
+      previewBlocks: [],
       onDone: null,
       guidelines: null,
       backdropOpacity: 0,
+      poll: null,
+      showReplyTemplates: false,
+      showUploadPicker: false,
     });
     // Remove any is-replying highlights.
     if (eds.isInEmbeddedEditor) {
@@ -846,8 +1162,141 @@ export const Editor = createComponent({
   },
 
   clearTextAndClose: function() {
-    this.setState({ text: '', draft: null, replyToPostNrs: [], anyPostType: undefined });
-    this.closeEditor();
+    // The text got posted, so the draft isn't needed any longer.
+    this.numTimesPosted += 1;
+    const draft: Draft = this.state.draft;
+    if (draft) {
+      Server.deleteDrafts([draft.draftNr]);
+    }
+    this.setState({ text: '', unsavedText: null, replyToPostNrs: [], anyPostType: undefined });
+    this.closeEditor(true);
+  },
+
+  makeDraftLocator: function(): DraftLocator | null {
+    const state = this.state;
+    if (state.isWritingChatMessage)
+      return null;
+    if (_.isNumber(state.editingPostId)) {
+      // The post id is known only after the post text has been loaded.
+      return !state.editingPostUid ? null : {
+        draftType: DraftType.Edit,
+        postId: state.editingPostUid,
+        pageId: state.store.currentPageId,
+        postNr: state.editingPostId,
+      };
+    }
+    if (state.replyToPostNrs.length) {
+      return _.includes(state.replyToPostNrs, NoPostId) ? null : {
+        draftType: DraftType.Reply,
+        pageId: state.store.currentPageId,
+        replyToPostNrs: _.sortBy(state.replyToPostNrs),
+      };
+    }
+    if (state.messageToUserIds.length === 1) {
+      return { draftType: DraftType.DirectMessage, toUserId: state.messageToUserIds[0] };
+    }
+    if (state.newForumTopicCategoryId) {
+      return { draftType: DraftType.Topic, categoryId: state.newForumTopicCategoryId };
+    }
+    return null;
+  },
+
+  /**
+   * Appends text, e.g. a quote, on a new paragraph, and saves the draft.
+   */
+  appendText: function(textToAppend: string, ps: { scrollDown?: boolean } = {}) {
+    // Use the updater function — a draft might have been restored just before,
+    // and this.state not yet updated.
+    this.setState((state) => ({
+      text: state.text.trim() ? state.text.replace(/\s*$/, '\n\n') + textToAppend : textToAppend,
+      draftStatus: DraftStatus.Edited,
+    }), () => {
+      if (this.isGone) return;
+      if (ps.scrollDown !== false) {
+        // So people will see the text we just appended.
+        scrollToBottom(this.refs.rtaTextarea.textareaRef);
+      }
+      this.updatePreview();
+      this.saveDraftDebounced();
+    });
+  },
+
+  restoreDraft: function(draft: Draft) {
+    // If the person has started typing already, don't overwrite that text — then,
+    // the draft will get overwritten instead, when the new text gets saved.
+    // (The server looks up any draft with the same locator, when saving.)
+    if (this.state.draftStatus !== DraftStatus.NothingHappened)
+      return;
+    this.setState({
+      draft,
+      draftStatus: DraftStatus.Restored,
+      text: draft.text,
+      title: draft.title || this.state.title,
+      // The draft's edits are of the text one started editing back then — not of the
+      // current text. So, if someone else has edited the post since then, the server
+      // will reply Conflict, and we'll merge. [5KWB2EC]
+      editBase: draft.editBase || this.state.editBase,
+    });
+    this.updatePreview();
+  },
+
+  saveDraftNow: function() {
+    // Drafts are saved server side, so only for people who have logged in. [7WKBU20]
+    const me: Myself = this.state.store.me;
+    if (this.isGone || !me.isLoggedIn || this.state.draftStatus !== DraftStatus.Edited)
+      return;
+    const locator = this.makeDraftLocator();
+    if (!locator)
+      return;
+
+    const oldDraft: Draft = this.state.draft;
+    const text = this.state.text;
+    const title = this.state.title;
+
+    // If everything got deleted, delete the draft too.
+    if (isBlank(text) && isBlank(title)) {
+      if (oldDraft) {
+        Server.deleteDrafts([oldDraft.draftNr]);
+      }
+      this.setState({ draft: null, draftStatus: DraftStatus.NothingHappened });
+      return;
+    }
+
+    const draft: Draft = {
+      byUserId: me.id,
+      draftNr: oldDraft ? oldDraft.draftNr : NoDraftNr,
+      forWhat: locator,
+      createdAtMs: oldDraft ? oldDraft.createdAtMs : Date.now(),
+      topicType: locator.draftType === DraftType.Topic ? this.state.newPageRole : undefined,
+      editBase: locator.draftType === DraftType.Edit ? this.state.editBase : undefined,
+      // Only new topics and direct messages have titles — the server rejects others.
+      title: locator.draftType === DraftType.Topic ||
+          locator.draftType === DraftType.DirectMessage ? title : '',
+      text,
+    };
+
+    const editorSessionNr = this.editorSessionNr;
+    const numTimesPosted = this.numTimesPosted;
+    this.setState({ draftStatus: DraftStatus.Saving });
+
+    Server.upsertDraft(draft, (savedDraft: Draft) => {
+      if (numTimesPosted !== this.numTimesPosted) {
+        // The text got posted, whilst the draft was being saved. So it's not needed.
+        Server.deleteDrafts([savedDraft.draftNr]);
+        return;
+      }
+      if (this.isGone || editorSessionNr !== this.editorSessionNr)
+        return;
+      this.setState({
+        draft: savedDraft,
+        // If more edits happened whilst saving, they'll get saved soon.
+        draftStatus: this.state.draftStatus === DraftStatus.Saving ?
+            DraftStatus.Saved : this.state.draftStatus,
+      });
+    }, () => {
+      if (this.isGone || editorSessionNr !== this.editorSessionNr) return;
+      this.setState({ draftStatus: DraftStatus.CannotSave });
+    });
   },
 
   showEditHistory: function() {
@@ -948,12 +1397,32 @@ export const Editor = createComponent({
       }
     }
 
+    // Staff can schedule new topics, e.g. announcements and blog posts, to get
+    // published later. [5SCHPUB]
+    let publishLaterElem;
+    const newPageRole: PageRole = this.state.newPageRole;
+    if (this.state.newForumTopicCategoryId && !isPrivateGroup && isStaff(me) &&
+        newPageRole !== PageRole.OpenChat && newPageRole !== PageRole.PrivateChat) {
+      const publishAtMs = this.state.scheduledPublishAtMs;
+      publishLaterElem = !publishAtMs
+        ? r.a({ className: 's_E_PublLaterB', onClick: this.publishLater }, t.e.PublishLater)
+        : r.span({ className: 's_E_PublLater' },
+            t.e.PublishAt,
+            r.input({ type: 'datetime-local', className: 's_E_PublLater_At',
+                value: whenMsToDateTimeLocalValue(publishAtMs),
+                onChange: this.onPublishAtChanged }),
+            r.a({ className: 's_E_PublLater_CancelB icon-cancel', title: t.e.PublishDirectly,
+                onClick: () => this.setState({ scheduledPublishAtMs: null }) }));
+    }
+
     const editingPostId = this.state.editingPostId;
     const replyToPostNrs = this.state.replyToPostNrs;
     const isOrigPostReply = _.isEqual([BodyNr], replyToPostNrs);
     const isChatComment = replyToPostNrs.length === 1 && replyToPostNrs[0] === NoPostId;
     const isChatReply = replyToPostNrs.indexOf(NoPostId) !== -1 && !isChatComment;
     const isMindMapNode = replyToPostNrs.length === 1 && page.pageRole === PageRole.MindMap;
+    const mayAddPoll = replyToPostNrs.length > 0 && !isChatComment && !isChatReply &&
+        !isMindMapNode && !_.isNumber(editingPostId);
 
     let doingWhatInfo: any;
     if (_.isNumber(editingPostId)) {
@@ -1076,7 +1545,21 @@ export const Editor = createComponent({
         default:
           saveButtonTitle = makeSaveTitle(t.e.Create, t.e.topic);
       }
+      if (this.state.scheduledPublishAtMs) {
+        saveButtonTitle = t.e.Schedule;
+      }
+    }
+
+    let draftStatusText;
+    switch (this.state.draftStatus) {
+      case DraftStatus.Restored: draftStatusText = t.e.DraftRestored; break;
+      case DraftStatus.Saving: draftStatusText = t.e.SavingDraft; break;
+      case DraftStatus.Saved: draftStatusText = t.e.DraftSaved; break;
+      case DraftStatus.CannotSave: draftStatusText = t.e.CannotSaveDraft; break;
     }
+    const anyDraftStatus = !draftStatusText ? null :
+        r.span({ className: 's_E_DraftStatus e_DraftStatus-' + this.state.draftStatus },
+          draftStatusText);
 
     let anyViewHistoryButton;
     if (this.state.editingPostRevisionNr && this.state.editingPostRevisionNr !== 1) {
@@ -1096,7 +1579,7 @@ export const Editor = createComponent({
         r.button({ onClick: this.selectAndUploadFile, title: t.e.UploadBtnTooltip,
             className: 'esEdtr_txtBtn' },
           r.span({ className: 'icon-upload' })),
-        r.input({ name: 'files', type: 'file', multiple: false, // dupl code [2UK503]
+        r.input({ name: 'files', type: 'file', multiple: true, // dupl code [2UK503]
           ref: 'uploadFileInput', style: { width: 0, height: 0, float: 'left' }}),
         r.button({ onClick: this.makeTextBold, title: t.e.BoldBtnTooltip,
             className: 'esEdtr_txtBtn' }, 'B'),
@@ -1107,15 +1590,78 @@ export const Editor = createComponent({
         r.button({ onClick: this.markupAsCode, title: t.e.PreBtnTooltip,
           className: 'esEdtr_txtBtn' }, r.span({ className: 'icon-code' })),
         r.button({ onClick: this.addHeading, title: t.e.HeadingBtnTooltip,
-            className: 'esEdtr_txtBtn' }, 'H'));
+            className: 'esEdtr_txtBtn' }, 'H'),
+        !mayAddPoll ? null :
+          r.button({ onClick: this.togglePoll, title: state.poll ? t.e.RemovePoll : t.e.AddPoll,
+              className: 'esEdtr_txtBtn s_E_PollB' + (state.poll ? ' s_E_PollB-On' : '') },
+            r.span({ className: 'icon-check' })),
+        !isStaff(me) ? null :
+          r.button({ onClick: this.toggleReplyTemplates, title: t.e.InsertReplyTemplate,
+              className: 'esEdtr_txtBtn s_E_RplTplsB' },
+            r.span({ className: 'icon-doc-text' })),
+        !isMember(me) ? null :
+          r.button({ onClick: this.toggleUploadPicker, title: t.e.PrevUploadsBtnTooltip,
+              className: 'esEdtr_txtBtn s_E_UplPkrB' },
+            r.span({ className: 'icon-th-list' })));
+
+    const replyTemplatePicker = !state.showReplyTemplates ? null :
+        ReplyTemplatePicker({
+          categoryId: state.newForumTopicCategoryId || page.categoryId,
+          onInsert: this.insertReplyTemplate,
+          onClose: this.toggleReplyTemplates });
+
+    const uploadPicker = !state.showUploadPicker ? null :
+        UploadPicker({
+          userId: me.id,
+          onInsert: this.insertPreviousUpload,
+          onClose: this.toggleUploadPicker });
+
+    // numMergeConflicts is null, unless we've merged with someone else's edits.
+    const numMergeConflicts: number | null = state.numMergeConflicts;
+    const editConflictInfo = !_.isNumber(numMergeConflicts) ? null :
+        r.div({ className: 's_E_EditConflict' + (numMergeConflicts ? ' s_E_EditConflict-Unresolved' : '') },
+          numMergeConflicts
+              ? t.e.EditConflictsToResolve(numMergeConflicts)
+              : t.e.EditsMergedCheckThenSave);
+
+    const preSubmitProblems: PreSubmitProblem[] | null = state.preSubmitProblems;
+    const preSubmitProblemsElem = !preSubmitProblems ? null :
+        r.div({ className: 's_E_Chks' },
+          r.ul({},
+            preSubmitProblems.map((problem: PreSubmitProblem) =>
+              r.li({ key: problem.checkId, className: 's_E_Chks_' + problem.checkId },
+                problem.message))),
+          state.preSubmitProblemsText === state.text ?
+              r.div({ className: 's_E_Chks_SaveAnyway' }, t.e.ChkSaveAnyway) : null);
+
+    const pollEditor = !mayAddPoll || !state.poll ? null :
+        PollEditor({ poll: state.poll, isStaff: isStaff(me),
+            onChange: (poll: NewPoll) => this.setState({ poll }) });
+
+    const uploads: FileUpload[] = this.state.uploads;
+    const uploadsList = !uploads.length ? null :
+      r.ul({ className: 's_E_Uploads' },
+        uploads.map((upload: FileUpload) =>
+          r.li({ key: upload.uploadId, className: 's_E_Uploads_Upl' },
+            r.span({ className: 's_E_Uploads_Name' }, upload.fileName),
+            r.progress({ className: 's_E_Uploads_Bar', max: 100, value: upload.percentDone }),
+            r.span({ className: 's_E_Uploads_Pct' }, Math.floor(upload.percentDone) + '%'),
+            r.a({ className: 's_E_Uploads_CancelB icon-cancel', title: t.Cancel,
+                onClick: () => this.cancelUpload(upload.uploadId) }))));
 
     const textErrorClass = this.state.showTextErrors && !this.isTextOk() ? ' esError' : '';
+    const slashCommandsTrigger = makeSlashCommandsTrigger({
+      addPoll: mayAddPoll && !state.poll ? this.togglePoll : undefined,
+      selectAndUploadFile: this.selectAndUploadFile,
+      insertPreviousUpload: isMember(me) ? this.toggleUploadPicker : undefined,
+    });
     const textarea =
         ReactTextareaAutocomplete({
             className: 'editor form-control esEdtr_textarea' +  textErrorClass,
             ref: 'rtaTextarea',
             value: this.state.text,
             onChange: this.onTextEdited,
+            onPaste: this.onPaste,
             onKeyPress: this.onKeyPress,
             onKeyDown: this.onKeyDown,
             closeOnClickOutside: true,
@@ -1124,7 +1670,8 @@ export const Editor = createComponent({
             loadingComponent: () => r.span({}, t.Loading),
             // Currently the server says Forbidden unless one is logged in, when listing usernames.
             // UX COULD list usernames of users already loaded & visible anyway, if not logged in?
-            trigger: me.isLoggedIn ? listUsernamesTrigger : {} });
+            trigger: me.isLoggedIn ?
+                { ...listUsernamesTrigger, ...slashCommandsTrigger } : slashCommandsTrigger });
 
     const previewHelp =
         r.div({ className: 'dw-preview-help' },
@@ -1163,14 +1710,26 @@ export const Editor = createComponent({
                   // Wrap in a div so will appear on the same line also when flex-dir = column.
                   r.div({},
                     categoriesDropdown,
-                    pageRoleDropdown)),
+                    pageRoleDropdown,
+                    publishLaterElem)),
                 textareaButtons,
+                editConflictInfo,
+                preSubmitProblemsElem,
+                replyTemplatePicker,
+                uploadPicker,
+                pollEditor,
+                uploadsList,
                 textarea)),
             r.div({ className: 'preview-area', style: previewStyles },
               r.div({}, t.e.PreviewC + (titleInput ? t.e.TitleExcl : '')),
               previewHelp,
               r.div({ className: 'preview', id: 't_E_Preview', ref: 'preview',
-                  dangerouslySetInnerHTML: { __html: this.state.safePreviewHtml }})),
+                  onScroll: this.onPreviewScroll },
+                this.state.previewBlocks.map((block: SafeHtmlBlock) =>
+                  r.div({ key: block.id,
+                      [PreviewBlockFirstLineAttr]: block.firstLine,
+                      [PreviewBlockEndLineAttr]: block.endLine,
+                      dangerouslySetInnerHTML: { __html: block.safeHtml }})))),
             r.div({ className: 'submit-cancel-btns' },
               PrimaryButton({ onClick: this.onSaveClick, tabIndex: 1, className: 'e2eSaveBtn' },
                 saveButtonTitle),
@@ -1185,7 +1744,8 @@ export const Editor = createComponent({
                 this.state.showMinimized ? t.e.ShowEditorAgain : t.e.Minimize),
               Button({ onClick: this.togglePreview, id: 'esPreviewBtn', tabIndex: 2 },
                 this.state.showOnlyPreview ? t.EditV : t.PreviewV),
-              anyViewHistoryButton)),
+              anyViewHistoryButton,
+              anyDraftStatus)),
             r.div({ className: 's_E_iPhoneKbd' },
               t.e.IPhoneKbdSpace_1, r.br(), t.e.IPhoneKbdSpace_2),
             r.div({ className: 's_Resizor-Up', ref: 'resizeHandle' }))));
@@ -1249,6 +1809,30 @@ function wrapSelectedText(textarea, content: string, wrap: string, wrapAfter?: s
 }
 
 
+function replaceSelectedText(textarea, text: string): string {
+  return textarea.value.substring(0, textarea.selectionStart) + text +
+      textarea.value.substring(textarea.selectionEnd);
+}
+
+
+/**
+ * Makes a markdown blockquote, preceded by a link to the quoted post, e.g.:
+ *
+ *   [alice](/-/pageid#post-5):
+ *   > quoted text
+ */
+function makeQuoteMarkdown(store: Store, postNr: PostNr, quote: string): string {
+  const page: Page = store.currentPage;
+  const post: Post | undefined = page && page.postsByNr[postNr];
+  const author: BriefUser | undefined = post && store.usersByIdBrief[post.authorId];
+  const authorName = author ? author.username || author.fullName : '#post-' + postNr;
+  const url = linkToPostNr(store.currentPageId, postNr);
+  const quotedLines = quote.trim().split('\n').map((line: string) => ('> ' + line).trim());
+  // Escape [] in the name, so it won't break the link.
+  return `[${authorName.replace(/([\[\]])/g, '\\$1')}](${url}):\n${quotedLines.join('\n')}\n\n`;
+}
+
+
 function makeDefaultReplyText(store: Store, postIds: PostId[]): string {
   const page: Page = store.currentPage;
   let result = '';
@@ -0,0 +1,98 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="CdnLinkifyer.ts" />
+
+/**
+ * Creates the markdown-it renderer, with our own plugins (mentions, oneboxes, CDN links)
+ * and any plugins registered in `debiki.internal.markdownItPlugins`, e.g. task lists.
+ * Used both in the browser, for the editor preview, and server side, by Nashorn —
+ * so the preview will look like the post, once saved.
+ *
+ * Only plugins bundled at build time can register: the files listed in
+ * `markdownItPluginFiles` in gulpfile.js, which get included in both the editor and
+ * the server bundles. Not plugins in a site's custom scripts — those would run in
+ * the browser only, so the preview wouldn't match the saved post.
+ *
+ * Plugins register by pushing to an array (rather than calling a function),
+ * so they can be loaded before or after this file:
+ *
+ *   debiki.internal.markdownItPlugins = debiki.internal.markdownItPlugins || [];
+ *   debiki.internal.markdownItPlugins.push({
+ *     id: 'taskLists',
+ *     plugin: debiki.internal.taskListsMarkdownItPlugin,
+ *     sanitizerAllowlist: {
+ *       attributes: { input: ['checked'] },
+ *       classes: [/^task-list-item/],
+ *     }
+ *   });
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.markdownit {
+//------------------------------------------------------------------------------
+
+
+function registeredPlugins(): MarkdownItPluginRegistration[] {
+  const plugins: MarkdownItPluginRegistration[] = debiki.internal.markdownItPlugins || [];
+  // If the same plugin got registered twice, e.g. because a script got loaded
+  // twice, use the last registration only.
+  return _.uniqBy(plugins.slice().reverse(), p => p.id).reverse();
+}
+
+
+export function makeMarkdownIt(): any {
+  const md = window['markdownit']({ html: true, linkify: true, breaks: true });
+  md.use(debiki.internal.MentionsMarkdownItPlugin());
+  md.use(debiki.internal.oneboxMarkdownItPlugin);
+  _.each(registeredPlugins(), (registration: MarkdownItPluginRegistration) => {
+    try {
+      md.use(registration.plugin, registration.options);
+    }
+    catch (ex) {
+      // Don't let a broken plugin make it impossible to render anything at all.
+      console.error(`Error adding markdown-it plugin '${registration.id}' [TyEMDITPLG]`, ex);
+    }
+  });
+  // CdnLinkifyer wraps the image and link rules, so do this last, after the plugins.
+  ed.editor.CdnLinkifyer.replaceLinks(md);
+  return md;
+}
+
+
+/**
+ * Tags, attributes and classes the registered plugins need, and that the sanitizer
+ * would otherwise remove. Used by googleCajaSanitizeHtml().
+ */
+export function getSanitizerAllowlist(): SanitizerAllowlist {
+  const result = { tags: [], attributes: {}, classes: [] };
+  _.each(registeredPlugins(), (registration: MarkdownItPluginRegistration) => {
+    const allowlist = registration.sanitizerAllowlist;
+    if (!allowlist) return;
+    result.tags = result.tags.concat(allowlist.tags || []);
+    _.each(allowlist.attributes || {}, (attrNames: string[], tagName: string) => {
+      result.attributes[tagName] = (result.attributes[tagName] || []).concat(attrNames);
+    });
+    result.classes = result.classes.concat(allowlist.classes || []);
+  });
+  return result;
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -55,6 +55,7 @@ function parseOnebox(state, startLineIndex, endLineIndex, whatIsThis) {
   state.line += 1;
 
   var token = state.push(pluginId, '');
+  token.map = [startLineIndex, state.line];  // so the editor preview knows the source line
   token.link = link;
   token.level = state.level;
   return true;
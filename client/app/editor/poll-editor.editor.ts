@@ -0,0 +1,152 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+const MaxPollOptions = 20;  // sync with Poll.MaxOptions, server side
+
+
+export function makeNewPoll(): NewPoll {
+  return {
+    choiceType: PollChoiceType.Single,
+    options: ['', ''],
+    votersPublic: false,
+    resultsVisibility: PollResultsVisibility.Always,
+  };
+}
+
+
+/**
+ * Options with only whitespace get ignored. Returns false if fewer than two remain.
+ */
+export function pollWithoutBlankOptions(poll: NewPoll): NewPoll | false {
+  const options = _.filter(poll.options, option => !isBlank(option)).map(o => o.trim());
+  return options.length >= 2 ? { ...poll, options } : false;
+}
+
+
+/**
+ * Lets one type the poll options, and choose single or multiple choice, and
+ * an optional close date. Staff can also make the votes public, and hide
+ * the results until after one has voted, or until the poll has closed.
+ * The poll question is the post text.
+ */
+export const PollEditor = createComponent({
+  displayName: 'PollEditor',
+
+  changePoll: function(changes: Partial<NewPoll>) {
+    const poll: NewPoll = this.props.poll;
+    this.props.onChange({ ...poll, ...changes });
+  },
+
+  setOptionText: function(index: number, text: string) {
+    const options = this.props.poll.options.slice();
+    options[index] = text;
+    this.changePoll({ options });
+  },
+
+  addOption: function() {
+    this.changePoll({ options: this.props.poll.options.concat('') });
+  },
+
+  removeOption: function(index: number) {
+    const options = this.props.poll.options.slice();
+    options.splice(index, 1);
+    this.changePoll({ options });
+  },
+
+  setClosesAt: function(event) {
+    // The datetime-local input value is in the browser's time zone, e.g. '2018-09-30T18:00',
+    // and new Date(..) interprets it that way too.
+    const value = event.target.value;
+    const closesAtMs = value ? new Date(value).getTime() : undefined;
+    this.changePoll({ closesAtMs: closesAtMs && !isNaN(closesAtMs) ? closesAtMs : undefined });
+  },
+
+  render: function() {
+    const poll: NewPoll = this.props.poll;
+    const canRemove = poll.options.length > 2;
+
+    const optionInputs = poll.options.map((text: string, index: number) =>
+      r.div({ key: index, className: 's_E_Poll_Opt' },
+        r.input({ type: 'text', className: 'form-control', value: text, maxLength: 200,
+            placeholder: t.e.PollOptionN(index + 1),
+            onChange: (event) => this.setOptionText(index, event.target.value) }),
+        !canRemove ? null :
+          r.a({ className: 's_E_Poll_RmOptB icon-cancel', title: t.Remove,
+              onClick: () => this.removeOption(index) })));
+
+    const addOptionButton = poll.options.length >= MaxPollOptions ? null :
+        r.a({ className: 's_E_Poll_AddOptB icon-plus', onClick: this.addOption },
+          t.e.AddPollOption);
+
+    let closesAtValue = '';
+    if (poll.closesAtMs) {
+      // To local time, formatted like '2018-09-30T18:00'.
+      const date = new Date(poll.closesAtMs);
+      closesAtValue = new Date(poll.closesAtMs - date.getTimezoneOffset() * 60 * 1000)
+          .toISOString().substr(0, 16);
+    }
+
+    const staffSettings = !this.props.isStaff ? null :
+      r.div({ className: 's_E_Poll_Staff' },
+        r.label({},
+          r.input({ type: 'checkbox', checked: poll.votersPublic,
+              onChange: (event) => this.changePoll({ votersPublic: event.target.checked }) }),
+          ' ', t.e.PollShowVoters),
+        r.label({},
+          t.e.PollShowResultsC + ' ',
+          r.select({ value: poll.resultsVisibility,
+              onChange: (event) => this.changePoll({
+                  resultsVisibility: parseInt(event.target.value) }) },
+            r.option({ value: PollResultsVisibility.Always }, t.e.PollResultsAlways),
+            r.option({ value: PollResultsVisibility.AfterVoting }, t.e.PollResultsAfterVoting),
+            r.option({ value: PollResultsVisibility.AfterClosed }, t.e.PollResultsAfterClosed))));
+
+    return (
+      r.div({ className: 's_E_Poll' },
+        optionInputs,
+        addOptionButton,
+        r.div({ className: 's_E_Poll_ChoiceType' },
+          r.label({},
+            r.input({ type: 'radio', name: 's_E_Poll_ChoiceType',
+                checked: poll.choiceType === PollChoiceType.Single,
+                onChange: () => this.changePoll({ choiceType: PollChoiceType.Single }) }),
+            ' ', t.e.SingleChoice),
+          r.label({},
+            r.input({ type: 'radio', name: 's_E_Poll_ChoiceType',
+                checked: poll.choiceType === PollChoiceType.Multiple,
+                onChange: () => this.changePoll({ choiceType: PollChoiceType.Multiple }) }),
+            ' ', t.e.MultipleChoice)),
+        r.label({ className: 's_E_Poll_ClosesAt' },
+          t.e.PollClosesAtC + ' ',
+          r.input({ type: 'datetime-local', value: closesAtValue, onChange: this.setClosesAt })),
+        staffSettings));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
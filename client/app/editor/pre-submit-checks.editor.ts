@@ -0,0 +1,264 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+
+/**
+ * Checks the text before it gets submitted, e.g. for images without alt text,
+ * or unclosed code fences. The problems are shown in the editor; clicking Save
+ * again saves anyway. Admins can turn checks off, via the disabledEditorChecks
+ * site setting. [5EDCHKS]
+ *
+ * Sites can add their own checks, via custom scripts:
+ *
+ *   talkyard.editorChecks.push({
+ *     id: 'noShouting',
+ *     check: (context) => /[A-Z]{20}/.test(context.text) ?
+ *         "Please don't write in all caps" : undefined,
+ *   });
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+
+export interface PreSubmitProblem {
+  checkId: string;
+  message: string;
+}
+
+
+interface PreSubmitCheck {
+  id: string;
+  // Returns a description of the problem, if any.
+  check?: (context: EditorCheckContext) => string | undefined;
+  // For checks that need to ask the server.
+  checkAsync?: (context: EditorCheckContext, done: (problem?: string) => void) => void;
+}
+
+
+// Keep in sync with the checks listed in the admin area, in admin-app.staff.ts.
+const ImageAltTextCheckId = 'imageAltText';
+const OneboxLinksCheckId = 'oneboxLinks';
+const CodeFencesCheckId = 'codeFences';
+const LongCodeLinesCheckId = 'longCodeLines';
+const MentionsCannotSeeCheckId = 'mentionsCannotSee';
+const ReplyToClosedCheckId = 'replyToClosed';
+
+const MaxCodeLineLength = 120;
+
+// Links to these, get oneboxed, if placed on a line of their own.
+// Keep in sync with the onebox engines, in app/debiki/onebox/engines/.
+const OneboxableUrlRegexs = [
+  /^(https?:)?\/\/.+\.(png|jpg|jpeg|gif|bmp|tif|tiff)(\?.*)?$/,
+  /^(https?:)?\/\/.*\.(mov|mp4|m4v|webm|ogv)(\?.*)?$/,
+  /^https?:\/\/(?:www\.)?(?:m\.)?(?:youtube\.com|youtu\.be)\/.+$/,
+  /^(https?:)?\/\/giphy\.com\/(gifs|embed)\/[a-zA-Z0-9-]*-?[a-zA-Z0-9]+(\/html5)?$/];
+
+// A bare link, not inside a markdown link or <...>.
+const BareUrlRegex = /(^|[^(<\]"'=\w])(https?:\/\/[^\s<>()]+)/g;
+
+// Like the mentionsRegex in mentions-markdown-it-plugin.js.  [4LKBG782]
+const MentionRegex = /(^|[^\w@])@([a-zA-Z0-9_][a-zA-Z0-9_.-]*[a-zA-Z0-9])/g;
+
+const FenceRegex = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+
+
+/**
+ * Calls fn(line, isCode) for each line, and returns any unclosed fence.
+ */
+function forEachLine(text: string, fn?: (line: string, isCode: boolean) => void): string | null {
+  let openFence: string | null = null;
+  _.each(text.split('\n'), (line: string) => {
+    const match = line.match(FenceRegex);
+    if (!openFence && match) {
+      openFence = match[1];
+      if (fn) fn(line, false);
+    }
+    else if (openFence && match && match[1][0] === openFence[0] &&
+        match[1].length >= openFence.length && !match[2].trim()) {
+      openFence = null;
+      if (fn) fn(line, false);
+    }
+    else if (fn) {
+      fn(line, !!openFence);
+    }
+  });
+  return openFence;
+}
+
+
+function textOutsideCode(text: string): string {
+  const lines = [];
+  forEachLine(text, (line: string, isCode: boolean) => {
+    // Skip indented code blocks and inline `code` too.
+    if (!isCode && !/^( {4}|\t)/.test(line)) lines.push(line.replace(/`[^`]*`/g, ''));
+  });
+  return lines.join('\n');
+}
+
+
+function findMentionedUsernames(text: string): string[] {
+  const usernames = [];
+  const outsideCode = textOutsideCode(text);
+  let match;
+  MentionRegex.lastIndex = 0;
+  while ((match = MentionRegex.exec(outsideCode))) {
+    const username = match[2];
+    if (usernames.indexOf(username) === -1 && username !== 'all' && username !== 'channel') {
+      usernames.push(username);
+    }
+  }
+  return usernames;
+}
+
+
+const BuiltInChecks: PreSubmitCheck[] = [{
+  id: ImageAltTextCheckId,
+  check: (context: EditorCheckContext) =>
+    /!\[\s*\]\(/.test(textOutsideCode(context.text)) ? t.e.ChkImageNoAlt : undefined,
+}, {
+  id: OneboxLinksCheckId,
+  check: (context: EditorCheckContext) => {
+    let anyOneboxable = false;
+    _.each(textOutsideCode(context.text).split('\n'), (line: string) => {
+      if (anyOneboxable || !line.trim() || /^\s*https?:\/\/\S+\s*$/.test(line))
+        return;  // empty, or a link alone on its own line — will get oneboxed already
+      let match;
+      BareUrlRegex.lastIndex = 0;
+      while ((match = BareUrlRegex.exec(line))) {
+        const url = match[2];
+        if (_.some(OneboxableUrlRegexs, (regex: RegExp) => regex.test(url))) {
+          anyOneboxable = true;
+        }
+      }
+    });
+    return anyOneboxable ? t.e.ChkCouldOnebox : undefined;
+  },
+}, {
+  id: CodeFencesCheckId,
+  check: (context: EditorCheckContext) => {
+    const openFence = forEachLine(context.text);
+    return openFence ? t.e.ChkUnclosedCodeBlock(openFence) : undefined;
+  },
+}, {
+  id: LongCodeLinesCheckId,
+  check: (context: EditorCheckContext) => {
+    let anyTooLong = false;
+    forEachLine(context.text, (line: string, isCode: boolean) => {
+      if (isCode && line.length > MaxCodeLineLength) anyTooLong = true;
+    });
+    return anyTooLong ? t.e.ChkLongCodeLines(MaxCodeLineLength) : undefined;
+  },
+}, {
+  id: MentionsCannotSeeCheckId,
+  checkAsync: (context: EditorCheckContext, done: (problem?: string) => void) => {
+    const usernames = findMentionedUsernames(context.text);
+    // New topics haven't been created yet — then, the server doesn't know which page,
+    // so cannot check. Also, the topic might not yet exist, if this is a blog post
+    // comments section.
+    if (!usernames.length || !context.pageId || context.pageId === EmptyPageId) {
+      done();
+      return;
+    }
+    Server.listUsernamesWhoCannotSee(context.pageId, usernames, (cannotSee: string[]) => {
+      done(cannotSee.length ? t.e.ChkCannotSeePage('@' + cannotSee.join(', @')) : undefined);
+    }, () => {
+      // Don't block submitting, just because the server didn't reply.
+      done();
+    });
+  },
+}, {
+  id: ReplyToClosedCheckId,
+  check: (context: EditorCheckContext) => {
+    const page = context.page;
+    if (!context.isReplying || !page || page_isChatChannel(page.pageRole))
+      return;
+    if (page.pageClosedAtMs && !page.pageDoneAtMs && !page.pageAnsweredAtMs)
+      return t.e.ChkTopicClosed;
+    if (page.pageAnsweredAtMs || page.pageDoneAtMs)
+      return t.e.ChkTopicSolved;
+  },
+}];
+
+
+function customChecks(): PreSubmitCheck[] {
+  const checks = talkyard.editorChecks || [];
+  return _.filter(checks, (check: EditorCheckRegistration) => {
+    const ok = _.isString(check.id) && _.isFunction(check.check);
+    // @ifdef DEBUG
+    if (!ok) console.warn(`Bad editor check: ${JSON.stringify(check)} [TyEEDCHK01]`);
+    // @endif
+    return ok;
+  });
+}
+
+
+/**
+ * Runs all checks that aren't disabled via the disabledEditorChecks setting,
+ * and calls back with the problems found, once the async checks are done.
+ */
+export function runPreSubmitChecks(context: EditorCheckContext, settings: SettingsVisibleClientSide,
+      onDone: (problems: PreSubmitProblem[]) => void) {
+  const disabledIds = (settings.disabledEditorChecks || '').split(/\s+/);
+  const checks = _.filter(BuiltInChecks.concat(customChecks()),
+      (check: PreSubmitCheck) => !_.includes(disabledIds, check.id));
+
+  const problems: PreSubmitProblem[] = [];
+  let numPending = 1;  // until all checks started
+
+  const addProblem = (checkId: string, message?: string) => {
+    if (message) problems.push({ checkId, message });
+  };
+
+  const oneDone = () => {
+    numPending -= 1;
+    if (numPending === 0) {
+      // Show them in the same order as the checks, also if the async ones finished late.
+      const checkIds = checks.map(check => check.id);
+      onDone(_.sortBy(problems, (problem: PreSubmitProblem) => checkIds.indexOf(problem.checkId)));
+    }
+  };
+
+  _.each(checks, (check: PreSubmitCheck) => {
+    if (check.check) {
+      // Custom checks, from site scripts, might be buggy. Then, skip them — otherwise,
+      // one couldn't submit anything.
+      try {
+        addProblem(check.id, check.check(context));
+      }
+      catch (ex) {
+        console.warn(`Editor check '${check.id}' failed [TyEEDCHK02]`, ex);
+      }
+    }
+    if (check.checkAsync) {
+      numPending += 1;
+      check.checkAsync(context, (problem?: string) => {
+        addProblem(check.id, problem);
+        oneDone();
+      });
+    }
+  });
+
+  oneDone();
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
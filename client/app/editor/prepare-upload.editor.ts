@@ -0,0 +1,246 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+
+/**
+ * Prepares images for uploading: downscales large images, and removes metadata —
+ * phone camera photos often include the GPS location where they were taken.
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+const JpegQuality = 0.88;
+
+
+/**
+ * Calls back with a file that's smaller than maxSidePx × maxSidePx pixels, and has
+ * no EXIF, XMP or text metadata. Files that aren't JPEG or PNG images are left as is —
+ * GIFs might be animated, and SVGs are vector graphics.
+ */
+export function prepareFileForUpload(file: File, maxSidePx: number,
+      callback: (file: File | Blob) => void) {
+  const isJpeg = file.type === 'image/jpeg';
+  const isPng = file.type === 'image/png';
+  if (!isJpeg && !isPng) {
+    callback(file);
+    return;
+  }
+
+  const reader = new FileReader();
+  reader.onerror = () => {
+    console.warn(`Cannot read ${file.name}, uploading it as is [TyEPREPUPL01]`);
+    callback(file);
+  };
+  reader.onload = () => {
+    const buffer: ArrayBuffer = reader.result;
+    let orientation = 1;
+    try {
+      if (isJpeg) orientation = findJpegOrientation(new DataView(buffer));
+    }
+    catch (ex) {
+      // Corrupt EXIF data? Then probably the browser ignores it too.
+      console.warn(`Cannot find ${file.name} orientation [TyEPREPUPL03]`, ex);
+    }
+    const image = new Image();
+    const objectUrl = URL.createObjectURL(file);
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      console.warn(`Cannot load image ${file.name}, uploading it as is [TyEPREPUPL02]`);
+      callback(file);
+    };
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      const tooLarge = Math.max(image.naturalWidth, image.naturalHeight) > maxSidePx;
+      // Removing the metadata, would remove the orientation too. So, if rotated, draw
+      // the image rotated, on a canvas — the browser might have rotated it already.
+      if (tooLarge || orientation > 1) {
+        if (!canvasToBlobWorks()) {
+          console.warn(`Cannot downscale or rotate ${file.name}, uploading it as is [TyEPREPUPL05]`);
+          callback(file);
+          return;
+        }
+        const rotation = browserRotatesImages() ? 1 : orientation;
+        drawOnCanvas(image, file.type, maxSidePx, rotation, (blob: Blob | null) => {
+          if (blob) {
+            callback(blob);
+          }
+          else {
+            // E.g. the canvas was too large for the browser.
+            console.warn(`Cannot draw ${file.name} on a canvas, uploading it as is [TyEPREPUPL06]`);
+            callback(file);
+          }
+        });
+      }
+      else {
+        // Remove the metadata but don't re-encode, so the image quality won't change.
+        let blob: Blob;
+        try {
+          blob = isJpeg ? removeJpegMetadata(buffer) : removePngMetadata(buffer);
+        }
+        catch (ex) {
+          console.warn(`Cannot remove ${file.name} metadata, uploading it as is [TyEPREPUPL04]`, ex);
+          blob = file;
+        }
+        callback(blob);
+      }
+    };
+    image.src = objectUrl;
+  };
+  reader.readAsArrayBuffer(file);
+}
+
+
+/**
+ * Redrawing an image on a canvas, removes all metadata. Calls back with null,
+ * if the browser cannot encode the canvas.
+ */
+function drawOnCanvas(image: HTMLImageElement, fileType: string, maxSidePx: number,
+      orientation: number, callback: (blob: Blob | null) => void) {
+  // When the browser rotates the image, the natural width and height are after rotation.
+  const scale = Math.min(1, maxSidePx / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  // Orientations 5 - 8 are rotated 90 or 270 degrees, so width and height get swapped.
+  const swapSides = orientation >= 5;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapSides ? height : width;
+  canvas.height = swapSides ? width : height;
+  const context = canvas.getContext('2d');
+
+  // See http://sylvana.net/jpegcrop/exif_orientation.html.
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+  context.drawImage(image, 0, 0, width, height);
+  canvas.toBlob(callback, fileType, JpegQuality);
+}
+
+
+function canvasToBlobWorks(): boolean {
+  return !!HTMLCanvasElement.prototype.toBlob;  // not in old Edge
+}
+
+
+let browserRotatesImagesCache: boolean | undefined;
+
+/**
+ * Newer browsers rotate images according to their EXIF orientation, and then
+ * the default CSS image-orientation is 'from-image'.
+ */
+function browserRotatesImages(): boolean {
+  if (_.isUndefined(browserRotatesImagesCache)) {
+    const style = getComputedStyle(document.documentElement);
+    browserRotatesImagesCache = style['imageOrientation'] === 'from-image';
+  }
+  return browserRotatesImagesCache;
+}
+
+
+const JpegStartOfScan = 0xFFDA;
+const JpegApp1 = 0xFFE1;   // EXIF and XMP
+const JpegApp13 = 0xFFED;  // IPTC
+const JpegComment = 0xFFFE;
+
+
+/**
+ * Returns the EXIF orientation, 1 - 8, where 1 means not rotated.
+ */
+function findJpegOrientation(view: DataView): number {
+  let offset = 2;  // skip the start-of-image marker
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if (marker === JpegStartOfScan)
+      break;
+    const segmentLength = view.getUint16(offset + 2);
+    // The EXIF segment starts with 'Exif\0\0', and then a TIFF header.
+    if (marker === JpegApp1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;  // 'II'
+      const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      const numEntries = view.getUint16(ifdStart, littleEndian);
+      for (let i = 0; i < numEntries; ++i) {
+        const entryStart = ifdStart + 2 + i * 12;
+        if (entryStart + 12 > view.byteLength)
+          return 1;
+        if (view.getUint16(entryStart, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entryStart + 8, littleEndian);
+          return 1 <= orientation && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + segmentLength;
+  }
+  return 1;
+}
+
+
+function removeJpegMetadata(buffer: ArrayBuffer): Blob {
+  const view = new DataView(buffer);
+  const partsToKeep: ArrayBuffer[] = [buffer.slice(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if (marker === JpegStartOfScan)
+      break;
+    const segmentEnd = offset + 2 + view.getUint16(offset + 2);
+    const isMetadata = marker === JpegApp1 || marker === JpegApp13 || marker === JpegComment;
+    if (!isMetadata) {
+      partsToKeep.push(buffer.slice(offset, segmentEnd));
+    }
+    offset = segmentEnd;
+  }
+  // The image data, after start-of-scan.
+  partsToKeep.push(buffer.slice(offset));
+  return new Blob(partsToKeep, { type: 'image/jpeg' });
+}
+
+
+const PngMetadataChunkTypes = ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'];
+
+function removePngMetadata(buffer: ArrayBuffer): Blob {
+  const view = new DataView(buffer);
+  const partsToKeep: ArrayBuffer[] = [buffer.slice(0, 8)];  // the PNG signature
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    // Each chunk: 4 bytes length, 4 bytes type, the data, and a 4 bytes checksum.
+    const chunkEnd = offset + 12 + view.getUint32(offset);
+    const chunkType = String.fromCharCode(
+        view.getUint8(offset + 4), view.getUint8(offset + 5),
+        view.getUint8(offset + 6), view.getUint8(offset + 7));
+    if (!_.includes(PngMetadataChunkTypes, chunkType)) {
+      partsToKeep.push(buffer.slice(offset, chunkEnd));
+    }
+    offset = chunkEnd;
+  }
+  return new Blob(partsToKeep, { type: 'image/png' });
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
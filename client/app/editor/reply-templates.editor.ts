@@ -0,0 +1,131 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+/// <reference path="../slim-bundle.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+export interface ReplyTemplateValues {
+  authorName?: string;
+  authorUsername?: string;
+  topicTitle?: string;
+  myName?: string;
+  myUsername?: string;
+}
+
+
+/**
+ * Replaces placeholders like {{authorName}}. Sync the names with the server, [5RPLTPH].
+ * Unknown placeholders, and those without any value, e.g. {{authorName}} when
+ * creating a new topic, are left as is — then one notices and can edit them.
+ */
+export function fillInReplyTemplate(text: string, values: ReplyTemplateValues): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder: string, name: string) => {
+    const value = values[name];
+    return _.isString(value) && value ? value : placeholder;
+  });
+}
+
+
+/**
+ * Lists the reply templates for the current category, and one's own personal templates.
+ * Type to search; click a template to insert it.
+ */
+export const ReplyTemplatePicker = createComponent({
+  displayName: 'ReplyTemplatePicker',
+
+  getInitialState: function() {
+    return { templates: null, query: '' };
+  },
+
+  componentDidMount: function() {
+    const categoryId = this.props.categoryId;
+    this.requests = Server.makeAbortController();
+    Server.listReplyTemplates({ forEditor: true, categoryId }, (templates: ReplyTemplate[]) => {
+      this.setState({ templates: _.sortBy(templates, tpl => tpl.title.toLowerCase()) });
+    }, { abortSignal: this.requests.signal });
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  onKeyDown: function(event) {
+    if (event.key === 'Escape') {
+      this.props.onClose();
+    }
+    else if (event.key === 'Enter') {
+      // Insert the first match, so one can pick a template without using the mouse.
+      event.preventDefault();
+      const firstMatch = this.findMatchingTemplates()[0];
+      if (firstMatch) this.props.onInsert(firstMatch);
+    }
+  },
+
+  findMatchingTemplates: function(): ReplyTemplate[] {
+    const templates: ReplyTemplate[] = this.state.templates || [];
+    const query = this.state.query.trim().toLowerCase();
+    if (!query) return templates;
+    return _.filter(templates, template =>
+        (template.title + '\n' + template.text).toLowerCase().indexOf(query) >= 0);
+  },
+
+  render: function() {
+    const templates: ReplyTemplate[] | null = this.state.templates;
+    let listOrInfo;
+    if (!templates) {
+      listOrInfo = r.p({}, t.Loading);
+    }
+    else if (!templates.length) {
+      listOrInfo = r.p({ className: 's_E_RplTpls_None' }, t.e.NoReplyTemplates);
+    }
+    else {
+      const matching = this.findMatchingTemplates();
+      listOrInfo = !matching.length ? r.p({}, t.e.NoMatchingTemplates) :
+        r.ul({ className: 's_E_RplTpls_List' },
+          matching.map((template: ReplyTemplate) =>
+            r.li({ key: template.id },
+              r.a({ className: 's_E_RplTpls_Tpl', onClick: () => this.props.onInsert(template) },
+                r.span({ className: 's_E_RplTpls_Title' }, template.title),
+                template.ownerId ? r.span({ className: 's_E_RplTpls_Mine' }, ' ' + t.e.TemplateIsYours) : null,
+                r.span({ className: 's_E_RplTpls_Text' }, template.text)))));
+    }
+
+    return (
+      r.div({ className: 's_E_RplTpls' },
+        r.input({ type: 'text', className: 'form-control s_E_RplTpls_Search', autoFocus: true,
+            placeholder: t.e.SearchReplyTemplatesPh, value: this.state.query,
+            onChange: (event) => this.setState({ query: event.target.value }),
+            onKeyDown: this.onKeyDown }),
+        listOrInfo,
+        r.div({ className: 's_E_RplTpls_Ftr' },
+          r.a({ href: linkToAdminReplyTemplates(), target: '_blank' }, t.e.ManageReplyTemplates),
+          r.a({ className: 's_E_RplTpls_CloseB', onClick: this.props.onClose }, t.Close))));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -0,0 +1,174 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+
+/**
+ * Keeps the editor textarea and the preview scrolled to the same text, when they're
+ * shown side by side.
+ *
+ * The preview consists of one element per top level markdown block, which knows its
+ * source lines, see markdownToSafeHtmlBlocks(). To know which source line is at the
+ * top of the textarea, we measure the lines in a hidden copy of the textarea
+ * (since long lines wrap). Then we interpolate between the line tops.
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+export const PreviewBlockFirstLineAttr = 'data-src-line';
+export const PreviewBlockEndLineAttr = 'data-src-end-line';
+
+// For how long to ignore scroll events from the other element, after the user
+// scrolled one of them — those events are because we scrolled it.
+const ScrollingTimeoutMs = 150;
+
+
+export interface ScrollSyncState {
+  scrollingElem?: HTMLElement;
+  scrollingUntilMs?: number;
+  // Where in the textarea each source line starts, in pixels. And where the
+  // last line ends. Remeasured if the text or width changes.
+  lineTops?: number[];
+  lineTopsText?: string;
+  lineTopsWidth?: number;
+}
+
+
+export function scrollPreviewToTextarea(state: ScrollSyncState, textarea: HTMLTextAreaElement,
+      preview: HTMLElement) {
+  if (!isScrollingThis(state, textarea) || !bothVisible(textarea, preview))
+    return;
+  const tops = textareaLineTops(state, textarea);
+  const line = interpolate(tops, lineNrsUpTo(tops.length), textarea.scrollTop);
+  const anchors = previewAnchors(preview, tops.length - 1);
+  preview.scrollTop = interpolate(anchors.lines, anchors.tops, line);
+}
+
+
+export function scrollTextareaToPreview(state: ScrollSyncState, textarea: HTMLTextAreaElement,
+      preview: HTMLElement) {
+  if (!isScrollingThis(state, preview) || !bothVisible(textarea, preview))
+    return;
+  const tops = textareaLineTops(state, textarea);
+  const anchors = previewAnchors(preview, tops.length - 1);
+  const line = interpolate(anchors.tops, anchors.lines, preview.scrollTop);
+  textarea.scrollTop = interpolate(lineNrsUpTo(tops.length), tops, line);
+}
+
+
+function isScrollingThis(state: ScrollSyncState, elem: HTMLElement): boolean {
+  const nowMs = Date.now();
+  if (state.scrollingElem && state.scrollingElem !== elem && nowMs < state.scrollingUntilMs)
+    return false;
+  state.scrollingElem = elem;
+  state.scrollingUntilMs = nowMs + ScrollingTimeoutMs;
+  return true;
+}
+
+
+function bothVisible(textarea: HTMLElement, preview: HTMLElement): boolean {
+  // offsetParent is null if display: none, e.g. if showing only the preview, on mobile.
+  return !!textarea.offsetParent && !!preview.offsetParent;
+}
+
+
+function textareaLineTops(state: ScrollSyncState, textarea: HTMLTextAreaElement): number[] {
+  const text = textarea.value;
+  const width = textarea.clientWidth;
+  if (state.lineTops && state.lineTopsText === text && state.lineTopsWidth === width)
+    return state.lineTops;
+
+  // A hidden div that wraps the lines like the textarea does.
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  mirror.style.cssText = 'position: absolute; top: 0; left: -9999px; visibility: hidden; ' +
+      'white-space: pre-wrap; word-wrap: break-word; box-sizing: border-box;';
+  _.each(['fontFamily', 'fontSize', 'fontWeight', 'lineHeight', 'letterSpacing',
+      'paddingLeft', 'paddingRight'], (name: string) => {
+    mirror.style[name] = style[name];
+  });
+  mirror.style.width = width + 'px';  // clientWidth excludes any scrollbar
+
+  const lineElems = text.split('\n').map((line: string) => {
+    const lineElem = document.createElement('div');
+    lineElem.textContent = line || ' ';  // otherwise, 0 height
+    mirror.appendChild(lineElem);
+    return lineElem;
+  });
+  document.body.appendChild(mirror);
+  const paddingTop = parseFloat(style.paddingTop) || 0;
+  const tops = lineElems.map((lineElem: HTMLElement) => paddingTop + lineElem.offsetTop);
+  const lastElem = _.last(lineElems);
+  tops.push(paddingTop + lastElem.offsetTop + lastElem.offsetHeight);
+  document.body.removeChild(mirror);
+
+  state.lineTops = tops;
+  state.lineTopsText = text;
+  state.lineTopsWidth = width;
+  return tops;
+}
+
+
+/**
+ * Returns source line numbers, and where in the preview they are, in pixels,
+ * both in ascending order.
+ */
+function previewAnchors(preview: HTMLElement, numLines: number): { lines: number[], tops: number[] } {
+  const lines = [0];
+  const tops = [0];
+  _.each(preview.children, (blockElem: HTMLElement) => {
+    const firstLine = parseInt(blockElem.getAttribute(PreviewBlockFirstLineAttr));
+    const endLine = parseInt(blockElem.getAttribute(PreviewBlockEndLineAttr));
+    if (!_.isFinite(firstLine) || !_.isFinite(endLine) || firstLine < _.last(lines))
+      return;
+    lines.push(firstLine, endLine);
+    tops.push(blockElem.offsetTop, blockElem.offsetTop + blockElem.offsetHeight);
+  });
+  lines.push(Math.max(numLines, _.last(lines)));
+  tops.push(preview.scrollHeight);
+  return { lines, tops };
+}
+
+
+function lineNrsUpTo(count: number): number[] {
+  const nrs = [];
+  for (let i = 0; i < count; ++i) nrs.push(i);
+  return nrs;
+}
+
+
+/**
+ * Piecewise linear: finds where x is among the xs, and returns the corresponding
+ * place among the ys. The xs must be in ascending order.
+ */
+function interpolate(xs: number[], ys: number[], x: number): number {
+  if (x <= xs[0]) return ys[0];
+  for (let i = 1; i < xs.length; ++i) {
+    if (x > xs[i]) continue;
+    const dx = xs[i] - xs[i - 1];
+    const fraction = dx > 0 ? (x - xs[i - 1]) / dx : 0;
+    return ys[i - 1] + fraction * (ys[i] - ys[i - 1]);
+  }
+  return _.last(ys);
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
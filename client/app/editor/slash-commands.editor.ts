@@ -0,0 +1,213 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+
+/**
+ * The '/' command menu: type e.g. '/table' or '/codepy' in the editor or chat
+ * textarea, to insert a table or a Python code block. Uses the same dropdown as
+ * the @mentions autocomplete, i.e. react-textarea-autocomplete.
+ *
+ * Sites can add their own snippets, via custom scripts:
+ *
+ *   talkyard.editorSnippets.push({
+ *     name: 'bugreport',
+ *     title: "Bug report template",
+ *     text: "Steps to reproduce:\n\nExpected:\n\nActual:\n",
+ *   });
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+interface SlashCommand {
+  // What one types after the '/'. Lowercase, and only \w chars — otherwise
+  // the autocomplete token would end.
+  name: string;
+  title: string;
+  text?: string;
+  // Where to place the caret, relative the start of `text`. Default: after the text.
+  caretOffset?: number;
+  // Done instead of inserting any text.
+  action?: () => void;
+}
+
+
+/**
+ * Commands that do more than inserting text, e.g. opening the file dialog.
+ * Only the commands one passes callbacks for, get listed.
+ */
+export interface SlashCommandCallbacks {
+  addPoll?: () => void;
+  selectAndUploadFile?: () => void;
+  insertPreviousUpload?: () => void;
+}
+
+
+const CodeLanguages = [
+  // [command name suffix, markdown language, title]
+  ['bash', 'bash', 'Bash'],
+  ['css', 'css', 'CSS'],
+  ['html', 'html', 'HTML'],
+  ['java', 'java', 'Java'],
+  ['js', 'javascript', 'JavaScript'],
+  ['json', 'json', 'JSON'],
+  ['py', 'python', 'Python'],
+  ['scala', 'scala', 'Scala'],
+  ['sql', 'sql', 'SQL'],
+  ['ts', 'typescript', 'TypeScript']];
+
+const MaxCommandsListed = 12;
+
+// Only the groups one may mention. [5GRPMNT]
+let groupsCache: Group[] | undefined;
+
+// Remembered when listing the commands, so we can place the caret afterwards. Not
+// per trigger, because the editors create new triggers when they re-render.
+let textarea: HTMLTextAreaElement | undefined;
+let slashIndex: number;
+
+
+function codeBlockCommand(name: string, language: string, title: string): SlashCommand {
+  const start = '```' + language + '\n';
+  return { name, title, text: start + '\n```\n', caretOffset: start.length };
+}
+
+
+function builtInCommands(callbacks: SlashCommandCallbacks): SlashCommand[] {
+  const commands: SlashCommand[] = [codeBlockCommand('code', '', t.e.SlashCodeBlock)];
+  _.each(CodeLanguages, ([nameSuffix, language, title]) => {
+    commands.push(codeBlockCommand('code' + nameSuffix, language, t.e.SlashCodeBlock + ': ' + title));
+  });
+  const tableStart = '\n| ';
+  commands.push({ name: 'table', title: t.e.SlashTable,
+      text: tableStart + ' | |\n|---|---|\n| | |\n', caretOffset: tableStart.length });
+  if (callbacks.addPoll) {
+    commands.push({ name: 'poll', title: t.e.SlashPoll, action: callbacks.addPoll });
+  }
+  if (callbacks.selectAndUploadFile) {
+    commands.push({ name: 'upload', title: t.e.SlashUpload, action: callbacks.selectAndUploadFile });
+  }
+  if (callbacks.insertPreviousUpload) {
+    commands.push({ name: 'uploaded', title: t.e.SlashPrevUpload, action: callbacks.insertPreviousUpload });
+  }
+  return commands;
+}
+
+
+function snippetCommands(): SlashCommand[] {
+  const snippets = talkyard.editorSnippets || [];
+  return _.filter(snippets, (snippet: EditorSnippetRegistration) => {
+    const ok = /^\w+$/.test(snippet.name) && _.isString(snippet.text);
+    // @ifdef DEBUG
+    if (!ok) console.warn(`Bad editor snippet: ${JSON.stringify(snippet)} [TyESNIPPET01]`);
+    // @endif
+    return ok;
+  }).map((snippet: EditorSnippetRegistration) => ({
+    name: snippet.name.toLowerCase(),
+    title: snippet.title || snippet.name,
+    text: snippet.text,
+  }));
+}
+
+
+function groupCommands(callback: (commands: SlashCommand[]) => void) {
+  const makeCommands = (groups: Group[]) => groups.map((group: Group) => ({
+    name: 'group' + group.username.toLowerCase().replace(/\W/g, ''),
+    title: t.e.SlashMentionGroup + ' @' + group.username + ' — ' +
+        t.e.NumWillBeNotified(group.numMembers),
+    text: '@' + group.username + ' ',
+  }));
+  if (groupsCache) {
+    callback(makeCommands(groupsCache));
+  }
+  else {
+    Server.listMentionableGroups('', (groups: Group[]) => {
+      groupsCache = groups;
+      callback(makeCommands(groups));
+    });
+  }
+}
+
+
+/**
+ * Returns a react-textarea-autocomplete trigger, to merge with listUsernamesTrigger.
+ * Only one '/' menu can be open at a time, so all triggers share the state above.
+ */
+export function makeSlashCommandsTrigger(callbacks: SlashCommandCallbacks) {
+  return {
+    '/': {
+      dataProvider: (token: string) => new Promise<SlashCommand[]>(resolve => {
+        // Only at the start of a line or word — not in the middle of a URL, or 'and/or'.
+        const activeElem = <HTMLTextAreaElement> document.activeElement;
+        if (!activeElem || activeElem.tagName !== 'TEXTAREA') {
+          resolve([]);
+          return;
+        }
+        textarea = activeElem;
+        slashIndex = textarea.selectionEnd - token.length - 1;
+        const charBefore = textarea.value.charAt(slashIndex - 1);
+        if (slashIndex > 0 && !/\s/.test(charBefore)) {
+          resolve([]);
+          return;
+        }
+        const prefix = token.toLowerCase();
+        const matching = (commands: SlashCommand[]) =>
+          _.filter(commands, command => command.name.indexOf(prefix) === 0)
+              .slice(0, MaxCommandsListed);
+        const commands = builtInCommands(callbacks).concat(snippetCommands());
+        const mightBeGroup = 'group'.indexOf(prefix) === 0 || prefix.indexOf('group') === 0;
+        if (!mightBeGroup) {
+          resolve(matching(commands));
+          return;
+        }
+        groupCommands(groupCmds => resolve(matching(commands.concat(groupCmds))));
+      }),
+      component: ({ entity }: { entity: SlashCommand }) =>
+        r.div({ className: 's_SlashCmd' },
+          r.span({ className: 's_SlashCmd_Name' }, '/' + entity.name),
+          r.span({ className: 's_SlashCmd_Title' }, entity.title)),
+      output: (command: SlashCommand) => {
+        // Returns plain text only, and places the caret ourselves, afterwards — so works
+        // also with versions of react-textarea-autocomplete that don't support
+        // { text, caretPosition } objects. An empty string removes the '/command' text.
+        const elem = textarea;
+        const startIndex = slashIndex;
+        setTimeout(() => {
+          if (command.action) {
+            command.action();
+          }
+          else if (_.isNumber(command.caretOffset) && elem) {
+            const caretIndex = startIndex + command.caretOffset;
+            elem.focus();
+            elem.setSelectionRange(caretIndex, caretIndex);
+          }
+        });
+        return command.action ? '' : command.text;
+      }
+    }
+  };
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -0,0 +1,72 @@
+/*
+ * Copyright (C) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+var pluginId = 'TaskLists';
+var checkboxRegex = /^\[([ xX])\] /;
+
+
+/**
+ * Converts list items that start with '[ ] ' or '[x] ' to disabled checkboxes:
+ *
+ *   - [x] Done
+ *   - [ ] Not done
+ *
+ * Included in both the editor and the server bundles, see markdownItPluginFiles
+ * in gulpfile.js.
+ */
+debiki.internal.taskListsMarkdownItPlugin = function(md) {
+  md.core.ruler.after('inline', pluginId, addCheckboxes);
+};
+
+
+function addCheckboxes(state) {
+  var tokens = state.tokens;
+  for (var i = 2; i < tokens.length; ++i) {
+    var token = tokens[i];
+    if (token.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' ||
+        tokens[i - 2].type !== 'list_item_open')
+      continue;
+
+    var firstChild = token.children[0];
+    var match = firstChild && firstChild.type === 'text' && firstChild.content.match(checkboxRegex);
+    if (!match)
+      continue;
+
+    var isChecked = match[1] !== ' ';
+    firstChild.content = firstChild.content.substr(match[0].length);
+    var checkbox = new state.Token('html_inline', '', 0);
+    checkbox.content = '<input class="task-list-item-checkbox" type="checkbox" disabled' +
+        (isChecked ? ' checked' : '') + '> ';
+    token.children.unshift(checkbox);
+    tokens[i - 2].attrJoin('class', 'task-list-item');
+  }
+}
+
+
+debiki.internal.markdownItPlugins = debiki.internal.markdownItPlugins || [];
+debiki.internal.markdownItPlugins.push({
+  id: 'taskLists',
+  plugin: debiki.internal.taskListsMarkdownItPlugin,
+  sanitizerAllowlist: {
+    attributes: { input: ['checked'] },
+    classes: [/^task-list-item/],
+  }
+});
+
+
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=tcqwn list
@@ -0,0 +1,106 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+/// <reference path="../slim-bundle.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.editor {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+/**
+ * Lists files one has uploaded before, recent first, so one can link to them again,
+ * without uploading them once more. Type to search; click a file to insert it. [5UPLDLIB]
+ */
+export const UploadPicker = createComponent({
+  displayName: 'UploadPicker',
+
+  getInitialState: function() {
+    return { files: null, query: '' };
+  },
+
+  componentDidMount: function() {
+    this.requests = Server.makeAbortController();
+    Server.listUploads(this.props.userId, (files: UploadedFile[]) => {
+      this.setState({ files });
+    }, { abortSignal: this.requests.signal });
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  onKeyDown: function(event) {
+    if (event.key === 'Escape') {
+      this.props.onClose();
+    }
+    else if (event.key === 'Enter') {
+      // Like in the ReplyTemplatePicker: insert the first match.
+      event.preventDefault();
+      const firstMatch = this.findMatchingFiles()[0];
+      if (firstMatch) this.props.onInsert(firstMatch);
+    }
+  },
+
+  findMatchingFiles: function(): UploadedFile[] {
+    const files: UploadedFile[] = this.state.files || [];
+    const query = this.state.query.trim().toLowerCase();
+    if (!query) return files;
+    return _.filter(files, file => file.fileName.toLowerCase().indexOf(query) >= 0);
+  },
+
+  render: function() {
+    const files: UploadedFile[] | null = this.state.files;
+    let listOrInfo;
+    if (!files) {
+      listOrInfo = r.p({}, t.Loading);
+    }
+    else if (!files.length) {
+      listOrInfo = r.p({ className: 's_E_UplPkr_None' }, t.e.NoUploadsYet);
+    }
+    else {
+      const matching = this.findMatchingFiles();
+      listOrInfo = !matching.length ? r.p({}, t.e.NoMatchingUploads) :
+        r.ul({ className: 's_E_UplPkr_List' },
+          matching.map((file: UploadedFile) =>
+            r.li({ key: file.hashPath },
+              r.a({ className: 's_E_UplPkr_File', onClick: () => this.props.onInsert(file) },
+                r.span({ className: 's_E_UplPkr_Name' }, file.fileName),
+                r.span({ className: 's_E_UplPkr_Size' }, prettyBytes(file.sizeBytes))))));
+    }
+
+    return (
+      r.div({ className: 's_E_UplPkr' },
+        r.input({ type: 'text', className: 'form-control s_E_UplPkr_Search', autoFocus: true,
+            placeholder: t.e.SearchUploadsPh, value: this.state.query,
+            onChange: (event) => this.setState({ query: event.target.value }),
+            onKeyDown: this.onKeyDown }),
+        listOrInfo,
+        r.div({ className: 's_E_UplPkr_Ftr' },
+          r.a({ href: linkToUsersUploads(this.props.userId), target: '_blank' }, t.e.ManageUploads),
+          r.a({ className: 's_E_UplPkr_CloseB', onClick: this.props.onClose }, t.Close))));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
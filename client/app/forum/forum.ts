@@ -45,6 +45,7 @@ const NumNewTopicsPerRequest = 40;
 const FilterShowAll = 'ShowAll';
 const FilterShowWaiting = 'ShowWaiting';
 const FilterShowDeleted = 'ShowDeleted';
+const FilterShowScheduled = 'ShowScheduled';  // staff only
 
 
 
@@ -547,6 +548,7 @@ const ForumButtons = createComponent({
         case FilterShowAll: return t.fb.AllTopics;
         case FilterShowWaiting: return t.fb.OnlyWaiting;
         case FilterShowDeleted: return t.fb.ShowDeleted;
+        case FilterShowScheduled: return "Scheduled topics";
       }
       die('EsE4JK85');
     }
@@ -557,6 +559,14 @@ const ForumButtons = createComponent({
         title: makeTopicFilterText(FilterShowDeleted),
         text: t.fb.ShowDeletedDescr });
 
+    // Staff only, so no translation.  [5SCHPUB]
+    const showScheduledFilterItem = !isStaff(me) || !showFilterButton ? null :
+      ExplainingListItem({ onSelect: this.setTopicFilter, className: 's_F_BB_TF_Sch',
+        activeEventKey: topicFilterValue, eventKey: FilterShowScheduled,
+        title: makeTopicFilterText(FilterShowScheduled),
+        text: "Shows topics that will get published later. Only staff can see them, " +
+            "and the topic authors." });
+
     const topicFilterButton = !showFilterButton ? null :
       ModalDropdownButton({ className: 'esForum_filterBtn esForum_catsNav_btn', pullLeft: true,
           title: rFragment({},
@@ -573,7 +583,8 @@ const ForumButtons = createComponent({
                 t.fb.OnlyWaitingDescr_1,  // "shows only ..."
                 r.b({}, r.i({}, t.fb.OnlyWaitingDescr_2)),  // "waiting"
                 t.fb.OnlyWaitingDescr_3 ) }), // "for a solution ..."
-          showDeletedFilterItem));
+          showDeletedFilterItem,
+          showScheduledFilterItem));
 
     /* A filter dropdown and search box instead of the <select> above:
     var makeFilterItemProps = (key: string) => {
@@ -766,13 +777,17 @@ const LoadAndListTopics = createFactory({
     // so componentWillReceiveProps() would get called first, and it would call loadTopics again
     // while this.state.isLoading was still false, resulting in an unneeded server request.
     this.isLoading = true;
-    debiki2.Server.loadForumTopics(categoryId, orderOffset, (newlyLoadedTopics: Topic[]) => {
+    // If there's a cached copy of the topic list, we'll get called twice: first with the
+    // cached topics, then with the topics from the server, which then replace the cached ones.
+    let shownCachedTopics = false;
+    debiki2.Server.loadForumTopics(categoryId, orderOffset,
+        (newlyLoadedTopics: Topic[], isFromCache?: boolean) => {
       if (this.isGone) return;
-      let topics: any = isNewView ? [] : (this.state.topics || []);
+      let topics: any = isNewView || shownCachedTopics ? [] : (this.state.topics || []);
       topics = topics.concat(newlyLoadedTopics);
       // `topics` includes at least the last old topic twice.
       topics = _.uniqBy(topics, 'pageId');
-      this.isLoading = false;
+      this.isLoading = !!isFromCache;
       this.setState({
         minHeight: null,
         topics: topics,
@@ -780,9 +795,10 @@ const LoadAndListTopics = createFactory({
       });
 
       // Only scroll to last position once, when opening the page. Not when loading more topics.
-      if (!loadMore) {
+      if (!loadMore && !shownCachedTopics) {
         scrollToLastPositionSoon();
       }
+      shownCachedTopics = !!isFromCache;
     });
   },
 
@@ -1163,10 +1179,13 @@ const TopicRow = createComponent({
     }
 
     let anyPinOrHiddenIconClass = topic.pinWhere ? 'icon-pin' : undefined;
-    if (topic.hiddenAtMs) {
+    if (topic.hiddenAtMs || topic.scheduledPublishAtMs) {
       anyPinOrHiddenIconClass = 'icon-eye-off';
     }
 
+    const anyScheduledInfo = !topic.scheduledPublishAtMs || !isStaff(me) ? null :
+        ScheduledTopicInfo({ topic });
+
     let excerpt;  // [7PKY2X0]
     const showExcerptAsParagraph =
         topic.pinWhere === PinPageWhere.Globally ||
@@ -1251,6 +1270,7 @@ const TopicRow = createComponent({
           r.div({ className: 's_F_Ts_T_Con' + manyLinesClass, onClick: showMoreClickHandler },
             makeTitle(topic, anyPinOrHiddenIconClass, settings, me),
             excerpt),
+          anyScheduledInfo,
           anyThumbnails),
         !showCategories ? null : r.td({ className: 's_F_Ts_T_CN' }, categoryName),
         r.td({ className: 's_F_Ts_T_Avs' }, userAvatars),
@@ -1264,6 +1284,7 @@ const TopicRow = createComponent({
         r.div({ className: 'esF_TsL_T_NumRepls' },
           topic.numPosts - 1, r.span({ className: 'icon-comment-empty' })),
         excerpt,
+        anyScheduledInfo,
         r.div({ className: 'esF_TsL_T_Row2' },
           r.div({ className: 'esF_TsL_T_Row2_Users' }, userAvatars),
           !showCategories ? null : r.div({ className: 'esF_TsL_T_Row2_Cat' },
@@ -1274,6 +1295,94 @@ const TopicRow = createComponent({
 });
 
 
+/**
+ * Lets staff reschedule, publish directly, or cancel (delete), a topic that will
+ * get published later. Staff only, so no translations. [5SCHPUB]
+ */
+const ScheduledTopicInfo = createFactory({
+  displayName: 'ScheduledTopicInfo',
+
+  getInitialState: function() {
+    return {
+      publishAtMs: this.props.topic.scheduledPublishAtMs,
+      isRescheduling: false,
+      isConfirmingCancel: false,
+      doneText: null,
+    };
+  },
+
+  componentDidMount: function() {
+    // No abort signals — the changes should get saved also if one navigates away.
+    // But then don't update the state.
+    this.requests = Server.makeAbortController();
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  onPublishAtChanged: function(event) {
+    const publishAtMs = dateTimeLocalValueToWhenMs(event.target.value);
+    if (publishAtMs) {
+      this.setState({ publishAtMs });
+    }
+  },
+
+  saveNewTime: function() {
+    Server.reschedulePage(this.props.topic.pageId, this.state.publishAtMs, () => {
+      if (this.requests.signal.aborted) return;
+      this.setState({ isRescheduling: false });
+    });
+  },
+
+  publishNow: function() {
+    Server.publishPageNow(this.props.topic.pageId, () => {
+      if (this.requests.signal.aborted) return;
+      this.setState({ doneText: "Published." });
+    });
+  },
+
+  cancelPublishing: function() {
+    Server.deletePages([this.props.topic.pageId], () => {
+      if (this.requests.signal.aborted) return;
+      this.setState({ doneText: "Cancelled — the topic has been deleted." });
+    });
+  },
+
+  render: function() {
+    const state = this.state;
+    if (state.doneText)
+      return r.div({ className: 's_F_Ts_T_Sched' }, state.doneText);
+
+    const localTimeValue = whenMsToDateTimeLocalValue(state.publishAtMs);
+    const link = (className: string, onClick, text: string) =>
+        r.a({ className: 's_F_Ts_T_Sched_' + className, onClick }, text);
+    let content;
+    if (state.isRescheduling) {
+      content = rFragment({},
+        "Publish at: ",
+        r.input({ type: 'datetime-local', value: localTimeValue, onChange: this.onPublishAtChanged }),
+        link('SaveB', this.saveNewTime, "Save"),
+        link('CancelB', () => this.setState({ isRescheduling: false }), "Cancel"));
+    }
+    else if (state.isConfirmingCancel) {
+      content = rFragment({},
+        "Cancel, that is, delete this topic? ",
+        link('YesB', this.cancelPublishing, "Yes, delete"),
+        link('NoB', () => this.setState({ isConfirmingCancel: false }), "No"));
+    }
+    else {
+      content = rFragment({},
+        "Will get published " + localTimeValue.replace('T', ' ') + ". ",
+        link('ReschB', () => this.setState({ isRescheduling: true }), "Reschedule"),
+        link('PublB', this.publishNow, "Publish now"),
+        link('DelB', () => this.setState({ isConfirmingCancel: true }), "Cancel"));
+    }
+    return r.div({ className: 's_F_Ts_T_Sched' }, content);
+  }
+});
+
+
 function topic_mediaThumbnailUrls(topic: Topic): string[] {
   let bodyUrls = topic.firstImageUrls || [];
   let allUrls = bodyUrls.concat(topic.popularRepliesImageUrls || []);
@@ -1331,6 +1440,9 @@ const LoadAndListCategories = createFactory({
       case FilterShowDeleted:
         recentTopicsColumnTitle = t.fc.RecentTopicsInclDel;
         break;
+      case FilterShowScheduled:
+        recentTopicsColumnTitle = "Scheduled topics";
+        break;
       default:
         recentTopicsColumnTitle = t.fc.RecentTopics;
     }
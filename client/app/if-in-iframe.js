@@ -69,10 +69,12 @@ function onMessage(event) {
       break;
     case 'editorToggleReply':
       // This message is sent from an embedded comments page to the embedded editor.
-      // It opens the editor to write a reply to `postId`.
+      // It opens the editor to write a reply to `postId`, optionally quoting
+      // some text the user selected in that post. [5QTSEL]
       var postId = eventData[0];
       var inclInReply = eventData[1];
-      debiki2.editor.toggleWriteReplyToPost(postId, inclInReply, PostType.Normal);
+      var anyQuote = eventData[2];
+      debiki2.editor.toggleWriteReplyToPost(postId, inclInReply, PostType.Normal, anyQuote);
       break;
     case 'handleReplyResult':
       // This message is sent from the embedded editor <iframe> to the comments
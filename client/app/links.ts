@@ -69,6 +69,10 @@ export function linkToReviewPage(): string {
   return origin() + '/-/admin/review/all';
 }
 
+export function linkToAdminReplyTemplates(): string {
+  return origin() + '/-/admin/reply-templates';
+}
+
 
 export function linkToUserProfilePage(user: Myself | MemberInclDetails | User | UserId | string): string {
   // If Myself specified, should be logged in and thus have username or id. (2UBASP5)
@@ -95,6 +99,10 @@ export function linkToUsersEmailAddrs(userIdOrUsername: UserId | string): string
   return linkToUserProfilePage(userIdOrUsername) + '/preferences/account';
 }
 
+export function linkToUsersUploads(userIdOrUsername: UserId | string): string {
+  return linkToUserProfilePage(userIdOrUsername) + '/uploads';
+}
+
 export function linkToMyProfilePage(store: Store): string {
   return origin() + UsersRoot + store.me.id;
 }
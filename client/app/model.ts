@@ -28,6 +28,8 @@ type PeopleId = UserId;
 type PermissionId = number;
 type NotificationId = number;
 type ReviewTaskId = number;
+type DraftNr = number;
+type ReplyTemplateId = number;
 type IdentityId = String;
 type IpAddress = String;
 type EmailId = String;
@@ -193,6 +195,70 @@ enum PostType {
   CommunityWiki = 12,
   CompletedForm = 21,
   MetaMessage = 31,
+  Poll = 41,
+}
+
+
+enum PollChoiceType {  // sync with Scala [7PLCHT2]
+  Single = 1,
+  Multiple = 2,
+}
+
+
+enum PollResultsVisibility {
+  Always = 1,
+  AfterVoting = 2,
+  AfterClosed = 3,
+}
+
+
+interface PollOption {
+  nr: number;
+  text: string;
+}
+
+
+// The question is the text of the poll post, which has postType Poll.
+interface Poll {
+  postId: PostId;
+  choiceType: PollChoiceType;
+  options: PollOption[];
+  closesAtMs?: WhenMs;
+  votersPublic: boolean;  // else anonymous
+  resultsVisibility: PollResultsVisibility;
+  // Absent in the cached page json — then the browser fetches the counts. [5WKBP20]
+  numVoters?: number;
+  // Absent, if one may not see the results, e.g. because one hasn't voted yet.
+  numVotesByOptionNr?: { [optionNr: number]: number };
+}
+
+
+interface PollAndMyVotes {
+  poll: Poll;
+  myVotes: number[];  // option nrs
+}
+
+
+// Emoji reactions aren't votes — they don't affect the likeScore.
+interface PostReactionCount {
+  emoji: string;
+  numReactions: number;
+}
+
+
+interface PostReactionsAndMine {
+  reactions: PostReactionCount[];
+  myReactions: string[];  // emojis
+}
+
+
+// A poll being composed in the editor.
+interface NewPoll {
+  choiceType: PollChoiceType;
+  options: string[];
+  closesAtMs?: WhenMs;
+  votersPublic: boolean;
+  resultsVisibility: PollResultsVisibility;
 }
 
 
@@ -213,6 +279,104 @@ enum WritingWhat {
 }
 
 
+enum DraftType {  // sync with Scala [4WKBU2R]
+  Topic = 1,
+  DirectMessage = 2,
+  Edit = 3,
+  Reply = 4,
+}
+
+
+// Tells what a draft is for, so it can be restored, when opening the editor again
+// for the same thing. Only the fields for the draft type are set.
+interface DraftLocator {
+  draftType: DraftType;
+  categoryId?: CategoryId;    // new topics
+  toUserId?: UserId;          // direct messages
+  postId?: PostId;            // edits
+  pageId?: PageId;            // replies, and edits (for linking to the post)
+  postNr?: PostNr;            // edits (for linking to the post)
+  replyToPostNrs?: PostNr[];  // replies
+}
+
+
+interface Draft {
+  byUserId: UserId;
+  draftNr: DraftNr;
+  forWhat: DraftLocator;
+  createdAtMs: WhenMs;
+  lastEditedAtMs?: WhenMs;
+  topicType?: PageRole;
+  // Only for edits: the text and version one started editing. [5KWB2EC]
+  editBase?: { text: string, version: PostTextVersion };
+  title?: string;
+  text: string;
+}
+
+
+/**
+ * The version of a post's text one started editing. Sent to the server when saving
+ * the edits, so it can reject them, if someone else has edited the post since then.
+ * (Ninja edits don't bump the revision nr, so the last-edited-at is needed too.)
+ */
+interface PostTextVersion {
+  revisionNr: number;
+  lastEditedAtMs?: WhenMs;
+}
+
+
+/**
+ * A canned response, for staff. The text can include placeholders like {{authorName}},
+ * replaced when inserted into the editor.
+ */
+interface ReplyTemplate {
+  id: ReplyTemplateId;
+  ownerId?: UserId;  // absent if site-wide
+  categoryId?: CategoryId;  // absent if for all categories
+  title: string;
+  text: string;
+  createdById?: UserId;
+  createdAtMs?: WhenMs;
+  updatedAtMs?: WhenMs;
+}
+
+
+/**
+ * A file someone uploaded. Listed in one's media library, so one can reuse it
+ * in new posts, or delete it if unused.
+ */
+interface UploadedFile {
+  url: string;
+  hashPath: string;
+  fileName: string;
+  sizeBytes: number;
+  mimeType: string;
+  uploadedById: UserId;
+  uploadedAtMs: WhenMs;
+  isInUse: boolean;
+  // Only the posts one may see. Absent in the admin area.
+  linkedFromPosts?: { pageId: PageId, postNr: PostNr }[];
+}
+
+
+interface UploaderStats {
+  userId: UserId;
+  username?: string;
+  numFiles: number;
+  numBytes: number;
+  numBytesLastWeek: number;
+}
+
+
+interface UploadLimits {
+  maxUploadSizeBytes: number;
+  maxBytesPerWeekMember: number;
+  maxBytesPerWeekStaff: number;
+  maxBytesPerDayMember: number;
+  maxBytesPerDayStaff: number;
+}
+
+
 interface PostWithPage extends Post {
   pageId: PageId;
   pageTitle: string;
@@ -242,9 +406,11 @@ interface MyPageData {
   rolePageSettings: PageUserSettings;
   readingProgress?: ReadingProgress;
   votes: any; // RENAME to votesByPostNr?   CLEAN_UP also see just below:  id or nr
+  pollVotesByPostId: { [postId: number]: number[] };  // the option nrs one voted for
+  myReactionsByPostId: { [postId: number]: string[] };  // emojis
   unapprovedPosts: { [id: number]: Post };
   unapprovedPostAuthors: BriefUser[];
-  postNrsAutoReadLongAgo: number[];
+  postNrsAutoReadLongAgo: number[];  // read on any device, or on this device [SYNCREAD]
   postNrsAutoReadNow: number[];
 
   // For the current page only.
@@ -444,6 +610,7 @@ interface Topic {
   frequentPosterIds: UserId[];
   pinOrder?: number;
   pinWhere?: PinPageWhere;
+  scheduledPublishAtMs?: WhenMs;
   excerpt?: string;
   firstImageUrls?: string[];
   popularRepliesImageUrls?: string[];
@@ -540,6 +707,8 @@ interface VolatileDataFromServer {
   usersOnline: BriefUser[];
   numStrangersOnline: number;
   me?: Myself;
+  // Not in the cached page json, so reacting won't re-render the page. [5WKBR20]
+  reactionsByPostId?: { [postId: number]: PostReactionCount[] };
 }
 
 
@@ -579,12 +748,15 @@ interface Page {
   pageLockedAtMs?: number;
   pageFrozenAtMs?: number;
   pageHiddenAtMs?: number;
+  pageScheduledPublishAtMs?: WhenMs;
   pageDeletedAtMs?: number;
   numPosts: number;
   numPostsRepliesSection: number;
   numPostsChatSection: number;
   numPostsExclTitle: number;
   postsByNr: { [postNr: number]: Post };
+  pollsByPostId: { [postId: number]: Poll };
+  reactionsByPostId: { [postId: number]: PostReactionCount[] };
   topLevelCommentIdsSorted: number[];
   horizontalLayout: boolean;
   is2dTreeDefault: boolean;
@@ -630,6 +802,7 @@ interface Store extends Origins {
   settings: SettingsVisibleClientSide;
   hideForumIntro?: boolean;
   maxUploadSizeBytes: number;
+  resizeImagesLargerThanPx: number;
   currentCategories: Category[];
   // For all site sections, loaded lazily, and updated in a hacky way, for now, so have a look,
   // and refactor (?), before using it for anything more.
@@ -663,10 +836,36 @@ interface Store extends Origins {
   pagesById: { [pageId: string]: Page };
   currentPage?: Page;
   currentPageId?: PageId;
+  // If we're offline, and the current page is from the page cache, maybe out of date.
+  currentPageIsOfflineCopy?: boolean;
   debugStartPageId: string;
 
   tagsStuff?: TagsStuff;
   superadmin?: SuperAdminStuff;
+
+  // Replies, chat messages and votes not yet sent, because the browser is offline.
+  outboxItems?: OutboxItem[];
+
+  // People currently typing a reply or chat message, on pages in pagesById.
+  usersTypingByPageId?: { [pageId: string]: UserTyping[] };
+}
+
+
+interface UserTyping {
+  userId: UserId;
+  untilMs: WhenMs;  // stop showing "... is typing" at this time, unless we hear more
+}
+
+
+type OutboxItemType = 'Reply' | 'ChatMessage' | 'Vote';
+
+interface OutboxItem {
+  idempotencyKey: string;
+  type: OutboxItemType;
+  urlPath: string;
+  data: any;  // the request body, incl pageId and text, or vote type
+  userId: UserId;
+  queuedAtMs: WhenMs;
 }
 
 
@@ -695,6 +894,9 @@ interface SettingsVisibleClientSide {
   forumTopicsLayout?: TopicListLayout;  // default: title only
   forumCategoriesLayout?: CategoriesLayout; // default: (there's only one as of Jan 2017)
   showExperimental?: boolean;           // default: false
+  reactionEmojis?: string;              // default: '👍 ❤️ 😄 🎉 😕', whitespace separated
+  disabledEditorChecks?: string;        // default: '', whitespace separated check ids
+  enableQuickReplyBox?: boolean;        // default: false
   showCategories?: boolean;             // default: true
   showTopicFilterButton?: boolean;      // default: true
   showTopicTypes?: boolean;             // default: true
@@ -868,6 +1070,7 @@ interface GroupInclDetails extends MemberOrGroupInclDetails {
   isGroup: boolean; // always true
   //"createdAtEpoch" -> JsWhen(group.createdAt),
   fullName: string;
+  mayMentionMeTrustLevel?: TrustLevel;  // only if requester is staff; null = only staff may
 }
 
 
@@ -986,6 +1189,8 @@ interface Group {
   fullName: string;
   // "grantsTrustLevel" — later
   avatarTinyHashPath?: string;
+  isGroup?: boolean;
+  numMembers?: number;  // if listing groups one may @mention
 }
 
 
@@ -1133,6 +1338,10 @@ interface StorePatch {
 
   pageVersionsByPageId?: { [pageId: string]: PageVersion };
   postsByPageId?: { [pageId: string]: Post[] };
+  // Poll votes don't bump the page version, so these get applied regardless of page versions.
+  pollsByPageId?: { [pageId: string]: Poll[] };
+  // Reactions don't bump the page version either.
+  reactionsByPageId?: { [pageId: string]: { [postId: number]: PostReactionCount[] } };
   // rename to postAuthorsBrief? So one sees they can be ignored if the posts are
   // ignored (because the page version is too old).
   usersBrief?: BriefUser[];
@@ -1239,6 +1448,9 @@ interface Settings {
   googleUniversalAnalyticsTrackingId: string;
 
   showExperimental: boolean;
+  reactionEmojis: string;
+  disabledEditorChecks: string;
+  enableQuickReplyBox: boolean;
   allowEmbeddingFrom: string;
 }
 
@@ -1302,6 +1514,16 @@ interface Rect {
 }
 
 
+/**
+ * For destructive actions that take effect directly, e.g. deleting a post. The undo
+ * function does the reverse action server side, e.g. undeletes the post.
+ */
+interface UndoToastStuff {
+  message: string;
+  undo: () => void;
+}
+
+
 
 // ----- Server responses
 
@@ -1313,6 +1535,26 @@ interface LoadCategoryResponse {
 }
 
 
+interface LoadSettingsResult {
+  effectiveSettings: Settings;
+  defaultSettings: Settings;
+  baseDomain: string,
+  cnameTargetHost: string,
+  hosts: Host[];
+}
+
+
+interface PageJsonResponse {
+  // Absent, if there's a problem, e.g. the page has been deleted.
+  reactStoreJsonString?: string;
+  // Not in the page cache [5WKBR20], so included separately.
+  reactionsByPostId?: { [postId: number]: PostReactionCount[] };
+  me?: Myself;
+  problemCode?: number;
+  problemMessage?: string;
+}
+
+
 interface UserAccountResponse {
   emailAddresses: UserAccountEmailAddr[];
   loginMethods: UserAccountLoginMethod[];
@@ -1337,6 +1579,52 @@ interface UserAccountLoginMethod {
 
 interface TalkyardApi {  // [5ABJH72]
   postElemPostProcessor?: (elem: any) => void;
+  // Listed in the editor's '/' commands menu, see slash-commands.editor.ts.
+  editorSnippets?: EditorSnippetRegistration[];
+  // Run before submitting the editor text, see pre-submit-checks.editor.ts.
+  editorChecks?: EditorCheckRegistration[];
+}
+
+interface EditorSnippetRegistration {
+  // Typed after '/', e.g. 'bugreport'. Only letters, digits and '_'.
+  name: string;
+  title?: string;
+  text: string;
+}
+
+interface EditorCheckRegistration {
+  // Admins can turn the check off by adding the id to the disabledEditorChecks setting.
+  id: string;
+  // Returns a description of the problem, if any.
+  check: (context: EditorCheckContext) => string | undefined;
+}
+
+interface EditorCheckContext {
+  text: string;
+  title?: string;
+  pageId?: PageId;
+  page?: Page;
+  isReplying: boolean;
+  isEditing: boolean;
+}
+
+// Only for plugins bundled at build time, see markdown-it-plugins.ts.
+interface MarkdownItPluginRegistration {
+  id: string;
+  // Gets passed to markdown-it's md.use(plugin, options).
+  plugin: any;
+  options?: any;
+  sanitizerAllowlist?: SanitizerAllowlist;
+}
+
+// Only tags and attributes that Google Caja's html4 whitelist knows about, can be
+// allowed — Caja runs after sanitize-html, and removes other things. [5FKEW2]
+interface SanitizerAllowlist {
+  tags?: string[];
+  attributes?: { [tagName: string]: string[] };
+  // Classes matching any of these regexes are kept, also when classes are otherwise
+  // not allowed.
+  classes?: RegExp[];
 }
 
 // vim: et ts=2 sw=2 tw=0 fo=r list
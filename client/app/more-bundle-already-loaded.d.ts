@@ -37,11 +37,16 @@ declare namespace debiki2 {
   namespace utils {
     var PatternInput;  // REFACTOR RENAME move to debiki2
     var PageUnloadAlerter;
+    function loadDiffMatchPatch(fn: (diffMatchPatch) => void);
+    function threeWayMerge(base: string, mine: string, theirs: string,
+        mineLabel: string, theirsLabel: string): { text: string, numConflicts: number };
+    function hasMergeConflictMarkers(text: string): boolean;
   }
 
   namespace util {
     function makeStupidDialogGetter();
     function makeResizableUp(elem, handle, onResize);
+    function showUndoToast(stuff: UndoToastStuff);
   }
 
   namespace topbar {
@@ -74,6 +79,7 @@ declare namespace debiki2.pagedialogs {
   function openTagsDialog(store: Store, post: Post);
   function openWikifyDialog(post: Post);
   function openLikesDialog(post: Post, voteType: PostVoteType, at: Rect)
+  function openReactorsDialog(post: Post, emoji: string, at: Rect)
 
   function getAboutUserDialog();
   function getProgressBarDialog();
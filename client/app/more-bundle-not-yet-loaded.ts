@@ -68,6 +68,13 @@ export function openLikesDialog(post: Post, voteType: PostVoteType, at) {
 }
 
 
+export function openReactorsDialog(post: Post, emoji: string, at) {
+  Server.loadMoreScriptsBundle(() => {
+    debiki2.pagedialogs.openReactorsDialog(post, emoji, at);
+  });
+}
+
+
 export function openEditHistoryDialog(postId: number) {
   Server.loadMoreScriptsBundle(() => {
     debiki2.edithistory.getEditHistoryDialog().open(postId);
@@ -168,6 +175,13 @@ export function openWikifyDialog(post: Post) {
 }
 
 
+export function showUndoToast(stuff: UndoToastStuff) {
+  Server.loadMoreScriptsBundle(() => {
+    debiki2.util.showUndoToast(stuff);
+  });
+}
+
+
 export function joinOrCreateSubCommunity(store: Store) {
    Server.loadMoreScriptsBundle(() => {
      debiki2.subcommunities.joinOrCreateSubCommunity(store);
@@ -206,6 +206,15 @@ export function settings_selectTopicType(settings: SettingsVisibleClientSide, me
 }
 
 
+/**
+ * The emojis people may react with — empty, if reactions are disabled.
+ */
+export function settings_reactionEmojis(settings: SettingsVisibleClientSide): string[] {
+  // Sync the default with AllSettings.Default.reactionEmojis, server side.
+  const emojis = _.isString(settings.reactionEmojis) ? settings.reactionEmojis : '👍 ❤️ 😄 🎉 😕';
+  return _.uniq(emojis.split(/\s+/).filter(emoji => !!emoji));
+}
+
 
 // Store
 //----------------------------------
@@ -271,6 +280,10 @@ export function store_mayIReply(store: Store, post: Post): boolean {
   if (post_isDeletedOrCollapsed(post) || !post.isApproved)
     return false;
 
+  // An offline copy might be out of date, and maybe we've been logged out — read only.
+  if (store.currentPageIsOfflineCopy)
+    return false;
+
   if (page.pageMemberIds.indexOf(me.id) >= 0)
     may = true;
 
@@ -54,7 +54,13 @@ const AboutUserDialog = createComponent({
   },
 
   componentWillUnmount: function() {
-    this.isGone = true;
+    this.abortRequests();
+  },
+
+  abortRequests: function() {
+    if (this.requests) {
+      this.requests.abort();
+    }
   },
 
   // SECURITY (minor) SHOULD make openForPostAt and openForUser(IdOrUsername) work in the same
@@ -86,6 +92,7 @@ const AboutUserDialog = createComponent({
   },
 
   close: function() {
+    this.abortRequests();
     this.setState({
       isOpen: false,
       user: null,
@@ -101,14 +108,14 @@ const AboutUserDialog = createComponent({
   },
 
   loadUser: function(idOrUsername: number | string) {
+    this.abortRequests();
+    const requests = this.requests = Server.makeAbortController();
     Server.loadUserAnyDetails(idOrUsername, (user: MemberInclDetails) => {
-      if (this.isGone) return;
       if (!this.state.post) {
         this.setState({ user: user });
         return;
       }
       Server.loadAuthorBlockedInfo(this.state.post.uniqueId, (blocks: Blocks) => {
-        if (this.isGone) return;
         // These two are only included in the response for staff.
         let ipBlock;
         let browserBlock;
@@ -130,8 +137,8 @@ const AboutUserDialog = createComponent({
             blockedTillMs: blocks.blockedTillMs
           }
         });
-      });
-    });
+      }, { abortSignal: requests.signal });
+    }, undefined, { abortSignal: requests.signal });
   },
 
   render: function () {
@@ -176,18 +183,22 @@ const AboutUser = createComponent({
   displayName: 'AboutUser',
 
   componentWillUnmount: function() {
-    this.isGone = true;
+    if (this.requests) {
+      this.requests.abort();
+    }
   },
 
   removeFromPage: function() {
     const user: MemberInclDetails = this.props.user;
+    // Don't pass the abort signal — the user should get removed also if the dialog closes.
+    const requests = this.requests = Server.makeAbortController();
     Server.removeUsersFromPage([user.id], () => {
 
       // [redux] send a page-members patch [5FKE0WY2]
       util.openDefaultStupidDialog({ body: "Now I've removed him/her from this topic. " +
           "Currently you need to refresh the page (hit F5) now, to see this change." })
 
-      if (this.isGone) return;
+      if (requests.signal.aborted) return;
       this.props.close();
     });
   },
@@ -34,6 +34,17 @@ export function openLikesDialog(post: Post, voteType: PostVoteType, at) {
 }
 
 
+/**
+ * Lists who reacted with an emoji. Reactions aren't votes, but the dialog looks the same.
+ */
+export function openReactorsDialog(post: Post, emoji: string, at) {
+  if (!votesDialog) {
+    votesDialog = ReactDOM.render(VotesDialog(), utils.makeMountNode());
+  }
+  votesDialog.openForAt(post, null, at, emoji);
+}
+
+
 const VotesDialog = createComponent({
   displayName: 'VotesDialog',
 
@@ -45,7 +56,7 @@ const VotesDialog = createComponent({
     };
   },
 
-  openForAt: function(post: Post, voteType: PostVoteType, at) {
+  openForAt: function(post: Post, voteType: PostVoteType | null, at, emoji?: string) {
     const rect = at.getBoundingClientRect();
     this.setState({
       isOpen: true,
@@ -53,23 +64,51 @@ const VotesDialog = createComponent({
       atY: rect.bottom - 60,
       post: post,
       voteType: voteType,
+      emoji: emoji,
+      someVoters: null,
     });
-    this.loadVoters(post, voteType);
+    if (emoji) {
+      this.loadReactors(post, emoji);
+    }
+    else {
+      this.loadVoters(post, voteType);
+    }
   },
 
   close: function() {
+    this.abortAnyRequest();
     this.setState({ isOpen: false, post: null, likes: null });
   },
 
+  abortAnyRequest: function() {
+    if (this.requests) {
+      this.requests.abort();
+    }
+  },
+
   loadVoters: function(post: Post, voteType: PostVoteType) {
+    // If we're still loading voters for another post, we don't want those voters.
+    this.abortAnyRequest();
+    this.requests = Server.makeAbortController();
     Server.loadVoters(post.uniqueId, voteType, (numVoters: number, someVoters: BriefUser[]) => {
-      if (!this.state.isOpen) return;
       this.setState({
         post: post,
         numVoters: numVoters,
         someVoters: someVoters,
       });
-    });
+    }, { abortSignal: this.requests.signal });
+  },
+
+  loadReactors: function(post: Post, emoji: string) {
+    this.abortAnyRequest();
+    this.requests = Server.makeAbortController();
+    Server.loadReactors(post.uniqueId, emoji, (numReactors: number, someReactors: BriefUser[]) => {
+      this.setState({
+        post: post,
+        numVoters: numReactors,
+        someVoters: someReactors,
+      });
+    }, { abortSignal: this.requests.signal });
   },
 
   render: function () {
@@ -89,7 +128,8 @@ const VotesDialog = createComponent({
     else {
       const people = numVoters === 1 ? " person " : " people ";
       let didWhat: string;
-      switch (voteType) {
+      if (state.emoji) didWhat = "reacted with " + state.emoji + " to";
+      else switch (voteType) {
         case PostVoteType.Like: didWhat = "liked"; break;
         case PostVoteType.Disagree: didWhat = "disagreed with"; break;
         case PostVoteType.Bury: didWhat = "buried"; break;
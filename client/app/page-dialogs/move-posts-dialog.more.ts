@@ -83,6 +83,18 @@ const MovePostsDialog = createComponent({
       }
       if (this.state.closeCaller) this.state.closeCaller();
       this.close();
+      // Undo = move it back. The post keeps its id, also if it got a new nr on another page.
+      const oldPageId = store.currentPageId;
+      const oldParentNr = post.parentNr;
+      ReactActions.showUndoToastIfStaff({
+        message: t.ut.PostMoved,
+        undo: () => Server.movePost(post.uniqueId, location.host, oldPageId, oldParentNr,
+            (postBack: Post) => {
+          if (store.currentPageId === oldPageId) {
+            debiki.internal.showAndHighlightPost($byId('post-' + postBack.nr));
+          }
+        }),
+      });
     });
   },
 
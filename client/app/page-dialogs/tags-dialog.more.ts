@@ -56,17 +56,24 @@ const TagsDialog = createComponent({
   },
 
   componentWillUnmount: function() {
-    this.isGone = true;
+    this.abortRequests();
+  },
+
+  abortRequests: function() {
+    if (this.requests) {
+      this.requests.abort();
+    }
   },
 
   open: function(store, post: Post) {
+    this.abortRequests();
+    const requests = this.requests = Server.makeAbortController();
     this.setState({ isOpen: true, isLoading: true });
     Server.loadAllTags((tags) => {
-      if (this.isGone) return;
       this.setState({ allTags: tags });
-    });
+    }, { abortSignal: requests.signal });
     Server.loadEditorAndMoreBundles(() => {
-      if (this.isGone || !this.state.isOpen) return;
+      if (requests.signal.aborted) return;
       this.setState({
         isLoading: false,
         store: store,
@@ -77,6 +84,7 @@ const TagsDialog = createComponent({
   },
 
   close: function() {
+    this.abortRequests();
     this.setState({ isOpen: false, store: null, post: null, tags: null });
   },
 
@@ -99,8 +107,10 @@ const TagsDialog = createComponent({
   },
 
   save: function() {
+    // Don't pass the abort signal — the tags should get saved also if the dialog closes.
+    const requests = this.requests;
     Server.addRemovePostTags(this.state.post.uniqueId, this.state.tags, () => {
-      if (this.isGone) return;
+      if (requests.signal.aborted) return;
       this.close();
     });
   },
@@ -53,10 +53,6 @@ let ViewAsDialog = createComponent({
     return { isOpen: false };
   },
 
-  componentWillUnmount: function() {
-    this.isGone = true;
-  },
-
   open: function() {
     this.setState({ isOpen: true });
   },
@@ -67,7 +63,8 @@ let ViewAsDialog = createComponent({
 
   viewAsStranger: function() {
     Server.viewAsOther(NoUserId, () => {
-      // Continue even if this.isGone, because now we're viewing as another user, regardless.
+      // No abort signal: continue even if this dialog is gone, because now we're viewing
+      // as another user, regardless.
       this.close();
       util.openDefaultStupidDialog({
         body: r.div({},
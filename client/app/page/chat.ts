@@ -23,6 +23,7 @@
 /// <reference path="../avatar/avatar.ts" />
 /// <reference path="../avatar/AvatarAndName.ts" />
 /// <reference path="discussion.ts" />
+/// <reference path="reactions.ts" />
 /// <reference path="../more-bundle-not-yet-loaded.ts" />
 /// <reference path="../editor-bundle-not-yet-loaded.ts" />
 
@@ -132,6 +133,11 @@ const TitleAndLastChatMessages = createComponent({
       canScrollUpToFetchOlder = false;
     }
 
+    // Messages posted when offline. [OFFLOUTBX]
+    _.each(store_getOutboxItemsOnThisPage(store, 'ChatMessage'), (item: OutboxItem) => {
+      messages.push(PendingChatMessage({ key: item.idempotencyKey, store, item }));
+    });
+
     const thisIsTheWhat =
         r.p({},
           t.c.About_1 + ReactStore.getPageTitle() + t.c.About_2,
@@ -207,7 +213,8 @@ const ChatMessage = createComponent({
       r.div({ className: 'esC_M', id: 'post-' + post.nr },
         avatar.Avatar({ user: author, origins: store, size: AvatarSize.Small }),
         PostHeader(headerProps),
-        PostBody({ store: store, post: post })));
+        PostBody({ store: store, post: post }),
+        PostReactions({ store, post })));
   }
 });
 
@@ -224,6 +231,19 @@ function DeletedChatMessage(props) {
 
 
 
+function PendingChatMessage(props) {
+  const store: Store = props.store;
+  const item: OutboxItem = props.item;
+  return (
+    r.div({ className: 'esC_M s_OutbxP', key: props.key },
+      avatar.Avatar({ user: me_toBriefUser(store.me), origins: store, size: AvatarSize.Small }),
+      r.div({ className: 's_OutbxP_NotSent' }, t.NotSentYet),
+      r.div({ className: 'dw-p-bd' },
+        r.div({ className: 'dw-p-bd-blk s_OutbxP_Text' }, item.data.text))));
+}
+
+
+
 const FixedAtBottom = createComponent({
   displayName: 'FixedAtBottom',
   mixins: [utils.PageScrollMixin, utils.WindowZoomResizeMixin],
@@ -327,6 +347,7 @@ const ChatMessageEditor = createComponent({
 
   onTextEdited: function(event) {
     this.updateText(event.target.value);
+    Server.tellOthersIAmTyping();
   },
 
   updateText: function(text) {
@@ -413,9 +434,12 @@ const ChatMessageEditor = createComponent({
     // In the editor scripts bundle, lazy loaded.
     const ReactTextareaAutocomplete = editor['ReactTextareaAutocomplete'];
     const listUsernamesTrigger = editor['listUsernamesTrigger'];
+    // No polls or uploads in chat messages, only text commands like code blocks.
+    const slashCommandsTrigger = editor['makeSlashCommandsTrigger']({});
 
     return (
       r.div({ className: 'esC_Edtr' },
+        UsersTyping({ store: this.props.store }),
         // The @mentions username autocomplete might overflow the textarea. [J7UKFBW]
         ReactTextareaAutocomplete({ className: 'esC_Edtr_textarea', ref: 'textarea',
           value: this.state.text, onChange: this.onTextEdited,
@@ -426,7 +450,7 @@ const ChatMessageEditor = createComponent({
           disabled: disabled,
           rows: this.state.rows,
           loadingComponent: () => r.span({}, t.Loading),
-          trigger: listUsernamesTrigger }),
+          trigger: { ...listUsernamesTrigger, ...slashCommandsTrigger } }),
         buttons));
   }
 });
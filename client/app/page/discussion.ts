@@ -28,6 +28,9 @@
 /// <reference path="../login/login-if-needed.ts" />
 /// <reference path="post-actions.ts" />
 /// <reference path="chat.ts" />
+/// <reference path="poll.ts" />
+/// <reference path="reactions.ts" />
+/// <reference path="quick-reply-box.ts" />
 /// <reference path="social-buttons.ts" />
 /// <reference path="../more-bundle-not-yet-loaded.ts" />
 
@@ -401,9 +404,13 @@ export const Title = createComponent({
     }
     else {
       let pinOrHiddenClass = page.pinWhere ? ' icon-pin' : '';
-      if (page.pageHiddenAtMs) {
+      if (page.pageHiddenAtMs || page.pageScheduledPublishAtMs) {
         pinOrHiddenClass = ' icon-eye-off';
       }
+      // Only staff and the author can see the page. Mostly staff, so no translation. [5SCHPUB]
+      const scheduledTooltip = !page.pageScheduledPublishAtMs ? '' :
+          "Will get published " +
+            whenMsToDateTimeLocalValue(page.pageScheduledPublishAtMs).replace('T', ' ') + ".\n";
       let tooltip = '';
       let icon;
       // (Some dupl code, see PostActions below and isDone() and isAnswered() in forum.ts [4KEPW2]
@@ -510,7 +517,7 @@ export const Title = createComponent({
           r.div({ className: 'dw-p-bd' },
             r.div({ className: 'dw-p-bd-blk' },
               deletedOrUnapprovedInfo,
-              r.h1({ className: 'dw-p-ttl' + pinOrHiddenClass, title: tooltip },
+              r.h1({ className: 'dw-p-ttl' + pinOrHiddenClass, title: scheduledTooltip + tooltip },
                 deletedIcon,
                 icon, titleText,
                 anyShowForumInroBtn, anyEditTitleBtn)));
@@ -818,6 +825,12 @@ const RootPostAndComments = createComponent({
 
     const flatRepliesClass = repliesAreFlat ? ' dw-chat' : ''; // rename dw-chat... to dw-flat?
 
+    // Replies posted when offline. Shown last, since they'll get appended. [OFFLOUTBX]
+    const pendingReplies = store_getOutboxItemsOnThisPage(store, 'Reply').map(
+        (item: OutboxItem) =>
+          r.li({ key: item.idempotencyKey },
+            PendingReply({ store, item })));
+
     const socialButtons = !store.settings.showSocialButtons ? null :
         SocialButtons(store.settings);
 
@@ -866,6 +879,13 @@ const RootPostAndComments = createComponent({
             } },
           isFormalMessage ? t.d.AddComment : t.d.AddBottomComment));
 
+    // Embedded comments pages use the editor in the separate editor iframe instead.
+    const quickReplyBox =
+        !store.settings.enableQuickReplyBox || !mayReplyToOrigPost ||
+        page.pageRole === PageRole.MindMap || pageRole === PageRole.EmbeddedComments ? null :
+      QuickReplyBox({ store,
+          postType: isFormalMessage ? PostType.BottomComment : PostType.Normal });
+
     return (
       r.div({ className: threadClass },
         notYetApprovedMaybeDeletedInfo,
@@ -881,8 +901,11 @@ const RootPostAndComments = createComponent({
         // they're no longer needed.
         r.div({ className: 'dw-single-and-multireplies' + flatRepliesClass },
           r.ol({ className: 'dw-res dw-singlereplies' },
-            threadedChildren)),
+            threadedChildren,
+            pendingReplies)),
+        UsersTyping({ store }),
         origPostReplyButton,
+        quickReplyBox,
         chatSection,
         deletedText));
   },
@@ -942,6 +965,43 @@ export const MetaPost = createComponent({
 
 
 
+function PendingReply(props: { store: Store, item: OutboxItem }) {
+  const store: Store = props.store;
+  const item: OutboxItem = props.item;
+  const me: Myself = store.me;
+  // Show the text as is — it hasn't been sanitized server side.
+  return (
+    r.div({ className: 'dw-t s_OutbxP' },
+      r.div({ className: 'dw-p' },
+        r.div({ className: 'dw-p-hd' },
+          UserName({ user: me_toBriefUser(me), store, avoidFullName: true }),
+          r.span({ className: 's_OutbxP_NotSent' }, t.NotSentYet)),
+        r.div({ className: 'dw-p-bd' },
+          r.div({ className: 'dw-p-bd-blk s_OutbxP_Text' }, item.data.text)))));
+}
+
+
+/**
+ * Shows e.g. "Alice is typing...", if others are typing a reply or chat message
+ * on the current page. [5TYPNG2]
+ */
+export function UsersTyping(props: { store: Store }) {
+  const store: Store = props.store;
+  const typingByPageId = store.usersTypingByPageId || {};
+  const names = [];
+  _.each(typingByPageId[store.currentPageId], (typer: UserTyping) => {
+    const user: BriefUser = store.usersByIdBrief[typer.userId];
+    if (user && user.id !== store.me.id) {
+      names.push(user.username || user.fullName);
+    }
+  });
+  if (!names.length)
+    return null;
+  return r.div({ className: 's_UsrsTyping' }, t.UsersTyping(names));
+}
+
+
+
 const SquashedThreads = createComponent({
   displayName: 'SquashedThreads',
 
@@ -1203,6 +1263,8 @@ export const Post = createComponent({
     let pendingApprovalElem;
     let headerElem;
     let bodyElem;
+    let pollElem;
+    let reactionsElem;
     let clickToExpand;
     let clickCover;
     let extraClasses = this.props.className || '';
@@ -1248,6 +1310,12 @@ export const Post = createComponent({
       // For mind maps, each node is part of the article/page (rather than a comment) so skip author.
       headerElem = page.pageRole === PageRole.MindMap ? null : PostHeader(headerProps);
       bodyElem = PostBody(this.props);
+      if (post.postType === PostType.Poll && !this.props.abbreviate) {
+        pollElem = PollView({ store, post });
+      }
+      if (post.nr !== TitleNr && !this.props.abbreviate) {
+        reactionsElem = PostReactions({ store, post });
+      }
 
       if (post.isTreeCollapsed === 'Truncated' && !this.props.abbreviate) {
         extraClasses += ' dw-x';
@@ -1303,6 +1371,8 @@ export const Post = createComponent({
         replyReceivers,
         headerElem,
         bodyElem,
+        pollElem,
+        reactionsElem,
         clickToExpand,
         clickCover,
         unwantedCross));
@@ -0,0 +1,259 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../prelude.ts" />
+
+/**
+ * Caches recently visited pages and topic lists in IndexedDB, so single-page-app
+ * navigation, e.g. the Back button, can show them instantly — and then reload them
+ * from the server in the background. And so they can be read offline.
+ *
+ * Only the page and the topics get cached, not the user specific `me` data, which
+ * gets loaded from the server. Entries cached by another user are ignored, and
+ * the cache gets cleared on logout.
+ *
+ * Pages are keyed by page id, so there's just one entry per page, also if it's been
+ * moved or renamed — and at most one entry per url path. Entries get evicted when
+ * the server sends a newer page version.
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.pagecache {
+//------------------------------------------------------------------------------
+
+const PagesStoreName = 'pages';
+const TopicListsStoreName = 'topicLists';
+const MaxCachedPages = 50;
+const MaxCachedTopicLists = 30;
+
+
+export interface CachedPage {
+  urlPath: string;
+  pageId: PageId;
+  pageVersion: PageVersion;
+  userId: UserId;
+  reactStoreJsonString: string;
+  cachedAtMs: WhenMs;
+}
+
+
+export interface CachedTopicList {
+  listKey: string;
+  userId: UserId;
+  topics: Topic[];
+  users: BriefUser[];
+  cachedAtMs: WhenMs;
+}
+
+
+let theDb: IDBDatabase | null;
+let cannotUseDb = false;
+
+
+function withCacheDb(fn: (db: IDBDatabase) => void) {
+  if (theDb) {
+    fn(theDb);
+    return;
+  }
+  const indexedDB: IDBFactory = window.indexedDB;
+  if (!indexedDB || cannotUseDb)
+    return;
+
+  // Include the site id, in case many sites have the same origin (e.g. in dev mode). [7YGK082]
+  const request = indexedDB.open('tyPageCache-' + eds.siteId, 2);
+  request.onupgradeneeded = () => {
+    const db: IDBDatabase = request.result;
+    // Version 1 keyed pages by url path. It's just a cache, so start over.
+    if (db.objectStoreNames.contains(PagesStoreName)) {
+      db.deleteObjectStore(PagesStoreName);
+    }
+    const pagesStore = db.createObjectStore(PagesStoreName, { keyPath: 'pageId' });
+    pagesStore.createIndex('cachedAtMs', 'cachedAtMs');
+    pagesStore.createIndex('urlPath', 'urlPath');
+    if (!db.objectStoreNames.contains(TopicListsStoreName)) {
+      db.createObjectStore(TopicListsStoreName, { keyPath: 'listKey' })
+          .createIndex('cachedAtMs', 'cachedAtMs');
+    }
+  };
+  request.onsuccess = () => {
+    theDb = request.result;
+    fn(theDb);
+  };
+  request.onerror = () => {
+    // Happens e.g. in Firefox's private browsing mode. Then just don't cache anything.
+    console.warn(`Cannot open the page cache IndexedDB [TyEPGCACHEDB]: ${request.error}`);
+    cannotUseDb = true;
+  };
+}
+
+
+function myUserId(): UserId {
+  return ReactStore.allData().me.id || NoUserId;
+}
+
+
+/**
+ * Calls back with the cached page, or null — also if IndexedDB isn't available.
+ */
+export function findPage(urlPath: string, callback: (cachedPage: CachedPage | null) => void) {
+  findEntry(PagesStoreName, urlPath, callback, 'urlPath');
+}
+
+
+/**
+ * The page is in the json string already, but is needed separately too, because the
+ * json string gets cached as is, unparsed.
+ */
+export function savePage(urlPath: string, page: Page, reactStoreJsonString: string) {
+  if (page.pageId === EmptyPageId)
+    return;
+  const cachedPage: CachedPage = {
+    urlPath,
+    pageId: page.pageId,
+    pageVersion: page.pageVersion,
+    userId: myUserId(),
+    reactStoreJsonString,
+    cachedAtMs: Date.now(),
+  };
+  // Any other page cached at this path, has been moved or renamed.
+  forgetPage(urlPath, page.pageId);
+  saveEntry(PagesStoreName, cachedPage, MaxCachedPages);
+}
+
+
+/**
+ * Forgets the page at `urlPath` — except for the page with id `exceptPageId`, if any.
+ */
+export function forgetPage(urlPath: string, exceptPageId?: PageId) {
+  withCacheDb(db => {
+    const objectStore = db.transaction(PagesStoreName, 'readwrite').objectStore(PagesStoreName);
+    const cursorRequest = objectStore.index('urlPath').openCursor(urlPath);
+    cursorRequest.onsuccess = () => {
+      const cursor: IDBCursorWithValue = cursorRequest.result;
+      if (!cursor)
+        return;
+      if (cursor.value.pageId !== exceptPageId) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  });
+}
+
+
+/**
+ * Call when the server says the page is now at `pageVersion` — then any cached
+ * older version is out of date.
+ */
+export function forgetPageIfOlder(pageId: PageId, pageVersion: PageVersion) {
+  withCacheDb(db => {
+    const objectStore = db.transaction(PagesStoreName, 'readwrite').objectStore(PagesStoreName);
+    const request = objectStore.get(pageId);
+    request.onsuccess = () => {
+      const cachedPage: CachedPage | undefined = request.result;
+      if (cachedPage && cachedPage.pageVersion < pageVersion) {
+        objectStore.delete(pageId);
+      }
+    };
+  });
+}
+
+
+export function findTopicList(listKey: string,
+      callback: (cachedList: CachedTopicList | null) => void) {
+  findEntry(TopicListsStoreName, listKey, callback);
+}
+
+
+export function saveTopicList(listKey: string, topics: Topic[], users: BriefUser[]) {
+  const cachedList: CachedTopicList = {
+    listKey,
+    userId: myUserId(),
+    topics,
+    users,
+    cachedAtMs: Date.now(),
+  };
+  saveEntry(TopicListsStoreName, cachedList, MaxCachedTopicLists);
+}
+
+
+/**
+ * Deletes everything, e.g. on logout, so the next person using this browser
+ * won't see pages the previous user could see.
+ */
+export function clear() {
+  withCacheDb(db => {
+    const transaction = db.transaction([PagesStoreName, TopicListsStoreName], 'readwrite');
+    transaction.objectStore(PagesStoreName).clear();
+    transaction.objectStore(TopicListsStoreName).clear();
+  });
+}
+
+
+function findEntry(storeName: string, key: string, callback: (entry: any) => void,
+      indexName?: string) {
+  if (!window.indexedDB || cannotUseDb) {
+    callback(null);
+    return;
+  }
+  let calledBack = false;
+  function callBackOnce(entry) {
+    if (calledBack) return;
+    calledBack = true;
+    callback(entry);
+  }
+  // If the database cannot be opened, withCacheDb() never calls us back, so don't wait for long.
+  setTimeout(() => callBackOnce(null), 500);
+  withCacheDb(db => {
+    const objectStore = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const request = indexName ? objectStore.index(indexName).get(key) : objectStore.get(key);
+    request.onsuccess = () => {
+      const entry = request.result;
+      callBackOnce(entry && entry.userId === myUserId() ? entry : null);
+    };
+    request.onerror = () => callBackOnce(null);
+  });
+}
+
+
+function saveEntry(storeName: string, entry: { cachedAtMs: WhenMs }, maxEntries: number) {
+  withCacheDb(db => {
+    const objectStore = db.transaction(storeName, 'readwrite').objectStore(storeName);
+    objectStore.put(entry);
+    const countRequest = objectStore.count();
+    countRequest.onsuccess = () => {
+      let numToDelete = countRequest.result - maxEntries;
+      if (numToDelete <= 0)
+        return;
+      // The index is sorted by cachedAtMs, so the oldest entries come first.
+      const cursorRequest = objectStore.index('cachedAtMs').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor: IDBCursorWithValue = cursorRequest.result;
+        if (!cursor || numToDelete <= 0)
+          return;
+        cursor.delete();
+        numToDelete -= 1;
+        cursor.continue();
+      };
+    };
+  });
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=tcqwn list
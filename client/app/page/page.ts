@@ -198,6 +198,8 @@ const Page = createComponent({
       isChat ? r.div({ id: 'theChatVspace' }) : null,
       r.div({ className: 'esPage' + compactClass + pageTypeClass },
         r.div({ className: 'container' },
+          !store.currentPageIsOfflineCopy ? null :
+            r.p({ className: 's_OfflCopy' }, t.OfflineCopy),
           r.article({},
             content))));
   }
@@ -0,0 +1,218 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../prelude.ts" />
+/// <reference path="../utils/react-utils.ts" />
+/// <reference path="../login/login-if-needed.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.page {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+/**
+ * Shows a poll's options, and, if one may see them, the results as bars. The cached page
+ * json has no vote counts [5WKBP20], so we fetch them once. Thereafter, they get updated
+ * live, via store patches — but only if everyone may see them. Otherwise, e.g. if
+ * the results are shown only to people who have voted, the patches include only
+ * the number of voters, and we fetch the counts ourselves, once we may see them.
+ */
+export const PollView = createComponent({
+  displayName: 'PollView',
+
+  getInitialState: function() {
+    return { selectedNrs: null, votersByOptionNr: {} };
+  },
+
+  componentDidMount: function() {
+    this.requests = Server.makeAbortController();
+    this.maybeLoadResults();
+  },
+
+  componentDidUpdate: function() {
+    this.maybeLoadResults();
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  getPoll: function(): Poll | undefined {
+    const store: Store = this.props.store;
+    const post: Post = this.props.post;
+    const polls = store.currentPage.pollsByPostId || {};
+    return polls[post.uniqueId];
+  },
+
+  getMyVotes: function(): number[] {
+    const store: Store = this.props.store;
+    const post: Post = this.props.post;
+    const myPageData: MyPageData = store.me.myCurrentPageData;
+    const votesByPostId = myPageData.pollVotesByPostId || {};
+    return votesByPostId[post.uniqueId] || [];
+  },
+
+  maybeLoadResults: function() {
+    const poll = this.getPoll();
+    if (!poll || poll.numVotesByOptionNr)
+      return;
+    const hasVoted = this.getMyVotes().length > 0;
+    const closed = isClosed(poll);
+    const notYetLoaded = poll.numVoters === undefined;
+    const mayPerhapsSee = closed || (hasVoted &&
+        poll.resultsVisibility === PollResultsVisibility.AfterVoting);
+    if (!notYetLoaded && !mayPerhapsSee)
+      return;
+    // Don't reload again and again, if the server says we may not see the results
+    // after all, or whenever someone votes — only if we vote, or the poll closes.
+    const loadKey = `${hasVoted}-${closed}`;
+    if (this.loadedResultsKey === loadKey)
+      return;
+    this.loadedResultsKey = loadKey;
+    ReactActions.loadPoll(poll.postId);
+  },
+
+  toggleOption: function(poll: Poll, optionNr: number) {
+    const selectedNrs: number[] = this.state.selectedNrs || this.getMyVotes();
+    let newNrs: number[];
+    if (poll.choiceType === PollChoiceType.Single) {
+      newNrs = [optionNr];
+    }
+    else if (_.includes(selectedNrs, optionNr)) {
+      newNrs = _.filter(selectedNrs, nr => nr !== optionNr);
+    }
+    else {
+      newNrs = selectedNrs.concat(optionNr);
+    }
+    this.setState({ selectedNrs: newNrs });
+  },
+
+  vote: function(optionNrs: number[]) {
+    const poll = this.getPoll();
+    const post: Post = this.props.post;
+    login.loginIfNeededReturnToPost('LoginToVote', post.nr, () => {
+      if (this.requests.signal.aborted) return;
+      ReactActions.voteInPoll(poll.postId, optionNrs);
+      this.setState({ selectedNrs: null });
+    });
+  },
+
+  loadVoters: function(optionNr: number) {
+    const poll = this.getPoll();
+    Server.loadPollVoters(poll.postId, optionNr, (numVoters: number, someVoters: BriefUser[]) => {
+      const votersByOptionNr = { ...this.state.votersByOptionNr };
+      votersByOptionNr[optionNr] = someVoters;
+      this.setState({ votersByOptionNr });
+    }, { abortSignal: this.requests.signal });
+  },
+
+  render: function() {
+    const store: Store = this.props.store;
+    const poll = this.getPoll();
+    if (!poll)
+      return null;
+
+    const closed = isClosed(poll);
+    const myVotes = this.getMyVotes();
+    const hasVoted = myVotes.length > 0;
+    const selectedNrs: number[] = this.state.selectedNrs || myVotes;
+    const hasChanges = !!this.state.selectedNrs &&
+        _.sortBy(this.state.selectedNrs).join() !== _.sortBy(myVotes).join();
+    const results = poll.numVotesByOptionNr;
+    const inputType = poll.choiceType === PollChoiceType.Single ? 'radio' : 'checkbox';
+
+    const optionElems = poll.options.map((option: PollOption) => {
+      const isSelected = _.includes(selectedNrs, option.nr);
+      let resultElem;
+      if (results) {
+        const numVotes = results[option.nr] || 0;
+        const percent = poll.numVoters > 0 ? Math.round(100 * numVotes / poll.numVoters) : 0;
+        const voters: BriefUser[] | undefined = this.state.votersByOptionNr[option.nr];
+        const votersElem = !voters ? null :
+            r.div({ className: 's_Poll_Voters' },
+              t.po.VotedForThis, ' ',
+              voters.map(voter => avatar.Avatar({ key: voter.id, user: voter, origins: store,
+                  size: AvatarSize.Tiny })));
+        resultElem =
+            r.div({ className: 's_Poll_Res' },
+              r.div({ className: 's_Poll_Bar' },
+                r.div({ className: 's_Poll_Bar_Fill', style: { width: percent + '%' } })),
+              !poll.votersPublic || !numVotes
+                  ? r.span({ className: 's_Poll_Pct' }, `${percent}%`)
+                  : r.a({ className: 's_Poll_Pct', onClick: () => this.loadVoters(option.nr) },
+                      `${percent}% (${numVotes})`),
+              votersElem);
+      }
+      return (
+        r.li({ key: option.nr, className: 's_Poll_Opt' + (isSelected ? ' s_Poll_Opt-Sel' : '') },
+          r.label({},
+            r.input({ type: inputType, name: 'poll-' + poll.postId, checked: isSelected,
+                disabled: closed, onChange: () => this.toggleOption(poll, option.nr) }),
+            ' ', option.text),
+          resultElem));
+    });
+
+    const voteButton = closed || !hasChanges || !this.state.selectedNrs.length ? null :
+        Button({ className: 's_Poll_VoteB', onClick: () => this.vote(this.state.selectedNrs) },
+          hasVoted ? t.po.ChangeVote : t.po.Vote);
+
+    const retractButton = closed || !hasVoted ? null :
+        r.a({ className: 's_Poll_RetractB', onClick: () => this.vote([]) }, t.po.RetractVote);
+
+    let closesInfo;
+    if (closed) {
+      closesInfo = r.span({ className: 's_Poll_Closes' }, t.po.Closed);
+    }
+    else if (poll.closesAtMs) {
+      // Not timeAgo(), that's for things in the past only.
+      closesInfo = r.span({ className: 's_Poll_Closes' },
+          t.po.ClosesAt, whenMsToIsoDate(poll.closesAtMs).substr(0, 16) + ' UTC.');
+    }
+
+    let noResultsInfo;
+    if (!results && poll.numVoters !== undefined) {
+      noResultsInfo = r.span({ className: 's_Poll_NoRes' },
+          poll.resultsVisibility === PollResultsVisibility.AfterVoting && !hasVoted && !closed
+              ? t.po.VoteToSeeResults
+              : t.po.ResultsWhenClosed);
+    }
+
+    return (
+      r.div({ className: 's_Poll' },
+        r.ul({ className: 's_Poll_Opts' }, optionElems),
+        r.div({ className: 's_Poll_Ftr' },
+          voteButton,
+          retractButton,
+          poll.numVoters === undefined ? null :
+            r.span({ className: 's_Poll_NumVoters' }, t.po.NumVoters(poll.numVoters) + '. '),
+          closesInfo, ' ',
+          noResultsInfo)));
+  }
+});
+
+
+function isClosed(poll: Poll): boolean {
+  return !!poll.closesAtMs && poll.closesAtMs <= getNowMs();
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -168,6 +168,8 @@ export const PostActions = createComponent({
     const post: Post = this.props.post;
     loginIfNeededThen(LoginReason.LoginToLike, post.nr, () => {
       if (this.isGone) return;
+      // Wait until any vote in the offline outbox has been sent. [OFFLOUTBX]
+      if (isVotePending(store, post, 'VoteLike')) return;
       const toggleOn = !me_hasVoted(store.me, post.nr, 'VoteLike');
       toggleVote(this.props.store, post, 'VoteLike', toggleOn);
     });
@@ -314,9 +316,11 @@ export const PostActions = createComponent({
               onClick: this.openMoreVotesDropdown },
             r.a({ className: 'dw-a dw-a-votes' + myOtherVotes }, ''));
 
+      const isLikePending = isVotePending(store, post, 'VoteLike');
       likeVoteButton =
-          r.a({ className: 'dw-a dw-a-like icon-heart' + myLikeVote,
-            title: t.pa.LikeThis, onClick: this.onLikeClick });
+          r.a({ className: 'dw-a dw-a-like icon-heart' + myLikeVote +
+                (isLikePending ? ' s_OutbxVote' : ''),
+            title: isLikePending ? t.NotSentYet : t.pa.LikeThis, onClick: this.onLikeClick });
     }
 
 
@@ -522,6 +526,12 @@ function toggleVote(store: Store, post: Post, voteType: string, toggleOn: boolea
 }
 
 
+function isVotePending(store: Store, post: Post, voteType: string): boolean {
+  return _.some(store_getOutboxItemsOnThisPage(store, 'Vote'),
+      (item: OutboxItem) => item.data.postNr === post.nr && item.data.vote === voteType);
+}
+
+
 function findPostNrsRead(postsByNr: { [postNr: number]: Post }, post): PostNr[] {
   const postsReadNrs = {};
   postsReadNrs[post.nr] = post.nr;
@@ -126,12 +126,16 @@ export function start() {
 }
 
 
-export function getPostNrsAutoReadLongAgo(): number[] {
+/**
+ * Post nrs read on this device only. The server remembers posts read on all devices,
+ * but only after they've been reported, so use both. [SYNCREAD]
+ */
+export function getPostNrsAutoReadLongAgo(forPageId?: PageId): number[] {
   if (!canUseLocalStorage())
     return [];
 
   let postNrsReadByPageId = getFromLocalStorage(localStorageKey) || {};
-  return postNrsReadByPageId[pageId] || [];
+  return postNrsReadByPageId[forPageId || pageId] || [];
 }
 
 
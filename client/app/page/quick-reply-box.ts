@@ -0,0 +1,240 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../prelude.ts" />
+/// <reference path="../utils/react-utils.ts" />
+/// <reference path="../widgets.ts" />
+/// <reference path="../login/login-if-needed.ts" />
+/// <reference path="../editor-bundle-not-yet-loaded.ts" />
+
+/**
+ * A small reply box below the last post, so one can reply without opening the full
+ * editor — which covers the page, on mobile. Enabled via the enableQuickReplyBox
+ * site setting. [4QKRPLY]
+ *
+ * The editor bundle gets loaded first when one starts typing — then, @mentions
+ * autocomplete and the preview start working. Like the ChatMessageEditor in chat.ts.
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.page {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+const DefaultRows = 3;
+const MaxRows = 12;
+
+
+export const QuickReplyBox = createComponent({
+  displayName: 'QuickReplyBox',
+
+  getInitialState: function() {
+    return {
+      text: '',
+      rows: DefaultRows,
+      showPreview: false,
+      fullEditorInstead: false,
+    };
+  },
+
+  componentDidMount: function() {
+    // Not passed to Server.saveReply() — the reply should get saved also if this box
+    // disappears. Just the callbacks then do nothing.
+    this.requests = Server.makeAbortController();
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  loadEditorScripts: function() {
+    if (this.state.scriptsLoaded || this.isLoadingScripts)
+      return;
+    this.isLoadingScripts = true;
+    Server.loadEditorAndMoreBundles(() => {
+      if (this.requests.signal.aborted) return;
+      this.setState({ scriptsLoaded: true }, () => {
+        // The plain textarea got replaced with one that can autocomplete @mentions.
+        const rta = this.refs.rtaTextarea;
+        const textarea: HTMLTextAreaElement = rta && rta.textareaRef;
+        if (!textarea) return;
+        textarea.focus();
+        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+      });
+    });
+  },
+
+  onTextEdited: function(event) {
+    this.updateText(event.target.value);
+  },
+
+  updateText: function(text: string) {
+    // Like in the ChatMessageEditor: wrapped lines aren't counted, oh well.
+    const numLines = text.split(/\r\n|\r|\n/).length;
+    this.setState({ text, rows: Math.max(DefaultRows, Math.min(MaxRows, numLines)) });
+  },
+
+  onKeyDown: function(event) {
+    // In Chrome, Ctrl + Enter won't fire onKeyPress, only onKeyDown. [5KU8W2]
+    if (event_isCtrlEnter(event)) {
+      event.preventDefault();
+      this.saveReply();
+    }
+  },
+
+  togglePreview: function() {
+    this.setState({ showPreview: !this.state.showPreview });
+  },
+
+  /**
+   * Runs the same pre-submit checks as the full editor, e.g. images without alt text.
+   * They're in the editor bundle — usually loaded already, since one typed something.
+   * Clicking Post again, without editing the text, posts anyway. [5EDCHKS]
+   */
+  saveReply: function() {
+    const text = this.state.text;
+    if (!/\S/.test(text) || this.state.isSaving)
+      return;
+    if (this.state.preSubmitProblems && this.state.preSubmitProblemsText === text) {
+      this.saveReplyNoChecks();
+      return;
+    }
+    const store: Store = this.props.store;
+    Server.loadEditorAndMoreBundles(() => {
+      if (this.requests.signal.aborted || this.state.text !== text) return;
+      const context: EditorCheckContext = {
+        text,
+        pageId: store.currentPageId,
+        page: store.currentPage,
+        isReplying: true,
+        isEditing: false,
+      };
+      editor.runPreSubmitChecks(context, store.settings, (problems) => {
+        if (this.requests.signal.aborted || this.state.text !== text) return;
+        if (problems.length) {
+          this.setState({ preSubmitProblems: problems, preSubmitProblemsText: text });
+          return;
+        }
+        this.setState({ preSubmitProblems: null, preSubmitProblemsText: null });
+        this.saveReplyNoChecks();
+      });
+    });
+  },
+
+  saveReplyNoChecks: function() {
+    const store: Store = this.props.store;
+    const page: Page = store.currentPage;
+    const loginToWhat = page.pageRole === PageRole.EmbeddedComments ?
+        LoginReason.PostEmbeddedComment : 'LoginToComment';
+    login.loginIfNeededReturnToPost(loginToWhat, BodyNr, () => {
+      if (this.requests.signal.aborted) return;
+      this.setState({ isSaving: true });
+      Server.saveReply([BodyNr], this.state.text, this.props.postType, undefined, () => {
+        if (this.requests.signal.aborted) return;
+        this.setState({ text: '', rows: DefaultRows, showPreview: false, isSaving: false,
+            preSubmitProblems: null, preSubmitProblemsText: null });
+      }, () => {
+        // The server said no, or something broke. Keep the text, so one can try again.
+        if (this.requests.signal.aborted) return;
+        this.setState({ isSaving: false });
+      });
+    }, true);
+  },
+
+  openFullEditor: function() {
+    this.setState({ fullEditorInstead: true });
+    editor.openToWriteReply(BodyNr, this.state.text, this.props.postType, (wasSaved, text) => {
+      // Now the full editor has been closed. Continue here, with any text not yet posted.
+      if (this.requests.signal.aborted) return;
+      this.setState({ fullEditorInstead: false });
+      this.updateText(wasSaved ? '' : text);
+    });
+  },
+
+  render: function() {
+    if (this.state.fullEditorInstead)
+      return null;
+
+    const state = this.state;
+    const disabled = state.isSaving;
+    const textareaProps = {
+      className: 's_QRB_Ta form-control',
+      value: state.text,
+      onChange: this.onTextEdited,
+      onKeyDown: this.onKeyDown,
+      onFocus: this.loadEditorScripts,
+      placeholder: t.d.QuickReplyPh,
+      disabled,
+      rows: state.rows,
+    };
+
+    let textarea;
+    let preview;
+    if (!state.scriptsLoaded) {
+      textarea = r.textarea(textareaProps);
+    }
+    else {
+      // In the editor scripts bundle, lazy loaded.
+      const ReactTextareaAutocomplete = editor['ReactTextareaAutocomplete'];
+      const listUsernamesTrigger = editor['listUsernamesTrigger'];
+      // The @mentions username autocomplete might overflow the textarea. [J7UKFBW]
+      textarea = ReactTextareaAutocomplete({ ...textareaProps, ref: 'rtaTextarea',
+          closeOnClickOutside: true,
+          loadingComponent: () => r.span({}, t.Loading),
+          trigger: listUsernamesTrigger });
+      if (state.showPreview && /\S/.test(state.text)) {
+        preview = r.div({ className: 's_QRB_Pv dw-p-bd' },
+          r.div({ className: 'dw-p-bd-blk',
+              dangerouslySetInnerHTML: { __html: editor.markdownToSafeHtml(state.text) }}));
+      }
+    }
+
+    const isEmpty = !/\S/.test(state.text);
+
+    // Same classes as in the full editor, so looks the same.
+    const problems = state.preSubmitProblems;
+    const problemsElem = !problems ? null :
+        r.div({ className: 's_E_Chks' },
+          r.ul({},
+            problems.map(problem =>
+              r.li({ key: problem.checkId, className: 's_E_Chks_' + problem.checkId },
+                problem.message))),
+          state.preSubmitProblemsText === state.text ?
+              r.div({ className: 's_E_Chks_SaveAnyway' }, t.e.ChkSaveAnyway) : null);
+
+    return (
+      r.div({ className: 's_QRB' },
+        textarea,
+        preview,
+        problemsElem,
+        r.div({ className: 's_QRB_Bs' },
+          PrimaryButton({ className: 's_QRB_SaveB', onClick: this.saveReply,
+              disabled: disabled || isEmpty },
+            t.e.PostReply),
+          Button({ className: 's_QRB_PvB', onClick: this.togglePreview,
+              disabled: disabled || isEmpty || !state.scriptsLoaded },
+            state.showPreview ? t.EditV : t.PreviewV),
+          Button({ className: 's_QRB_FullEdB', onClick: this.openFullEditor, disabled },
+            t.d.OpenFullEditor))));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
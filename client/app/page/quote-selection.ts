@@ -0,0 +1,172 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../prelude.ts" />
+/// <reference path="../oop-methods.ts" />
+/// <reference path="../utils/react-utils.ts" />
+/// <reference path="../login/login-if-needed.ts" />
+/// <reference path="../editor-bundle-not-yet-loaded.ts" />
+
+/**
+ * Shows a Quote button, when one selects text in a post. Clicking it opens the editor,
+ * with the selected text as a blockquote, linking to the quoted post. One can quote
+ * more text, also from other posts — then the quotes get appended to the reply. [5QTSEL]
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.page {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+let quoteSelectionButton;
+
+
+export function startQuotingSelections() {
+  if (!quoteSelectionButton) {
+    quoteSelectionButton = ReactDOM.render(QuoteSelectionButton(), utils.makeMountNode());
+  }
+}
+
+
+interface SelectedQuote {
+  postNr: PostNr;
+  text: string;
+  top: number;
+  left: number;
+}
+
+
+/**
+ * Returns the .dw-p-bd post body that contains the whole selection, if any.
+ * (IE11 doesn't support elem.closest(), so walk up the tree ourselves.)
+ */
+function findPostBodyWithSelection(selection: Selection): HTMLElement | null {
+  const findBody = (node: Node): HTMLElement | null => {
+    let elem = node && (node.nodeType === Node.ELEMENT_NODE ? <HTMLElement> node : node.parentElement);
+    while (elem && !elem.classList.contains('dw-p-bd')) {
+      elem = elem.parentElement;
+    }
+    return elem;
+  };
+  const anchorBody = findBody(selection.anchorNode);
+  return anchorBody && anchorBody === findBody(selection.focusNode) ? anchorBody : null;
+}
+
+
+function findSelectedQuote(): SelectedQuote | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || !selection.rangeCount)
+    return null;
+
+  const text = selection.toString().trim();
+  const bodyElem = text && findPostBodyWithSelection(selection);
+  // The body is inside the .dw-p post elem, with id 'post-NN'. Abbreviated posts have no id.
+  const postNr = bodyElem && parsePostNr(bodyElem.parentElement);
+  if (!postNr || !_.isFinite(postNr) || postNr === TitleNr)
+    return null;
+
+  // Chat messages are short — one replies with a new message instead.
+  const store: Store = ReactStore.allData();
+  const page: Page = store.currentPage;
+  const post: Post | undefined = page && page.postsByNr[postNr];
+  if (!post || page_isChatChannel(page.pageRole) || !store_mayIReply(store, post))
+    return null;
+
+  const rect = selection.getRangeAt(0).getBoundingClientRect();
+  return { postNr, text, top: rect.bottom, left: rect.left + rect.width / 2 };
+}
+
+
+const QuoteSelectionButton = createComponent({
+  displayName: 'QuoteSelectionButton',
+
+  getInitialState: function() {
+    return { quote: null };
+  },
+
+  componentDidMount: function() {
+    document.addEventListener('mouseup', this.checkSelectionSoon);
+    document.addEventListener('keyup', this.checkSelectionSoon);
+    // The page column scrolls, not the window — so listen in the capturing phase.
+    // Hide the button, rather than moving it along with the text.
+    document.addEventListener('scroll', this.hide, true);
+  },
+
+  componentWillUnmount: function() {
+    this.isGone = true;
+    document.removeEventListener('mouseup', this.checkSelectionSoon);
+    document.removeEventListener('keyup', this.checkSelectionSoon);
+    document.removeEventListener('scroll', this.hide, true);
+  },
+
+  checkSelectionSoon: function() {
+    // If clicking in a selection, the browser deselects the text after mouseup.
+    setTimeout(() => {
+      if (this.isGone) return;
+      this.setState({ quote: findSelectedQuote() });
+    });
+  },
+
+  hide: function() {
+    if (this.state.quote) {
+      this.setState({ quote: null });
+    }
+  },
+
+  preventDeselect: function(event) {
+    event.preventDefault();
+  },
+
+  quoteInReply: function() {
+    const quote: SelectedQuote = this.state.quote;
+    const store: Store = ReactStore.allData();
+    const page: Page = store.currentPage;
+    const post: Post = page.postsByNr[quote.postNr];
+    const postType = post.postType === PostType.Flat ? PostType.Flat : PostType.Normal;
+    const loginToWhat = page.pageRole === PageRole.EmbeddedComments ?
+        LoginReason.PostEmbeddedComment : 'LoginToComment';
+    window.getSelection().removeAllRanges();
+    this.setState({ quote: null });
+    login.loginIfNeededReturnToPost(loginToWhat, quote.postNr, () => {
+      if (eds.isInEmbeddedCommentsIframe) {
+        window.parent.postMessage(JSON.stringify(
+            ['editorToggleReply', [quote.postNr, true, quote.text]]), eds.embeddingOrigin);
+      }
+      else {
+        editor.toggleWriteReplyToPost(quote.postNr, true, postType, quote.text);
+      }
+    }, true);
+  },
+
+  render: function() {
+    const quote: SelectedQuote = this.state.quote;
+    if (!quote)
+      return null;
+
+    return (
+      r.div({ className: 's_QuoteSel', style: { top: quote.top, left: quote.left } },
+        r.button({ className: 's_QuoteSel_QuoteB btn btn-default icon-reply',
+            onMouseDown: this.preventDeselect, onClick: this.quoteInReply },
+          t.d.QuoteV)));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
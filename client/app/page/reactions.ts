@@ -0,0 +1,117 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../prelude.ts" />
+/// <reference path="../utils/react-utils.ts" />
+/// <reference path="../login/login-if-needed.ts" />
+/// <reference path="../more-bundle-not-yet-loaded.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.page {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+/**
+ * Emoji reaction counters, e.g. "🎉 3", below a post or chat message. Click an emoji
+ * to add or remove one's own reaction, and the count to see who reacted.
+ * Reactions aren't votes: they don't affect the likeScore, or the sort order.
+ */
+export const PostReactions = createComponent({
+  displayName: 'PostReactions',
+
+  getInitialState: function() {
+    return { showPicker: false };
+  },
+
+  componentWillUnmount: function() {
+    this.isGone = true;
+  },
+
+  getMyEmojis: function(): string[] {
+    const store: Store = this.props.store;
+    const post: Post = this.props.post;
+    const myPageData: MyPageData = store.me.myCurrentPageData;
+    const reactionsByPostId = myPageData.myReactionsByPostId || {};
+    return reactionsByPostId[post.uniqueId] || [];
+  },
+
+  toggleReaction: function(emoji: string) {
+    const post: Post = this.props.post;
+    const add = !_.includes(this.getMyEmojis(), emoji);
+    this.setState({ showPicker: false });
+    login.loginIfNeededReturnToPost(LoginReason.LoginToLike, post.nr, () => {
+      if (this.isGone) return;
+      ReactActions.toggleReaction(post.uniqueId, emoji, add);
+    });
+  },
+
+  togglePicker: function() {
+    this.setState({ showPicker: !this.state.showPicker });
+  },
+
+  render: function() {
+    const store: Store = this.props.store;
+    const page: Page = store.currentPage;
+    const post: Post = this.props.post;
+    const reactionsByPostId = page.reactionsByPostId || {};
+    const reactions: PostReactionCount[] = reactionsByPostId[post.uniqueId] || [];
+    const emojis = settings_reactionEmojis(store.settings);
+    const myEmojis = this.getMyEmojis();
+    const mayReact = emojis.length > 0 && !post_isDeleted(post);
+
+    if (!reactions.length && !mayReact)
+      return null;
+
+    const counters = reactions.map((reaction: PostReactionCount) => {
+      const isMine = _.includes(myEmojis, reaction.emoji);
+      // If the emoji got removed from the site's emoji set, one can still remove
+      // one's old reactions, but not add new ones.
+      const mayToggle = isMine || (mayReact && _.includes(emojis, reaction.emoji));
+      return (
+        r.span({ key: reaction.emoji, className: 's_Rcts_Rct' + (isMine ? ' s_Rcts_Rct-Mine' : '') },
+          r.button({ className: 's_Rcts_EmojiB', disabled: !mayToggle,
+              onClick: () => this.toggleReaction(reaction.emoji) }, reaction.emoji),
+          r.a({ className: 's_Rcts_NumB',
+              onClick: (event) => morebundle.openReactorsDialog(post, reaction.emoji, event.target) },
+            reaction.numReactions)));
+    });
+
+    const picker = !this.state.showPicker ? null :
+        r.span({ className: 's_Rcts_Picker' },
+          emojis.map(emoji =>
+            r.button({ key: emoji, className: 's_Rcts_EmojiB',
+                onClick: () => this.toggleReaction(emoji) }, emoji)));
+
+    const addButton = !mayReact ? null :
+        r.button({ className: 's_Rcts_AddB', title: t.pa.AddReaction,
+            onClick: this.togglePicker }, '☺+');
+
+    return (
+      r.div({ className: 's_Rcts' },
+        counters,
+        addButton,
+        picker));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
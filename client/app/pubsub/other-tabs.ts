@@ -0,0 +1,308 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../prelude.ts" />
+/// <reference path="../utils/utils.ts" />
+
+/**
+ * Makes all browser tabs, for the same user at the same site, share one single server
+ * events subscription: The tabs elect a leader tab, which subscribes, and forwards
+ * the events to the other tabs, via a BroadcastChannel, or localStorage events if
+ * BroadcastChannel isn't supported (Safari, Edge).
+ *
+ * The leader holds a Web Lock (navigator.locks), which the browser releases when the tab
+ * gets closed — then the next tab waiting for the lock, takes over. Browsers without
+ * Web Locks: the leader holds a lease in localStorage, which it renews now and then.
+ * Browsers throttle timers in background tabs, maybe to once a minute, so the lease is
+ * long, and gets renewed also when the tab becomes visible. If the leader tab gets closed,
+ * or the lease expires (maybe the browser paused that tab), some other tab takes over.
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.pubsub {
+//------------------------------------------------------------------------------
+
+const LeaseMs = 3 * 60 * 1000;
+const RenewLeaseEveryMs = 10 * 1000;
+
+const thisTabId = Math.random().toString(36).substr(2, 12);
+
+interface TabsLease {
+  tabId: string;
+  expiresAtMs: number;
+}
+
+type TabsMessageType = 'ServerEvent' | 'NotfsSeen' | 'LeaderGone' | 'Resync';
+
+interface TabsMessage {
+  fromTabId: string;
+  type: TabsMessageType;
+  data?: any;
+}
+
+interface OtherTabsCallbacks {
+  // tookOver is true if another tab was the leader before, but is gone.
+  onLeadershipChanged: (tookOver: boolean) => void;
+  onServerEvent: (event) => void;
+}
+
+interface OtherTabsState {
+  userId?: UserId;
+  leaseKey?: string;
+  messageKey?: string;
+  broadcastChannel?: any;
+  lockName?: string;
+  lockRequestNr?: number;
+  releaseLock?: () => void;
+  isLeader?: boolean;
+  renewIntervalHandle?: number;
+  callbacks?: OtherTabsCallbacks;
+}
+
+const state: OtherTabsState = {};
+
+
+/**
+ * Returns true if this tab should subscribe to server events itself. Otherwise the
+ * leader tab subscribes, and forwards events to callbacks.onServerEvent.
+ * Calls callbacks.onLeadershipChanged() if this tab becomes, or stops being, the leader.
+ */
+export function isLeaderTabFor(userId: UserId, callbacks: OtherTabsCallbacks): boolean {
+  // Without localStorage, the tabs cannot coordinate. Then each tab subscribes by itself.
+  if (!canUseLocalStorage())
+    return true;
+
+  if (state.userId !== userId) {
+    leaveLeaderElection();
+    joinLeaderElection(userId, callbacks);
+  }
+  return state.isLeader;
+}
+
+
+export function forwardServerEventToOtherTabs(event) {
+  if (state.isLeader) {
+    sendToOtherTabs('ServerEvent', event);
+  }
+}
+
+
+/**
+ * The leader tab was disconnected, so all tabs might have missed events — they should
+ * reload their pages.
+ */
+export function tellOtherTabsToResync() {
+  if (state.isLeader) {
+    sendToOtherTabs('Resync');
+  }
+}
+
+
+export function tellOtherTabsNotfsSeen(notfIds: NotificationId[]) {
+  if (state.userId) {
+    sendToOtherTabs('NotfsSeen', notfIds);
+  }
+}
+
+
+function joinLeaderElection(userId: UserId, callbacks: OtherTabsCallbacks) {
+  // Include the site id, because users at different sites can have the same id. [7YGK082]
+  const keySuffix = eds.siteId + '-' + userId;
+  state.userId = userId;
+  state.leaseKey = 'tyTabsLease-' + keySuffix;
+  state.messageKey = 'tyTabsMessage-' + keySuffix;
+  state.callbacks = callbacks;
+  state.isLeader = false;
+
+  const BroadcastChannel = window['BroadcastChannel'];
+  if (BroadcastChannel) {
+    state.broadcastChannel = new BroadcastChannel('tyTabs-' + keySuffix);
+    state.broadcastChannel.onmessage = (event) => handleMessage(event.data);
+  }
+
+  window.addEventListener('storage', onStorageEvent);
+  window.addEventListener('unload', leaveLeaderElection);
+
+  if (navigator['locks']) {
+    state.lockName = 'tyTabsLeader-' + keySuffix;
+    requestLeaderLock();
+    return;
+  }
+
+  claimOrRenewLease();
+  state.renewIntervalHandle = <any> setInterval(renewLeaseNotifyIfChanged, RenewLeaseEveryMs);
+  document.addEventListener('visibilitychange', renewLeaseNotifyIfChanged);
+}
+
+
+/**
+ * Takes the lock if available, otherwise waits for it. Then keeps it, until this tab
+ * leaves the election, or gets closed.
+ */
+function requestLeaderLock() {
+  const lockName = state.lockName;
+  // If this tab leaves and rejoins the election, old requests should give up.
+  const requestNr = (state.lockRequestNr || 0) + 1;
+  state.lockRequestNr = requestNr;
+  const isStale = () => state.lockName !== lockName || state.lockRequestNr !== requestNr;
+  const keepLock = () => new Promise(resolve => { state.releaseLock = resolve; });
+  const becomeLeader = (tookOver: boolean) => {
+    state.isLeader = true;
+    console.debug(`This tab is now the leader tab [TyMTABLDR]`);
+    state.callbacks.onLeadershipChanged(tookOver);
+    return keepLock();
+  };
+  navigator['locks'].request(lockName, { ifAvailable: true }, (lock) => {
+    if (isStale())
+      return;  // left the election already; releases the lock
+    if (lock)
+      return becomeLeader(false);
+    // Another tab leads. Wait until it's gone.
+    navigator['locks'].request(lockName, () => {
+      if (isStale())
+        return;
+      return becomeLeader(true);
+    });
+  });
+}
+
+
+function renewLeaseNotifyIfChanged() {
+  const wasLeader = state.isLeader;
+  claimOrRenewLease();
+  if (wasLeader !== state.isLeader) {
+    console.debug(`This tab ${state.isLeader ? "is now" : "is no longer"} the leader tab [TyMTABLDR]`);
+    state.callbacks.onLeadershipChanged(state.isLeader);
+  }
+}
+
+
+function leaveLeaderElection() {
+  if (!state.userId)
+    return;
+  if (state.releaseLock) {
+    // The next tab waiting for the lock, becomes the leader.
+    state.releaseLock();
+  }
+  else if (state.isLeader) {
+    removeFromLocalStorage(state.leaseKey);
+    sendToOtherTabs('LeaderGone');
+  }
+  clearInterval(state.renewIntervalHandle);
+  document.removeEventListener('visibilitychange', renewLeaseNotifyIfChanged);
+  window.removeEventListener('storage', onStorageEvent);
+  window.removeEventListener('unload', leaveLeaderElection);
+  if (state.broadcastChannel) {
+    state.broadcastChannel.close();
+  }
+  state.userId = null;
+  state.isLeader = false;
+  state.broadcastChannel = null;
+  state.lockName = null;
+  state.releaseLock = null;
+}
+
+
+function claimOrRenewLease() {
+  const nowMs = Date.now();  // not getNowMs(), which e2e tests fast-forward, per tab
+  const lease: TabsLease = getFromLocalStorage(state.leaseKey);
+  const someoneElseLeads = lease && lease.tabId !== thisTabId && lease.expiresAtMs > nowMs;
+  if (someoneElseLeads) {
+    state.isLeader = false;
+    return;
+  }
+  putInLocalStorage(state.leaseKey, { tabId: thisTabId, expiresAtMs: nowMs + LeaseMs });
+  // If two tabs claimed the lease at the same time, the last write wins. The other tab
+  // notices, the next time it renews its lease, and steps down.
+  const leaseNow: TabsLease = getFromLocalStorage(state.leaseKey);
+  state.isLeader = !!leaseNow && leaseNow.tabId === thisTabId;
+}
+
+
+function tryToTakeOverNow() {
+  // With Web Locks, the browser hands over the lock instead.
+  if (state.lockName)
+    return;
+  const wasLeader = state.isLeader;
+  claimOrRenewLease();
+  if (!wasLeader && state.isLeader) {
+    console.debug("The leader tab is gone, this tab takes over [TyMTABTKOVR]");
+    state.callbacks.onLeadershipChanged(true);
+  }
+}
+
+
+function sendToOtherTabs(type: TabsMessageType, data?) {
+  const message: TabsMessage = { fromTabId: thisTabId, type, data };
+  if (state.broadcastChannel) {
+    state.broadcastChannel.postMessage(message);
+  }
+  else {
+    // Setting and then removing the key, triggers storage events in the other tabs.
+    // Include a random nr, so the value changes also if sending the same message twice.
+    putInLocalStorage(state.messageKey, { message, nonce: Math.random() });
+    removeFromLocalStorage(state.messageKey);
+  }
+}
+
+
+function onStorageEvent(event: StorageEvent) {
+  if (event.key === state.leaseKey && !event.newValue) {
+    tryToTakeOverNow();
+  }
+  else if (event.key === state.messageKey && event.newValue && !state.broadcastChannel) {
+    let messageAndNonce;
+    try {
+      messageAndNonce = JSON.parse(event.newValue);
+    }
+    catch (ignored) {
+      return;
+    }
+    handleMessage(messageAndNonce.message);
+  }
+}
+
+
+function handleMessage(message: TabsMessage) {
+  if (!message || message.fromTabId === thisTabId)
+    return;
+
+  switch (message.type) {
+    case 'ServerEvent':
+      // Avoid handling the same event twice, if two tabs briefly think they're the leader.
+      if (!state.isLeader) {
+        state.callbacks.onServerEvent(message.data);
+      }
+      break;
+    case 'NotfsSeen':
+      ReactActions.markNotificationsAsSeenInOtherTab(message.data);
+      break;
+    case 'LeaderGone':
+      tryToTakeOverNow();
+      break;
+    case 'Resync':
+      ReactActions.resyncPage(ReactStore.allData().currentPageId);
+      break;
+    default:
+      console.warn(`Unknown other tab message type [TyETABMSGTYP]: ${message.type}`);
+  }
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=tcqwn list
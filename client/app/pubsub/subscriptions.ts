@@ -17,6 +17,7 @@
 
 /// <reference path="../prelude.ts" />
 /// <reference path="../rules.ts" />
+/// <reference path="other-tabs.ts" />
 
 //------------------------------------------------------------------------------
    module debiki2.pubsub {
@@ -26,12 +27,22 @@ const RetryAfterMsDefault = 4000;
 const GiveUpAtMs = 60 * 1000;
 let retryAfterMs = RetryAfterMsDefault;
 
+// If a WebSocket cannot be opened (maybe some proxy or firewall blocks WebSockets), we'll
+// long poll instead, until the page gets reloaded.
+let webSocketBroken = false;
+
+// Set when the connection broke — then, events sent meanwhile, are lost.
+let mightHaveMissedEvents = false;
+
 
 /**
  * Deletes any old event subscription and creates a new for the current user.
+ * Uses a WebSocket, if possible, otherwise long polling. If the user has many
+ * browser tabs open, only one of them subscribes, and forwards the events to the others.
  */
 export function subscribeToServerEvents() {
   Server.abortAnyLongPollingRequest();
+  Server.closeAnyWebSocket();
 
   // If not logged in, don't ask for any events — if everyone did that, that could put the server
   // under an a bit high load? and not much interesting to be notified about anyway, when not logged in.
@@ -39,60 +50,144 @@ export function subscribeToServerEvents() {
   if (!me || !me.id)
     return;
 
-  Server.sendLongPollingRequest(me.id, (response) => {
+  const isLeaderTab = isLeaderTabFor(me.id, {
+    onLeadershipChanged: (tookOver: boolean) => {
+      // If the previous leader tab got closed or paused, events might have been
+      // lost, before this tab took over.
+      if (tookOver) {
+        mightHaveMissedEvents = true;
+      }
+      subscribeToServerEvents();
+    },
+    onServerEvent: handleServerEvent,
+  });
+  if (!isLeaderTab) {
+    console.debug("Another tab subscribes to server events, and forwards them [TyMTABFWD]");
+    return;
+  }
+
+  if (!webSocketBroken && Server.canUseWebSocket()) {
+    subscribeViaWebSocket(me.id);
+  }
+  else {
+    subscribeViaLongPolling(me.id);
+  }
+}
+
+
+function subscribeViaWebSocket(userId: UserId) {
+  Server.openWebSocket(userId, (response) => {
+    // Reset backoff, since all seems fine.
+    retryAfterMs = RetryAfterMsDefault;
+    handleServerEvent(response);
+  }, () => {
+    console.warn("Cannot open WebSocket, will long poll instead [TyMWSFALLBK]");
+    webSocketBroken = true;
+    subscribeToServerEvents();
+  }, () => {
+    // The socket was open but got closed, maybe the server restarted. Reconnect, with backoff.
+    retryLaterOrGiveUp("WebSocket");
+  }, () => {
+    // Now we're subscribed again, so won't miss any more events.
+    resyncIfMightHaveMissedEvents();
+  });
+}
+
+
+function subscribeViaLongPolling(userId: UserId) {
+  Server.sendLongPollingRequest(userId, (response) => {
     console.debug("Long polling request done, sending another...");
     subscribeToServerEvents();
 
     // Reset backoff, since all seems fine.
     retryAfterMs = RetryAfterMsDefault;
 
-    dieIf(!response.type, 'TyE2WCX59');
-    dieIf(!response.data, 'TyE4YKP02');
-
-    switch (response.type) {
-      case 'storePatch':
-        ReactActions.patchTheStore(response.data);
-        break;
-      case 'notifications':
-        ReactActions.addNotifications(response.data);
-        break;
-      case 'presence':
-        ReactActions.updateUserPresence(response.data.user, response.data.presence);
-        break;
-      default:
-        die("Unknown response type [TyE7YKF4]: " + response.type +
-            "\n\nThe response body:\n\n" + JSON.stringify(response));
-    }
+    handleServerEvent(response);
   }, () => {
-    // Error. Don't retry immediately — that could result in super many error log messages,
-    // if the problem persists. Also, do a little bit exponential backoff, and eventually
-    // give up, if the geometric sum retryAfterMs * 1.3^x eventually exceeds GiveUpAtMs.
-    retryAfterMs = retryAfterMs * 1.3;
-    if (retryAfterMs > GiveUpAtMs) {
-      // TESTS_MISSING how make Nginx "break" so all requests fail? If a script temporarily  [5YVBAR2]
-      // does 'docker-compose kill web' and then 'start web' — then, other e2e tests won't be
-      // able to run in parallel with this, hmm.
-      console.error("Long polling broken, maybe events lost, giving up.");
-      // UX COULD show this in a non-modal message instead?
-      pagedialogs.getServerErrorDialog().openForBrowserError(
-          "Cannot talk with the server. Reload page to retry. [TyMLPRRLD]");
-    }
-    else {
-      console.warn(`Long polling error, will retry after ${Math.floor(retryAfterMs / 1000)} seconds...`);
-      setTimeout(() => {
-        if (!Server.isLongPollingNow()) {
-          subscribeToServerEvents();
-        }
-      }, retryAfterMs);
-    }
+    retryLaterOrGiveUp("Long polling");
   }, () => {
     console.debug("Long polling aborted, will send a new if needed [TyMLPRMBYE]");
     // No error has happened — we aborted the request intentionally. All fine then? Reset the backoff:
     retryAfterMs = RetryAfterMsDefault;
-    if (!Server.isLongPollingNow()) {
+    if (!isSubscribedNow()) {
       subscribeToServerEvents();
     }
   });
+  // The request is pending at the server now, so we won't miss any more events.
+  resyncIfMightHaveMissedEvents();
+}
+
+
+/**
+ * Events sent by the server, while we were disconnected, are lost. So, once subscribed
+ * again, reload the current page — in all tabs, since the other tabs got their events
+ * via this tab. (Usually the store notices a page version gap anyway, but not if
+ * nothing more happens on the page.)
+ */
+function resyncIfMightHaveMissedEvents() {
+  if (!mightHaveMissedEvents)
+    return;
+  mightHaveMissedEvents = false;
+  ReactActions.resyncPage(ReactStore.allData().currentPageId);
+  tellOtherTabsToResync();
+}
+
+
+function isSubscribedNow(): boolean {
+  return Server.isLongPollingNow() || Server.isWebSocketOpen();
+}
+
+
+function handleServerEvent(response) {
+  dieIf(!response.type, 'TyE2WCX59');
+  dieIf(!response.data, 'TyE4YKP02');
+
+  // Does nothing, if this isn't the leader tab (then the event is from the leader).
+  forwardServerEventToOtherTabs(response);
+
+  switch (response.type) {
+    case 'storePatch':
+      ReactActions.patchTheStore(response.data);
+      break;
+    case 'notifications':
+      ReactActions.addNotifications(response.data);
+      break;
+    case 'presence':
+      ReactActions.updateUserPresence(response.data.user, response.data.presence);
+      break;
+    case 'typing':
+      ReactActions.showUserTyping(response.data.user, response.data.pageId);
+      break;
+    default:
+      die("Unknown response type [TyE7YKF4]: " + response.type +
+          "\n\nThe response body:\n\n" + JSON.stringify(response));
+  }
+}
+
+
+function retryLaterOrGiveUp(transportName: string) {
+  // Error. Don't retry immediately — that could result in super many error log messages,
+  // if the problem persists. Also, do a little bit exponential backoff, and eventually
+  // give up, if the geometric sum retryAfterMs * 1.3^x eventually exceeds GiveUpAtMs.
+  retryAfterMs = retryAfterMs * 1.3;
+  mightHaveMissedEvents = true;
+  if (retryAfterMs > GiveUpAtMs) {
+    // TESTS_MISSING how make Nginx "break" so all requests fail? If a script temporarily  [5YVBAR2]
+    // does 'docker-compose kill web' and then 'start web' — then, other e2e tests won't be
+    // able to run in parallel with this, hmm.
+    console.error(`${transportName} broken, maybe events lost, giving up.`);
+    // UX COULD show this in a non-modal message instead?
+    pagedialogs.getServerErrorDialog().openForBrowserError(
+        "Cannot talk with the server. Reload page to retry. [TyMLPRRLD]");
+  }
+  else {
+    console.warn(`${transportName} error, will retry after ${Math.floor(retryAfterMs / 1000)} seconds...`);
+    setTimeout(() => {
+      if (!isSubscribedNow()) {
+        subscribeToServerEvents();
+      }
+    }, retryAfterMs);
+  }
 }
 
 
@@ -0,0 +1,542 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="model.ts" />
+
+/**
+ * Server endpoints, and the shapes of their responses. Server.ts generates typed
+ * functions from these, see `Server.api`. In dev builds, the responses get checked
+ * against the shapes — so if the server renames a field, say, from `nr` to `postNr`,
+ * we'll notice directly, instead of getting undefined and strange bugs later.
+ *
+ * The shapes are typed via ShapeOf<SomeModelInterface>, so if a field gets renamed
+ * in model.ts but not here, that's a compilation error.
+ */
+//------------------------------------------------------------------------------
+   namespace debiki2.Server {
+//------------------------------------------------------------------------------
+
+
+// ----- Shapes
+
+// Append '?' if the field is optional, i.e. may be absent or null.
+type FieldType =
+  'string' | 'string?' |
+  'number' | 'number?' |
+  'boolean' | 'boolean?' |
+  'object' | 'object?' |
+  'array' | 'array?' |
+  'any';
+
+// A type, or an object shape, or an array with elements of a certain shape.
+export type FieldShape = FieldType | ObjectShape | [FieldType | ObjectShape];
+
+export interface ObjectShape {
+  [fieldName: string]: FieldShape;
+}
+
+/** Only fields listed in the shape get checked. */
+type ShapeOf<T> = { [FieldName in keyof T]?: FieldShape };
+
+
+const BriefUserShape: ShapeOf<BriefUser> = {
+  id: 'number',
+  username: 'string?',
+  fullName: 'string?',
+  isAdmin: 'boolean?',
+  isModerator: 'boolean?',
+  isGuest: 'boolean?',
+  avatarTinyHashPath: 'string?',
+  avatarSmallHashPath: 'string?',
+};
+
+const PostShape: ShapeOf<Post> = {
+  uniqueId: 'number',
+  nr: 'number',
+  parentNr: 'number?',
+  multireplyPostNrs: ['number'],
+  postType: 'number?',
+  authorId: 'number',
+  createdAtMs: 'number',
+  lastApprovedEditAtMs: 'number?',
+  numEditors: 'number',
+  numLikeVotes: 'number',
+  numWrongVotes: 'number',
+  numBuryVotes: 'number',
+  numUnwantedVotes: 'number',
+  numPendingEditSuggestions: 'number',
+  isApproved: 'boolean',
+  childIdsSorted: ['number'],
+  sanitizedHtml: 'string?',
+  tags: 'array?',
+};
+
+const StorePatchShape: ShapeOf<StorePatch> = {
+  appVersion: 'string?',
+  publicCategories: 'array?',
+  restrictedCategories: 'array?',
+  pageVersionsByPageId: 'object?',
+  postsByPageId: 'object?',
+  usersBrief: 'array?',
+  pageMetasBrief: 'array?',
+  me: 'object?',
+  newlyCreatedPageId: 'string?',
+  pollsByPageId: 'object?',
+  reactionsByPageId: 'object?',
+};
+
+const PollShape: ShapeOf<Poll> = {
+  postId: 'number',
+  choiceType: 'number',
+  options: [{ nr: 'number', text: 'string' }],
+  closesAtMs: 'number?',
+  votersPublic: 'boolean',
+  resultsVisibility: 'number',
+  numVoters: 'number',
+  numVotesByOptionNr: 'object?',
+};
+
+const PollAndMyVotesShape: ShapeOf<PollAndMyVotes> = {
+  poll: PollShape,
+  myVotes: ['number'],
+};
+
+const CategoryShape: ShapeOf<Category> = {
+  id: 'number',
+  parentId: 'number?',
+  name: 'string',
+  slug: 'string',
+  defaultTopicType: 'number?',
+  position: 'number?',
+  description: 'string?',
+  unlisted: 'boolean?',
+  isDefaultCategory: 'boolean?',
+  isDeleted: 'boolean?',
+};
+
+const PostRevisionShape: ShapeOf<PostRevision> = {
+  revisionNr: 'number',
+  previousNr: 'number?',
+  fullSource: 'string?',
+  composedAtMs: 'number',
+  composedBy: BriefUserShape,
+  approvedAtMs: 'number?',
+  hiddenAtMs: 'number?',
+};
+
+const ForumShape: ShapeOf<Forum> = {
+  pageId: 'string',
+  path: 'string',
+  title: 'string',
+  description: 'string?',
+};
+
+const BlocksShape: ShapeOf<Blocks> = {
+  isBlocked: 'boolean',
+  reason: 'string?',
+  blockedForever: 'boolean?',
+  blockedTillMs: 'number?',
+};
+
+const ReplyTemplateShape: ShapeOf<ReplyTemplate> = {
+  id: 'number',
+  ownerId: 'number?',
+  categoryId: 'number?',
+  title: 'string',
+  text: 'string',
+  createdById: 'number',
+  createdAtMs: 'number',
+  updatedAtMs: 'number',
+};
+
+const GroupShape: ShapeOf<Group> = {
+  id: 'number',
+  username: 'string',
+  fullName: 'string?',
+  avatarTinyHashPath: 'string?',
+  isGroup: 'boolean?',
+  numMembers: 'number?',
+};
+
+const NotificationShape: ShapeOf<Notification> = {
+  id: 'number',
+  type: 'number',
+  createdAtMs: 'number',
+  seen: 'boolean',
+  byUser: 'object?',
+  pageId: 'string?',
+  pageTitle: 'string?',
+  postNr: 'number?',
+};
+
+const TopicShape: ShapeOf<Topic> = {
+  pageId: 'string',
+  pageRole: 'number',
+  title: 'string',
+  url: 'string',
+  categoryId: 'number?',
+  authorId: 'number',
+  numPosts: 'number',
+  createdAtMs: 'number',
+  bumpedAtMs: 'number?',
+};
+
+const DraftLocatorShape: ShapeOf<DraftLocator> = {
+  draftType: 'number',
+  categoryId: 'number?',
+  toUserId: 'number?',
+  postId: 'number?',
+  pageId: 'string?',
+  postNr: 'number?',
+  replyToPostNrs: ['number'],
+};
+
+const DraftShape: ShapeOf<Draft> = {
+  byUserId: 'number',
+  draftNr: 'number',
+  forWhat: DraftLocatorShape,
+  createdAtMs: 'number',
+  lastEditedAtMs: 'number?',
+  topicType: 'number?',
+  editBase: 'object?',
+  title: 'string?',
+  text: 'string',
+};
+
+const UploadedFileShape: ShapeOf<UploadedFile> = {
+  url: 'string',
+  hashPath: 'string',
+  fileName: 'string',
+  sizeBytes: 'number',
+  mimeType: 'string',
+  uploadedById: 'number',
+  uploadedAtMs: 'number',
+  isInUse: 'boolean',
+  linkedFromPosts: 'array?',
+};
+
+const UploaderStatsShape: ShapeOf<UploaderStats> = {
+  userId: 'number',
+  username: 'string?',
+  numFiles: 'number',
+  numBytes: 'number',
+  numBytesLastWeek: 'number',
+};
+
+const UserAccountResponseShape: ShapeOf<UserAccountResponse> = {
+  emailAddresses: [{ emailAddress: 'string', addedAt: 'number', verifiedAt: 'number?' }],
+  loginMethods: [{ loginType: 'string', provider: 'string', email: 'string?' }],
+};
+
+const LoadSettingsResultShape: ShapeOf<LoadSettingsResult> = {
+  effectiveSettings: 'object',
+  defaultSettings: 'object',
+  baseDomain: 'string',
+  cnameTargetHost: 'string',
+  hosts: [{ hostname: 'string', role: 'number' }],
+};
+
+const PageJsonResponseShape: ShapeOf<PageJsonResponse> = {
+  reactStoreJsonString: 'string?',
+  reactionsByPostId: 'object?',
+  me: 'object?',
+  problemCode: 'number?',
+  problemMessage: 'string?',
+};
+
+const SearchHitShape: ShapeOf<SearchHit> = {
+  postId: 'number',
+  postNr: 'number',
+  approvedRevisionNr: 'number',
+  approvedTextWithHighligtsHtml: ['string'],
+  currentRevisionNr: 'number',
+};
+
+const PageAndHitsShape: ShapeOf<PageAndHits> = {
+  pageId: 'string',
+  pageTitle: 'string',
+  hits: [SearchHitShape],
+};
+
+const SearchResultsShape: ShapeOf<SearchResults> = {
+  thisIsAll: 'boolean',
+  pagesAndHits: [PageAndHitsShape],
+};
+
+
+/**
+ * Returns descriptions of all places where `value` doesn't match `shape`,
+ * e.g. ["someVoters[2].id: Expected number, got: undefined"].
+ */
+export function findShapeProblems(value, shape: FieldShape, path = ''): string[] {
+  const nameOrRoot = path || "(the response)";
+  if (_.isString(shape)) {
+    const isOptional = shape[shape.length - 1] === '?';
+    const typeName = isOptional ? shape.substr(0, shape.length - 1) : shape;
+    if (value === undefined || value === null) {
+      return isOptional || typeName === 'any' ? [] :
+          [`${nameOrRoot}: Expected ${typeName}, got: ${value}`];
+    }
+    let isOk: boolean;
+    switch (typeName) {
+      case 'array': isOk = _.isArray(value); break;
+      case 'object': isOk = _.isObject(value) && !_.isArray(value); break;
+      case 'any': isOk = true; break;
+      default: isOk = typeof value === typeName;
+    }
+    return isOk ? [] : [`${nameOrRoot}: Expected ${typeName}, got: ${JSON.stringify(value)}`];
+  }
+
+  if (_.isArray(shape)) {
+    if (!_.isArray(value))
+      return [`${nameOrRoot}: Expected an array, got: ${JSON.stringify(value)}`];
+    const itemShape = shape[0];
+    let problems = [];
+    _.each(value, (item, index) => {
+      problems = problems.concat(findShapeProblems(item, itemShape, `${path}[${index}]`));
+    });
+    return problems;
+  }
+
+  if (!_.isObject(value) || _.isArray(value))
+    return [`${nameOrRoot}: Expected an object, got: ${JSON.stringify(value)}`];
+
+  let problems = [];
+  _.each(<ObjectShape> shape, (fieldShape: FieldShape, fieldName: string) => {
+    const fieldPath = path ? path + '.' + fieldName : fieldName;
+    problems = problems.concat(findShapeProblems(value[fieldName], fieldShape, fieldPath));
+  });
+  return problems;
+}
+
+
+// ----- Endpoints
+
+export interface Endpoint<Params, Response> {
+  method: 'GET' | 'POST';
+  // For GET requests, the params become the query string. For POST, the request body.
+  // If the path is a function, it gets the params and returns the whole url — then,
+  // no query string gets added.
+  path: string | ((params: Params) => string);
+  responseShape: FieldShape;
+  // Only for the compiler, never set.
+  _params?: Params;
+  _response?: Response;
+}
+
+function getEndpoint<Params, Response>(path: string | ((params: Params) => string),
+      responseShape: FieldShape): Endpoint<Params, Response> {
+  return { method: 'GET', path, responseShape };
+}
+
+function postEndpoint<Params, Response>(path: string, responseShape: FieldShape)
+      : Endpoint<Params, Response> {
+  return { method: 'POST', path, responseShape };
+}
+
+
+// Sorted by path. Only endpoints whose responses are in model.ts are here — the ones
+// that reply just 200 OK, or with things not yet in model.ts, still call get() and
+// postJsonSuccess() directly, in Server.ts.
+export const endpoints = {
+  acceptAnswer: postEndpoint<{ pageId: PageId, postId: PostId }, WhenMs | null>(
+      '/-/accept-answer', 'number?'),
+
+  addEmailAddress: postEndpoint<{ userId: UserId, emailAddress: string }, UserAccountResponse>(
+      '/-/add-email-address', UserAccountResponseShape),
+
+  addRemoveTags: postEndpoint<{ pageId: PageId, postId: PostId, tags: string[] }, StorePatch>(
+      '/-/add-remove-tags', StorePatchShape),
+
+  createForum: postEndpoint<{ title, folder, useCategories, createSupportCategory,
+      createIdeasCategory, createSampleTopics, topicListStyle }, string>(
+      '/-/create-forum', 'string'),
+
+  deleteUser: postEndpoint<{ userId: UserId }, string>(
+      '/-/delete-user', 'string'),
+
+  loadCurrentText: getEndpoint<{ pageId: PageId, postNr: PostNr }, { postUid: PostId,
+      currentText: string, currentRevisionNr: number, currentRevLastEditedAtMs?: WhenMs }>(
+      '/-/edit', {
+        postUid: 'number',
+        currentText: 'string',
+        currentRevisionNr: 'number',
+        currentRevLastEditedAtMs: 'number?',
+      }),
+
+  flag: postEndpoint<{ pageId: PageId, postNr: PostNr, type: string, reason: string },
+      StorePatch>('/-/flag', StorePatchShape),
+
+  hidePost: postEndpoint<{ pageId: PageId, postNr: PostNr, hide: boolean }, Post>(
+      '/-/hide-post', PostShape),
+
+  listAllUploads: getEndpoint<{}, { files: UploadedFile[], statsPerUser: UploaderStats[],
+      limits: UploadLimits }>('/-/list-all-uploads', {
+        files: [UploadedFileShape],
+        statsPerUser: [UploaderStatsShape],
+        limits: 'object',
+      }),
+
+  listCategoriesAllSections: getEndpoint<{}, Category[]>(
+      '/-/list-categories-all-sections', [CategoryShape]),
+
+  listCompleteUsers: getEndpoint<{ whichUsers: string },
+      { users: MemberInclDetailsWithStats[] }>('/-/list-complete-users', {
+        users: [{ id: 'number', username: 'string', anyUserStats: 'object?' }],
+      }),
+
+  listDrafts: getEndpoint<{ userId: UserId }, { drafts: Draft[] }>(
+      '/-/list-drafts', { drafts: [DraftShape] }),
+
+  listForums: getEndpoint<{}, Forum[]>(
+      '/-/list-forums', [ForumShape]),
+
+  listMentionableGroups: getEndpoint<{ usernamePrefix: string }, Group[]>(
+      '/-/list-mentionable-groups', [GroupShape]),
+
+  listReplyTemplates: getEndpoint<{ categoryId?: CategoryId, forEditor?: boolean },
+      { replyTemplates: ReplyTemplate[] }>('/-/list-reply-templates', {
+        replyTemplates: [ReplyTemplateShape],
+      }),
+
+  listTopicsByUser: getEndpoint<{ userId: UserId }, { topics: Topic[], users: BriefUser[] }>(
+      '/-/list-topics-by-user', {
+        topics: [TopicShape],
+        users: [BriefUserShape],
+      }),
+
+  listUploads: getEndpoint<{ userId: UserId }, { files: UploadedFile[] }>(
+      '/-/list-uploads', { files: [UploadedFileShape] }),
+
+  listUsernamesWhoCannotSee: getEndpoint<{ pageId: PageId, usernames: string }, string[]>(
+      '/-/list-usernames-who-cannot-see', ['string']),
+
+  loadAllTags: getEndpoint<{}, string[]>(
+      '/-/load-all-tags', ['string']),
+
+  loadAuthorBlocks: getEndpoint<{ postId: PostId }, Blocks>(
+      '/-/load-author-blocks', BlocksShape),
+
+  loadCategory: getEndpoint<{ id: CategoryId }, LoadCategoryResponse>(
+      '/-/load-category', {
+        category: CategoryShape,
+        permissions: 'array',
+        groups: 'array',
+      }),
+
+  loadEmailAddrsLoginMethods: getEndpoint<{ userId: UserId }, UserAccountResponse>(
+      '/-/load-email-addrs-login-methods', UserAccountResponseShape),
+
+  loadGroups: getEndpoint<{}, Group[]>(
+      '/-/load-groups', [GroupShape]),
+
+  loadNotifications: getEndpoint<{ userId: UserId, upToWhenMs: WhenMs }, Notification[]>(
+      '/-/load-notifications', [NotificationShape]),
+
+  loadOnlineUsers: getEndpoint<{}, { numOnlineStrangers: number, onlineUsers: BriefUser[] }>(
+      '/-/load-online-users', {
+        numOnlineStrangers: 'number',
+        onlineUsers: [BriefUserShape],
+      }),
+
+  loadPoll: getEndpoint<{ postId: PostId }, PollAndMyVotes>(
+      '/-/load-poll', PollAndMyVotesShape),
+
+  loadPollVoters: getEndpoint<{ postId: PostId, optionNr: number },
+      { numVoters: number, someVoters: BriefUser[] }>('/-/load-poll-voters', {
+        numVoters: 'number',
+        someVoters: [BriefUserShape],
+      }),
+
+  loadPost: getEndpoint<{ pageId: PageId, postNr: PostNr }, StorePatch>(
+      '/-/load-post', StorePatchShape),
+
+  loadPostRevisions: getEndpoint<{ postId: PostId, revisionNr: number | 'LastRevision' },
+      PostRevision[]>('/-/load-post-revisions', [PostRevisionShape]),
+
+  loadReactors: getEndpoint<{ postId: PostId, emoji: string },
+      { numReactors: number, someReactors: BriefUser[] }>('/-/load-reactors', {
+        numReactors: 'number',
+        someReactors: [BriefUserShape],
+      }),
+
+  loadSiteSettings: getEndpoint<{}, LoadSettingsResult>(
+      '/-/load-site-settings', LoadSettingsResultShape),
+
+  loadUserAnyDetails: getEndpoint<{ who: UserId | string },
+      { user: MemberInclDetails, stats?: UserStats }>('/-/load-user-any-details', {
+        user: { id: 'number', username: 'string?' },
+        stats: 'object?',
+      }),
+
+  loadVoters: getEndpoint<{ postId: PostId, voteType: PostVoteType },
+      { numVoters: number, someVoters: BriefUser[] }>('/-/load-voters', {
+        numVoters: 'number',
+        someVoters: [BriefUserShape],
+      }),
+
+  movePost: postEndpoint<{ pageId: PageId, postId: PostId, newHost: SiteId,
+      newPageId: PageId, newParentNr: PostNr }, StorePatch>(
+      '/-/move-post', StorePatchShape),
+
+  removeEmailAddress: postEndpoint<{ userId: UserId, emailAddress: string },
+      UserAccountResponse>('/-/remove-email-address', UserAccountResponseShape),
+
+  resendEmailAddrVerifEmail: postEndpoint<{ userId: UserId, emailAddress: string },
+      UserAccountResponse>('/-/resend-email-addr-verif-email', UserAccountResponseShape),
+
+  saveSiteSettings: postEndpoint<Settings, LoadSettingsResult>(
+      '/-/save-site-settings', LoadSettingsResultShape),
+
+  search: postEndpoint<{ rawQuery: string }, SearchResults>(
+      '/-/search', SearchResultsShape),
+
+  setPrimaryEmailAddress: postEndpoint<{ userId: UserId, emailAddress: string },
+      UserAccountResponse>('/-/set-primary-email-address', UserAccountResponseShape),
+
+  startPrivateGroupTalk: postEndpoint<{ title: string, text: string, pageRole: PageRole,
+      userIds: UserId[] }, PageId>('/-/start-private-group-talk', 'string'),
+
+  toggleReaction: postEndpoint<{ postId: PostId, emoji: string, add: boolean },
+      PostReactionsAndMine>('/-/toggle-reaction', {
+        reactions: [{ emoji: 'string', numReactions: 'number' }],
+        myReactions: ['string'],
+      }),
+
+  togglePageClosed: postEndpoint<{ pageId: PageId }, WhenMs | null>(
+      '/-/toggle-page-closed', 'number?'),
+
+  undeletePost: postEndpoint<{ pageId: PageId, postNr: PostNr, repliesToo: boolean },
+      { undeletedPost: Post }>('/-/undelete-post', { undeletedPost: PostShape }),
+
+  upsertReplyTemplate: postEndpoint<{ id?: ReplyTemplateId, siteWide: boolean,
+      categoryId?: CategoryId, title: string, text: string }, ReplyTemplate>(
+      '/-/upsert-reply-template', ReplyTemplateShape),
+
+  voteInPoll: postEndpoint<{ postId: PostId, optionNrs: number[] }, PollAndMyVotes>(
+      '/-/vote-in-poll', PollAndMyVotesShape),
+
+  // The page at `path`, as json.
+  loadPageJson: getEndpoint<{ path: string }, PageJsonResponse>(
+      params => params.path + '?json', PageJsonResponseShape),
+};
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
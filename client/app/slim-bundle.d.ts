@@ -29,6 +29,8 @@ declare const NoCategoryId;
 declare const NoPermissionId;
 
 declare const NoPostId;
+declare const NoDraftNr: number;
+declare const NoReplyTemplateId: number;
 declare const TitleNr;
 declare const BodyNr: number;
 declare const BodyNrStr: string;
@@ -144,11 +146,13 @@ declare namespace debiki2 {
     var SelectCategoryDropdown;
 
     // from editor-bundle-not-yet-loaded.ts:
-    function toggleWriteReplyToPost(postId: number, inclInReply: boolean, anyPostType?: number);
+    function toggleWriteReplyToPost(postId: number, inclInReply: boolean, anyPostType?: number,
+        anyQuote?: string);
     function openEditorToEditPost(postId: number, onDone?);
     function editNewForumPage(categoryId: number, role: PageRole);
     function openToEditChatTitleAndPurpose();
     function openToWriteChatMessage(text: string, onDone);
+    function openToWriteReply(postNr: PostNr, text: string, anyPostType: number, onDone);
     function openToWriteMessage(userId: UserId);
   }
 
@@ -179,6 +183,7 @@ declare namespace debiki2 {
   var putInLocalStorage: any;
   var event_isCtrlEnter: any;
   function page_isPrivateGroup(pageRole: PageRole): boolean;
+  function page_isChatChannel(pageRole: PageRole): boolean;
   function pageRole_iconClass(pageRole: PageRole): string;
 
   function user_isSuspended(user: MemberInclDetails, nowMs: WhenMs): boolean;
@@ -194,6 +199,8 @@ declare namespace debiki2 {
   function isBlank(x: string): boolean;
 
   function whenMsToIsoDate(whenMs: number): string;
+  function whenMsToDateTimeLocalValue(whenMs: WhenMs): string;
+  function dateTimeLocalValueToWhenMs(value: string): WhenMs | null;
 
   var isWikiPost;
   var isStaff;
@@ -231,8 +238,10 @@ declare namespace debiki2 {
   function linkToSendMessage(userIdOrUsername: UserId | string): string;
   function linkToInvitesFromUser(userId: UserId): string;
   function linkToUsersEmailAddrs(userIdOrUsername: UserId | string): string;
+  function linkToUsersUploads(userIdOrUsername: UserId | string): string;
   function linkToAdminPage(): string;
   function linkToReviewPage(): string;
+  function linkToAdminReplyTemplates(): string;
   function externalLinkToAdminHelp(): string;
   function linkToMyProfilePage(store: Store): string;
   function linkToUpload(origins: Origins, uploadsPath: string): string;
@@ -244,6 +253,7 @@ declare namespace debiki2 {
   function settings_showFilterButton(settings: SettingsVisibleClientSide, me: Myself): boolean;
   function settings_showTopicTypes(settings: SettingsVisibleClientSide, me: Myself): boolean;
   function settings_selectTopicType(settings: SettingsVisibleClientSide, me: Myself): boolean;
+  function settings_reactionEmojis(settings: SettingsVisibleClientSide): string[];
 
 
   namespace avatar {
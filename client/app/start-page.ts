@@ -251,6 +251,7 @@ function renderPageInBrowser() {
     debiki2.page.Hacks.processPosts();
     _.each(scriptLoadDoneCallbacks, function(c) { c(); });
     debiki2.page.PostsReadTracker.start();
+    debiki2.page.startQuotingSelections();
   });
 
   function runNextStep() {
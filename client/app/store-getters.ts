@@ -65,6 +65,13 @@ export function store_getUserOrMissing(store: Store, userId: UserId, errorCode2)
 }
 
 
+export function store_getOutboxItemsOnThisPage(store: Store, type: OutboxItemType)
+      : OutboxItem[] {
+  return _.filter(store.outboxItems || [], (item: OutboxItem) =>
+      item.type === type && item.data.pageId === store.currentPageId);
+}
+
+
 export function store_isUserOnline(store: Store, userId: UserId): boolean {
   return store.userIdsOnline && store.userIdsOnline[userId];
 }
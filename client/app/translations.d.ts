@@ -19,6 +19,7 @@ interface TalkyardTranslations {
   Category: string;
   ClickToShow: string;
   Continue: string;
+  CouldntSendC: string;
   ChangeDots: string;
   ChatN: string;
   Close: string;
@@ -46,10 +47,12 @@ interface TalkyardTranslations {
   NameC: string;
   Notifications: string;
   NotImplemented: string;
+  NotSentYet: string;
   NotYet: string;
   NoTopics: string;
   Okay: string;
   OkayDots: string;
+  OfflineCopy: string;
   Online: string;
   PreviewV: string;
   Problem: string;
@@ -110,6 +113,9 @@ interface TalkyardTranslations {
   minsLtr: string;
   secsLtr: string;
 
+  // Typing indicator, e.g. "Alice is typing...". Gets the names of one or more people.
+  UsersTyping: (names: string[]) => string;
+
 
   // Input fields, e.g. email, name etc.
   inp: {
@@ -346,6 +352,7 @@ interface TalkyardTranslations {
   // Post actions
   pa: {
     ReplyToOp: string;
+    AddReaction: string;
 
     CloseOwnQuestionTooltip: string;
     CloseOthersQuestionTooltip: string;
@@ -513,6 +520,25 @@ interface TalkyardTranslations {
     ClickViewEdits: string;
 
     By: string;
+
+    QuoteV: string;
+
+    QuickReplyPh: string;
+    OpenFullEditor: string;
+  },
+
+
+  // Polls
+  po: {
+    Vote: string;
+    ChangeVote: string;
+    RetractVote: string;
+    NumVoters: (numVoters: number) => string;
+    ClosesAt: string;
+    Closed: string;
+    VoteToSeeResults: string;
+    ResultsWhenClosed: string;
+    VotedForThis: string;
   },
 
 
@@ -587,6 +613,8 @@ interface TalkyardTranslations {
 
     Preferences: string;
     Invites: string;
+    Drafts: string;
+    Uploads: string;
     About: string;
     Privacy: string;
     Account: string;
@@ -655,6 +683,29 @@ interface TalkyardTranslations {
     InvErrJoinedAlready: string;
     InvErrYouInvAlready: string;
 
+    // ----- Drafts page
+
+    DraftsExpl: string;
+    NoDrafts: string;
+    OnlyYouCanSeeDrafts: string;
+    DraftForTopic: string;
+    DraftForMessage: string;
+    DraftForEdits: string;
+    DraftForReply: string;
+    ResumeDraft: string;
+    DiscardDraft: string;
+
+    // ----- Uploads page
+
+    UploadsExpl: string;
+    NoUploads: string;
+    OnlyYouCanSeeUploads: string;
+    UploadLinkedFrom: string;
+    UploadInUse: string;
+    UploadNotInUse: string;
+    DeleteUpload: string;
+    DeleteUploadQ: string;
+
     // ----- Preferences, About
 
     AboutYou: string;
@@ -852,7 +903,6 @@ interface TalkyardTranslations {
   // Editor
   e: {
     WritingSomethingWarning: string;
-    UploadMaxOneFile: string;
     PleaseFinishPost: string;
     PleaseFinishChatMsg: string;
     PleaseFinishMsg: string;
@@ -919,9 +969,15 @@ interface TalkyardTranslations {
     Submit: string;
     problem: string;
 
+    Schedule: string;
+    PublishLater: string;
+    PublishAt: string;
+    PublishDirectly: string;
+
     ViewOldEdits: string;
 
     UploadBtnTooltip: string;
+    PrevUploadsBtnTooltip: string;
     BoldBtnTooltip: string;
     EmBtnTooltip: string;
     QuoteBtnTooltip: string;
@@ -944,6 +1000,61 @@ interface TalkyardTranslations {
 
     PreviewInfo: string;
     CannotType: string;
+
+    SavingDraft: string;
+    DraftSaved: string;
+    DraftRestored: string;
+    CannotSaveDraft: string;
+
+    AddPoll: string;
+    RemovePoll: string;
+    PollOptionN: (optionNr: number) => string;
+    AddPollOption: string;
+    SingleChoice: string;
+    MultipleChoice: string;
+    PollClosesAtC: string;
+    PollNeedsOptions: string;
+    PollNeedsCloseDate: string;
+    PollShowVoters: string;
+    PollShowResultsC: string;
+    PollResultsAlways: string;
+    PollResultsAfterVoting: string;
+    PollResultsAfterClosed: string;
+
+    SlashCodeBlock: string;
+    SlashTable: string;
+    SlashPoll: string;
+    SlashUpload: string;
+    SlashPrevUpload: string;
+    SlashMentionGroup: string;
+    NumWillBeNotified: (numPeople: number) => string;
+
+    InsertReplyTemplate: string;
+    SearchReplyTemplatesPh: string;
+    NoReplyTemplates: string;
+    NoMatchingTemplates: string;
+    TemplateIsYours: string;
+    ManageReplyTemplates: string;
+
+    SearchUploadsPh: string;
+    NoUploadsYet: string;
+    NoMatchingUploads: string;
+    ManageUploads: string;
+
+    YourEdits: string;
+    OthersEdits: string;
+    EditsMergedCheckThenSave: string;
+    EditConflictsToResolve: (numConflicts: number) => string;
+    ResolveConflictsFirst: string;
+
+    ChkImageNoAlt: string;
+    ChkCouldOnebox: string;
+    ChkUnclosedCodeBlock: (fence: string) => string;
+    ChkLongCodeLines: (maxLength: number) => string;
+    ChkCannotSeePage: (usernames: string) => string;
+    ChkTopicClosed: string;
+    ChkTopicSolved: string;
+    ChkSaveAnyway: string;
   },
 
 
@@ -977,6 +1088,19 @@ interface TalkyardTranslations {
   // Search dialogs and the search page.
   s: {
     TxtToFind: string;
+  },
+
+
+  // Undo toast, e.g. "Post deleted.  [Undo (12)]"
+  ut: {
+    PostHidden: string;
+    PostDeleted: string;
+    PostAndRepliesDeleted: string;
+    AnswerNotRestored: string;
+    PostMoved: string;
+    PageDeleted: string;
+    NumPagesDeleted: (numPages: number) => string;
+    UndoCountdown: (secondsLeft: number) => string;
   }
 }
 
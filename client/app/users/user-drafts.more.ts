@@ -0,0 +1,168 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+declare var moment: any;
+/// <reference path="../slim-bundle.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.users {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+const MaxExcerptLength = 250;
+
+
+/**
+ * Lists drafts the editor has autosaved, so one can resume or discard them. [7WKBU20]
+ * Drafts are private, so only shown to oneself.
+ */
+export const UserDrafts = createFactory({
+  displayName: 'UserDrafts',
+
+  getInitialState: function() {
+    return { drafts: null };
+  },
+
+  componentDidMount: function() {
+    this.loadDrafts(this.props.user.id);
+  },
+
+  componentWillReceiveProps: function(nextProps: any) {
+    const store: Store = this.props.store;
+    const nextStore: Store = nextProps.store;
+    if (this.props.user.id === nextProps.user.id && store.me.id === nextStore.me.id)
+      return;
+
+    this.loadDrafts(nextProps.user.id);
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  loadDrafts: function(userId: UserId) {
+    const store: Store = this.props.store;
+    if (this.requests) this.requests.abort();
+    const requests = this.requests = Server.makeAbortController();
+    this.setState({ drafts: null });
+    if (store.me.id !== userId)
+      return;
+
+    Server.listDrafts(userId, (drafts: Draft[]) => {
+      this.setState({ drafts });
+    }, { abortSignal: requests.signal });
+  },
+
+  discardDraft: function(draft: Draft) {
+    // No abort signal — the draft should get deleted also if one navigates away.
+    const requests = this.requests;
+    Server.deleteDrafts([draft.draftNr], () => {
+      if (requests.signal.aborted) return;
+      const drafts = _.filter(this.state.drafts, (d: Draft) => d.draftNr !== draft.draftNr);
+      this.setState({ drafts });
+    });
+  },
+
+  render: function() {
+    const store: Store = this.props.store;
+    const me: Myself = store.me;
+    const user: MemberInclDetails = this.props.user;
+
+    if (me.id !== user.id)
+      return r.p({}, t.upp.OnlyYouCanSeeDrafts);
+
+    const drafts: Draft[] = this.state.drafts;
+    if (!drafts)
+      return r.p({}, t.Loading);
+
+    if (!drafts.length)
+      return r.p({ className: 'e_NoDrafts' }, t.upp.NoDrafts);
+
+    const nowMs: WhenMs = Date.now();
+    const draftElems = drafts.map((draft: Draft) =>
+        DraftItem({ key: draft.draftNr, draft, nowMs,
+            onDiscard: () => this.discardDraft(draft) }));
+
+    return (
+      r.div({ className: 's_UP_Drfts' },
+        r.p({}, t.upp.DraftsExpl),
+        r.ol({ className: 's_Drfts' },
+          draftElems)));
+  }
+});
+
+
+
+function DraftItem(props: { key: DraftNr, draft: Draft, nowMs: WhenMs, onDiscard: () => void }) {
+  const draft = props.draft;
+  const forWhat = draft.forWhat;
+  let what: string;
+  let resumeLinkOrButton;
+
+  switch (forWhat.draftType) {
+    case DraftType.Topic:
+      what = t.upp.DraftForTopic;
+      // Opening the editor in the same category, restores the draft.
+      resumeLinkOrButton = Button({ className: 's_Drfts_Drft_ResumeB',
+          onClick: () => editor.editNewForumPage(
+              forWhat.categoryId, draft.topicType || PageRole.Discussion) },
+        t.upp.ResumeDraft);
+      break;
+    case DraftType.DirectMessage:
+      what = t.upp.DraftForMessage;
+      resumeLinkOrButton = r.a({ className: 's_Drfts_Drft_ResumeB btn btn-default',
+          href: linkToSendMessage(forWhat.toUserId) }, t.upp.ResumeDraft);
+      break;
+    case DraftType.Edit:
+      what = t.upp.DraftForEdits;
+      resumeLinkOrButton = !forWhat.pageId ? null :
+          r.a({ className: 's_Drfts_Drft_ResumeB btn btn-default',
+              href: linkToPostNr(forWhat.pageId, forWhat.postNr) }, t.upp.ResumeDraft);
+      break;
+    case DraftType.Reply:
+      what = t.upp.DraftForReply;
+      resumeLinkOrButton = r.a({ className: 's_Drfts_Drft_ResumeB btn btn-default',
+          href: linkToPostNr(forWhat.pageId, forWhat.replyToPostNrs[0]) }, t.upp.ResumeDraft);
+      break;
+    default:
+      die('TyE5KWBU30');
+  }
+
+  const text = draft.text.length <= MaxExcerptLength ? draft.text :
+      draft.text.substr(0, MaxExcerptLength) + ' ...';
+
+  return (
+    r.li({ key: props.key, className: 's_Drfts_Drft' },
+      r.div({ className: 's_Drfts_Drft_What' },
+        r.b({}, what),
+        ' ',
+        r.span({ className: 's_Drfts_Drft_When' },
+          moment(draft.lastEditedAtMs || draft.createdAtMs).from(props.nowMs))),
+      !draft.title ? null : r.div({ className: 's_Drfts_Drft_Title' }, draft.title),
+      r.div({ className: 's_Drfts_Drft_Text' }, text),
+      r.div({ className: 's_Drfts_Drft_Btns' },
+        resumeLinkOrButton,
+        Button({ className: 's_Drfts_Drft_DiscardB', onClick: props.onDiscard },
+          t.upp.DiscardDraft))));
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -182,6 +182,7 @@ const AboutMember = createComponent({
           !!user.summaryEmailIntervalMins && user.summaryEmailIntervalMins !== DisableSummaryEmails,
       summaryEmailIntervalMins: user.summaryEmailIntervalMins,
       summaryEmailIfActive: user.summaryEmailIfActive,
+      mayMentionMeTrustLevel: (<GroupInclDetails> user).mayMentionMeTrustLevel,
     };
   },
 
@@ -244,6 +245,7 @@ const AboutMember = createComponent({
       about: firstDefinedOf(this._about, user.about),
       url: firstDefinedOf(this._url, user.url),
       emailForEveryNewPost: firstDefinedOf(this._emailForEveryNewPost, user.emailForEveryNewPost),
+      mayMentionMeTrustLevel: user.isGroup ? this.state.mayMentionMeTrustLevel : undefined,
     };
     // This won't update the name in the name-login-button component. But will
     // be automatically fixed when I've ported everything to React and use
@@ -338,6 +340,18 @@ const AboutMember = createComponent({
           this.setState({ summaryEmailIntervalMins: frequencyMins });
         }, intervalMins: this.state.summaryEmailIntervalMins, disabled: !sendSummaryEmails }));
 
+    // Only admins may change group settings. So, no translation. [5GRPMNT]
+    const mayMentionStuff = !user.isGroup || !me.isAdmin ? null :
+      Input({ type: 'select', label: "Who may @mention this group",
+          className: 's_UP_Prefs_MayMention',
+          value: this.state.mayMentionMeTrustLevel || '',
+          help: "Everyone in the group gets notified, when the group is mentioned.",
+          onChange: (event) => this.setState({
+            mayMentionMeTrustLevel: parseInt(event.target.value) || null }) },
+        r.option({ value: '' }, "Only staff"),
+        [TrustLevel.New, TrustLevel.Basic, TrustLevel.FullMember, TrustLevel.Trusted,
+            TrustLevel.Regular, TrustLevel.CoreMember].map((level: TrustLevel) =>
+          r.option({ key: level, value: level }, trustLevel_toString(level) + " and up")));
 
     return (
       r.form({ role: 'form', onSubmit: this.savePrefs },
@@ -358,6 +372,8 @@ const AboutMember = createComponent({
 
         activitySummaryStuff,
 
+        mayMentionStuff,
+
         isBuiltInUser ? null : r.div({ className: 'form-group' },
           r.label({ htmlFor: 't_UP_AboutMe' }, t.upp.AboutYou),
           r.textarea({ className: 'form-control', id: 't_UP_Prefs_AboutMeTA',
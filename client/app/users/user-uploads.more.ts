@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+declare var moment: any;
+/// <reference path="../slim-bundle.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.users {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+
+/**
+ * Lists files one has uploaded, and the posts that link to them. Files no post
+ * links to, one can delete. [5UPLDLIB] Admins can see others' uploads too.
+ */
+export const UserUploads = createFactory({
+  displayName: 'UserUploads',
+
+  getInitialState: function() {
+    return { files: null };
+  },
+
+  componentDidMount: function() {
+    this.loadUploads(this.props.user.id);
+  },
+
+  componentWillReceiveProps: function(nextProps: any) {
+    const store: Store = this.props.store;
+    const nextStore: Store = nextProps.store;
+    if (this.props.user.id === nextProps.user.id && store.me.id === nextStore.me.id)
+      return;
+
+    this.loadUploads(nextProps.user.id);
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+  },
+
+  loadUploads: function(userId: UserId) {
+    const store: Store = this.props.store;
+    if (this.requests) this.requests.abort();
+    const requests = this.requests = Server.makeAbortController();
+    this.setState({ files: null });
+    if (store.me.id !== userId && !store.me.isAdmin)
+      return;
+
+    Server.listUploads(userId, (files: UploadedFile[]) => {
+      this.setState({ files });
+    }, { abortSignal: requests.signal });
+  },
+
+  deleteUpload: function(file: UploadedFile) {
+    util.openDefaultStupidDialog({
+      dialogClassName: 's_DelUplD',
+      body: t.upp.DeleteUploadQ,
+      primaryButtonTitle: t.Cancel,
+      secondaryButonTitle: t.upp.YesDelete,
+      onCloseOk: (number) => {
+        // Click outside the dialog, or on the primary button, means cancel.
+        if (number !== 2)
+          return;
+        // No abort signal — the file should get deleted also if one navigates away.
+        const requests = this.requests;
+        Server.deleteUpload(file.hashPath, () => {
+          if (requests.signal.aborted) return;
+          const files = _.filter(this.state.files,
+              (f: UploadedFile) => f.hashPath !== file.hashPath);
+          this.setState({ files });
+        });
+      },
+    });
+  },
+
+  render: function() {
+    const store: Store = this.props.store;
+    const me: Myself = store.me;
+    const user: MemberInclDetails = this.props.user;
+
+    if (me.id !== user.id && !me.isAdmin)
+      return r.p({}, t.upp.OnlyYouCanSeeUploads);
+
+    const files: UploadedFile[] = this.state.files;
+    if (!files)
+      return r.p({}, t.Loading);
+
+    if (!files.length)
+      return r.p({ className: 'e_NoUplds' }, t.upp.NoUploads);
+
+    const nowMs: WhenMs = Date.now();
+    const fileElems = files.map((file: UploadedFile) =>
+        UploadItem({ key: file.hashPath, file, nowMs,
+            onDelete: () => this.deleteUpload(file) }));
+
+    return (
+      r.div({ className: 's_UP_Upls' },
+        r.p({}, t.upp.UploadsExpl),
+        r.ol({ className: 's_Upls' },
+          fileElems)));
+  }
+});
+
+
+
+function UploadItem(props: { key: string, file: UploadedFile, nowMs: WhenMs,
+      onDelete: () => void }) {
+  const file = props.file;
+  const posts = file.linkedFromPosts || [];
+
+  // If in use, but no posts listed, then, maybe it's an avatar, or in a post one may not see.
+  const usageInfo = !file.isInUse
+    ? r.span({ className: 's_Upls_Upl_Unused' }, t.upp.UploadNotInUse)
+    : !posts.length
+        ? r.span({}, t.upp.UploadInUse)
+        : r.span({},
+            t.upp.UploadLinkedFrom + ' ',
+            posts.map((post, index) => {
+              const url = linkToPostNr(post.pageId, post.postNr);
+              return r.span({ key: url },
+                  index > 0 ? ', ' : '',
+                  r.a({ className: 's_Upls_Upl_PostL', href: url }, url));
+            }));
+
+  return (
+    r.li({ key: props.key, className: 's_Upls_Upl' },
+      r.div({ className: 's_Upls_Upl_What' },
+        r.a({ className: 's_Upls_Upl_Name', href: file.url, target: '_blank' }, file.fileName),
+        ' ',
+        r.span({ className: 's_Upls_Upl_Size' }, prettyBytes(file.sizeBytes)),
+        ' ',
+        r.span({ className: 's_Upls_Upl_When' }, moment(file.uploadedAtMs).from(props.nowMs))),
+      r.div({ className: 's_Upls_Upl_Usage' }, usageInfo),
+      file.isInUse ? null :
+        r.div({ className: 's_Upls_Upl_Btns' },
+          Button({ className: 's_Upls_Upl_DeleteB', onClick: props.onDelete },
+            t.upp.DeleteUpload))));
+}
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
@@ -19,6 +19,8 @@
 declare var moment: any;
 /// <reference path="../slim-bundle.d.ts" />
 /// <reference path="user-invites.more.ts" />
+/// <reference path="user-drafts.more.ts" />
+/// <reference path="user-uploads.more.ts" />
 /// <reference path="user-notifications.more.ts" />
 /// <reference path="user-preferences.more.ts" />
 /// <reference path="user-activity.more.ts" />
@@ -191,6 +193,14 @@ const UserPageComponent = createReactClass(<any> {
     const invitesNavItem = !showPrivateStuff || !user_maySendInvites(user).value ? null :
       LiNavLink({ to: linkStart + 'invites', className: 'e_InvTabB' }, t.upp.Invites);
 
+    // Drafts are private, not even staff may see them.
+    const draftsNavItem = userGone || me.id !== user.id || user.isGroup ? null :
+      LiNavLink({ to: linkStart + 'drafts', className: 'e_UP_DrftsB' }, t.upp.Drafts);
+
+    // Admins can see others' uploads, e.g. to find out who uses much disk space.
+    const uploadsNavItem = userGone || user.isGroup || (me.id !== user.id && !me.isAdmin) ? null :
+      LiNavLink({ to: linkStart + 'uploads', className: 'e_UP_UplsB' }, t.upp.Uploads);
+
     const childProps = {
       store: store,
       me: me, // CLEAN_UP try to remove, incl already in `store`
@@ -211,7 +221,9 @@ const UserPageComponent = createReactClass(<any> {
       Route({ path: u + 'summary', render: () => UserSummary(childProps) }),
       Route({ path: u + 'notifications', render: () => UserNotifications(childProps) }),
       Route({ path: u + 'preferences', render: (ps) => UserPreferences({ ...childProps, ...ps }) }),
-      Route({ path: u + 'invites', render: () => UserInvites(childProps) }));
+      Route({ path: u + 'invites', render: () => UserInvites(childProps) }),
+      Route({ path: u + 'drafts', render: () => UserDrafts(childProps) }),
+      Route({ path: u + 'uploads', render: () => UserUploads(childProps) }));
 
     return (
       r.div({ className: 'container esUP' },
@@ -221,6 +233,8 @@ const UserPageComponent = createReactClass(<any> {
           summaryNavItem,
           notificationsNavItem,
           invitesNavItem,
+          draftsNavItem,
+          uploadsNavItem,
           preferencesNavItem),
         childRoutes));
   }
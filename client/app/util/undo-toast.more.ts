@@ -0,0 +1,106 @@
+/*
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+/// <reference path="../slim-bundle.d.ts" />
+
+//------------------------------------------------------------------------------
+   namespace debiki2.util {
+//------------------------------------------------------------------------------
+
+const r = ReactDOMFactories;
+
+const UndoToastSeconds = 12;  // same as ReviewDecisionUndoTimoutSeconds, for now
+
+
+let undoToast;
+
+/**
+ * Shows a message at the bottom of the screen, e.g. "Post deleted", and an Undo
+ * button that counts down, and then the toast disappears. Only one toast at a time —
+ * showing a new one, replaces any old.
+ */
+export function showUndoToast(stuff: UndoToastStuff) {
+  if (!undoToast) {
+    undoToast = ReactDOM.render(UndoToast(), utils.makeMountNode());
+  }
+  undoToast.show(stuff);
+}
+
+
+const UndoToast = createComponent({
+  displayName: 'UndoToast',
+
+  getInitialState: function () {
+    return { stuff: null, secondsLeft: 0 };
+  },
+
+  componentDidMount: function() {
+    this.requests = Server.makeAbortController();
+  },
+
+  componentWillUnmount: function() {
+    this.requests.abort();
+    clearInterval(this.intervalHandle);
+  },
+
+  show: function(stuff: UndoToastStuff) {
+    clearInterval(this.intervalHandle);
+    this.setState({ stuff, secondsLeft: UndoToastSeconds });
+    this.intervalHandle = setInterval(this.countdown, 1000);
+  },
+
+  countdown: function() {
+    if (this.requests.signal.aborted) return;
+    const secondsLeft = this.state.secondsLeft - 1;
+    if (secondsLeft <= 0) {
+      this.hide();
+    }
+    else {
+      this.setState({ secondsLeft });
+    }
+  },
+
+  hide: function() {
+    clearInterval(this.intervalHandle);
+    this.setState({ stuff: null });
+  },
+
+  undo: function() {
+    const stuff: UndoToastStuff = this.state.stuff;
+    this.hide();
+    stuff.undo();
+  },
+
+  render: function () {
+    const stuff: UndoToastStuff = this.state.stuff;
+    if (!stuff)
+      return null;
+
+    return (
+      r.div({ className: 's_UndoToast' },
+        r.span({ className: 's_UndoToast_Msg' }, stuff.message),
+        Button({ onClick: this.undo, className: 's_UndoToast_UndoB e_UndoB' },
+          t.ut.UndoCountdown(this.state.secondsLeft)),
+        r.a({ onClick: this.hide, className: 's_UndoToast_CloseB icon-cancel' })));
+  }
+});
+
+
+//------------------------------------------------------------------------------
+   }
+//------------------------------------------------------------------------------
+// vim: fdm=marker et ts=2 sw=2 tw=0 fo=r list
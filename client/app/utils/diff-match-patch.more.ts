@@ -68,6 +68,176 @@ export function makeHtmlDiff(oldText: String, newText: string): string {
 };
 
 
+export const MergeConflictStart = '<<<<<<< ';
+export const MergeConflictMiddle = '=======';
+export const MergeConflictEnd = '>>>>>>> ';
+
+
+/** Returns true if there're conflict markers in the text, from threeWayMerge(). */
+export function hasMergeConflictMarkers(text: string): boolean {
+  return /^<<<<<<< /m.test(text) && /^>>>>>>> /m.test(text);
+}
+
+
+interface MergeHunk {
+  // The range in the base text, that got replaced with `text`.
+  start: number;
+  end: number;
+  text: string;
+  isMine: boolean;
+}
+
+
+/**
+ * Merges two edited versions, mine and theirs, of the same base text. Changes that
+ * don't overlap, get merged automatically. Overlapping changes become conflicts,
+ * shown with Git style markers — whole lines, so they're simpler to resolve:
+ *
+ *   <<<<<<< mineLabel
+ *   my version
+ *   =======
+ *   their version
+ *   >>>>>>> theirsLabel
+ *
+ * If both made the exact same changes, that's not a conflict.
+ */
+export function threeWayMerge(base: string, mine: string, theirs: string,
+      mineLabel: string, theirsLabel: string): { text: string, numConflicts: number } {
+  const hunks = _.sortBy(
+      diffHunks(base, mine, true).concat(diffHunks(base, theirs, false)),
+      (hunk: MergeHunk) => hunk.start);
+
+  // Group overlapping hunks. Two insertions at the same place, overlap too — we
+  // don't know in which order they should be.
+  const clusters: MergeHunk[][] = [];
+  let clusterEnd = -1;
+  _.each(hunks, (hunk: MergeHunk) => {
+    const cluster = _.last(clusters);
+    const overlaps = cluster && (hunk.start < clusterEnd ||
+        _.some(cluster, (h: MergeHunk) => h.start === hunk.start));
+    if (overlaps) {
+      cluster.push(hunk);
+      clusterEnd = Math.max(clusterEnd, hunk.end);
+    }
+    else {
+      clusters.push([hunk]);
+      clusterEnd = hunk.end;
+    }
+  });
+
+  let text = '';
+  let baseIndex = 0;
+  let numConflicts = 0;
+  for (let i = 0; i < clusters.length; ++i) {
+    let cluster = clusters[i];
+    const mineHunks = _.filter(cluster, h => h.isMine);
+    const theirHunks = _.filter(cluster, h => !h.isMine);
+    const sameChanges = mineHunks.length === theirHunks.length && _.every(mineHunks,
+        (h: MergeHunk, index) => {
+          const other = theirHunks[index];
+          return h.start === other.start && h.end === other.end && h.text === other.text;
+        });
+    if (!mineHunks.length || !theirHunks.length || sameChanges) {
+      const start = cluster[0].start;
+      text += base.substring(baseIndex, start) + applyHunks(base, start,
+          clusterRangeEnd(cluster), theirHunks.length ? theirHunks : mineHunks);
+      baseIndex = clusterRangeEnd(cluster);
+      continue;
+    }
+
+    // A conflict. Expand to whole lines, and include any other hunks on those lines,
+    // also ones touching the line end.
+    numConflicts += 1;
+    const start = lineStart(base, cluster[0].start);
+    let end = lineEnd(base, clusterRangeEnd(cluster));
+    while (i + 1 < clusters.length && clusters[i + 1][0].start <= end) {
+      i += 1;
+      cluster = cluster.concat(clusters[i]);
+      end = lineEnd(base, Math.max(end, clusterRangeEnd(clusters[i])));
+    }
+    // If we've merged changes on the first line already, move that merged text into
+    // the conflict, on both sides — so the markers start at a line start, always.
+    // (Previous conflicts end at a line end, so they won't get moved.)
+    let mergedLineStart = '';
+    if (start < baseIndex) {
+      const textLineStartIndex = text.lastIndexOf('\n') + 1;
+      mergedLineStart = text.substring(textLineStartIndex);
+      text = text.substring(0, textLineStartIndex);
+    }
+    const conflictStart = Math.max(baseIndex, start);
+    const mineText = mergedLineStart +
+        applyHunks(base, conflictStart, end, _.filter(cluster, h => h.isMine));
+    const theirText = mergedLineStart +
+        applyHunks(base, conflictStart, end, _.filter(cluster, h => !h.isMine));
+    text += base.substring(baseIndex, conflictStart) +
+        MergeConflictStart + mineLabel + '\n' +
+        mineText + '\n' +
+        MergeConflictMiddle + '\n' +
+        theirText + '\n' +
+        MergeConflictEnd + theirsLabel;
+    baseIndex = end;
+  }
+  text += base.substring(baseIndex);
+  return { text, numConflicts };
+}
+
+
+function diffHunks(base: string, changed: string, isMine: boolean): MergeHunk[] {
+  const diffs = getDiffMatchPatch().diff_main(base, changed);
+  getDiffMatchPatch().diff_cleanupSemantic(diffs);
+  const hunks: MergeHunk[] = [];
+  let baseIndex = 0;
+  let hunk: MergeHunk = null;
+  _.each(diffs, ([op, text]) => {
+    if (op === DIFF_EQUAL) {
+      hunk = null;
+      baseIndex += text.length;
+      return;
+    }
+    if (!hunk) {
+      hunk = { start: baseIndex, end: baseIndex, text: '', isMine };
+      hunks.push(hunk);
+    }
+    if (op === DIFF_DELETE) {
+      baseIndex += text.length;
+      hunk.end = baseIndex;
+    }
+    else {
+      hunk.text += text;
+    }
+  });
+  return hunks;
+}
+
+
+/** The hunks should be sorted, not overlap, and be inside start – end. */
+function applyHunks(base: string, start: number, end: number, hunks: MergeHunk[]): string {
+  let result = '';
+  let index = start;
+  _.each(hunks, (hunk: MergeHunk) => {
+    result += base.substring(index, hunk.start) + hunk.text;
+    index = hunk.end;
+  });
+  return result + base.substring(index, end);
+}
+
+
+function clusterRangeEnd(cluster: MergeHunk[]): number {
+  return _.max(cluster.map(h => h.end));
+}
+
+
+function lineStart(text: string, index: number): number {
+  return index === 0 ? 0 : text.lastIndexOf('\n', index - 1) + 1;
+}
+
+
+function lineEnd(text: string, index: number): number {
+  const newlineIndex = text.indexOf('\n', index);
+  return newlineIndex === -1 ? text.length : newlineIndex;
+}
+
+
 /**
  * Converts a google-diff-match-patch diff array into a pretty HTML report.
  * Based on diff_match_patch.prototype.diff_prettyHtml(), here:
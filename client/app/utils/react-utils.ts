@@ -49,6 +49,29 @@ export function whenMsToIsoDate(whenMs: number): string {
   return new Date(whenMs).toISOString().replace(/T/, ' ')
 }
 
+/**
+ * Returns e.g. "2018-12-30T23:59", in the browser's time zone, for
+ * <input type="datetime-local">.
+ */
+export function whenMsToDateTimeLocalValue(whenMs: WhenMs): string {
+  const date = new Date(whenMs);
+  const pad = (num: number) => (num < 10 ? '0' : '') + num;
+  return date.getFullYear() + '-' + pad(date.getMonth() + 1) + '-' + pad(date.getDate()) +
+      'T' + pad(date.getHours()) + ':' + pad(date.getMinutes());
+}
+
+/**
+ * The reverse of whenMsToDateTimeLocalValue(). Returns null if the value is incomplete,
+ * e.g. if one has cleared the date.
+ */
+export function dateTimeLocalValueToWhenMs(value: string): WhenMs | null {
+  const parts: number[] = (value || '').split(/[-T:]/).map((x) => +x);
+  if (parts.length < 5 || _.some(parts, _.isNaN))
+    return null;
+  // Month index is 0 based.
+  return new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4]).getTime();
+}
+
 /**
  * Wraps the ISO8601 in a <span class="dw-ago"> so jQuery can find it and replace
  * the fixed ISO date with something like "5 hours ago" — see processTimeAgo
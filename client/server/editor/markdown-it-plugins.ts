@@ -0,0 +1 @@
+../../app/editor/markdown-it-plugins.ts
\ No newline at end of file
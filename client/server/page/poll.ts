@@ -0,0 +1 @@
+../../app/page/poll.ts
\ No newline at end of file
@@ -0,0 +1 @@
+../../app/page/quick-reply-box.ts
\ No newline at end of file
@@ -0,0 +1 @@
+../../app/page/reactions.ts
\ No newline at end of file
@@ -4859,7 +4859,33 @@ function googleCajaSanitizeHtml(htmlTextUnsafe, allowClassAndIdAttr,
   function uriPolicy(url) {
     return url;
   }
+
+  // Tags, attributes and classes that markdown-it plugins need, e.g. for math or footnotes.
+  // See client/app/editor/markdown-it-plugins.ts.
+  var pluginsAllowlist = typeof debiki2 !== 'undefined' && debiki2.markdownit &&
+      debiki2.markdownit.getSanitizerAllowlist ?
+      debiki2.markdownit.getSanitizerAllowlist() : { tags: [], attributes: {}, classes: [] };
+
+  function isAllowedByPlugins(classes) {
+    if (!pluginsAllowlist.classes.length) return false;
+    var classNames = classes.split(/\s+/);
+    for (var i = 0; i < classNames.length; ++i) {
+      var isOk = false;
+      for (var j = 0; j < pluginsAllowlist.classes.length; ++j) {
+        if (pluginsAllowlist.classes[j].test(classNames[i])) {
+          isOk = true;
+          break;
+        }
+      }
+      if (!isOk) return false;
+    }
+    return true;
+  }
+
   function classAndIdPolicy(token) {
+    if (isAllowedByPlugins(token))
+      return token;
+
     if (!allowClassAndIdAttr) {
       // Hack [6Q8KEF2]. Not sure how to fix this. Perhaps add a function that allows
       // other modules to register okay id and class patterns?
@@ -4955,6 +4981,14 @@ function googleCajaSanitizeHtml(htmlTextUnsafe, allowClassAndIdAttr,
     }
   };
 
+  sanitizeHtmlConfig.allowedTags = sanitizeHtmlConfig.allowedTags.concat(pluginsAllowlist.tags);
+  for (var tagName in pluginsAllowlist.attributes) {
+    if (!pluginsAllowlist.attributes.hasOwnProperty(tagName)) continue;
+    sanitizeHtmlConfig.allowedAttributes[tagName] =
+        (sanitizeHtmlConfig.allowedAttributes[tagName] || []).concat(
+            pluginsAllowlist.attributes[tagName]);
+  }
+
   if (!followLinks) {
     //var siteId = debiki2.ReactStore.allData().siteId;
     //if (siteId === 98) {  // doesn't work, site id not updated when just rendering markdown.
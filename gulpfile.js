@@ -151,6 +151,13 @@ var _2dJsFiles = [
 var staffJsFiles = [
       'target/client/staff-typescript.js'];
 
+// Markdown-it plugins, e.g. task lists. They register themselves in
+// debiki.internal.markdownItPlugins, see client/app/editor/markdown-it-plugins.ts.
+// Included both in the editor bundle and the server bundle, so the editor preview
+// will look like the post, once saved and rendered server side.
+var markdownItPluginFiles = [
+      'client/app/editor/task-lists-markdown-it-plugin.js'];
+
 var editorJsFiles = [
       // We use two different sanitizers, in case there's a security bug in one of them. [5FKEW2]
       // Find the code that "combines" them here: googleCajaSanitizeHtml [6FKP40]
@@ -163,8 +170,9 @@ var editorJsFiles = [
       'client/third-party/diff_match_patch.js',
       'client/third-party/non-angular-slugify.js',
       'target/client/app/editor/mentions-markdown-it-plugin.js',
-      'target/client/app/editor/onebox-markdown-it-plugin.js',
-      'target/client/editor-typescript.js'];
+      'target/client/app/editor/onebox-markdown-it-plugin.js'].concat(
+      markdownItPluginFiles.map(function(path) { return 'target/' + path; }), [
+      'target/client/editor-typescript.js']);
 
 var jqueryJsFiles = [
   'node_modules/jquery/dist/jquery.js',
@@ -247,7 +255,8 @@ function compileServerTypescript() {
         'client/third-party/lodash-custom.js',
         'client/third-party/non-angular-slugify.js',
         'client/app/editor/mentions-markdown-it-plugin.js',
-        'client/app/editor/onebox-markdown-it-plugin.js'])
+        'client/app/editor/onebox-markdown-it-plugin.js'].concat(
+        markdownItPluginFiles))
       .pipe(wrap(nextFileTemplate));
 
   return es.merge(typescriptStream, javascriptStream)
@@ -114,6 +114,9 @@ case class EditedSettings(
   showExperimental: Option[Boolean],
   allowEmbeddingFrom: Option[String],
   htmlTagCssClasses: Option[String],
+  reactionEmojis: Option[String],
+  disabledEditorChecks: Option[String],
+  enableQuickReplyBox: Option[Boolean],
   numFlagsToHidePost: Option[Int],
   cooldownMinutesAfterFlaggedHidden: Option[Int],
   numFlagsToBlockNewUser: Option[Int],
@@ -200,6 +203,9 @@ object EditedSettings {
     showExperimental = None,
     allowEmbeddingFrom = None,
     htmlTagCssClasses = None,
+    reactionEmojis = None,
+    disabledEditorChecks = None,
+    enableQuickReplyBox = None,
     numFlagsToHidePost = None,
     cooldownMinutesAfterFlaggedHidden = None,
     numFlagsToBlockNewUser = None,
@@ -273,6 +279,9 @@ case class SettingsToSave(
   showExperimental: Option[Option[Boolean]] = None,
   allowEmbeddingFrom: Option[Option[String]] = None,
   htmlTagCssClasses: Option[Option[String]] = None,
+  reactionEmojis: Option[Option[String]] = None,
+  disabledEditorChecks: Option[Option[String]] = None,
+  enableQuickReplyBox: Option[Option[Boolean]] = None,
   numFlagsToHidePost: Option[Option[Int]] = None,
   cooldownMinutesAfterFlaggedHidden: Option[Option[Int]] = None,
   numFlagsToBlockNewUser: Option[Option[Int]] = None,
@@ -102,7 +102,8 @@ object PageMeta {
         categoryId: Option[CategoryId] = None,
         embeddingUrl: Option[String] = None,
         hidden: Boolean = false,
-        publishDirectly: Boolean = false): PageMeta = {
+        publishDirectly: Boolean = false,
+        scheduledPublishAt: Option[When] = None): PageMeta = {
     var result = PageMeta(
       pageId = pageId,
       pageRole = pageRole,
@@ -110,7 +111,8 @@ object PageMeta {
       createdAt = creationDati,
       plannedAt = plannedAt,
       updatedAt = creationDati,
-      publishedAt = if (publishDirectly) Some(creationDati) else None,
+      publishedAt = if (publishDirectly && scheduledPublishAt.isEmpty) Some(creationDati) else None,
+      scheduledPublishAt = scheduledPublishAt,
       categoryId = categoryId,
       embeddingPageUrl = embeddingUrl,
       authorId = authorId,
@@ -142,6 +144,8 @@ object PageMeta {
   * @param createdAt
   * @param updatedAt
   * @param publishedAt
+  * @param scheduledPublishAt If the page should get published later, by the Janitor.
+  *            Until then, only staff and the author can see it. Cleared when published.
   * @param bumpedAt
   * @param lastReplyAt
   * @param lastReplyById Set to None if there's no reply.
@@ -180,6 +184,7 @@ case class PageMeta(
   createdAt: ju.Date,
   updatedAt: ju.Date,
   publishedAt: Option[ju.Date] = None,
+  scheduledPublishAt: Option[When] = None,
   bumpedAt: Option[ju.Date] = None,
   lastReplyAt: Option[ju.Date] = None,   // could rename to lastApprovedReplyApprovedAt?
   lastReplyById: Option[UserId] = None,  // could rename to lastApprovedReplyById?
@@ -263,12 +268,14 @@ case class PageMeta(
   require((lockedAt.isEmpty && frozenAt.isEmpty) || closedAt.isDefined, "DwE6UMP3")
   require(answeredAt.isEmpty == answerPostUniqueId.isEmpty, "DwE2PYU5")
   require(numChildPages >= 0, s"Page $pageId has $numChildPages child pages [EsE5FG3W02]")
+  require(scheduledPublishAt.isEmpty || publishedAt.isEmpty, "TyE5SCHPUB01")
 
   def isPinned = pinOrder.isDefined
   def isClosed = closedAt.isDefined
   def isVisible = hiddenAt.isEmpty && deletedAt.isEmpty
   def isHidden = hiddenAt.isDefined
   def isDeleted = deletedAt.isDefined
+  def isScheduled = scheduledPublishAt.isDefined
 
   def isGroupTalk = pageRole.isGroupTalk
   def isPrivateGroupTalk = pageRole.isPrivateGroupTalk
@@ -638,6 +645,7 @@ sealed abstract class PageFilterType
 object PageFilterType {
   case object AllTopics extends PageFilterType
   case object WaitingTopics extends PageFilterType
+  case object ScheduledTopics extends PageFilterType  // staff only
   case object ForActivitySummaryEmail extends PageFilterType
 }
 
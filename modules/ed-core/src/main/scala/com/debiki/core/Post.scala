@@ -176,6 +176,9 @@ object PostType {
   // Or ... better? Just add another field to posts3: meta_post_type?
   case object MetaMessage extends PostType(31) { override def placeLast = true }
 
+  /** A normal post, plus a Poll with options people can vote for. */
+  case object Poll extends PostType(41)
+
   // Later:
   // - FormSubmission(21)? Shown only to the page author(s) + admins? Cannot be voted on. Sorted by
   //    date. For FormSubmission pages only.
@@ -190,12 +193,21 @@ object PostType {
     case CommunityWiki.IntValue => CommunityWiki
     case CompletedForm.IntValue => CompletedForm
     case MetaMessage.IntValue => MetaMessage
+    case Poll.IntValue => Poll
     case _ => return None
   })
 }
 
 
 
+/** Identifies the text someone started editing, so the server can reject hens edits,
+  * if someone else has edited the post in the meantime. [5KWB2EC]
+  * The revision nr alone isn't enough — ninja edits don't bump it.
+  */
+case class PostTextVersion(revisionNr: Int, lastEditedAtMs: Option[UnixMillis])
+
+
+
 /** A post is a page title, a page body or a comment.
   * For example, a forum topic title, topic text, or a reply.
   *
@@ -345,6 +357,7 @@ case class Post(
   def isCurrentVersionApproved = approvedRevisionNr == Some(currentRevisionNr)
   def isVisible = isSomeVersionApproved && !isBodyHidden && !isDeleted  // (rename to isActive? isInUse?)
   def isWiki = tyype.isWiki
+  def currentTextVersion = PostTextVersion(currentRevisionNr, currentRevLastEditedAt.map(_.getTime))
 
   def pagePostId = PagePostId(pageId, id)
   def pagePostNr = PagePostNr(pageId, nr)
@@ -414,7 +427,10 @@ case class Post(
     ancestorsClosed: Boolean = false,
     postDeleted: Boolean = false,
     treeDeleted: Boolean = false,
-    ancestorsDeleted: Boolean = false): Post = {
+    ancestorsDeleted: Boolean = false,
+    postUndeleted: Boolean = false,
+    treeUndeleted: Boolean = false,
+    ancestorsUndeleted: Boolean = false): Post = {
 
     var newBodyHiddenAt = bodyHiddenAt
     var newBodyHiddenById = bodyHiddenById
@@ -494,6 +510,25 @@ case class Post(
       newDeletedById = Some(userId)
     }
 
+    // Undeleting clears only the bits for the undeleted post or tree, so a post that's
+    // still in some other deleted tree, stays deleted.
+    val deletes = ancestorsDeleted || postDeleted || treeDeleted
+    val undeletes = ancestorsUndeleted || postUndeleted || treeUndeleted
+    dieIf(deletes && undeletes, "TyE5KWUD20")
+    if (ancestorsUndeleted) {
+      newDeletedUnderlying &= ~AncestorsBit
+    }
+    if (postUndeleted) {
+      newDeletedUnderlying &= ~SelfBit
+    }
+    if (treeUndeleted) {
+      newDeletedUnderlying &= ~TreeBits
+    }
+    if (undeletes && newDeletedUnderlying == 0) {
+      newDeletedAt = None
+      newDeletedById = None
+    }
+
     copy(
       bodyHiddenAt = newBodyHiddenAt,
       bodyHiddenById = newBodyHiddenById,
@@ -61,12 +61,12 @@ object PostStatusAction {
   case object CollapseTree extends PostStatusAction(affectsSuccessors = true)
   case class DeletePost(clearFlags: Boolean) extends PostStatusAction(affectsSuccessors = false)
   case object DeleteTree extends PostStatusAction(affectsSuccessors = true)
-  // UndeletePost extends PostStatusAction(affectsSuccessors = false)  [UNDELPOST]
-  // UndeleteTree extends PostStatusAction(affectsSuccessors = true)?
-  //  — but what about individually deleted posts in the tree? Well, there's
-  // Post.deletedStatus: DeletedStatus, which tells if the post was deleted explicitly,
-  // or implicitly because an ancestor got tree-deleted.  UndoTree = undeletes the post selected,
-  // + all descendants that got tree-deleted.
+  /** Undoes DeletePost. [UNDELPOST] */
+  case object UndeletePost extends PostStatusAction(affectsSuccessors = false)
+  /** Undoes DeleteTree: undeletes the post selected, + all descendants that got deleted
+    * because this tree got deleted — but not posts that were deleted individually,
+    * which Post.deletedStatus tells us. */
+  case object UndeleteTree extends PostStatusAction(affectsSuccessors = true)
 }
 
 
@@ -305,6 +305,22 @@ trait SiteTransaction {
   def filterUploadRefsInUse(uploadRefs: Iterable[UploadRef]): Set[UploadRef]
   def updateUploadQuotaUse(uploadRef: UploadRef, wasAdded: Boolean)
 
+  /** Excludes uploads whose metadata has been deleted. */
+  def loadUploadInfos(uploadRefs: Iterable[UploadRef]): Map[UploadRef, UploadInfo]
+
+  /** Returns the ids of the posts at this site that link to each upload. [5UPLDLIB] */
+  def loadPostIdsLinkingToUploads(uploadRefs: Iterable[UploadRef]): Map[UploadRef, Set[PostId]]
+
+  /** The most recent UploadFile audit log entry per file, by anyone, or by uploadedById. */
+  def loadUploadLogEntriesRecentFirst(uploadedById: Option[UserId], limit: Int)
+        : immutable.Seq[UploadLogEntry]
+
+  /** If the file has been uploaded to this site, by anyone, or by byUserId. */
+  def wasUploadedHere(hashPath: String, byUserId: Option[UserId]): Boolean
+
+  /** Most bytes first. */
+  def loadUploaderStats(baseUrl: String, weekAgo: When): immutable.Seq[UploaderStats]
+
 
   def insertInvite(invite: Invite)
   def updateInvite(invite: Invite): Boolean
@@ -434,6 +450,14 @@ trait SiteTransaction {
   def loadGroupsAsSeq(): immutable.Seq[Group]
   def loadGroupsAsMap(): Map[UserId, Group] = loadGroupsAsSeq().map(g => g.id -> g).toMap
 
+  /** For now, only built-in groups, whose members are decided by trust level and
+    * staff status, the same way as in loadGroupIds(). Later, custom groups too. [7JKC1104]
+    */
+  def loadGroupMembers(groupId: UserId): immutable.Seq[Member]
+
+  /** How many members loadGroupMembers() would load, for each group. */
+  def loadGroupMemberCounts(groupIds: Iterable[UserId]): Map[UserId, Int]
+
   def loadGroupIds(anyUser: Option[User]): Vector[UserId] = {
     anyUser.map(loadGroupIds) getOrElse Vector(Group.EveryoneId)
   }
@@ -549,6 +573,33 @@ trait SiteTransaction {
   def loadPendingPostReviewTask(postId: PostId): Option[ReviewTask]
   def loadUndecidedPostReviewTask(postId: PostId, taskCreatedById: UserId): Option[ReviewTask]
 
+  def nextDraftNr(userId: UserId): DraftNr
+  def upsertDraft(draft: Draft)
+  def deleteDraft(userId: UserId, draftNr: DraftNr): Boolean
+  def loadDraftByNr(userId: UserId, draftNr: DraftNr): Option[Draft]
+  def loadDraftsByLocator(userId: UserId, draftLocator: DraftLocator): immutable.Seq[Draft]
+  def listDraftsRecentlyEditedFirst(userId: UserId, limit: Int): immutable.Seq[Draft]
+
+  def insertPoll(poll: Poll)
+  def loadPollsByPostIds(postIds: Iterable[PostId]): immutable.Seq[Poll]
+  def loadPollVotes(postIds: Iterable[PostId]): immutable.Seq[PollVote]
+  def loadPollVotesByVoterOnPage(voterId: UserId, pageId: PageId): immutable.Seq[PollVote]
+  def insertPollVote(vote: PollVote)
+  def deletePollVotes(postId: PostId, voterId: UserId)
+
+  def insertPostReaction(reaction: PostReaction)
+  def deletePostReaction(postId: PostId, reactorId: UserId, emoji: String): Boolean
+  def loadPostReactions(postIds: Iterable[PostId]): immutable.Seq[PostReaction]
+  def loadPostReactionsOnPage(pageId: PageId): immutable.Seq[PostReaction]
+
+  def nextReplyTemplateId(): ReplyTemplateId
+  def upsertReplyTemplate(template: ReplyTemplate)
+  def deleteReplyTemplate(templateId: ReplyTemplateId): Boolean
+  def loadReplyTemplate(templateId: ReplyTemplateId): Option[ReplyTemplate]
+  /** Site-wide templates, and those owned by ownerId. */
+  def loadReplyTemplatesVisibleTo(ownerId: UserId): immutable.Seq[ReplyTemplate]
+  def countReplyTemplates(): Int
+
   def nextNotificationId(): NotificationId
   def saveDeleteNotifications(notifications: Notifications)
   def updateNotificationSkipEmail(notifications: Seq[Notification])
@@ -103,6 +103,11 @@ trait SystemTransaction {
 
   def loadReviewTaskIdsToExecute(): Map[SiteId, immutable.Seq[ReviewTaskId]]
 
+  // ----- The janitor: Scheduled pages
+
+  /** Pages whose scheduledPublishAt is before `now`. */
+  def loadPageIdsToPublish(now: When): Map[SiteId, immutable.Seq[PageId]]
+
   // ----- Testing
 
   /** Deletes all data from the database. For example, for a RDBMS,
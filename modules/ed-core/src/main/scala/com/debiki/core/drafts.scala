@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.core
+
+import scala.collection.immutable
+
+
+sealed abstract class DraftType(protected val IntValue: Int) { def toInt: Int = IntValue }  // [4WKBU2R]
+
+object DraftType {
+  // Don't change the IntValue:s — they're stored in the database.
+  case object Topic extends DraftType(1)
+  case object DirectMessage extends DraftType(2)
+  case object Edit extends DraftType(3)
+  case object Reply extends DraftType(4)
+
+  def fromInt(value: Int): Option[DraftType] = Some(value match {
+    case Topic.IntValue => Topic
+    case DirectMessage.IntValue => DirectMessage
+    case Edit.IntValue => Edit
+    case Reply.IntValue => Reply
+    case _ => return None
+  })
+}
+
+
+/** Tells what a draft is for, so it can be found and restored, when the editor gets
+  * opened again, for the same thing — e.g. for replying to the same post, or
+  * editing the same post, or creating a new topic in the same category.
+  *
+  * @param categoryId — for new topics. None, for private chats, which aren't
+  *   placed in any category.
+  * @param toUserId — for direct messages.
+  * @param postId — for edits. (Not post nr, in case the post gets moved to another page.)
+  * @param pageId — for replies. And for edits, but then only for linking to the post —
+  *   drafts for edits are looked up by post id only.
+  * @param postNr — for edits, only for linking to the post, see pageId.
+  * @param replyToPostNrs — for replies. Usually just one post nr, or a few, if replying
+  *   to many people at once.
+  */
+case class DraftLocator(
+  draftType: DraftType,
+  categoryId: Option[CategoryId] = None,
+  toUserId: Option[UserId] = None,
+  postId: Option[PostId] = None,
+  pageId: Option[PageId] = None,
+  postNr: Option[PostNr] = None,
+  replyToPostNrs: immutable.Seq[PostNr] = Nil) {
+
+  draftType match {
+    case DraftType.Topic =>
+      require(toUserId.isEmpty && postId.isEmpty && pageId.isEmpty && postNr.isEmpty &&
+        replyToPostNrs.isEmpty, s"Bad new topic draft locator: $this [TyE4WKB20]")
+    case DraftType.DirectMessage =>
+      require(toUserId.isDefined && categoryId.isEmpty && postId.isEmpty && pageId.isEmpty &&
+        postNr.isEmpty && replyToPostNrs.isEmpty,
+        s"Bad direct message draft locator: $this [TyE4WKB21]")
+    case DraftType.Edit =>
+      require(postId.isDefined && categoryId.isEmpty && toUserId.isEmpty &&
+        replyToPostNrs.isEmpty, s"Bad edit draft locator: $this [TyE4WKB22]")
+    case DraftType.Reply =>
+      require(pageId.isDefined && replyToPostNrs.nonEmpty && categoryId.isEmpty &&
+        toUserId.isEmpty && postId.isEmpty && postNr.isEmpty,
+        s"Bad reply draft locator: $this [TyE4WKB23]")
+  }
+
+  /** So [2, 5] and [5, 2] is the same reply draft. */
+  def withSortedPostNrs: DraftLocator = copy(replyToPostNrs = replyToPostNrs.sorted)
+}
+
+
+/** The text and version of a post, when one started editing it. Saved in edit drafts,
+  * so if someone else edits the post, before one continues editing the draft and saves it,
+  * the server notices, and one's edits get merged with theirs. [5KWB2EC]
+  */
+case class DraftEditBase(text: String, version: PostTextVersion)
+
+
+/** Text someone is composing, saved server side every now and then, so it won't get lost
+  * if the browser crashes or if hen navigates away, and so hen can continue
+  * on another device. Deleted, when the text gets posted.
+  *
+  * @param topicType — only for new topics.
+  * @param editBase — only for edits.
+  */
+case class Draft(
+  byUserId: UserId,
+  draftNr: DraftNr,
+  forWhat: DraftLocator,
+  createdAt: When,
+  lastEditedAt: Option[When] = None,
+  topicType: Option[PageRole] = None,
+  editBase: Option[DraftEditBase] = None,
+  title: String,
+  text: String) {
+
+  require(draftNr >= 1 || draftNr == NoDraftNr, "TyE5KWB20")
+  require(lastEditedAt.forall(_.millis >= createdAt.millis), "TyE5KWB21")
+  require(topicType.isEmpty || forWhat.draftType == DraftType.Topic, "TyE5KWB22")
+  require(title.isEmpty || forWhat.draftType == DraftType.Topic ||
+    forWhat.draftType == DraftType.DirectMessage, "TyE5KWB23")
+  require(editBase.isEmpty || forWhat.draftType == DraftType.Edit, "TyE5KWB24")
+
+  def isNew: Boolean = draftNr == NoDraftNr
+  def lastEditedOrCreatedAt: When = lastEditedAt getOrElse createdAt
+}
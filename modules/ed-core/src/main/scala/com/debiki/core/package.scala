@@ -68,6 +68,12 @@ package object core {
 
   type ReviewTaskId = Int
 
+  type DraftNr = Int
+  val NoDraftNr = 0
+
+  type ReplyTemplateId = Int
+  val NoReplyTemplateId = 0
+
   type PermissionId = Int
   val NoPermissionId = 0
   val PermissionAlreadyExistsMinId = 1
@@ -506,6 +512,7 @@ package object core {
           if (lastVisitedAt.isAfter(moreProgress.lastVisitedAt)) lastViewedPostNr
           else moreProgress.lastViewedPostNr,
         lastReadAt = When.anyLatestOf(lastReadAt, moreProgress.lastReadAt),
+        lowPostNrsRead = lowPostNrsRead ++ moreProgress.lowPostNrsRead,
         lastPostNrsReadRecentFirst = (
           // Note: most recently read is stored first, so .distinct keeps those.
           if (moreProgress.lastReadAt.isEmpty) lastPostNrsReadRecentFirst
@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.core
+
+import scala.collection.immutable
+
+
+sealed abstract class PollChoiceType(protected val IntValue: Int) { def toInt: Int = IntValue }  // [7PLCHT2]
+
+object PollChoiceType {
+  // Don't change the IntValue:s — they're stored in the database.
+  case object Single extends PollChoiceType(1)
+  case object Multiple extends PollChoiceType(2)
+
+  def fromInt(value: Int): Option[PollChoiceType] = Some(value match {
+    case Single.IntValue => Single
+    case Multiple.IntValue => Multiple
+    case _ => return None
+  })
+}
+
+
+sealed abstract class PollResultsVisibility(protected val IntValue: Int) {
+  def toInt: Int = IntValue
+}
+
+object PollResultsVisibility {
+  case object Always extends PollResultsVisibility(1)
+  case object AfterVoting extends PollResultsVisibility(2)
+  case object AfterClosed extends PollResultsVisibility(3)
+
+  def fromInt(value: Int): Option[PollResultsVisibility] = Some(value match {
+    case Always.IntValue => Always
+    case AfterVoting.IntValue => AfterVoting
+    case AfterClosed.IntValue => AfterClosed
+    case _ => return None
+  })
+}
+
+
+case class PollOption(nr: Int, text: String) {
+  require(nr >= 1, "TyE5WKBP01")
+  require(text.trim.nonEmpty, "TyE5WKBP02")
+  require(text.length <= Poll.MaxOptionLength, "TyE5WKBP03")
+}
+
+
+/** Options people can vote for, in a post of type PostType.Poll. The question is
+  * the post text.
+  *
+  * @param postId — the poll post.
+  * @param closesAt — after this, no more votes. None means the poll never closes.
+  * @param votersPublic — if false, the voters are anonymous: the server remembers
+  *   who voted, so no one can vote twice, but never shows who voted for what,
+  *   not even to staff.
+  * @param resultsVisibility — if the vote counts are shown to everyone, or only to
+  *   those who have voted, or only after the poll has closed.
+  */
+case class Poll(
+  postId: PostId,
+  choiceType: PollChoiceType,
+  options: immutable.Seq[PollOption],
+  closesAt: Option[When],
+  votersPublic: Boolean,
+  resultsVisibility: PollResultsVisibility) {
+
+  require(options.length >= 2, "TyE5WKBP04")
+  require(options.length <= Poll.MaxOptions, "TyE5WKBP05")
+  require(options.map(_.nr).toSet.size == options.length, "TyE5WKBP06")
+
+  def isClosed(now: When): Boolean = closesAt.exists(_.millis <= now.millis)
+
+  def hasOptionNr(nr: Int): Boolean = options.exists(_.nr == nr)
+
+  /** If the vote counts may be shown to someone who has, or hasn't, voted. */
+  def showResults(now: When, hasVoted: Boolean): Boolean = resultsVisibility match {
+    case PollResultsVisibility.Always => true
+    case PollResultsVisibility.AfterVoting => hasVoted || isClosed(now)
+    case PollResultsVisibility.AfterClosed => isClosed(now)
+  }
+
+  /** If the vote counts may be shown to everyone, e.g. in cached page json. */
+  def showResultsToEveryone(now: When): Boolean = showResults(now, hasVoted = false)
+}
+
+
+object Poll {
+  val MaxOptions = 20
+  val MaxOptionLength = 200
+}
+
+
+/** If voting for many options in a multiple choice poll, there's one PollVote per option.
+  */
+case class PollVote(
+  postId: PostId,
+  voterId: UserId,
+  optionNr: Int,
+  votedAt: When)
+
+
+/** How many have voted for each option, in a poll.
+  */
+case class PollResults(
+  poll: Poll,
+  numVoters: Int,
+  numVotesByOptionNr: Map[Int, Int])
+
+
+object PollResults {
+  def count(poll: Poll, votes: Iterable[PollVote]): PollResults = {
+    val pollVotes = votes.filter(_.postId == poll.postId)
+    PollResults(
+      poll,
+      numVoters = pollVotes.map(_.voterId).toSet.size,
+      numVotesByOptionNr = poll.options.map(option =>
+        option.nr -> pollVotes.count(_.optionNr == option.nr)).toMap)
+  }
+}
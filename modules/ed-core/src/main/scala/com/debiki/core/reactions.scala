@@ -0,0 +1,69 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.core
+
+import scala.collection.immutable
+
+
+/** An emoji reaction to a post, e.g. 🎉. Unlike votes (PostVoteType), reactions
+  * don't affect the post's likeScore, or how the posts get sorted. They're stored
+  * in a table of their own, not counted in the posts table.
+  *
+  * One person can react with many different emojis, to the same post.
+  */
+case class PostReaction(
+  postId: PostId,
+  pageId: PageId,
+  postNr: PostNr,
+  reactorId: UserId,
+  emoji: String,
+  reactedAt: When) {
+
+  require(emoji.nonEmpty, "TyE4WKBR01")
+  require(emoji.length <= PostReaction.MaxEmojiLength, "TyE4WKBR02")
+}
+
+
+object PostReaction {
+
+  /** Emojis can be many chars long — e.g. 👍🏽 is a thumb up emoji, followed by
+    * a skin tone modifier, each one two UTF-16 chars.
+    */
+  val MaxEmojiLength = 16
+
+  val MaxEmojisPerSite = 20
+
+  /** The site setting reactionEmojis is a whitespace separated list of emojis,
+    * e.g. "👍 ❤️ 😄". Empty means reactions are disabled.
+    */
+  def parseEmojiSetting(setting: String): immutable.Seq[String] =
+    setting.split("\\s+").toVector.filter(e => e.nonEmpty && e.length <= MaxEmojiLength)
+      .distinct.take(MaxEmojisPerSite)
+
+  /** Emojis reacted with first, first — so the counters won't jump around when
+    * people react.
+    */
+  def countByEmoji(reactions: Iterable[PostReaction]): immutable.Seq[PostReactionCount] =
+    reactions.toVector.sortBy(_.reactedAt.millis).groupBy(_.emoji).toVector.map({
+      case (emoji, emojiReactions) =>
+        (emojiReactions.head.reactedAt.millis, PostReactionCount(emoji, emojiReactions.size))
+    }).sortBy(_._1).map(_._2)
+}
+
+
+case class PostReactionCount(emoji: String, numReactions: Int)
@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package com.debiki.core
+
+import scala.collection.immutable
+
+
+/** A canned response: text staff insert from the editor, instead of retyping the same
+  * answers to support questions. The text may include placeholders like {{authorName}},
+  * which the browser replaces when inserting the template.
+  *
+  * @param ownerId — None if the template is site-wide, otherwise it's a personal template.
+  * @param categoryId — if defined, the template is listed only when replying in that
+  *   category, or its sub categories. So support templates won't clutter other categories.
+  */
+case class ReplyTemplate(
+  id: ReplyTemplateId,
+  ownerId: Option[UserId],
+  categoryId: Option[CategoryId],
+  title: String,
+  text: String,
+  createdById: UserId,
+  createdAt: When,
+  updatedAt: When) {
+
+  import ReplyTemplate._
+
+  require(id >= 1 || id == NoReplyTemplateId, "TyE5RPLT01")
+  require(title.trim.nonEmpty, "TyE5RPLT02")
+  require(title.length <= MaxTitleLength, "TyE5RPLT03")
+  require(text.trim.nonEmpty, "TyE5RPLT04")
+  require(text.length <= MaxTextLength, "TyE5RPLT05")
+  require(updatedAt.millis >= createdAt.millis, "TyE5RPLT06")
+  require(!categoryId.contains(NoCategoryId), "TyE5RPLT07")
+
+  def isNew: Boolean = id == NoReplyTemplateId
+  def isSiteWide: Boolean = ownerId.isEmpty
+
+  /** @param categoryIdsRootLast — the category one is replying in, and its ancestors.
+    *   Empty, if the page isn't in any category, e.g. a private message.
+    */
+  def isForCategory(categoryIdsRootLast: Seq[CategoryId]): Boolean =
+    categoryId.forall(categoryIdsRootLast.contains)
+}
+
+
+object ReplyTemplate {
+  val MaxTitleLength = 100
+  val MaxTextLength = 10 * 1000
+  val MaxPerSite = 1000
+
+  /** Sync with the client side, [5RPLTPH]. */
+  val Placeholders: immutable.Seq[String] = Vector(
+    "authorName", "authorUsername", "topicTitle", "myName", "myUsername")
+
+  private val PlaceholderRegex = """\{\{\s*(\w+)\s*\}\}""".r
+
+  /** So typos like {{authorname}} get noticed when saving, rather than when
+    * the template is being used.
+    */
+  def findUnknownPlaceholders(text: String): immutable.Seq[String] =
+    PlaceholderRegex.findAllMatchIn(text).map(_.group(1)).filterNot(Placeholders.contains)
+      .toVector.distinct
+}
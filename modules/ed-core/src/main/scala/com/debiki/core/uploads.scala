@@ -42,3 +42,39 @@ case class UploadRef(
 
 case class UploadInfo(sizeBytes: Int, mimeType: String, numReferences: Int)
 
+
+
+/** A file someone uploaded to a site, and the posts at that site that link to it.
+  * So people can see, reuse and delete their uploads. [5UPLDLIB]
+  *
+  * @param isInUse if the file is referenced from any post or avatar, at any site —
+  *   then it may not be deleted.
+  */
+case class UploadedFile(
+  ref: UploadRef,
+  fileName: String,
+  sizeBytes: Int,
+  mimeType: String,
+  uploadedById: UserId,
+  uploadedAt: When,
+  linkedFromPostIds: Set[PostId],
+  isInUse: Boolean)
+
+
+/** Who uploaded a file to a site, and when — from the UploadFile audit log entries.
+  *
+  * @param hashPath e.g. '1/o/cy/wddssa4xpzugiaego7seuyurxvgef5.jpg'
+  */
+case class UploadLogEntry(
+  hashPath: String,
+  fileName: Option[String],
+  uploadedById: UserId,
+  uploadedAt: When)
+
+
+/** How much someone has uploaded, for the admin area. */
+case class UploaderStats(
+  userId: UserId,
+  numFiles: Int,
+  numBytes: Long,
+  numBytesLastWeek: Long)
@@ -924,7 +924,8 @@ case class AboutGroupPrefs(
   fullName: Option[String],
   username: String,
   summaryEmailIntervalMins: Option[Int],
-  summaryEmailIfActive: Option[Boolean]) {
+  summaryEmailIfActive: Option[Boolean],
+  mayMentionMeTrustLevel: Option[TrustLevel] = None) {
 
   require(!fullName.exists(_.trim.isEmpty), "EdE05KFB521")
   require(groupId >= User.LowestNonGuestId, "DwE56KX2")
@@ -990,6 +991,9 @@ object UnknownUser extends User {
 
 /** Groups have a username but no trust level. Members have username and trust level. [8KPG2W5]
   * A group can, however, auto-grant trust level 'grantsTrustLevel' to all its members.
+  *
+  * @param mayMentionMeTrustLevel — members with at least this trust level may @mention
+  *  the group, which notifies all group members. If None, only staff may. [5GRPMNT]
   */
 case class Group(
   id: UserId,
@@ -999,7 +1003,8 @@ case class Group(
   smallAvatar: Option[UploadRef] = None,
   summaryEmailIntervalMins: Option[Int] = None,
   summaryEmailIfActive: Option[Boolean] = None,
-  grantsTrustLevel: Option[TrustLevel] = None)
+  grantsTrustLevel: Option[TrustLevel] = None,
+  mayMentionMeTrustLevel: Option[TrustLevel] = None)
   extends User with MemberOrGroupInclDetails {  // COULD split into two? One without, one with details
 
   def email: String = ""
@@ -1024,20 +1029,25 @@ case class Group(
   override def anyName: Option[String] = Some(name)  // [50UKQV1]
   override def anyUsername: Option[String] = Some(theUsername)
 
+  def mayBeMentionedBy(member: Member): Boolean =
+    member.isStaff || mayMentionMeTrustLevel.exists(member.isStaffOrMinTrustNotThreat)
+
   def preferences: AboutGroupPrefs =
     AboutGroupPrefs(
       groupId = id,
       fullName = anyName,
       username = theUsername,
       summaryEmailIntervalMins = summaryEmailIntervalMins,
-      summaryEmailIfActive = summaryEmailIfActive)
+      summaryEmailIfActive = summaryEmailIfActive,
+      mayMentionMeTrustLevel = mayMentionMeTrustLevel)
 
   def copyWithNewAboutPrefs(preferences: AboutGroupPrefs): Group =
     copy(
       name = preferences.fullName getOrDie "EdE46KWFTAR1", // currently always Some, see [50UKQV1]
       theUsername = preferences.username,
       summaryEmailIntervalMins = preferences.summaryEmailIntervalMins,
-      summaryEmailIfActive = preferences.summaryEmailIfActive)
+      summaryEmailIfActive = preferences.summaryEmailIfActive,
+      mayMentionMeTrustLevel = preferences.mayMentionMeTrustLevel)
 
 }
 
@@ -0,0 +1,124 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.core
+
+import org.scalatest._
+
+
+class DraftSpec extends FreeSpec with MustMatchers {
+
+  val replyLocator = DraftLocator(DraftType.Reply, pageId = Some("123"),
+    replyToPostNrs = Vector(5, 2))
+
+  "DraftType can" - {
+    "convert to and from ints" in {
+      for (draftType <- Seq(DraftType.Topic, DraftType.DirectMessage, DraftType.Edit,
+          DraftType.Reply)) {
+        DraftType.fromInt(draftType.toInt) mustBe Some(draftType)
+      }
+      DraftType.fromInt(0) mustBe None
+      DraftType.fromInt(5) mustBe None
+    }
+  }
+
+  "DraftLocator can" - {
+    "sort reply-to post nrs" in {
+      replyLocator.withSortedPostNrs.replyToPostNrs mustBe Vector(2, 5)
+      replyLocator.withSortedPostNrs mustBe replyLocator.copy(replyToPostNrs = Vector(2, 5))
+    }
+
+    "reject fields that don't apply to the draft type" in {
+      an [IllegalArgumentException] must be thrownBy {
+        DraftLocator(DraftType.Topic, categoryId = Some(1), pageId = Some("123"))
+      }
+      an [IllegalArgumentException] must be thrownBy {
+        DraftLocator(DraftType.DirectMessage, toUserId = Some(100), categoryId = Some(1))
+      }
+      an [IllegalArgumentException] must be thrownBy {
+        DraftLocator(DraftType.Edit, postId = Some(1), replyToPostNrs = Vector(1))
+      }
+      an [IllegalArgumentException] must be thrownBy {
+        DraftLocator(DraftType.Reply, pageId = Some("123"), replyToPostNrs = Vector(1),
+          postId = Some(1))
+      }
+    }
+
+    "reject missing fields" in {
+      an [IllegalArgumentException] must be thrownBy DraftLocator(DraftType.DirectMessage)
+      an [IllegalArgumentException] must be thrownBy DraftLocator(DraftType.Edit)
+      an [IllegalArgumentException] must be thrownBy {
+        DraftLocator(DraftType.Reply, pageId = Some("123"))
+      }
+      an [IllegalArgumentException] must be thrownBy {
+        DraftLocator(DraftType.Reply, replyToPostNrs = Vector(1))
+      }
+    }
+  }
+
+  "Draft can" - {
+    val now = When.fromMillis(1000 * 1000)
+
+    "be new or saved" in {
+      val draft = Draft(100, NoDraftNr, replyLocator, createdAt = now, title = "", text = "Hi")
+      draft.isNew mustBe true
+      draft.copy(draftNr = 1).isNew mustBe false
+    }
+
+    "tell when last edited" in {
+      val draft = Draft(100, 1, replyLocator, createdAt = now, title = "", text = "Hi")
+      draft.lastEditedOrCreatedAt mustBe now
+      val later = When.fromMillis(now.millis + 10)
+      draft.copy(lastEditedAt = Some(later)).lastEditedOrCreatedAt mustBe later
+    }
+
+    "reject bad draft nrs and edit times" in {
+      an [IllegalArgumentException] must be thrownBy {
+        Draft(100, -1, replyLocator, createdAt = now, title = "", text = "Hi")
+      }
+      an [IllegalArgumentException] must be thrownBy {
+        Draft(100, 1, replyLocator, createdAt = now, lastEditedAt = Some(now.minusMillis(1)),
+          title = "", text = "Hi")
+      }
+    }
+
+    "have an edit base only if for an edit" in {
+      val editLocator = DraftLocator(DraftType.Edit, postId = Some(1))
+      val editBase = DraftEditBase("Old text", PostTextVersion(2, lastEditedAtMs = Some(1000)))
+      Draft(100, 1, editLocator, createdAt = now, editBase = Some(editBase),
+        title = "", text = "New text").editBase mustBe Some(editBase)
+      an [IllegalArgumentException] must be thrownBy {
+        Draft(100, 1, replyLocator, createdAt = now, editBase = Some(editBase),
+          title = "", text = "Hi")
+      }
+    }
+
+    "have titles and topic types only if for a new topic or message" in {
+      val topicLocator = DraftLocator(DraftType.Topic, categoryId = Some(1))
+      Draft(100, 1, topicLocator, createdAt = now, topicType = Some(PageRole.Question),
+        title = "Title", text = "Hi").title mustBe "Title"
+      an [IllegalArgumentException] must be thrownBy {
+        Draft(100, 1, replyLocator, createdAt = now, title = "Title", text = "Hi")
+      }
+      an [IllegalArgumentException] must be thrownBy {
+        Draft(100, 1, replyLocator, createdAt = now, topicType = Some(PageRole.Question),
+          title = "", text = "Hi")
+      }
+    }
+  }
+
+}
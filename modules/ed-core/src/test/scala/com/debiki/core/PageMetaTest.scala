@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package com.debiki.core
+
+import java.{util => ju}
+import org.scalatest._
+
+
+class PageMetaTest extends FreeSpec with MustMatchers {
+
+  val createdAt = new ju.Date(1000)
+
+  "PageMeta.forNewPage can" - {
+
+    "publish directly" in {
+      val meta = PageMeta.forNewPage("pageId", PageRole.Discussion, authorId = 100, createdAt,
+        numPostsTotal = 2, publishDirectly = true)
+      meta.publishedAt mustBe Some(createdAt)
+      meta.isScheduled mustBe false
+      meta.status mustBe PageStatus.Published
+    }
+
+    "schedule a page, to get published later" in {
+      val publishAt = When.fromMillis(5000)
+      val meta = PageMeta.forNewPage("pageId", PageRole.Discussion, authorId = 100, createdAt,
+        numPostsTotal = 2, publishDirectly = true, scheduledPublishAt = Some(publishAt))
+      meta.publishedAt mustBe None
+      meta.scheduledPublishAt mustBe Some(publishAt)
+      meta.isScheduled mustBe true
+      meta.status mustBe PageStatus.Draft
+    }
+  }
+
+  "PageMeta won't" - {
+    "be both scheduled and published" in {
+      val meta = PageMeta.forNewPage("pageId", PageRole.Discussion, authorId = 100, createdAt,
+        numPostsTotal = 2, publishDirectly = true)
+      intercept[IllegalArgumentException] {
+        meta.copy(scheduledPublishAt = Some(When.fromMillis(5000)))
+      }.getMessage must include("TyE5SCHPUB01")
+    }
+  }
+
+}
@@ -0,0 +1,71 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package com.debiki.core
+
+import org.scalatest._
+
+
+class PollTest extends FreeSpec with MustMatchers {
+
+  def makePoll(resultsVisibility: PollResultsVisibility, closesAtMs: Option[Long] = None) = Poll(
+    postId = 100,
+    choiceType = PollChoiceType.Multiple,
+    options = Vector(PollOption(1, "Apples"), PollOption(2, "Pears"), PollOption(3, "Plums")),
+    closesAt = closesAtMs.map(When.fromMillis),
+    votersPublic = false,
+    resultsVisibility = resultsVisibility)
+
+
+  "Poll can" - {
+
+    "know when it's closed" in {
+      val poll = makePoll(PollResultsVisibility.Always, closesAtMs = Some(2000))
+      poll.isClosed(When.fromMillis(1999)) mustBe false
+      poll.isClosed(When.fromMillis(2000)) mustBe true
+      makePoll(PollResultsVisibility.Always).isClosed(When.fromMillis(9999)) mustBe false
+    }
+
+    "show results only after voting" in {
+      val poll = makePoll(PollResultsVisibility.AfterVoting, closesAtMs = Some(2000))
+      val beforeClose = When.fromMillis(1000)
+      poll.showResults(beforeClose, hasVoted = false) mustBe false
+      poll.showResults(beforeClose, hasVoted = true) mustBe true
+      poll.showResultsToEveryone(When.fromMillis(3000)) mustBe true
+    }
+
+    "show results only after closed" in {
+      val poll = makePoll(PollResultsVisibility.AfterClosed, closesAtMs = Some(2000))
+      poll.showResults(When.fromMillis(1000), hasVoted = true) mustBe false
+      poll.showResultsToEveryone(When.fromMillis(3000)) mustBe true
+    }
+
+    "count votes" in {
+      val poll = makePoll(PollResultsVisibility.Always)
+      val votes = Seq(
+        PollVote(postId = 100, voterId = 10, optionNr = 1, votedAt = When.fromMillis(0)),
+        PollVote(postId = 100, voterId = 10, optionNr = 3, votedAt = When.fromMillis(0)),
+        PollVote(postId = 100, voterId = 11, optionNr = 3, votedAt = When.fromMillis(0)),
+        PollVote(postId = 999, voterId = 12, optionNr = 2, votedAt = When.fromMillis(0)))
+      val results = PollResults.count(poll, votes)
+      results.numVoters mustBe 2
+      results.numVotesByOptionNr mustBe Map(1 -> 1, 2 -> 0, 3 -> 2)
+    }
+  }
+
+}
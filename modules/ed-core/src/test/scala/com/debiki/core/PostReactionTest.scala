@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package com.debiki.core
+
+import org.scalatest._
+
+
+class PostReactionTest extends FreeSpec with MustMatchers {
+
+  def makeReaction(reactorId: UserId, emoji: String, atMs: Long) = PostReaction(
+    postId = 100, pageId = "pg1", postNr = 2, reactorId = reactorId, emoji = emoji,
+    reactedAt = When.fromMillis(atMs))
+
+
+  "PostReaction can" - {
+
+    "parse the emoji setting" in {
+      PostReaction.parseEmojiSetting("") mustBe Nil
+      PostReaction.parseEmojiSetting("  👍  ❤️\n😄 👍 ") mustBe Vector("👍", "❤️", "😄")
+    }
+
+    "count reactions, first reacted emoji first" in {
+      val reactions = Seq(
+        makeReaction(10, "😄", atMs = 3000),
+        makeReaction(11, "👍", atMs = 2000),
+        makeReaction(10, "👍", atMs = 1000),
+        makeReaction(12, "😄", atMs = 4000))
+      PostReaction.countByEmoji(reactions) mustBe Vector(
+        PostReactionCount("👍", 2),
+        PostReactionCount("😄", 2))
+      PostReaction.countByEmoji(Nil) mustBe Nil
+    }
+  }
+
+}
@@ -165,6 +165,36 @@ class ReadingProgressTest extends FreeSpec with MustMatchers {
         parse(Array[Byte](-128, 0, (1 + 2 + 4 - 128).toByte, 0, 0)) mustBe Set(8, 17, 18, 19, 24)
       }
     }
+
+    "add more progress" - {
+      def progress(lowPostNrs: Set[PostNr], lastPostNrs: Vector[PostNr], atMs: Long) =
+        ReadingProgress(
+          firstVisitedAt = When.fromMillis(atMs),
+          lastVisitedAt = When.fromMillis(atMs),
+          lastViewedPostNr = 1,
+          lastReadAt = Some(When.fromMillis(atMs)),
+          lastPostNrsReadRecentFirst = lastPostNrs,
+          lowPostNrsRead = lowPostNrs,
+          secondsReading = 10)
+
+      "merges low post nrs read, e.g. on different devices" in {
+        val oldProgress = progress(Set(1, 2, 5), Vector.empty, atMs = 1000)
+        val moreProgress = progress(Set(2, 3), Vector.empty, atMs = 2000)
+        val merged = oldProgress.addMore(moreProgress)
+        merged.lowPostNrsRead mustBe Set(1, 2, 3, 5)
+        merged.secondsReading mustBe 20
+        merged.firstVisitedAt mustBe When.fromMillis(1000)
+        merged.lastReadAt mustBe Some(When.fromMillis(2000))
+      }
+
+      "keeps the most recently read high post nrs first" in {
+        val oldProgress = progress(Set.empty, Vector(601, 600), atMs = 1000)
+        val moreProgress = progress(Set(1), Vector(700, 600), atMs = 2000)
+        val merged = oldProgress.addMore(moreProgress)
+        merged.lowPostNrsRead mustBe Set(1)
+        merged.lastPostNrsReadRecentFirst mustBe Vector(700, 600, 601)
+      }
+    }
   }
 
 }
@@ -0,0 +1,50 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+
+package com.debiki.core
+
+import org.scalatest._
+
+
+class ReplyTemplateTest extends FreeSpec with MustMatchers {
+
+  def makeTemplate(categoryId: Option[CategoryId]) = ReplyTemplate(
+    id = 1, ownerId = None, categoryId = categoryId, title = "Title", text = "Text",
+    createdById = 10, createdAt = When.fromMillis(1000), updatedAt = When.fromMillis(1000))
+
+
+  "ReplyTemplate can" - {
+
+    "find unknown placeholders" in {
+      ReplyTemplate.findUnknownPlaceholders("Hi {{authorName}}, re {{ topicTitle }}") mustBe Nil
+      ReplyTemplate.findUnknownPlaceholders("Hi {{authorname}} {{x}} {{x}}") mustBe Vector(
+        "authorname", "x")
+      ReplyTemplate.findUnknownPlaceholders("Hi {authorName} {{ }}") mustBe Nil
+    }
+
+    "tell if it's for a category" in {
+      makeTemplate(categoryId = None).isForCategory(Nil) mustBe true
+      makeTemplate(categoryId = None).isForCategory(Seq(3, 1)) mustBe true
+      makeTemplate(categoryId = Some(3)).isForCategory(Seq(3, 1)) mustBe true
+      makeTemplate(categoryId = Some(1)).isForCategory(Seq(3, 1)) mustBe true
+      makeTemplate(categoryId = Some(2)).isForCategory(Seq(3, 1)) mustBe false
+      makeTemplate(categoryId = Some(2)).isForCategory(Nil) mustBe false
+    }
+  }
+
+}
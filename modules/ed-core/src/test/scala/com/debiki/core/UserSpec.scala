@@ -252,4 +252,35 @@ class UserSpec extends FreeSpec with MustMatchers {
 
   }
 
+
+  "Group can" - {
+
+    "know who may mention it" - {
+      val member = Member(id = 100, fullName = None, theUsername = "mem_ber", email = "",
+        emailNotfPrefs = EmailNotfPrefs.Receive, isApproved = None, suspendedTill = None,
+        trustLevel = TrustLevel.FullMember)
+      val moderator = member.copy(id = 101, theUsername = "mod", isModerator = true)
+      val threat = member.copy(id = 102, theUsername = "threat", threatLevel = ThreatLevel.MildThreat)
+      val group = Group(Group.CoreMembersId, "core_members", "Core Members")
+
+      "by default, only staff" in {
+        group.mayBeMentionedBy(moderator) mustBe true
+        group.mayBeMentionedBy(member) mustBe false
+      }
+
+      "members with high enough trust level" in {
+        val byFull = group.copy(mayMentionMeTrustLevel = Some(TrustLevel.FullMember))
+        byFull.mayBeMentionedBy(member) mustBe true
+        val byTrusted = group.copy(mayMentionMeTrustLevel = Some(TrustLevel.TrustedMember))
+        byTrusted.mayBeMentionedBy(member) mustBe false
+        byTrusted.mayBeMentionedBy(moderator) mustBe true
+      }
+
+      "but not threats" in {
+        val byNew = group.copy(mayMentionMeTrustLevel = Some(TrustLevel.NewMember))
+        byNew.mayBeMentionedBy(threat) mustBe false
+      }
+    }
+  }
+
 }
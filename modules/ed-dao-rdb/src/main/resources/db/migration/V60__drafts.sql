@@ -0,0 +1,51 @@
+
+-- Text people are composing, autosaved, so it won't get lost. [7WKBU20]
+create table drafts3 (
+  site_id int not null,
+  by_user_id int not null,
+  draft_nr int not null,
+  draft_type smallint not null,
+  created_at timestamp not null,
+  last_edited_at timestamp,
+  -- The DraftLocator: which fields are set, depends on the draft type.
+  category_id int,
+  to_user_id int,
+  post_id int,
+  page_id varchar,
+  post_nr int,
+  -- Sorted, comma separated, e.g. '2,5' — so can be compared with '='.
+  reply_to_post_nrs varchar,
+  topic_type smallint,
+  title varchar not null,
+  text varchar not null,
+
+  constraint drafts_byuser_nr_p primary key (site_id, by_user_id, draft_nr),
+
+  constraint drafts_byuser_r_users foreign key (site_id, by_user_id)
+    references users3 (site_id, user_id) deferrable,
+
+  constraint drafts_c_nr_gte_1 check (draft_nr >= 1),
+  constraint drafts_c_type_in check (draft_type between 1 and 4),
+  constraint drafts_c_lastedited_gte_created check (last_edited_at >= created_at),
+  constraint drafts_c_replytonrs_fmt check (reply_to_post_nrs ~ '^[0-9]+(,[0-9]+)*$'),
+  -- A new topic: only a category. A direct message: only a recipient.
+  -- An edit: the post id. A reply: the page and the reply-to post nrs.
+  constraint drafts_c_locator check (
+    (draft_type = 1 and to_user_id is null and post_id is null and page_id is null
+      and post_nr is null and reply_to_post_nrs is null) or
+    (draft_type = 2 and to_user_id is not null and category_id is null and post_id is null
+      and page_id is null and post_nr is null and reply_to_post_nrs is null) or
+    (draft_type = 3 and post_id is not null and category_id is null and to_user_id is null
+      and reply_to_post_nrs is null) or
+    (draft_type = 4 and page_id is not null and reply_to_post_nrs is not null
+      and category_id is null and to_user_id is null and post_id is null and post_nr is null)),
+  constraint drafts_c_topictype_for_topics check (topic_type is null or draft_type = 1),
+  constraint drafts_c_title_len check (length(title) <= 200),
+  constraint drafts_c_text_len check (length(text) <= 200000)
+);
+
+create index drafts_byuser_editedat_i on drafts3 (
+  site_id, by_user_id, coalesce(last_edited_at, created_at));
+
+create index drafts_byuser_type_i on drafts3 (site_id, by_user_id, draft_type);
+
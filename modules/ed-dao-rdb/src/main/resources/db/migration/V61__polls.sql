@@ -0,0 +1,57 @@
+
+-- Polls, in posts of type Poll (41). The question is the post text. [7PLCHT2]
+create table polls3 (
+  site_id int not null,
+  post_id int not null,
+  choice_type smallint not null,
+  closes_at timestamp,
+  voters_public boolean not null,
+  results_visibility smallint not null,
+
+  constraint polls_p_postid primary key (site_id, post_id),
+
+  constraint polls_r_posts foreign key (site_id, post_id)
+    references posts3 (site_id, unique_post_id) deferrable,
+
+  constraint polls_c_choicetype_in check (choice_type between 1 and 2),
+  constraint polls_c_resultsvisibility_in check (results_visibility between 1 and 3),
+  -- Otherwise the results would never be shown.
+  constraint polls_c_afterclosed_closes check (results_visibility <> 3 or closes_at is not null)
+);
+
+
+create table poll_options3 (
+  site_id int not null,
+  post_id int not null,
+  option_nr int not null,
+  text varchar not null,
+
+  constraint polloptions_p_postid_nr primary key (site_id, post_id, option_nr),
+
+  constraint polloptions_r_polls foreign key (site_id, post_id)
+    references polls3 (site_id, post_id) deferrable,
+
+  constraint polloptions_c_nr_gte_1 check (option_nr >= 1),
+  constraint polloptions_c_text_len check (length(trim(text)) between 1 and 200)
+);
+
+
+-- One row per option voted for, so, in multiple choice polls, many rows per voter.
+create table poll_votes3 (
+  site_id int not null,
+  post_id int not null,
+  voter_id int not null,
+  option_nr int not null,
+  voted_at timestamp not null,
+
+  constraint pollvotes_p_postid_voter_nr primary key (site_id, post_id, voter_id, option_nr),
+
+  constraint pollvotes_r_polloptions foreign key (site_id, post_id, option_nr)
+    references poll_options3 (site_id, post_id, option_nr) deferrable,
+
+  constraint pollvotes_r_users foreign key (site_id, voter_id)
+    references users3 (site_id, user_id) deferrable
+);
+
+create index pollvotes_voter_i on poll_votes3 (site_id, voter_id);
+
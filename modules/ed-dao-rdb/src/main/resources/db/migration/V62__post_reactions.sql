@@ -0,0 +1,31 @@
+
+-- Emoji reactions. Not votes — they don't affect the likeScore. [5WKBR20]
+create table post_reactions3 (
+  site_id int not null,
+  post_id int not null,
+  page_id varchar not null,
+  post_nr int not null,
+  reactor_id int not null,
+  emoji varchar not null,
+  reacted_at timestamp not null,
+
+  constraint postreactions_p_postid_reactor_emoji primary key (
+    site_id, post_id, reactor_id, emoji),
+
+  constraint postreactions_r_posts foreign key (site_id, post_id)
+    references posts3 (site_id, unique_post_id) deferrable,
+
+  constraint postreactions_r_users foreign key (site_id, reactor_id)
+    references users3 (site_id, user_id) deferrable,
+
+  constraint postreactions_c_emoji_len check (length(emoji) between 1 and 16)
+);
+
+create index postreactions_page_i on post_reactions3 (site_id, page_id);
+
+
+-- Whitespace separated emojis, e.g. '👍 ❤️ 😄'. Empty means reactions are disabled.
+alter table settings3 add column reaction_emojis varchar;
+alter table settings3 add constraint settings_c_reactionemojis_len check (
+  length(reaction_emojis) <= 400);
+
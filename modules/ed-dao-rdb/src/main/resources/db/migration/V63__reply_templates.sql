@@ -0,0 +1,34 @@
+
+-- Canned responses, for staff. No owner means site-wide.
+create table reply_templates3 (
+  site_id int not null,
+  id int not null,
+  owner_id int,
+  category_id int,
+  title varchar not null,
+  text varchar not null,
+  created_by_id int not null,
+  created_at timestamp not null,
+  updated_at timestamp not null,
+
+  constraint replytemplates_p_id primary key (site_id, id),
+
+  constraint replytemplates_owner_r_users foreign key (site_id, owner_id)
+    references users3 (site_id, user_id) deferrable,
+
+  constraint replytemplates_createdby_r_users foreign key (site_id, created_by_id)
+    references users3 (site_id, user_id) deferrable,
+
+  constraint replytemplates_r_categories foreign key (site_id, category_id)
+    references categories3 (site_id, id) deferrable,
+
+  constraint replytemplates_c_id_gte_1 check (id >= 1),
+  constraint replytemplates_c_title_len check (length(trim(title)) between 1 and 100),
+  constraint replytemplates_c_text_len check (length(trim(text)) between 1 and 10000),
+  constraint replytemplates_c_updated_gte_created check (updated_at >= created_at)
+);
+
+create index replytemplates_owner_i on reply_templates3 (site_id, owner_id);
+create index replytemplates_createdby_i on reply_templates3 (site_id, created_by_id);
+create index replytemplates_category_i on reply_templates3 (site_id, category_id);
+
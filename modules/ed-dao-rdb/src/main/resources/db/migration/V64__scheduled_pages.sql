@@ -0,0 +1,11 @@
+
+-- Pages the Janitor publishes later. Null if published already, or not scheduled.
+alter table pages3 add column scheduled_publish_at timestamp;
+
+alter table pages3 add constraint pages_c_scheduled_not_published check (
+  scheduled_publish_at is null or published_at is null);
+
+-- So the Janitor can quickly find pages to publish.
+create index pages_scheduledpublishat_i on pages3 (scheduled_publish_at)
+  where scheduled_publish_at is not null;
+
@@ -0,0 +1,10 @@
+
+-- Members with at least this trust level may @mention the group. Null means staff only.
+alter table users3 add column may_mention_me_trust_level smallint;
+
+alter table users3 add constraint users_c_maymentionme_trustlevel_in check (
+  may_mention_me_trust_level between 1 and 6);
+
+alter table users3 add constraint users_c_maymentionme_groups_only check (
+  may_mention_me_trust_level is null or is_group);
+
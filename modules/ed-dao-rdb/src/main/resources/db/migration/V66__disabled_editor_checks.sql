@@ -0,0 +1,6 @@
+
+-- Whitespace separated ids of editor pre-submit checks that are turned off. [5EDCHKS]
+alter table settings3 add column disabled_editor_checks varchar;
+alter table settings3 add constraint settings_c_disablededitorchecks_len check (
+  length(disabled_editor_checks) <= 1000);
+
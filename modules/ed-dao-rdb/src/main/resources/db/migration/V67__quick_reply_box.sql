@@ -0,0 +1,4 @@
+
+-- Shows a small reply box below the last post, for replying without opening the editor. [4QKRPLY]
+alter table settings3 add column enable_quick_reply_box boolean;
+
@@ -0,0 +1,16 @@
+
+-- For edit drafts: the text and version one started editing, so edits restored from
+-- a draft can be merged with others' edits, instead of overwriting them. [5KWB2EC]
+alter table drafts3 add column edit_base_text varchar;
+alter table drafts3 add column edit_base_rev_nr int;
+alter table drafts3 add column edit_base_rev_edited_at timestamp;
+
+alter table drafts3 add constraint drafts_c_editbase_for_edits check (
+  edit_base_text is null or draft_type = 3);
+alter table drafts3 add constraint drafts_c_editbase_text_revnr_null check (
+  (edit_base_text is null) = (edit_base_rev_nr is null));
+alter table drafts3 add constraint drafts_c_editbase_editedat_null check (
+  edit_base_rev_edited_at is null or edit_base_rev_nr is not null);
+alter table drafts3 add constraint drafts_c_editbase_text_len check (
+  length(edit_base_text) <= 200000);
+
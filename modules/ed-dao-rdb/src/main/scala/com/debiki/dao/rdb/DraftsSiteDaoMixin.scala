@@ -0,0 +1,198 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import com.debiki.core.Prelude._
+import java.{sql => js}
+import scala.collection.immutable
+import Rdb._
+import RdbUtil._
+
+
+/** Loads and saves Draft:s, in drafts3. [7WKBU20]
+  */
+trait DraftsSiteDaoMixin extends SiteTransaction {
+  self: RdbSiteTransaction =>
+
+
+  override def nextDraftNr(userId: UserId): DraftNr = {
+    val query = """
+      -- can use pk index
+      select max(draft_nr) max_nr from drafts3 where site_id = ? and by_user_id = ?
+      """
+    runQueryFindExactlyOne(query, List(siteId.asAnyRef, userId.asAnyRef), rs => {
+      val maxNr = rs.getInt("max_nr") // null becomes 0, fine
+      maxNr + 1
+    })
+  }
+
+
+  override def upsertDraft(draft: Draft) {
+    val locator = draft.forWhat
+    val statement = s"""
+      insert into drafts3 (
+        site_id,
+        by_user_id,
+        draft_nr,
+        draft_type,
+        created_at,
+        last_edited_at,
+        category_id,
+        to_user_id,
+        post_id,
+        page_id,
+        post_nr,
+        reply_to_post_nrs,
+        topic_type,
+        edit_base_text,
+        edit_base_rev_nr,
+        edit_base_rev_edited_at,
+        title,
+        text)
+      values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      on conflict (site_id, by_user_id, draft_nr)
+      do update set
+        draft_type = excluded.draft_type,
+        last_edited_at = excluded.last_edited_at,
+        category_id = excluded.category_id,
+        to_user_id = excluded.to_user_id,
+        post_id = excluded.post_id,
+        page_id = excluded.page_id,
+        post_nr = excluded.post_nr,
+        reply_to_post_nrs = excluded.reply_to_post_nrs,
+        topic_type = excluded.topic_type,
+        edit_base_text = excluded.edit_base_text,
+        edit_base_rev_nr = excluded.edit_base_rev_nr,
+        edit_base_rev_edited_at = excluded.edit_base_rev_edited_at,
+        title = excluded.title,
+        text = excluded.text
+      """
+    val values = List(
+      siteId.asAnyRef,
+      draft.byUserId.asAnyRef,
+      draft.draftNr.asAnyRef,
+      locator.draftType.toInt.asAnyRef,
+      draft.createdAt.asTimestamp,
+      draft.lastEditedAt.orNullTimestamp,
+      locator.categoryId.orNullInt,
+      locator.toUserId.orNullInt,
+      locator.postId.orNullInt,
+      locator.pageId.orNullVarchar,
+      locator.postNr.orNullInt,
+      replyToPostNrsToString(locator.replyToPostNrs).orNullVarchar,
+      draft.topicType.map(_.toInt).orNullInt,
+      draft.editBase.map(_.text).orNullVarchar,
+      draft.editBase.map(_.version.revisionNr).orNullInt,
+      draft.editBase.flatMap(_.version.lastEditedAtMs).map(When.fromMillis).orNullTimestamp,
+      draft.title,
+      draft.text)
+    runUpdateSingleRow(statement, values)
+  }
+
+
+  override def deleteDraft(userId: UserId, draftNr: DraftNr): Boolean = {
+    val statement = """
+      delete from drafts3 where site_id = ? and by_user_id = ? and draft_nr = ?
+      """
+    runUpdateSingleRow(statement, List(siteId.asAnyRef, userId.asAnyRef, draftNr.asAnyRef))
+  }
+
+
+  override def loadDraftByNr(userId: UserId, draftNr: DraftNr): Option[Draft] = {
+    val query = """
+      select * from drafts3 where site_id = ? and by_user_id = ? and draft_nr = ?
+      """
+    runQueryFindOneOrNone(query, List(siteId.asAnyRef, userId.asAnyRef, draftNr.asAnyRef),
+      parseDraft)
+  }
+
+
+  override def loadDraftsByLocator(userId: UserId, locator: DraftLocator)
+        : immutable.Seq[Draft] = {
+    val values = List(siteId.asAnyRef, userId.asAnyRef, locator.draftType.toInt.asAnyRef)
+    // Look up drafts for edits by post id only, in case the post got moved to another page.
+    val (andLocatorMatches, locatorValues) = locator.draftType match {
+      case DraftType.Topic =>
+        locator.categoryId match {
+          case Some(categoryId) => ("and category_id = ?", List(categoryId.asAnyRef))
+          case None => ("and category_id is null", Nil)
+        }
+      case DraftType.DirectMessage =>
+        ("and to_user_id = ?", List(locator.toUserId.getOrDie("TyE5KWB40").asAnyRef))
+      case DraftType.Edit =>
+        ("and post_id = ?", List(locator.postId.getOrDie("TyE5KWB41").asAnyRef))
+      case DraftType.Reply =>
+        ("and page_id = ? and reply_to_post_nrs = ?", List(
+          locator.pageId.getOrDie("TyE5KWB42"),
+          replyToPostNrsToString(locator.replyToPostNrs).getOrDie("TyE5KWB43")))
+    }
+    val query = s"""
+      select * from drafts3
+      where site_id = ? and by_user_id = ? and draft_type = ?
+        $andLocatorMatches
+      order by coalesce(last_edited_at, created_at) desc
+      """
+    runQueryFindMany(query, values ++ locatorValues, parseDraft)
+  }
+
+
+  override def listDraftsRecentlyEditedFirst(userId: UserId, limit: Int)
+        : immutable.Seq[Draft] = {
+    val query = """
+      -- can use drafts_byuser_editedat_i
+      select * from drafts3
+      where site_id = ? and by_user_id = ?
+      order by coalesce(last_edited_at, created_at) desc
+      limit ?
+      """
+    runQueryFindMany(query, List(siteId.asAnyRef, userId.asAnyRef, limit.asAnyRef), parseDraft)
+  }
+
+
+  private def replyToPostNrsToString(postNrs: immutable.Seq[PostNr]): Option[String] =
+    if (postNrs.isEmpty) None else Some(postNrs.sorted.mkString(","))
+
+
+  private def parseDraft(rs: js.ResultSet): Draft = {
+    val draftType = DraftType.fromInt(rs.getInt("draft_type")) getOrElse DraftType.Reply
+    Draft(
+      byUserId = rs.getInt("by_user_id"),
+      draftNr = rs.getInt("draft_nr"),
+      forWhat = DraftLocator(
+        draftType,
+        categoryId = getOptInt(rs, "category_id"),
+        toUserId = getOptInt(rs, "to_user_id"),
+        postId = getOptInt(rs, "post_id"),
+        pageId = getOptString(rs, "page_id"),
+        postNr = getOptInt(rs, "post_nr"),
+        replyToPostNrs = getOptString(rs, "reply_to_post_nrs").map(
+          _.split(',').map(_.toInt).toVector) getOrElse Vector.empty),
+      createdAt = getWhen(rs, "created_at"),
+      lastEditedAt = getOptWhen(rs, "last_edited_at"),
+      topicType = getOptInt(rs, "topic_type").flatMap(PageRole.fromInt),
+      editBase = getOptString(rs, "edit_base_text") map { baseText =>
+        DraftEditBase(baseText, PostTextVersion(
+          revisionNr = rs.getInt("edit_base_rev_nr"),
+          lastEditedAtMs = getOptWhen(rs, "edit_base_rev_edited_at").map(_.millis)))
+      },
+      title = rs.getString("title"),
+      text = rs.getString("text"))
+  }
+
+}
@@ -0,0 +1,96 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import scala.collection.immutable
+import Rdb._
+
+
+/** Finds the members of the built-in groups, in the database, rather than loading
+  * all users and checking each one's group ids. [5GRPMNT]
+  */
+trait GroupMembersSiteDaoMixin extends SiteTransaction {
+  self: RdbSiteTransaction =>
+
+
+  override def loadGroupMembers(groupId: UserId): immutable.Seq[Member] = {
+    val isMember = isGroupMemberSql(groupId) getOrElse {
+      return Nil
+    }
+    val query = s"""
+      select user_id from users3
+      where site_id = ? and user_id >= ? and is_group is not true
+        and $isMember
+      """
+    val memberIds = runQueryFindMany(query,
+      List(siteId.asAnyRef, User.LowestTalkToMemberId.asAnyRef), _.getInt("user_id"))
+    loadUsers(memberIds) collect { case member: Member => member }
+  }
+
+
+  override def loadGroupMemberCounts(groupIds: Iterable[UserId]): Map[UserId, Int] = {
+    val groupIdsAndSql = groupIds.toVector.distinct flatMap { groupId =>
+      isGroupMemberSql(groupId).map(groupId -> _)
+    }
+    val numMembersByGroupId: Map[UserId, Int] =
+      if (groupIdsAndSql.isEmpty) Map.empty
+      else {
+        // One count per group, in the same query.
+        val countColumns = groupIdsAndSql map { case (groupId, isMember) =>
+          s"count(*) filter (where $isMember) num_members_$groupId"
+        }
+        val query = s"""
+          select ${countColumns.mkString(", ")} from users3
+          where site_id = ? and user_id >= ? and is_group is not true
+          """
+        runQueryFindExactlyOne(query,
+          List(siteId.asAnyRef, User.LowestTalkToMemberId.asAnyRef), rs => {
+            groupIdsAndSql.map({ case (groupId, _) =>
+              groupId -> rs.getInt(s"num_members_$groupId")
+            }).toMap
+          })
+      }
+    groupIds.map(groupId => groupId -> numMembersByGroupId.getOrElse(groupId, 0)).toMap
+  }
+
+
+  /** Sync with SiteTransaction.loadGroupIds(user). Admins aren't in the moderators group,
+    * but in all trust level groups.
+    */
+  private def isGroupMemberSql(groupId: UserId): Option[String] = {
+    val G = Group
+    val isStaff = "(is_admin is true or is_moderator is true)"
+    def hasTrustLevel(level: TrustLevel) =
+      s"($isStaff or coalesce(locked_trust_level, trust_level) >= ${level.toInt})"
+    Some(groupId match {
+      case G.EveryoneId => "true"
+      case G.NewMembersId => hasTrustLevel(TrustLevel.NewMember)
+      case G.BasicMembersId => hasTrustLevel(TrustLevel.BasicMember)
+      case G.FullMembersId => hasTrustLevel(TrustLevel.FullMember)
+      case G.TrustedMembersId => hasTrustLevel(TrustLevel.TrustedMember)
+      case G.RegularMembersId => hasTrustLevel(TrustLevel.RegularMember)
+      case G.CoreMembersId => hasTrustLevel(TrustLevel.CoreMember)
+      case G.StaffId => isStaff
+      case G.ModeratorsId => "(is_moderator is true and is_admin is not true)"
+      case G.AdminsId => "is_admin is true"
+      case _ => return None  // custom groups, later [7JKC1104]
+    })
+  }
+
+}
@@ -0,0 +1,140 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import com.debiki.core.Prelude._
+import java.{sql => js}
+import scala.collection.immutable
+import Rdb._
+import RdbUtil._
+
+
+/** Loads and saves Poll:s and PollVote:s, in polls3, poll_options3 and poll_votes3.
+  */
+trait PollsSiteDaoMixin extends SiteTransaction {
+  self: RdbSiteTransaction =>
+
+
+  override def insertPoll(poll: Poll) {
+    val pollStatement = """
+      insert into polls3 (
+        site_id, post_id, choice_type, closes_at, voters_public, results_visibility)
+      values (?, ?, ?, ?, ?, ?)
+      """
+    runUpdateSingleRow(pollStatement, List(
+      siteId.asAnyRef,
+      poll.postId.asAnyRef,
+      poll.choiceType.toInt.asAnyRef,
+      poll.closesAt.orNullTimestamp,
+      poll.votersPublic.asAnyRef,
+      poll.resultsVisibility.toInt.asAnyRef))
+
+    val optionStatement = """
+      insert into poll_options3 (site_id, post_id, option_nr, text)
+      values (?, ?, ?, ?)
+      """
+    poll.options foreach { option =>
+      runUpdateSingleRow(optionStatement, List(
+        siteId.asAnyRef, poll.postId.asAnyRef, option.nr.asAnyRef, option.text))
+    }
+  }
+
+
+  override def loadPollsByPostIds(postIds: Iterable[PostId]): immutable.Seq[Poll] = {
+    if (postIds.isEmpty) return Nil
+    val values = siteId.asAnyRef :: postIds.toList.map(_.asAnyRef)
+
+    val optionsQuery = s"""
+      select post_id, option_nr, text from poll_options3
+      where site_id = ? and post_id in (${makeInListFor(postIds)})
+      order by post_id, option_nr
+      """
+    val postIdsAndOptions = runQueryFindMany(optionsQuery, values, rs => {
+      rs.getInt("post_id") -> PollOption(nr = rs.getInt("option_nr"), text = rs.getString("text"))
+    })
+    val optionsByPostId: Map[PostId, immutable.Seq[PollOption]] =
+      postIdsAndOptions.groupBy(_._1).mapValues(_.map(_._2))
+
+    val pollsQuery = s"""
+      select * from polls3
+      where site_id = ? and post_id in (${makeInListFor(postIds)})
+      """
+    runQueryFindMany(pollsQuery, values, rs => {
+      val postId = rs.getInt("post_id")
+      Poll(
+        postId = postId,
+        choiceType = PollChoiceType.fromInt(rs.getInt("choice_type")) getOrDie "TyE5WKBP50",
+        options = optionsByPostId.getOrElse(postId, Nil),
+        closesAt = getOptWhen(rs, "closes_at"),
+        votersPublic = rs.getBoolean("voters_public"),
+        resultsVisibility = PollResultsVisibility.fromInt(
+          rs.getInt("results_visibility")) getOrDie "TyE5WKBP51")
+    })
+  }
+
+
+  override def loadPollVotes(postIds: Iterable[PostId]): immutable.Seq[PollVote] = {
+    if (postIds.isEmpty) return Nil
+    val query = s"""
+      select * from poll_votes3
+      where site_id = ? and post_id in (${makeInListFor(postIds)})
+      """
+    runQueryFindMany(query, siteId.asAnyRef :: postIds.toList.map(_.asAnyRef), parsePollVote)
+  }
+
+
+  override def loadPollVotesByVoterOnPage(voterId: UserId, pageId: PageId)
+        : immutable.Seq[PollVote] = {
+    val query = """
+      -- can use pollvotes_voter_i
+      select v.* from poll_votes3 v inner join posts3 p
+        on v.site_id = p.site_id and v.post_id = p.unique_post_id
+      where v.site_id = ? and v.voter_id = ? and p.page_id = ?
+      """
+    runQueryFindMany(query, List(siteId.asAnyRef, voterId.asAnyRef, pageId), parsePollVote)
+  }
+
+
+  override def insertPollVote(vote: PollVote) {
+    val statement = """
+      insert into poll_votes3 (site_id, post_id, voter_id, option_nr, voted_at)
+      values (?, ?, ?, ?, ?)
+      """
+    runUpdateSingleRow(statement, List(
+      siteId.asAnyRef, vote.postId.asAnyRef, vote.voterId.asAnyRef, vote.optionNr.asAnyRef,
+      vote.votedAt.asTimestamp))
+  }
+
+
+  override def deletePollVotes(postId: PostId, voterId: UserId) {
+    val statement = """
+      delete from poll_votes3 where site_id = ? and post_id = ? and voter_id = ?
+      """
+    runUpdate(statement, List(siteId.asAnyRef, postId.asAnyRef, voterId.asAnyRef))
+  }
+
+
+  private def parsePollVote(rs: js.ResultSet): PollVote =
+    PollVote(
+      postId = rs.getInt("post_id"),
+      voterId = rs.getInt("voter_id"),
+      optionNr = rs.getInt("option_nr"),
+      votedAt = getWhen(rs, "voted_at"))
+
+}
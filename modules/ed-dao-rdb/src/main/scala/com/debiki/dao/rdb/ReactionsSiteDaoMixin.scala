@@ -0,0 +1,92 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import java.{sql => js}
+import scala.collection.immutable
+import Rdb._
+import RdbUtil._
+
+
+/** Loads and saves PostReaction:s, in post_reactions3.
+  */
+trait ReactionsSiteDaoMixin extends SiteTransaction {
+  self: RdbSiteTransaction =>
+
+
+  override def insertPostReaction(reaction: PostReaction) {
+    val statement = """
+      insert into post_reactions3 (
+        site_id, post_id, page_id, post_nr, reactor_id, emoji, reacted_at)
+      values (?, ?, ?, ?, ?, ?, ?)
+      """
+    runUpdateSingleRow(statement, List(
+      siteId.asAnyRef,
+      reaction.postId.asAnyRef,
+      reaction.pageId,
+      reaction.postNr.asAnyRef,
+      reaction.reactorId.asAnyRef,
+      reaction.emoji,
+      reaction.reactedAt.asTimestamp))
+  }
+
+
+  override def deletePostReaction(postId: PostId, reactorId: UserId, emoji: String): Boolean = {
+    val statement = """
+      delete from post_reactions3
+      where site_id = ? and post_id = ? and reactor_id = ? and emoji = ?
+      """
+    runUpdateSingleRow(statement, List(
+      siteId.asAnyRef, postId.asAnyRef, reactorId.asAnyRef, emoji))
+  }
+
+
+  override def loadPostReactions(postIds: Iterable[PostId]): immutable.Seq[PostReaction] = {
+    if (postIds.isEmpty) return Nil
+    val query = s"""
+      select * from post_reactions3
+      where site_id = ? and post_id in (${makeInListFor(postIds)})
+      order by reacted_at
+      """
+    runQueryFindMany(query, siteId.asAnyRef :: postIds.toList.map(_.asAnyRef),
+      parsePostReaction)
+  }
+
+
+  override def loadPostReactionsOnPage(pageId: PageId): immutable.Seq[PostReaction] = {
+    val query = """
+      -- can use postreactions_page_i
+      select * from post_reactions3
+      where site_id = ? and page_id = ?
+      order by reacted_at
+      """
+    runQueryFindMany(query, List(siteId.asAnyRef, pageId), parsePostReaction)
+  }
+
+
+  private def parsePostReaction(rs: js.ResultSet): PostReaction =
+    PostReaction(
+      postId = rs.getInt("post_id"),
+      pageId = rs.getString("page_id"),
+      postNr = rs.getInt("post_nr"),
+      reactorId = rs.getInt("reactor_id"),
+      emoji = rs.getString("emoji"),
+      reactedAt = getWhen(rs, "reacted_at"))
+
+}
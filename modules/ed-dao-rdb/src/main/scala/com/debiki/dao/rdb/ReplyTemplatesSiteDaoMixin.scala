@@ -0,0 +1,115 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import java.{sql => js}
+import scala.collection.immutable
+import Rdb._
+import RdbUtil._
+
+
+/** Loads and saves ReplyTemplate:s, in reply_templates3.
+  */
+trait ReplyTemplatesSiteDaoMixin extends SiteTransaction {
+  self: RdbSiteTransaction =>
+
+
+  override def nextReplyTemplateId(): ReplyTemplateId = {
+    val query = """
+      select max(id) max_id from reply_templates3 where site_id = ?
+      """
+    runQueryFindExactlyOne(query, List(siteId.asAnyRef), rs => {
+      val maxId = rs.getInt("max_id") // null becomes 0, fine
+      maxId + 1
+    })
+  }
+
+
+  override def upsertReplyTemplate(template: ReplyTemplate) {
+    val statement = """
+      insert into reply_templates3 (
+        site_id, id, owner_id, category_id, title, text,
+        created_by_id, created_at, updated_at)
+      values (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      on conflict (site_id, id)
+      do update set
+        owner_id = excluded.owner_id,
+        category_id = excluded.category_id,
+        title = excluded.title,
+        text = excluded.text,
+        updated_at = excluded.updated_at
+      """
+    runUpdateSingleRow(statement, List(
+      siteId.asAnyRef,
+      template.id.asAnyRef,
+      template.ownerId.orNullInt,
+      template.categoryId.orNullInt,
+      template.title,
+      template.text,
+      template.createdById.asAnyRef,
+      template.createdAt.asTimestamp,
+      template.updatedAt.asTimestamp))
+  }
+
+
+  override def deleteReplyTemplate(templateId: ReplyTemplateId): Boolean = {
+    val statement = """
+      delete from reply_templates3 where site_id = ? and id = ?
+      """
+    runUpdateSingleRow(statement, List(siteId.asAnyRef, templateId.asAnyRef))
+  }
+
+
+  override def loadReplyTemplate(templateId: ReplyTemplateId): Option[ReplyTemplate] = {
+    val query = """
+      select * from reply_templates3 where site_id = ? and id = ?
+      """
+    runQueryFindOneOrNone(query, List(siteId.asAnyRef, templateId.asAnyRef), parseReplyTemplate)
+  }
+
+
+  override def loadReplyTemplatesVisibleTo(ownerId: UserId): immutable.Seq[ReplyTemplate] = {
+    val query = """
+      select * from reply_templates3
+      where site_id = ? and (owner_id is null or owner_id = ?)
+      """
+    runQueryFindMany(query, List(siteId.asAnyRef, ownerId.asAnyRef), parseReplyTemplate)
+  }
+
+
+  override def countReplyTemplates(): Int = {
+    val query = """
+      select count(*) num from reply_templates3 where site_id = ?
+      """
+    runQueryFindExactlyOne(query, List(siteId.asAnyRef), _.getInt("num"))
+  }
+
+
+  private def parseReplyTemplate(rs: js.ResultSet): ReplyTemplate =
+    ReplyTemplate(
+      id = rs.getInt("id"),
+      ownerId = getOptInt(rs, "owner_id"),
+      categoryId = getOptInt(rs, "category_id"),
+      title = rs.getString("title"),
+      text = rs.getString("text"),
+      createdById = rs.getInt("created_by_id"),
+      createdAt = getWhen(rs, "created_at"),
+      updatedAt = getWhen(rs, "updated_at"))
+
+}
@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import scala.collection.immutable
+import Rdb._
+
+
+/** Finds pages the Janitor should publish, see PageMeta.scheduledPublishAt.
+  */
+trait ScheduledPagesSystemDaoMixin extends SystemTransaction {
+  self: RdbSystemTransaction =>
+
+
+  override def loadPageIdsToPublish(now: When): Map[SiteId, immutable.Seq[PageId]] = {
+    val query = """
+      -- can use pages_scheduledpublishat_i
+      select site_id, page_id from pages3
+      where scheduled_publish_at <= ?
+        and published_at is null
+        and deleted_at is null
+      """
+    val siteAndPageIds = runQueryFindMany(query, List(now.asTimestamp), rs => {
+      rs.getInt("site_id") -> rs.getString("page_id")
+    })
+    siteAndPageIds.groupBy(_._1).mapValues(_.map(_._2))
+  }
+
+}
@@ -0,0 +1,141 @@
+/**
+ * Copyright (c) 2018 Kaj Magnus Lindberg
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU Affero General Public License as
+ * published by the Free Software Foundation, either version 3 of the
+ * License, or (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU Affero General Public License for more details.
+ *
+ * You should have received a copy of the GNU Affero General Public License
+ * along with this program.  If not, see <http://www.gnu.org/licenses/>.
+ */
+
+package com.debiki.dao.rdb
+
+import com.debiki.core._
+import scala.collection.immutable
+import Rdb._
+import RdbUtil._
+
+
+/** Loads the files people have uploaded, for the upload library and the admin area,
+  * from uploads3, upload_refs3 and the UploadFile entries in audit_log3. [5UPLDLIB]
+  */
+trait UploadedFilesSiteDaoMixin extends SiteTransaction {
+  self: RdbSiteTransaction =>
+
+
+  override def loadUploadInfos(uploadRefs: Iterable[UploadRef]): Map[UploadRef, UploadInfo] = {
+    uploadRefs.groupBy(_.baseUrl) flatMap { case (baseUrl, refs) =>
+      val query = s"""
+        select hash_path, size_bytes, mime_type, num_references from uploads3
+        where base_url = ? and hash_path in (${makeInListFor(refs)})
+        """
+      runQueryFindMany(query, baseUrl :: refs.toList.map(_.hashPath), rs => {
+        UploadRef(baseUrl, rs.getString("hash_path")) -> UploadInfo(
+          sizeBytes = rs.getInt("size_bytes"),
+          mimeType = rs.getString("mime_type"),
+          numReferences = rs.getInt("num_references"))
+      })
+    }
+  }
+
+
+  override def loadPostIdsLinkingToUploads(uploadRefs: Iterable[UploadRef])
+        : Map[UploadRef, Set[PostId]] = {
+    val refsAndPostIds = uploadRefs.groupBy(_.baseUrl).toVector flatMap { case (baseUrl, refs) =>
+      val query = s"""
+        select hash_path, post_id from upload_refs3
+        where site_id = ? and base_url = ? and hash_path in (${makeInListFor(refs)})
+        """
+      runQueryFindMany(query, siteId.asAnyRef :: baseUrl :: refs.toList.map(_.hashPath), rs => {
+        UploadRef(baseUrl, rs.getString("hash_path")) -> rs.getInt("post_id")
+      })
+    }
+    refsAndPostIds.groupBy(_._1).mapValues(_.map(_._2).toSet)
+  }
+
+
+  override def loadUploadLogEntriesRecentFirst(uploadedById: Option[UserId], limit: Int)
+        : immutable.Seq[UploadLogEntry] = {
+    val (andDoerIdEq, doerIdValues) = uploadedById match {
+      case Some(userId) => ("and doer_id = ?", List(userId.asAnyRef))
+      case None => ("", Nil)
+    }
+    val query = s"""
+      select * from (
+        select distinct on (upload_hash_path)
+          upload_hash_path, upload_file_name, doer_id, done_at
+        from audit_log3
+        where site_id = ? and did_what = ? and upload_hash_path is not null
+          and forgotten = 0 $andDoerIdEq
+        order by upload_hash_path, done_at desc) latest_per_file
+      order by done_at desc
+      limit ?
+      """
+    val values = List(siteId.asAnyRef, AuditLogEntryType.UploadFile.toInt.asAnyRef) ++
+      doerIdValues ++ List(limit.asAnyRef)
+    runQueryFindMany(query, values, rs => {
+      UploadLogEntry(
+        hashPath = rs.getString("upload_hash_path"),
+        fileName = getOptString(rs, "upload_file_name"),
+        uploadedById = rs.getInt("doer_id"),
+        uploadedAt = getWhen(rs, "done_at"))
+    })
+  }
+
+
+  override def wasUploadedHere(hashPath: String, byUserId: Option[UserId]): Boolean = {
+    val (andDoerIdEq, doerIdValues) = byUserId match {
+      case Some(userId) => ("and doer_id = ?", List(userId.asAnyRef))
+      case None => ("", Nil)
+    }
+    val query = s"""
+      select exists (
+        select 1 from audit_log3
+        where site_id = ? and did_what = ? and upload_hash_path = ? $andDoerIdEq
+        ) was_uploaded
+      """
+    val values = List(siteId.asAnyRef, AuditLogEntryType.UploadFile.toInt.asAnyRef,
+      hashPath) ++ doerIdValues
+    runQueryFindExactlyOne(query, values, _.getBoolean("was_uploaded"))
+  }
+
+
+  override def loadUploaderStats(baseUrl: String, weekAgo: When)
+        : immutable.Seq[UploaderStats] = {
+    // Each file counts once only, as uploaded by whoever uploaded it most recently.
+    // Deleted files (no uploads3 row) aren't counted.
+    val query = """
+      with latest_per_file as (
+        select distinct on (upload_hash_path) upload_hash_path, doer_id, done_at
+        from audit_log3
+        where site_id = ? and did_what = ? and upload_hash_path is not null
+        order by upload_hash_path, done_at desc)
+      select
+        l.doer_id,
+        count(*) num_files,
+        sum(u.size_bytes) num_bytes,
+        coalesce(sum(u.size_bytes) filter (where l.done_at >= ?), 0) num_bytes_last_week
+      from latest_per_file l inner join uploads3 u
+        on u.base_url = ? and u.hash_path = l.upload_hash_path
+      group by l.doer_id
+      order by num_bytes desc, l.doer_id
+      """
+    val values = List(siteId.asAnyRef, AuditLogEntryType.UploadFile.toInt.asAnyRef,
+      weekAgo.asTimestamp, baseUrl)
+    runQueryFindMany(query, values, rs => {
+      UploaderStats(
+        userId = rs.getInt("doer_id"),
+        numFiles = rs.getInt("num_files"),
+        numBytes = rs.getLong("num_bytes"),
+        numBytesLastWeek = rs.getLong("num_bytes_last_week"))
+    })
+  }
+
+}
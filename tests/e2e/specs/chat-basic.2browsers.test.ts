@@ -82,14 +82,15 @@ describe('chat', function() {
     maria.assertNthTextMatches('.esC_M', 3, /is your name/);
   });
 
-  it("A minute elapses, ... the browsers re-send long polling requests", function() { // break out fn? [4KWBFG5]  [8T5WKBQT]
+  it("Minutes elapse, ... the browsers reconnect, or re-send long polling requests", function() { // break out fn? [4KWBFG5]  [8T5WKBQT]
     const mariaReqNrBefore = maria.countLongPollingsDone();
     const owenReqNrBefore = owen.countLongPollingsDone();
 
-    // This'll make the browsers send 2 new long polling requests.
-    everyone.playTimeSeconds(60);
+    // This'll make the browsers send 2 new long polling requests — or reconnect their
+    // WebSockets twice, since they do that every 4 minutes. [7WKBQ2X]
+    everyone.playTimeSeconds(5 * 60);
     everyone.pause(c.MagicTimeoutPollMs + 100);  // ... nr 1 gets sent here
-    everyone.playTimeSeconds(60);
+    everyone.playTimeSeconds(5 * 60);
     everyone.pause(c.MagicTimeoutPollMs + 100);  // ... nr 2
 
     const mariaReqNrAfter = maria.countLongPollingsDone();
@@ -32,6 +32,7 @@ var t_en_US: TalkyardTranslations = t = {
   Categories: "Categories",
   Category: "Category",
   Continue: "Continue",
+  CouldntSendC: "Couldn't send this, which you posted when you were offline:",
   ClickToShow: "Click to show",
   ChangeDots: "Change ...",
   ChatN: "Chat",
@@ -60,10 +61,12 @@ var t_en_US: TalkyardTranslations = t = {
   NameC: "Name:",
   Notifications: "Notifications",
   NotImplemented: "(Not implemented)",
+  NotSentYet: "Not sent yet — waiting for an Internet connection",
   NotYet: "Not yet",
   NoTopics: "No topics.",
   Okay: "Okay",
   OkayDots: "Okay ...",
+  OfflineCopy: "You're offline. This is a saved copy of the page, maybe not the latest version. You can read it, but not reply.",
   Online: "Online",
   PreviewV: "Preview",
   Problem: "Problem",
@@ -132,6 +135,11 @@ var t_en_US: TalkyardTranslations = t = {
   secondsAgo: (numSecs: number) =>
     numSecs === 1 ? "1 second ago" : `${numSecs} seconds ago`,
 
+  UsersTyping: (names: string[]) =>
+    names.length === 1 ? `${names[0]} is typing...` : (
+      names.length === 2 ? `${names[0]} and ${names[1]} are typing...` :
+          `${names.length} people are typing...`),
+
 
   // Input fields, e.g. email, name etc.
 
@@ -557,6 +565,28 @@ var t_en_US: TalkyardTranslations = t = {
     ClickViewEdits: "Click to view old edits",
 
     By: "By ", // ... someones name
+
+    // Shown next to text one has selected in a post, to quote it in a reply.
+    QuoteV: "Quote",
+
+    // The small reply box below the last post, and a button to continue in the full editor.
+    QuickReplyPh: "Write a reply…",
+    OpenFullEditor: "Full editor",
+  },
+
+
+  // Polls
+
+  po: {
+    Vote: "Vote",
+    ChangeVote: "Change vote",
+    RetractVote: "Retract vote",
+    NumVoters: (numVoters: number) => numVoters === 1 ? "1 voter" : `${numVoters} voters`,
+    ClosesAt: "Closes ",
+    Closed: "The poll has closed.",
+    VoteToSeeResults: "Vote to see the results.",
+    ResultsWhenClosed: "The results will be shown when the poll closes.",
+    VotedForThis: "Voted for this:",
   },
 
 
@@ -587,6 +617,7 @@ var t_en_US: TalkyardTranslations = t = {
 
   pa: {
     ReplyToOp: "Reply to the Original Post",
+    AddReaction: "Add a reaction",
 
     CloseOwnQuestionTooltip: "Close this question if you don't need an answer any more.",
     CloseOthersQuestionTooltip: "Close this question if it doesn't need an answer, e.g. if " +
@@ -724,6 +755,8 @@ var t_en_US: TalkyardTranslations = t = {
 
     Preferences: "Preferences",
     Invites: "Invites",
+    Drafts: "Drafts",
+    Uploads: "Uploads",
     About: "About",
     Privacy: "Privacy",
     Account: "Account",
@@ -795,6 +828,31 @@ var t_en_US: TalkyardTranslations = t = {
     InvErrJoinedAlready: "He or she has joined this site already",
     InvErrYouInvAlready: "You have invited him or her already",
 
+    // ----- Drafts page
+
+    DraftsExpl:
+        "Things you've started writing, but haven't posted yet. " +
+        "They're saved automatically, as you type.",
+    NoDrafts: "You have no drafts.",
+    OnlyYouCanSeeDrafts: "Drafts are private — only the author can see them.",
+    DraftForTopic: "New topic",
+    DraftForMessage: "Direct message",
+    DraftForEdits: "Edits",
+    DraftForReply: "Reply",
+    ResumeDraft: "Resume",
+    DiscardDraft: "Discard",
+
+    // ----- Uploads page
+
+    UploadsExpl: "Files you've uploaded. Files that no post links to, you can delete.",
+    NoUploads: "No uploaded files.",
+    OnlyYouCanSeeUploads: "Only the uploader, and admins, can see these files.",
+    UploadLinkedFrom: "Linked from:",
+    UploadInUse: "In use",
+    UploadNotInUse: "Not in use",
+    DeleteUpload: "Delete",
+    DeleteUploadQ: "Delete this file? This cannot be undone.",
+
     // ----- Preferences, About
 
     AboutYou: "About you",
@@ -1033,7 +1091,6 @@ var t_en_US: TalkyardTranslations = t = {
 
   e: {
     WritingSomethingWarning: "You were writing something?",
-    UploadMaxOneFile: "Sorry but currently you can upload only one file at a time",
     PleaseFinishPost: "Please first finish writing your post",
     PleaseFinishChatMsg: "Please first finish writing your chat message",
     PleaseFinishMsg: "Please first finish writing your message",
@@ -1101,9 +1158,15 @@ var t_en_US: TalkyardTranslations = t = {
     Submit: "Submit",
     problem: "problem",
 
+    Schedule: "Schedule",
+    PublishLater: "Publish later ...",
+    PublishAt: "Publish at: ",
+    PublishDirectly: "Publish directly instead",
+
     ViewOldEdits: "View old edits",
 
     UploadBtnTooltip: "Upload a file or image",
+    PrevUploadsBtnTooltip: "Insert a file you've uploaded before",
     BoldBtnTooltip: "Make text bold",
     EmBtnTooltip: "Emphasize",
     QuoteBtnTooltip: "Quote",
@@ -1126,6 +1189,77 @@ var t_en_US: TalkyardTranslations = t = {
 
     PreviewInfo: "Here you can preview how your post will look.",
     CannotType: "You cannot type here.",
+
+    SavingDraft: "Saving draft ...",
+    DraftSaved: "Draft saved.",
+    DraftRestored: "Continuing your draft.",
+    CannotSaveDraft: "Couldn't save draft.",
+
+    AddPoll: "Add poll",
+    RemovePoll: "Remove poll",
+    PollOptionN: (optionNr: number) => `Option ${optionNr}`,
+    AddPollOption: "Add option",
+    SingleChoice: "One choice",
+    MultipleChoice: "Multiple choices",
+    PollClosesAtC: "Closes at (optional):",
+    PollNeedsOptions: "Please type at least two poll options.",
+    PollNeedsCloseDate: "Please choose when the poll closes, otherwise the results will never be shown.",
+    PollShowVoters: "Show who voted for what",
+    PollShowResultsC: "Show results:",
+    PollResultsAlways: "always",
+    PollResultsAfterVoting: "after having voted",
+    PollResultsAfterClosed: "after the poll has closed",
+
+    SlashCodeBlock: "Code block",
+    SlashTable: "Table",
+    SlashPoll: "Poll",
+    SlashUpload: "Upload a file or image",
+    SlashPrevUpload: "Insert a file you've uploaded before",
+    SlashMentionGroup: "Mention group",
+    NumWillBeNotified: (numPeople: number) =>
+        numPeople === 1 ? "1 person will be notified" : `${numPeople} people will be notified`,
+
+    InsertReplyTemplate: "Insert reply template",
+    SearchReplyTemplatesPh: "Search reply templates",
+    NoReplyTemplates: "No reply templates, yet.",
+    NoMatchingTemplates: "No matching templates.",
+    TemplateIsYours: "(yours)",
+    ManageReplyTemplates: "Manage templates",
+
+    SearchUploadsPh: "Search your uploads",
+    NoUploadsYet: "You haven't uploaded any files yet.",
+    NoMatchingUploads: "No matching files.",
+    ManageUploads: "Manage your uploads",
+
+    YourEdits: "Your edits",
+    OthersEdits: "Someone else's edits",
+    EditsMergedCheckThenSave:
+        "Someone else edited this post, while you were editing it. " +
+        "Hens edits have been merged with yours — please have a look, then save again.",
+    EditConflictsToResolve: (numConflicts: number) =>
+        "Someone else edited this post, while you were editing it. " +
+        (numConflicts === 1 ? "One place" : `${numConflicts} places`) +
+        " got edited by both of you — look for <<<<<<< and >>>>>>>, " +
+        "keep the text you want, and remove those lines. Then save again.",
+    ResolveConflictsFirst:
+        "Please resolve the edit conflicts first: remove the <<<<<<<, ======= and >>>>>>> lines.",
+
+    ChkImageNoAlt:
+        "Some images lack a description, for people who cannot see them. " +
+        "Type one between the brackets: ![description](image-url)",
+    ChkCouldOnebox:
+        "There's a link that could be shown as a preview (e.g. an image or video), " +
+        "if you place it on a line of its own.",
+    ChkUnclosedCodeBlock: (fence: string) =>
+        `A code block is never closed — add a line with ${fence} where the code ends.`,
+    ChkLongCodeLines: (maxLength: number) =>
+        `Some lines of code are longer than ${maxLength} characters, ` +
+        "and might be hard to read. Maybe break them into shorter lines?",
+    ChkCannotSeePage: (usernames: string) =>
+        `${usernames} cannot see this page, and won't get notified.`,
+    ChkTopicClosed: "This topic has been closed. Do you still want to reply?",
+    ChkTopicSolved: "This topic has been answered or solved already. Do you still want to reply?",
+    ChkSaveAnyway: "Click Save again to save anyway.",
   },
 
 
@@ -1161,6 +1295,19 @@ var t_en_US: TalkyardTranslations = t = {
   // Search dialogs and the search page.
   s: {
     TxtToFind: "Text to search for",
+  },
+
+
+  // Undo toast, e.g. "Post deleted.  [Undo (12)]"
+  ut: {
+    PostHidden: "Post hidden.",
+    PostDeleted: "Post deleted.",
+    PostAndRepliesDeleted: "Post and replies deleted.",
+    AnswerNotRestored: "Undo won't mark it as the answer again.",
+    PostMoved: "Post moved.",
+    PageDeleted: "Page deleted.",
+    NumPagesDeleted: (numPages: number) => `${numPages} pages deleted.`,
+    UndoCountdown: (secondsLeft: number) => `Undo (${secondsLeft})`,
   }
 
 };
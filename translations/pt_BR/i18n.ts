@@ -32,6 +32,7 @@ var t_pt_BR: TalkyardTranslations = t = {
   Categories: "Categorias",
   Category: "Categoria",
   Continue: "Continuar",
+  CouldntSendC: "Couldn't send this, which you posted when you were offline:",  // MISSING
   ClickToShow: "Click to show",  // MISSING
   ChangeDots: "Modificar ...",
   ChatN: "Chat",
@@ -60,10 +61,12 @@ var t_pt_BR: TalkyardTranslations = t = {
   NameC: "Nome:",
   Notifications: "Notifications",  // MISSING
   NotImplemented: "(Não implementado)",
+  NotSentYet: "Not sent yet — waiting for an Internet connection",  // MISSING
   NotYet: "Ainda não",
   NoTopics: "Nenhum tópico.",
   Okay: "Ok",
   OkayDots: "Ok ...",
+  OfflineCopy: "You're offline. This is a saved copy of the page, maybe not the latest version. You can read it, but not reply.",  // MISSING
   Online: "Online",
   PreviewV: "Prever",
   Problem: "Problema",
@@ -134,6 +137,11 @@ var t_pt_BR: TalkyardTranslations = t = {
   secondsAgo: (numSecs: number) =>
     numSecs === 1 ? "1 second ago" : `${numSecs} seconds ago`,
 
+  UsersTyping: (names: string[]) =>  // MISSING
+    names.length === 1 ? `${names[0]} is typing...` : (
+      names.length === 2 ? `${names[0]} and ${names[1]} are typing...` :
+          `${names.length} people are typing...`),
+
 
   // Input fields, e.g. email, name etc.
 
@@ -561,6 +569,28 @@ var t_pt_BR: TalkyardTranslations = t = {
     ClickViewEdits: "Clique para visualizar edições antigas",
 
     By: "Por ", // ... someones name
+
+    // Shown next to text one has selected in a post, to quote it in a reply.
+    QuoteV: "Citar",
+
+    // The small reply box below the last post, and a button to continue in the full editor.
+    QuickReplyPh: "Escreva uma resposta…",
+    OpenFullEditor: "Editor completo",
+  },
+
+
+  // Polls
+
+  po: {
+    Vote: "Votar",
+    ChangeVote: "Mudar voto",
+    RetractVote: "Retirar voto",
+    NumVoters: (numVoters: number) => numVoters === 1 ? "1 votante" : `${numVoters} votantes`,
+    ClosesAt: "Fecha em ",
+    Closed: "A enquete foi fechada.",
+    VoteToSeeResults: "Vote para ver os resultados.",
+    ResultsWhenClosed: "Os resultados serão mostrados quando a enquete fechar.",
+    VotedForThis: "Votaram nisto:",
   },
 
 
@@ -591,6 +621,7 @@ var t_pt_BR: TalkyardTranslations = t = {
 
   pa: {
     ReplyToOp: "Responder ao Post Original",
+    AddReaction: "Adicionar uma reação",
 
     CloseOwnQuestionTooltip: "Feche esta pergunta se você não precisa mais de uma resposta.",
     CloseOthersQuestionTooltip: "Feche esta pergunta se você não precisa de uma resposta, por exemplo, se " +
@@ -728,6 +759,8 @@ var t_pt_BR: TalkyardTranslations = t = {
 
     Preferences: "Preferências",
     Invites: "Convites",
+    Drafts: "Rascunhos",
+    Uploads: "Uploads",
     About: "Sobre",
     Privacy: "Privacidade",
     Account: "Conta",
@@ -799,6 +832,31 @@ var t_pt_BR: TalkyardTranslations = t = {
     InvErrJoinedAlready: "A pessoa já se associou a este site",
     InvErrYouInvAlready: "Você já convidou a pessoa",
 
+    // ----- Drafts page
+
+    DraftsExpl:
+        "Coisas que você começou a escrever, mas ainda não publicou. " +
+        "Elas são salvas automaticamente enquanto você digita.",
+    NoDrafts: "Você não tem rascunhos.",
+    OnlyYouCanSeeDrafts: "Rascunhos são privados — somente o autor pode vê-los.",
+    DraftForTopic: "Novo tópico",
+    DraftForMessage: "Mensagem direta",
+    DraftForEdits: "Edições",
+    DraftForReply: "Resposta",
+    ResumeDraft: "Continuar",
+    DiscardDraft: "Descartar",
+
+    // ----- Uploads page
+
+    UploadsExpl: "Arquivos que você enviou. Arquivos aos quais nenhum post faz link, você pode excluir.",
+    NoUploads: "Nenhum arquivo enviado.",
+    OnlyYouCanSeeUploads: "Somente quem enviou os arquivos, e os administradores, podem vê-los.",
+    UploadLinkedFrom: "Linkado de:",
+    UploadInUse: "Em uso",
+    UploadNotInUse: "Não está em uso",
+    DeleteUpload: "Excluir",
+    DeleteUploadQ: "Excluir este arquivo? Isso não pode ser desfeito.",
+
     // ----- Preferences, About
 
     AboutYou: "Sobre você",
@@ -1037,7 +1095,6 @@ var t_pt_BR: TalkyardTranslations = t = {
 
   e: {
     WritingSomethingWarning: "Você estava escrevendo alguma coisa?",
-    UploadMaxOneFile: "Desculpe, mas atualmente você só pode fazer upoad de apenas um arquivo por vez",
     PleaseFinishPost: "Por favor termine primeiro de escrever seu post",
     PleaseFinishChatMsg: "Por favor termine primeiro de escrever sua mensagem de chat",
     PleaseFinishMsg: "Por favor termine primeiro de escrever sua mensagem",
@@ -1105,9 +1162,15 @@ var t_pt_BR: TalkyardTranslations = t = {
     Submit: "Enviar",
     problem: "problema",
 
+    Schedule: "Schedule",                         // MISSING
+    PublishLater: "Publish later ...",            // MISSING
+    PublishAt: "Publish at: ",                    // MISSING
+    PublishDirectly: "Publish directly instead",  // MISSING
+
     ViewOldEdits: "Visualizar edições anteriores",
 
     UploadBtnTooltip: "Fazer upload de arquivo ou imagem",
+    PrevUploadsBtnTooltip: "Inserir um arquivo que você enviou antes",
     BoldBtnTooltip: "Tornar texto negrito",
     EmBtnTooltip: "Tornar texto itálico",
     QuoteBtnTooltip: "Citação",
@@ -1130,6 +1193,77 @@ var t_pt_BR: TalkyardTranslations = t = {
 
     PreviewInfo: "Aqui você pode pré-visualizar como seu post vai ficar.",
     CannotType: "Você não pode digitar aqui.",
+
+    SavingDraft: "Salvando rascunho ...",
+    DraftSaved: "Rascunho salvo.",
+    DraftRestored: "Continuando seu rascunho.",
+    CannotSaveDraft: "Não foi possível salvar o rascunho.",
+
+    AddPoll: "Adicionar enquete",
+    RemovePoll: "Remover enquete",
+    PollOptionN: (optionNr: number) => `Opção ${optionNr}`,
+    AddPollOption: "Adicionar opção",
+    SingleChoice: "Uma escolha",
+    MultipleChoice: "Múltiplas escolhas",
+    PollClosesAtC: "Fecha em (opcional):",
+    PollNeedsOptions: "Por favor digite pelo menos duas opções.",
+    PollNeedsCloseDate: "Por favor escolha quando a enquete fecha, senão os resultados nunca serão mostrados.",
+    PollShowVoters: "Mostrar quem votou em quê",
+    PollShowResultsC: "Mostrar resultados:",
+    PollResultsAlways: "sempre",
+    PollResultsAfterVoting: "depois de votar",
+    PollResultsAfterClosed: "depois que a enquete fechar",
+
+    SlashCodeBlock: "Bloco de código",
+    SlashTable: "Tabela",
+    SlashPoll: "Enquete",
+    SlashUpload: "Enviar um arquivo ou imagem",
+    SlashPrevUpload: "Inserir um arquivo que você enviou antes",
+    SlashMentionGroup: "Mencionar grupo",
+    NumWillBeNotified: (numPeople: number) =>
+        numPeople === 1 ? "1 pessoa será notificada" : `${numPeople} pessoas serão notificadas`,
+
+    InsertReplyTemplate: "Inserir modelo de resposta",
+    SearchReplyTemplatesPh: "Pesquisar modelos de resposta",
+    NoReplyTemplates: "Nenhum modelo de resposta, ainda.",
+    NoMatchingTemplates: "Nenhum modelo corresponde.",
+    TemplateIsYours: "(seu)",
+    ManageReplyTemplates: "Gerenciar modelos",
+
+    SearchUploadsPh: "Pesquisar seus uploads",
+    NoUploadsYet: "Você ainda não enviou nenhum arquivo.",
+    NoMatchingUploads: "Nenhum arquivo corresponde.",
+    ManageUploads: "Gerenciar seus uploads",
+
+    YourEdits: "Suas edições",
+    OthersEdits: "Edições de outra pessoa",
+    EditsMergedCheckThenSave:
+        "Outra pessoa editou este post enquanto você o editava. " +
+        "As edições dela foram mescladas com as suas — dê uma olhada e salve novamente.",
+    EditConflictsToResolve: (numConflicts: number) =>
+        "Outra pessoa editou este post enquanto você o editava. " +
+        (numConflicts === 1 ? "Um trecho foi editado" : `${numConflicts} trechos foram editados`) +
+        " por vocês dois — procure por <<<<<<< e >>>>>>>, " +
+        "mantenha o texto que você quer e remova essas linhas. Depois salve novamente.",
+    ResolveConflictsFirst:
+        "Por favor, resolva os conflitos de edição primeiro: remova as linhas <<<<<<<, ======= e >>>>>>>.",
+
+    ChkImageNoAlt:
+        "Algumas imagens não têm descrição, para pessoas que não podem vê-las. " +
+        "Digite uma entre os colchetes: ![descrição](url-da-imagem)",
+    ChkCouldOnebox:
+        "Há um link que poderia ser mostrado como uma pré-visualização (ex.: uma imagem ou vídeo), " +
+        "se você colocá-lo em uma linha própria.",
+    ChkUnclosedCodeBlock: (fence: string) =>
+        `Um bloco de código nunca é fechado — adicione uma linha com ${fence} onde o código termina.`,
+    ChkLongCodeLines: (maxLength: number) =>
+        `Algumas linhas de código têm mais de ${maxLength} caracteres, ` +
+        "e podem ser difíceis de ler. Talvez quebrá-las em linhas mais curtas?",
+    ChkCannotSeePage: (usernames: string) =>
+        `${usernames} não pode ver esta página, e não será notificado.`,
+    ChkTopicClosed: "Este tópico foi fechado. Você ainda quer responder?",
+    ChkTopicSolved: "Este tópico já foi respondido ou resolvido. Você ainda quer responder?",
+    ChkSaveAnyway: "Clique em Salvar novamente para salvar mesmo assim.",
   },
 
 
@@ -1165,6 +1299,19 @@ var t_pt_BR: TalkyardTranslations = t = {
   // Search dialogs and the search page.
   s: {
     TxtToFind: "Text to search for",  // MISSING
+  },
+
+
+  // Undo toast, e.g. "Post deleted.  [Undo (12)]"
+  ut: {
+    PostHidden: "Post hidden.",                                           // MISSING
+    PostDeleted: "Post deleted.",                                         // MISSING
+    PostAndRepliesDeleted: "Post and replies deleted.",                   // MISSING
+    AnswerNotRestored: "Undo won't mark it as the answer again.",         // MISSING
+    PostMoved: "Post moved.",                                             // MISSING
+    PageDeleted: "Page deleted.",                                         // MISSING
+    NumPagesDeleted: (numPages: number) => `${numPages} pages deleted.`,  // MISSING
+    UndoCountdown: (secondsLeft: number) => `Undo (${secondsLeft})`,      // MISSING
   }
 
 };
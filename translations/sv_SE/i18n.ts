@@ -32,6 +32,7 @@ var t_sv_SE: TalkyardTranslations = t = {
   Categories: "Categories",
   Category: "Category",
   Continue: "Continue",
+  CouldntSendC: "Couldn't send this, which you posted when you were offline:",  // MISSING
   ClickToShow: "Click to show",
   ChangeDots: "Change ...",
   ChatN: "Chat",
@@ -60,10 +61,12 @@ var t_sv_SE: TalkyardTranslations = t = {
   NameC: "Name:",
   Notifications: "Notifications",
   NotImplemented: "(Not implemented)",
+  NotSentYet: "Not sent yet — waiting for an Internet connection",  // MISSING
   NotYet: "Not yet",
   NoTopics: "No topics.",
   Okay: "Okay",
   OkayDots: "Okay ...",
+  OfflineCopy: "You're offline. This is a saved copy of the page, maybe not the latest version. You can read it, but not reply.",  // MISSING
   Online: "Online",
   PreviewV: "Preview",
   Problem: "Problem",
@@ -132,6 +135,11 @@ var t_sv_SE: TalkyardTranslations = t = {
   secondsAgo: (numSecs: number) =>
     numSecs === 1 ? "1 second ago" : `${numSecs} seconds ago`,
 
+  UsersTyping: (names: string[]) =>  // MISSING
+    names.length === 1 ? `${names[0]} is typing...` : (
+      names.length === 2 ? `${names[0]} and ${names[1]} are typing...` :
+          `${names.length} people are typing...`),
+
 
   // Input fields, e.g. email, name etc.
 
@@ -557,6 +565,28 @@ var t_sv_SE: TalkyardTranslations = t = {
     ClickViewEdits: "Click to view old edits",
 
     By: "By ", // ... someones name
+
+    // Shown next to text one has selected in a post, to quote it in a reply.
+    QuoteV: "Citera",
+
+    // The small reply box below the last post, and a button to continue in the full editor.
+    QuickReplyPh: "Skriv ett svar…",
+    OpenFullEditor: "Stor editor",
+  },
+
+
+  // Polls
+
+  po: {
+    Vote: "Rösta",
+    ChangeVote: "Ändra röst",
+    RetractVote: "Ta tillbaka röst",
+    NumVoters: (numVoters: number) => numVoters === 1 ? "1 röst" : `${numVoters} röster`,
+    ClosesAt: "Stänger ",
+    Closed: "Omröstningen har stängt.",
+    VoteToSeeResults: "Rösta för att se resultatet.",
+    ResultsWhenClosed: "Resultatet visas när omröstningen stänger.",
+    VotedForThis: "Röstade på detta:",
   },
 
 
@@ -587,6 +617,7 @@ var t_sv_SE: TalkyardTranslations = t = {
 
   pa: {
     ReplyToOp: "Reply to the Original Post",
+    AddReaction: "Reagera",
 
     CloseOwnQuestionTooltip: "Close this question if you don't need an answer any more.",
     CloseOthersQuestionTooltip: "Close this question if it doesn't need an answer, e.g. if " +
@@ -724,6 +755,8 @@ var t_sv_SE: TalkyardTranslations = t = {
 
     Preferences: "Preferences",
     Invites: "Invites",
+    Drafts: "Utkast",
+    Uploads: "Uppladdningar",
     About: "About",
     Privacy: "Privacy",
     Account: "Account",
@@ -795,6 +828,31 @@ var t_sv_SE: TalkyardTranslations = t = {
     InvErrJoinedAlready: "He or she has joined this site already",
     InvErrYouInvAlready: "You have invited him or her already",
 
+    // ----- Drafts page
+
+    DraftsExpl:
+        "Sådant du har börjat skriva, men inte publicerat än. " +
+        "Det sparas automatiskt medan du skriver.",
+    NoDrafts: "Du har inga utkast.",
+    OnlyYouCanSeeDrafts: "Utkast är privata — bara den som skrivit dem kan se dem.",
+    DraftForTopic: "Nytt ämne",
+    DraftForMessage: "Direktmeddelande",
+    DraftForEdits: "Ändringar",
+    DraftForReply: "Svar",
+    ResumeDraft: "Fortsätt",
+    DiscardDraft: "Släng",
+
+    // ----- Uploads page
+
+    UploadsExpl: "Filer du har laddat upp. Filer som inga inlägg länkar till, kan du radera.",
+    NoUploads: "Inga uppladdade filer.",
+    OnlyYouCanSeeUploads: "Bara den som laddat upp filerna, och admins, kan se dem.",
+    UploadLinkedFrom: "Länkas från:",
+    UploadInUse: "Används",
+    UploadNotInUse: "Används inte",
+    DeleteUpload: "Radera",
+    DeleteUploadQ: "Radera filen? Det går inte att ångra.",
+
     // ----- Preferences, About
 
     AboutYou: "About you",
@@ -1033,7 +1091,6 @@ var t_sv_SE: TalkyardTranslations = t = {
 
   e: {
     WritingSomethingWarning: "You were writing something?",
-    UploadMaxOneFile: "Sorry but currently you can upload only one file at a time",
     PleaseFinishPost: "Please first finish writing your post",
     PleaseFinishChatMsg: "Please first finish writing your chat message",
     PleaseFinishMsg: "Please first finish writing your message",
@@ -1101,9 +1158,15 @@ var t_sv_SE: TalkyardTranslations = t = {
     Submit: "Submit",
     problem: "problem",
 
+    Schedule: "Schedule",                         // MISSING
+    PublishLater: "Publish later ...",            // MISSING
+    PublishAt: "Publish at: ",                    // MISSING
+    PublishDirectly: "Publish directly instead",  // MISSING
+
     ViewOldEdits: "View old edits",
 
     UploadBtnTooltip: "Upload a file or image",
+    PrevUploadsBtnTooltip: "Infoga en fil du laddat upp tidigare",
     BoldBtnTooltip: "Make text bold",
     EmBtnTooltip: "Emphasize",
     QuoteBtnTooltip: "Quote",
@@ -1126,6 +1189,77 @@ var t_sv_SE: TalkyardTranslations = t = {
 
     PreviewInfo: "Here you can preview how your post will look.",
     CannotType: "You cannot type here.",
+
+    SavingDraft: "Sparar utkast ...",
+    DraftSaved: "Utkast sparat.",
+    DraftRestored: "Fortsätter ditt utkast.",
+    CannotSaveDraft: "Kunde inte spara utkast.",
+
+    AddPoll: "Lägg till omröstning",
+    RemovePoll: "Ta bort omröstning",
+    PollOptionN: (optionNr: number) => `Alternativ ${optionNr}`,
+    AddPollOption: "Lägg till alternativ",
+    SingleChoice: "Ett val",
+    MultipleChoice: "Flera val",
+    PollClosesAtC: "Stänger (valfritt):",
+    PollNeedsOptions: "Skriv minst två alternativ, tack.",
+    PollNeedsCloseDate: "Välj när omröstningen stänger, annars visas resultatet aldrig.",
+    PollShowVoters: "Visa vem som röstade på vad",
+    PollShowResultsC: "Visa resultatet:",
+    PollResultsAlways: "alltid",
+    PollResultsAfterVoting: "efter att man röstat",
+    PollResultsAfterClosed: "när omröstningen stängt",
+
+    SlashCodeBlock: "Kodblock",
+    SlashTable: "Tabell",
+    SlashPoll: "Omröstning",
+    SlashUpload: "Ladda upp en fil eller bild",
+    SlashPrevUpload: "Infoga en fil du laddat upp tidigare",
+    SlashMentionGroup: "Nämn grupp",
+    NumWillBeNotified: (numPeople: number) =>
+        numPeople === 1 ? "1 person får en notifiering" : `${numPeople} personer får en notifiering`,
+
+    InsertReplyTemplate: "Infoga svarsmall",
+    SearchReplyTemplatesPh: "Sök bland svarsmallarna",
+    NoReplyTemplates: "Inga svarsmallar, än.",
+    NoMatchingTemplates: "Inga mallar matchar.",
+    TemplateIsYours: "(din)",
+    ManageReplyTemplates: "Hantera mallar",
+
+    SearchUploadsPh: "Sök bland dina uppladdningar",
+    NoUploadsYet: "Du har inte laddat upp några filer än.",
+    NoMatchingUploads: "Inga filer matchar.",
+    ManageUploads: "Hantera dina uppladdningar",
+
+    YourEdits: "Dina ändringar",
+    OthersEdits: "Någon annans ändringar",
+    EditsMergedCheckThenSave:
+        "Någon annan redigerade inlägget, medan du redigerade det. " +
+        "Hens ändringar har slagits ihop med dina — titta igenom texten, och spara sedan igen.",
+    EditConflictsToResolve: (numConflicts: number) =>
+        "Någon annan redigerade inlägget, medan du redigerade det. " +
+        (numConflicts === 1 ? "Ett ställe" : `${numConflicts} ställen`) +
+        " ändrades av er båda — leta efter <<<<<<< och >>>>>>>, " +
+        "behåll texten du vill ha, och ta bort de raderna. Spara sedan igen.",
+    ResolveConflictsFirst:
+        "Lös redigeringskonflikterna först: ta bort raderna med <<<<<<<, ======= och >>>>>>>.",
+
+    ChkImageNoAlt:
+        "Några bilder saknar beskrivning, för den som inte kan se dem. " +
+        "Skriv en mellan hakparenteserna: ![beskrivning](bild-url)",
+    ChkCouldOnebox:
+        "Det finns en länk som kan visas som förhandsvisning (t.ex. en bild eller video), " +
+        "om du lägger den på en egen rad.",
+    ChkUnclosedCodeBlock: (fence: string) =>
+        `Ett kodblock avslutas aldrig — lägg till en rad med ${fence} där koden slutar.`,
+    ChkLongCodeLines: (maxLength: number) =>
+        `Några kodrader är längre än ${maxLength} tecken, ` +
+        "och kan vara svåra att läsa. Dela upp dem i kortare rader?",
+    ChkCannotSeePage: (usernames: string) =>
+        `${usernames} kan inte se den här sidan, och får ingen notifiering.`,
+    ChkTopicClosed: "Ämnet har stängts. Vill du svara ändå?",
+    ChkTopicSolved: "Ämnet har redan besvarats eller lösts. Vill du svara ändå?",
+    ChkSaveAnyway: "Klicka Spara igen för att spara ändå.",
   },
 
 
@@ -1161,6 +1295,19 @@ var t_sv_SE: TalkyardTranslations = t = {
   // Search dialogs and the search page.
   s: {
     TxtToFind: "Text to search for",
+  },
+
+
+  // Undo toast, e.g. "Post deleted.  [Undo (12)]"
+  ut: {
+    PostHidden: "Post hidden.",                                           // MISSING
+    PostDeleted: "Post deleted.",                                         // MISSING
+    PostAndRepliesDeleted: "Post and replies deleted.",                   // MISSING
+    AnswerNotRestored: "Undo won't mark it as the answer again.",         // MISSING
+    PostMoved: "Post moved.",                                             // MISSING
+    PageDeleted: "Page deleted.",                                         // MISSING
+    NumPagesDeleted: (numPages: number) => `${numPages} pages deleted.`,  // MISSING
+    UndoCountdown: (secondsLeft: number) => `Undo (${secondsLeft})`,      // MISSING
   }
 
 };